@@ -1,4 +1,8 @@
 import '@testing-library/jest-dom'
+import { TextEncoder, TextDecoder } from 'util'
+
+// jsdom does not provide the Encoding API
+Object.assign(global, { TextEncoder, TextDecoder })
 
 // Mock HLS.js
 jest.mock('hls.js', () => ({
@@ -28,8 +32,8 @@ const localStorageMock = {
 }
 global.localStorage = localStorageMock
 
-// Mock window.matchMedia
-Object.defineProperty(window, 'matchMedia', {
+// Mock window.matchMedia (suites on the node environment have no window)
+if (typeof window !== 'undefined') Object.defineProperty(window, 'matchMedia', {
   writable: true,
   value: jest.fn().mockImplementation(query => ({
     matches: false,
@@ -0,0 +1,32 @@
+import {
+  DEFAULT_CLEARKEY_KEY,
+  buildClearKeyLicense,
+  parseClearKeyKeys,
+  parseClearKeyRequest,
+} from '@/utils/clearKey';
+
+// CLEARKEY_KEYS=kid:key,kid:key (hex) overrides the development key
+const KEYS = process.env.CLEARKEY_KEYS
+  ? parseClearKeyKeys(process.env.CLEARKEY_KEYS)
+  : { [DEFAULT_CLEARKEY_KEY.keyId]: DEFAULT_CLEARKEY_KEY.key };
+
+/**
+ * ClearKey license server for local DRM testing. Takes the CDM's license
+ * request and answers with the matching keys as a JWK set.
+ */
+export async function POST(request: Request) {
+  try {
+    const licenseRequest = parseClearKeyRequest(await request.text());
+    const license = buildClearKeyLicense(licenseRequest, KEYS);
+
+    if (license.keys.length === 0) {
+      return new Response('No keys for the requested key IDs', { status: 404 });
+    }
+
+    return Response.json(license, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    return new Response(error instanceof Error ? error.message : 'Invalid license request', { status: 400 });
+  }
+}
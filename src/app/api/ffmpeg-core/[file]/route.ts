@@ -0,0 +1,40 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+
+const CORE_DIR = join(process.cwd(), 'node_modules', '@ffmpeg', 'core', 'dist', 'umd');
+
+const CORE_FILES: Record<string, string> = {
+  'ffmpeg-core.js': 'text/javascript',
+  'ffmpeg-core.wasm': 'application/wasm',
+};
+
+/**
+ * Serve the ffmpeg.wasm core from the installed @ffmpeg/core package so the
+ * converter works without reaching a CDN.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ file: string }> }
+) {
+  const { file } = await params;
+  const contentType = CORE_FILES[file];
+
+  if (!contentType) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  try {
+    const data = await readFile(join(CORE_DIR, file));
+
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': data.length.toString(),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to read FFmpeg core file:', error);
+    return new Response('FFmpeg core is not installed', { status: 500 });
+  }
+}
@@ -1,6 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAdaptiveStreaming, UseAdaptiveStreamingOptions } from '../hooks/useAdaptiveStreaming';
+import { useABTesting } from '../hooks/useABTesting';
 import { AdaptiveStreamingConfig, QualityLevel } from '../utils/adaptiveStreaming';
+import { AbrRuleName } from '../utils/abrRules';
+import {
+  NETWORK_PROFILES,
+  NetworkProfileName,
+  createNetworkEmulator,
+  parseNetworkTrace
+} from '../utils/networkEmulator';
 
 interface AdaptiveStreamingDashboardProps {
   videoElement: HTMLVideoElement | null;
@@ -32,7 +40,7 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
         resolution: { width: 426, height: 240 },
         codec: 'avc1.42E01E',
         mimeType: 'video/mp4',
-        url: '/streams/240p/',
+        url: '/streams/240p/index.m3u8',
         bandwidth: 400000
       },
       {
@@ -41,7 +49,7 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
         resolution: { width: 640, height: 360 },
         codec: 'avc1.4D401F',
         mimeType: 'video/mp4',
-        url: '/streams/360p/',
+        url: '/streams/360p/index.m3u8',
         bandwidth: 800000
       },
       {
@@ -50,7 +58,7 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
         resolution: { width: 854, height: 480 },
         codec: 'avc1.4D401F',
         mimeType: 'video/mp4',
-        url: '/streams/480p/',
+        url: '/streams/480p/index.m3u8',
         bandwidth: 1200000
       },
       {
@@ -59,7 +67,7 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
         resolution: { width: 1280, height: 720 },
         codec: 'avc1.4D401F',
         mimeType: 'video/mp4',
-        url: '/streams/720p/',
+        url: '/streams/720p/index.m3u8',
         bandwidth: 2500000
       },
       {
@@ -68,7 +76,7 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
         resolution: { width: 1920, height: 1080 },
         codec: 'avc1.4D4020',
         mimeType: 'video/mp4',
-        url: '/streams/1080p/',
+        url: '/streams/1080p/index.m3u8',
         bandwidth: 5000000
       }
     ],
@@ -82,9 +90,22 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
     qualitySwitchThreshold: 0.8
   });
 
+  // The adaptive_bitrate_v2 variant decides which ABR rules run
+  const { isLoading: isAbTestLoading, getConfigValue } = useABTesting('adaptive_bitrate_v2');
+  const abrRules = getConfigValue('abr_rules') as AbrRuleName[] | undefined;
+  // Segment requests go through the emulator, which passes them on untouched until a profile is picked
+  const networkEmulator = useMemo(() => createNetworkEmulator(), []);
+  const [networkProfile, setNetworkProfile] = useState('off');
+  const streamingConfig = useMemo<AdaptiveStreamingConfig>(() => ({
+    ...config,
+    abr: abrRules ? { ...config.abr, rules: abrRules } : config.abr,
+    segmentLoader: { ...config.segmentLoader, fetch: networkEmulator.fetch }
+  }), [config, abrRules, networkEmulator]);
+
   const adaptiveStreamingOptions: UseAdaptiveStreamingOptions = {
-    videoElement,
-    config,
+    // Hold off until the variant is known so the engine starts with its rules
+    videoElement: isAbTestLoading ? null : videoElement,
+    config: streamingConfig,
     onQualityChange,
     onRebuffering,
     onNetworkChange
@@ -99,7 +120,9 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
     metrics,
     networkMetrics,
     bufferHealth,
+    qoeScore,
     userExperience,
+    cacheStats,
     error,
     loadSegment,
     switchQuality,
@@ -126,6 +149,14 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
     return `${latency.toFixed(0)}ms`;
   };
 
+  // Format cache memory for display
+  const formatBytes = (bytes: number): string => {
+    if (bytes >= 1024 * 1024) {
+      return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+    return `${(bytes / 1024).toFixed(0)} KB`;
+  };
+
   // Get user experience color
   const getExperienceColor = (experience: string): string => {
     switch (experience) {
@@ -163,7 +194,24 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
     }
   };
 
+  const handleNetworkProfileChange = (profile: string) => {
+    setNetworkProfile(profile);
+    networkEmulator.setProfile(profile === 'off' ? null : NETWORK_PROFILES[profile as NetworkProfileName]);
+  };
+
+  const handleTraceFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      networkEmulator.setProfile(parseNetworkTrace(await file.text(), file.name));
+      setNetworkProfile('trace');
+    } catch (error) {
+      console.error('Failed to load network trace:', error);
+    }
+  };
+
   const bufferInfo = getBufferInfo();
+  const emulatedConditions = networkEmulator.getConditions();
   const detailedMetrics = getDetailedMetrics();
 
   return (
@@ -243,7 +291,7 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
             {userExperience.charAt(0).toUpperCase() + userExperience.slice(1)}
           </div>
           <div className="text-sm text-gray-500">
-            {metrics.qualitySwitches} switches
+            QoE {qoeScore}/100 · {metrics.qualitySwitches} switches
           </div>
         </div>
       </div>
@@ -294,6 +342,41 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
         </div>
       </div>
 
+      {/* Network Emulation */}
+      <div className="mb-8">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Network Emulation</h3>
+        <div className="flex items-center space-x-4">
+          <select
+            aria-label="Network profile"
+            value={networkProfile}
+            onChange={(e) => handleNetworkProfileChange(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="off">Off</option>
+            {(Object.keys(NETWORK_PROFILES) as NetworkProfileName[]).map((name) => (
+              <option key={name} value={name}>{NETWORK_PROFILES[name].name}</option>
+            ))}
+            {networkProfile === 'trace' && (
+              <option value="trace">{networkEmulator.getProfile()?.name}</option>
+            )}
+          </select>
+          <label className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 cursor-pointer hover:border-gray-400">
+            Load Trace
+            <input
+              type="file"
+              accept=".txt,.csv"
+              className="hidden"
+              onChange={(e) => handleTraceFile(e.target.files?.[0])}
+            />
+          </label>
+          <div className="text-sm text-gray-600">
+            {emulatedConditions
+              ? `${formatBitrate(emulatedConditions.bandwidth)} · ${formatLatency(emulatedConditions.latency)} · ${(emulatedConditions.loss * 100).toFixed(0)}% loss`
+              : 'Real network'}
+          </div>
+        </div>
+      </div>
+
       {/* Advanced Metrics Toggle */}
       <div className="mb-6">
         <button
@@ -372,6 +455,45 @@ const AdaptiveStreamingDashboard: React.FC<AdaptiveStreamingDashboardProps> = ({
             </div>
           </div>
 
+          {/* Segment Cache */}
+          {cacheStats && (
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h4 className="text-lg font-semibold text-gray-800 mb-4">Segment Cache</h4>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <div className="text-sm font-medium text-gray-600">Hit Rate</div>
+                  <div className="text-lg font-bold text-gray-800">
+                    {cacheStats.hits + cacheStats.misses > 0
+                      ? `${((cacheStats.hits / (cacheStats.hits + cacheStats.misses)) * 100).toFixed(1)}%`
+                      : '—'}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm font-medium text-gray-600">Hits / Misses</div>
+                  <div className="text-lg font-bold text-gray-800">
+                    {cacheStats.hits} / {cacheStats.misses}
+                  </div>
+                  {cacheStats.persistentHits > 0 && (
+                    <div className="text-sm text-gray-500">{cacheStats.persistentHits} from storage</div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-sm font-medium text-gray-600">Evictions</div>
+                  <div className="text-lg font-bold text-gray-800">
+                    {cacheStats.evictions}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm font-medium text-gray-600">Memory</div>
+                  <div className="text-lg font-bold text-gray-800">
+                    {formatBytes(cacheStats.bytes)} / {formatBytes(cacheStats.maxBytes)}
+                  </div>
+                  <div className="text-sm text-gray-500">{cacheStats.entries} segments</div>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Buffer Information */}
           {bufferInfo && (
             <div className="bg-gray-50 rounded-lg p-6">
@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AudioTrack } from '@/types/player';
+
+interface AudioSelectorProps {
+  tracks: AudioTrack[];
+  currentTrack: AudioTrack | null;
+  onTrackChange: (track: AudioTrack) => void;
+}
+
+const trackDescription = (track: AudioTrack): string => {
+  const details = [
+    track.language,
+    track.descriptive ? 'Audio description' : '',
+    track.roles.includes('commentary') ? 'Commentary' : '',
+    track.channels ? `${track.channels}ch` : '',
+  ].filter(Boolean);
+  return details.join(' · ');
+};
+
+export const AudioSelector: React.FC<AudioSelectorProps> = ({
+  tracks,
+  currentTrack,
+  onTrackChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Nothing to choose between
+  if (tracks.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label="Audio"
+        className="text-white hover:text-gray-300 transition-colors px-2 py-1 rounded border border-gray-600 hover:border-gray-400 text-sm"
+      >
+        <svg className="w-4 h-4 inline-block mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+        </svg>
+        {currentTrack ? currentTrack.language.toUpperCase() || currentTrack.label : 'Audio'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 bg-black bg-opacity-90 border border-gray-600 rounded shadow-lg min-w-48">
+          {tracks.map((track) => (
+            <button
+              key={track.id}
+              onClick={() => {
+                onTrackChange(track);
+                setIsOpen(false);
+              }}
+              className={`w-full text-left px-3 py-2 text-sm hover:bg-gray-700 transition-colors ${
+                currentTrack?.id === track.id ? 'text-red-400 bg-gray-700' : 'text-white'
+              }`}
+            >
+              <div className="font-medium">{track.label}</div>
+              <div className="text-xs text-gray-400">{trackDescription(track)}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { CaptionCue, CaptionStyle } from '@/types/player';
+import { captionStyleToCSS } from '@/utils/captions';
+
+interface CaptionRendererProps {
+  cues: CaptionCue[];
+  captionStyle: CaptionStyle;
+}
+
+export const CaptionRenderer: React.FC<CaptionRendererProps> = ({ cues, captionStyle }) => {
+  if (cues.length === 0) {
+    return null;
+  }
+
+  const style = captionStyleToCSS(captionStyle);
+
+  // Sits above the control bar while it is shown on hover
+  return (
+    <div
+      className="absolute left-0 right-0 bottom-8 group-hover:bottom-28 flex flex-col items-center px-4 pointer-events-none transition-all duration-300"
+      aria-live="polite"
+    >
+      {cues.map((cue, index) => (
+        <div
+          key={`${cue.start}-${index}`}
+          className="px-2 py-0.5 mt-1 rounded text-center whitespace-pre-line leading-snug max-w-[90%]"
+          style={style}
+        >
+          {cue.text}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CaptionEdgeStyle, CaptionFontSize, CaptionStyle, TextTrackInfo } from '@/types/player';
+
+interface CaptionSelectorProps {
+  tracks: TextTrackInfo[];
+  currentTrack: TextTrackInfo | null;
+  onTrackChange: (track: TextTrackInfo | null) => void;
+  captionStyle: CaptionStyle;
+  onCaptionStyleChange: (updates: Partial<CaptionStyle>) => void;
+}
+
+const FONT_SIZE_OPTIONS: { value: CaptionFontSize; label: string }[] = [
+  { value: 'small', label: 'Small' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'large', label: 'Large' },
+  { value: 'x-large', label: 'Extra large' },
+];
+
+const COLOR_OPTIONS = [
+  { value: '#ffffff', label: 'White' },
+  { value: '#ffff00', label: 'Yellow' },
+  { value: '#00ffff', label: 'Cyan' },
+  { value: '#00ff00', label: 'Green' },
+  { value: '#000000', label: 'Black' },
+];
+
+const BACKGROUND_OPTIONS = [
+  { value: '0.75', label: 'Dark' },
+  { value: '0.5', label: 'Semi-transparent' },
+  { value: '0', label: 'None' },
+];
+
+const EDGE_OPTIONS: { value: CaptionEdgeStyle; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'outline', label: 'Outline' },
+  { value: 'drop-shadow', label: 'Drop shadow' },
+  { value: 'raised', label: 'Raised' },
+  { value: 'depressed', label: 'Depressed' },
+];
+
+const trackDescription = (track: TextTrackInfo): string => {
+  const details = [track.language, track.kind === 'captions' ? 'CC' : '', track.source === 'sidecar' ? 'external' : '']
+    .filter(Boolean);
+  return details.join(' · ');
+};
+
+export const CaptionSelector: React.FC<CaptionSelectorProps> = ({
+  tracks,
+  currentTrack,
+  onTrackChange,
+  captionStyle,
+  onCaptionStyleChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (tracks.length === 0) {
+    return null;
+  }
+
+  const selectClassName = 'bg-gray-800 text-white text-xs rounded border border-gray-600 px-1 py-0.5';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label="Captions"
+        className={`transition-colors px-2 py-1 rounded border text-sm font-semibold ${
+          currentTrack
+            ? 'text-white border-white'
+            : 'text-gray-400 border-gray-600 hover:text-white hover:border-gray-400'
+        }`}
+      >
+        CC
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 bg-black bg-opacity-90 border border-gray-600 rounded shadow-lg min-w-48">
+          <button
+            onClick={() => {
+              onTrackChange(null);
+              setIsOpen(false);
+            }}
+            className={`w-full text-left px-3 py-2 text-sm hover:bg-gray-700 transition-colors ${
+              currentTrack === null ? 'text-red-400 bg-gray-700' : 'text-white'
+            }`}
+          >
+            Off
+          </button>
+          {tracks.map((track) => (
+            <button
+              key={track.id}
+              onClick={() => {
+                onTrackChange(track);
+                setIsOpen(false);
+              }}
+              className={`w-full text-left px-3 py-2 text-sm hover:bg-gray-700 transition-colors ${
+                currentTrack?.id === track.id ? 'text-red-400 bg-gray-700' : 'text-white'
+              }`}
+            >
+              <div className="font-medium">{track.label}</div>
+              <div className="text-xs text-gray-400">{trackDescription(track)}</div>
+            </button>
+          ))}
+
+          <div className="border-t border-gray-600 px-3 py-2 space-y-1 text-xs text-gray-300">
+            <label className="flex items-center justify-between gap-2">
+              Size
+              <select
+                value={captionStyle.fontSize}
+                onChange={(e) => onCaptionStyleChange({ fontSize: e.target.value as CaptionFontSize })}
+                className={selectClassName}
+              >
+                {FONT_SIZE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              Color
+              <select
+                value={captionStyle.color}
+                onChange={(e) => onCaptionStyleChange({ color: e.target.value })}
+                className={selectClassName}
+              >
+                {COLOR_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              Background
+              <select
+                value={String(captionStyle.backgroundOpacity)}
+                onChange={(e) => onCaptionStyleChange({ backgroundOpacity: Number(e.target.value) })}
+                className={selectClassName}
+              >
+                {BACKGROUND_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              Edge
+              <select
+                value={captionStyle.edgeStyle}
+                onChange={(e) => onCaptionStyleChange({ edgeStyle: e.target.value as CaptionEdgeStyle })}
+                className={selectClassName}
+              >
+                {EDGE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,287 @@
+'use client';
+
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { FFmpegJobOptions, FFmpegResult, ThumbnailSpriteOptions, TrimMode, TrimRange } from '../types/player';
+
+interface ClipEditorProps {
+  file: File;
+  cuts: TrimRange[];
+  mode: TrimMode;
+  onCutsChange: (cuts: TrimRange[]) => void;
+  onModeChange: (mode: TrimMode) => void;
+  // Used until the preview has loaded its own metadata
+  duration?: number;
+  generateThumbnailSprite?: (
+    file: File,
+    options?: ThumbnailSpriteOptions,
+    jobOptions?: FFmpegJobOptions
+  ) => Promise<FFmpegResult>;
+  filmstripFrames?: number;
+}
+
+type HandleEdge = 'start' | 'end';
+
+const MIN_CUT_LENGTH = 0.1;
+const KEYBOARD_STEP = 0.1;
+const DEFAULT_CUT_LENGTH = 5;
+const FILMSTRIP_TILE_WIDTH = 160;
+
+const formatClipTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${secs}`;
+};
+
+export const ClipEditor: React.FC<ClipEditorProps> = ({
+  file,
+  cuts,
+  mode,
+  onCutsChange,
+  onModeChange,
+  duration: initialDuration = 0,
+  generateThumbnailSprite,
+  filmstripFrames = 8,
+}) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState(initialDuration);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [filmstrip, setFilmstrip] = useState<{ url: string; count: number } | null>(null);
+  const [dragging, setDragging] = useState<{ index: number; edge: HandleEdge } | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    if (initialDuration > 0) setDuration(initialDuration);
+  }, [initialDuration]);
+
+  // One hidden sprite job for the whole strip; FFmpeg reads the duration itself.
+  // Aborting drops it while queued; a running one finishes and is ignored.
+  useEffect(() => {
+    if (!generateThumbnailSprite) return;
+
+    const controller = new AbortController();
+    let url: string | null = null;
+
+    setFilmstrip(null);
+    generateThumbnailSprite(
+      file,
+      { count: filmstripFrames, columns: filmstripFrames, width: FILMSTRIP_TILE_WIDTH },
+      { signal: controller.signal, hidden: true }
+    ).then(result => {
+      if (controller.signal.aborted || !result.success || !result.sprite) return;
+
+      url = URL.createObjectURL(new Blob([new Uint8Array(result.sprite.image)], { type: result.sprite.mimeType }));
+      setFilmstrip({ url, count: result.sprite.count });
+    });
+
+    return () => {
+      controller.abort();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file, generateThumbnailSprite, filmstripFrames]);
+
+  // Keep a handle between its own range's other edge and the neighbouring ranges
+  const moveHandle = useCallback((index: number, edge: HandleEdge, time: number) => {
+    const cut = cuts[index];
+    const previous = cuts[index - 1];
+    const next = cuts[index + 1];
+
+    const updated = edge === 'start'
+      ? { ...cut, start: Math.min(Math.max(time, previous ? previous.end : 0), cut.end - MIN_CUT_LENGTH) }
+      : { ...cut, end: Math.max(Math.min(time, next ? next.start : duration), cut.start + MIN_CUT_LENGTH) };
+
+    onCutsChange(cuts.map((candidate, i) => (i === index ? updated : candidate)));
+  }, [cuts, duration, onCutsChange]);
+
+  const timeFromPointer = useCallback((clientX: number): number => {
+    if (!timelineRef.current) return 0;
+
+    const rect = timelineRef.current.getBoundingClientRect();
+    const percentage = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return percentage * duration;
+  }, [duration]);
+
+  useEffect(() => {
+    if (!dragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      moveHandle(dragging.index, dragging.edge, timeFromPointer(e.clientX));
+    };
+    const handleMouseUp = () => setDragging(null);
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [dragging, moveHandle, timeFromPointer]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent, index: number, edge: HandleEdge) => {
+    const step = e.key === 'ArrowRight' ? KEYBOARD_STEP : e.key === 'ArrowLeft' ? -KEYBOARD_STEP : 0;
+    if (!step) return;
+
+    e.preventDefault();
+    moveHandle(index, edge, cuts[index][edge] + step);
+  }, [cuts, moveHandle]);
+
+  const seek = useCallback((time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+    }
+    setCurrentTime(time);
+  }, []);
+
+  // New cuts start at the playhead, or at the first gap after it
+  const handleAddCut = useCallback(() => {
+    let start = currentTime;
+    const covering = cuts.find(cut => start >= cut.start && start < cut.end);
+    if (covering) start = covering.end;
+
+    const next = cuts.find(cut => cut.start >= start);
+    const end = Math.min(start + DEFAULT_CUT_LENGTH, next ? next.start : duration);
+    if (end - start < MIN_CUT_LENGTH) return;
+
+    onCutsChange([...cuts, { start, end }].sort((a, b) => a.start - b.start));
+  }, [cuts, currentTime, duration, onCutsChange]);
+
+  const handleRemoveCut = useCallback((index: number) => {
+    onCutsChange(cuts.filter((_, i) => i !== index));
+  }, [cuts, onCutsChange]);
+
+  const percentOf = (time: number): number => (duration > 0 ? (time / duration) * 100 : 0);
+  const outputDuration = cuts.reduce((total, cut) => total + cut.end - cut.start, 0);
+
+  return (
+    <div className="clip-editor space-y-4">
+      {previewUrl && (
+        <video
+          ref={videoRef}
+          src={previewUrl}
+          controls
+          className="w-full rounded-lg bg-black"
+          onLoadedMetadata={(e) => {
+            const videoDuration = e.currentTarget.duration;
+            if (Number.isFinite(videoDuration) && videoDuration > 0) setDuration(videoDuration);
+          }}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        />
+      )}
+
+      {/* Timeline */}
+      <div
+        ref={timelineRef}
+        data-testid="clip-timeline"
+        className="relative h-16 bg-gray-200 rounded-lg overflow-hidden cursor-pointer select-none"
+        onClick={(e) => seek(timeFromPointer(e.clientX))}
+      >
+        <div className="absolute inset-0 flex">
+          {filmstrip && Array.from({ length: filmstrip.count }, (_, i) => (
+            <div
+              key={i}
+              role="img"
+              aria-label={`Frame ${i + 1}`}
+              className="h-full flex-1 opacity-70"
+              style={{
+                backgroundImage: `url(${filmstrip.url})`,
+                backgroundSize: `${filmstrip.count * 100}% 100%`,
+                backgroundPosition: `${filmstrip.count > 1 ? (i / (filmstrip.count - 1)) * 100 : 0}% 0`,
+              }}
+            />
+          ))}
+        </div>
+
+        {cuts.map((cut, index) => (
+          <div
+            key={index}
+            className="absolute inset-y-0 bg-blue-500 bg-opacity-30 border-y-2 border-blue-500"
+            style={{ left: `${percentOf(cut.start)}%`, width: `${percentOf(cut.end - cut.start)}%` }}
+          >
+            {(['start', 'end'] as HandleEdge[]).map(edge => (
+              <div
+                key={edge}
+                role="slider"
+                tabIndex={0}
+                aria-label={`Cut ${index + 1} ${edge === 'start' ? 'in' : 'out'} point`}
+                aria-valuemin={0}
+                aria-valuemax={duration}
+                aria-valuenow={cut[edge]}
+                className={`absolute inset-y-0 w-2 bg-blue-600 cursor-ew-resize ${edge === 'start' ? 'left-0' : 'right-0'}`}
+                onMouseDown={(e) => {
+                  e.stopPropagation();
+                  setDragging({ index, edge });
+                }}
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => handleKeyDown(e, index, edge)}
+              />
+            ))}
+          </div>
+        ))}
+
+        {/* Playhead */}
+        <div
+          className="absolute inset-y-0 w-0.5 bg-red-600 pointer-events-none"
+          style={{ left: `${percentOf(currentTime)}%` }}
+        />
+      </div>
+
+      {/* Cut list */}
+      <div className="space-y-2">
+        {cuts.map((cut, index) => (
+          <div key={index} className="flex justify-between items-center text-sm text-gray-700">
+            <span>
+              Cut {index + 1}: {formatClipTime(cut.start)} – {formatClipTime(cut.end)} ({(cut.end - cut.start).toFixed(1)}s)
+            </span>
+            <button
+              onClick={() => handleRemoveCut(index)}
+              className="text-red-600 hover:text-red-800"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="flex justify-between items-center">
+          <button
+            onClick={handleAddCut}
+            disabled={duration <= 0}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            Add cut at {formatClipTime(currentTime)}
+          </button>
+          {cuts.length > 0 && (
+            <span className="text-sm text-gray-600">Output: {formatClipTime(outputDuration)}</span>
+          )}
+        </div>
+      </div>
+
+      {/* Trim mode */}
+      <div className="flex flex-col gap-1 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="trim-mode"
+            checked={mode === 'copy'}
+            onChange={() => onModeChange('copy')}
+          />
+          Stream copy (fast, cuts snap to keyframes)
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="trim-mode"
+            checked={mode === 'reencode'}
+            onChange={() => onModeChange('reencode')}
+          />
+          Re-encode (frame-accurate, uses the quality settings)
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -1,45 +1,86 @@
 'use client';
 
 import React, { useState, useRef, useCallback } from 'react';
+import { LiveWindow, ThumbnailCue } from '../types/player';
+import { findThumbnailCue } from '../utils/thumbnails';
 
 interface ProgressBarProps {
   currentTime: number;
   duration: number;
   buffered: TimeRanges;
   onSeek: (time: number) => void;
+  // Cues from a WebVTT thumbnails track, previewed above the hover tooltip
+  thumbnails?: ThumbnailCue[];
+  // Live streams scrub within the DVR window instead of 0..duration
+  liveWindow?: LiveWindow;
+  onGoLive?: () => void;
 }
 
+const DEFAULT_PREVIEW_WIDTH = 160;
+const DEFAULT_PREVIEW_HEIGHT = 90;
+
+const getPreviewStyle = (cue: ThumbnailCue): React.CSSProperties => {
+  if (!cue.region) {
+    return {
+      width: DEFAULT_PREVIEW_WIDTH,
+      height: DEFAULT_PREVIEW_HEIGHT,
+      backgroundImage: `url("${cue.url}")`,
+      backgroundSize: 'cover',
+    };
+  }
+
+  return {
+    width: cue.region.width,
+    height: cue.region.height,
+    backgroundImage: `url("${cue.url}")`,
+    backgroundPosition: `-${cue.region.x}px -${cue.region.y}px`,
+  };
+};
+
 export const ProgressBar: React.FC<ProgressBarProps> = ({
   currentTime,
   duration,
   buffered,
   onSeek,
+  thumbnails = [],
+  liveWindow,
+  onGoLive,
 }) => {
   const [, setIsDragging] = useState(false);
   const [hoverTime, setHoverTime] = useState<number | null>(null);
   const progressRef = useRef<HTMLDivElement>(null);
 
-  const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
+  const rangeStart = liveWindow ? liveWindow.start : 0;
+  const rangeLength = liveWindow ? liveWindow.end - liveWindow.start : duration;
+  const toPercent = useCallback((time: number) => {
+    return rangeLength > 0 ? Math.max(0, Math.min(100, ((time - rangeStart) / rangeLength) * 100)) : 0;
+  }, [rangeStart, rangeLength]);
+
+  const progress = toPercent(currentTime);
+  const hoverPosition = hoverTime !== null ? toPercent(hoverTime) : 0;
+  const hoverCue = hoverTime !== null && !liveWindow ? findThumbnailCue(thumbnails, hoverTime) : null;
 
   const getBufferedRanges = useCallback(() => {
     const ranges = [];
     for (let i = 0; i < buffered.length; i++) {
-      const start = (buffered.start(i) / duration) * 100;
-      const end = (buffered.end(i) / duration) * 100;
+      const start = toPercent(buffered.start(i));
+      const end = toPercent(buffered.end(i));
       ranges.push({ start, end });
     }
     return ranges;
-  }, [buffered, duration]);
+  }, [buffered, toPercent]);
+
+  const timeAt = useCallback((clientX: number) => {
+    const rect = progressRef.current!.getBoundingClientRect();
+    const x = clientX - rect.left;
+    const percentage = Math.max(0, Math.min(1, x / rect.width));
+    return rangeStart + percentage * rangeLength;
+  }, [rangeStart, rangeLength]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
     if (!progressRef.current) return;
-    
-    const rect = progressRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const percentage = Math.max(0, Math.min(1, x / rect.width));
-    const time = percentage * duration;
-    setHoverTime(time);
-  }, [duration]);
+    setHoverTime(timeAt(e.clientX));
+  }, [timeAt]);
 
   const handleMouseLeave = useCallback(() => {
     setHoverTime(null);
@@ -47,13 +88,8 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({
 
   const handleClick = useCallback((e: React.MouseEvent) => {
     if (!progressRef.current) return;
-    
-    const rect = progressRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const percentage = Math.max(0, Math.min(1, x / rect.width));
-    const time = percentage * duration;
-    onSeek(time);
-  }, [duration, onSeek]);
+    onSeek(timeAt(e.clientX));
+  }, [timeAt, onSeek]);
 
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     setIsDragging(true);
@@ -77,7 +113,12 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({
     return `${minutes}:${secs.toString().padStart(2, '0')}`;
   };
 
-  return (
+  // Live positions read as time behind the live edge
+  const formatHoverTime = (time: number): string => {
+    return liveWindow ? `-${formatTime(liveWindow.end - time)}` : formatTime(time);
+  };
+
+  const bar = (
     <div className="relative w-full h-1 bg-gray-600 rounded-full cursor-pointer group">
       <div
         ref={progressRef}
@@ -109,9 +150,19 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({
       
       {/* Hover tooltip */}
       {hoverTime !== null && (
-        <div className="absolute bottom-4 transform -translate-x-1/2 pointer-events-none">
+        <div
+          className="absolute bottom-4 transform -translate-x-1/2 pointer-events-none flex flex-col items-center"
+          style={{ left: `${hoverPosition}%` }}
+        >
+          {hoverCue && (
+            <div
+              data-testid="thumbnail-preview"
+              className="mb-1 border border-white rounded overflow-hidden bg-black"
+              style={getPreviewStyle(hoverCue)}
+            />
+          )}
           <div className="bg-black bg-opacity-80 text-white text-xs px-2 py-1 rounded">
-            {formatTime(hoverTime)}
+            {formatHoverTime(hoverTime)}
           </div>
         </div>
       )}
@@ -123,4 +174,25 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({
       />
     </div>
   );
+
+  if (!liveWindow) {
+    return bar;
+  }
+
+  return (
+    <div className="flex items-center space-x-3">
+      <div className="flex-1">{bar}</div>
+      <button
+        onClick={onGoLive}
+        disabled={liveWindow.atLiveEdge}
+        aria-label={liveWindow.atLiveEdge ? 'Playing live' : 'Go to live'}
+        className={`flex items-center text-xs font-semibold px-2 py-0.5 rounded transition-colors ${
+          liveWindow.atLiveEdge ? 'bg-red-600 text-white cursor-default' : 'bg-gray-700 text-gray-300 hover:bg-red-600 hover:text-white'
+        }`}
+      >
+        <span className={`w-2 h-2 rounded-full mr-1 ${liveWindow.atLiveEdge ? 'bg-white' : 'bg-gray-400'}`} />
+        LIVE
+      </button>
+    </div>
+  );
 };
@@ -1,9 +1,26 @@
 'use client';
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { useFFmpeg } from '../hooks/useFFmpeg';
-import { VideoConversionOptions } from '../types/player';
+import {
+  VideoConversionOptions,
+  MediaInfo,
+  FFmpegJob,
+  FFmpegJobStatus,
+  TrimRange,
+} from '../types/player';
 import { getQualityPresets, formatFileSize, formatDuration } from '../utils/ffmpeg';
+import { ClipEditor } from './ClipEditor';
+
+const JOB_STATUS_STYLES: Record<FFmpegJobStatus, string> = {
+  queued: 'text-gray-600',
+  running: 'text-blue-600',
+  done: 'text-green-600',
+  failed: 'text-red-600',
+  cancelled: 'text-gray-400',
+};
+
+const getExtension = (fileName: string): string => fileName.split('.').pop()?.toLowerCase() || 'mp4';
 
 interface VideoConverterProps {
   onConversionComplete?: (result: any) => void;
@@ -16,54 +33,107 @@ export const VideoConverter: React.FC<VideoConverterProps> = ({
 }) => {
   const {
     isLoaded,
+    isLoading,
+    loadProgress,
     isProcessing,
     progress,
     error,
     result,
+    jobs,
     loadFFmpeg,
     convertVideo,
     extractThumbnail,
+    generateThumbnailSprite,
+    getVideoInfo,
+    cancelJob,
+    clearFinishedJobs,
     reset,
   } = useFFmpeg();
 
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // The first file drives probing, option defaults and thumbnails
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const selectedFile = selectedFiles[0] ?? null;
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null);
   const [conversionOptions, setConversionOptions] = useState<VideoConversionOptions>({
     inputFormat: 'mp4',
     outputFormat: 'mp4',
     quality: 'medium',
   });
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showClipEditor, setShowClipEditor] = useState(false);
+  const [cuts, setCuts] = useState<TrimRange[]>([]);
   const [thumbnailTime, setThumbnailTime] = useState(0);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const downloadLinkRef = useRef<HTMLAnchorElement>(null);
+  const probedFileRef = useRef<File | null>(null);
 
   const qualityPresets = getQualityPresets();
 
+  // Prefill the advanced options from the source's primary video stream
+  const probeSource = useCallback(async (file: File) => {
+    probedFileRef.current = file;
+    const info = await getVideoInfo(file);
+    if (!info || probedFileRef.current !== file) return;
+
+    setMediaInfo(info);
+    const video = info.videoStreams[0];
+    if (video) {
+      // ffmpeg autorotates, so the output size follows the display orientation
+      const rotated = video.rotation % 180 !== 0;
+      setConversionOptions(prev => ({
+        ...prev,
+        resolution: rotated
+          ? { width: video.height, height: video.width }
+          : { width: video.width, height: video.height },
+        frameRate: video.frameRate || prev.frameRate,
+        bitrate: Math.round((video.bitrate || info.bitrate) / 1000) || prev.bitrate,
+      }));
+    }
+  }, [getVideoInfo]);
+
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const files = Array.from(event.target.files || []);
+    const [file] = files;
     if (file) {
-      setSelectedFile(file);
+      setSelectedFiles(files);
+      setMediaInfo(null);
+      setCuts([]);
       setConversionOptions(prev => ({
         ...prev,
-        inputFormat: file.name.split('.').pop()?.toLowerCase() || 'mp4',
+        inputFormat: getExtension(file.name),
       }));
       reset();
     }
   }, [reset]);
 
+  // Files picked before FFmpeg finished loading are probed once it has
+  useEffect(() => {
+    if (isLoaded && selectedFile && probedFileRef.current !== selectedFile) {
+      probeSource(selectedFile);
+    }
+  }, [isLoaded, selectedFile, probeSource]);
+
   const handleConvert = useCallback(async () => {
-    if (!selectedFile) return;
+    if (selectedFiles.length === 0) return;
 
     try {
-      const result = await convertVideo(selectedFile, conversionOptions);
-      if (result.success && onConversionComplete) {
-        onConversionComplete(result);
-      }
+      // Every file is queued with the same options; each keeps its own input format
+      // and only the file shown in the clip editor is cut
+      await Promise.all(selectedFiles.map(async file => {
+        const result = await convertVideo(file, {
+          ...conversionOptions,
+          inputFormat: getExtension(file.name),
+          cuts: file === selectedFile && cuts.length > 0 ? cuts : undefined,
+        });
+        if (result.success && onConversionComplete) {
+          onConversionComplete(result);
+        }
+      }));
     } catch (err) {
       console.error('Conversion failed:', err);
     }
-  }, [selectedFile, conversionOptions, convertVideo, onConversionComplete]);
+  }, [selectedFiles, selectedFile, cuts, conversionOptions, convertVideo, onConversionComplete]);
 
   const handleExtractThumbnail = useCallback(async () => {
     if (!selectedFile) return;
@@ -87,22 +157,56 @@ export const VideoConverter: React.FC<VideoConverterProps> = ({
     }
   }, [selectedFile, thumbnailTime, extractThumbnail]);
 
+  // Downloads the sprite sheet and its WebVTT track for use as VideoPlayer thumbnails
+  const handleGenerateSprite = useCallback(async () => {
+    if (!selectedFile) return;
+
+    try {
+      const result = await generateThumbnailSprite(selectedFile);
+      if (!result.success || !result.sprite || !downloadLinkRef.current) return;
+
+      const files: [BlobPart, string, string][] = [
+        [new Uint8Array(result.sprite.image), result.sprite.mimeType, result.sprite.imageName],
+        [result.sprite.vtt, 'text/vtt', 'thumbnails.vtt'],
+      ];
+      files.forEach(([data, type, name]) => {
+        const url = URL.createObjectURL(new Blob([data], { type }));
+        downloadLinkRef.current!.href = url;
+        downloadLinkRef.current!.download = name;
+        downloadLinkRef.current!.click();
+        URL.revokeObjectURL(url);
+      });
+    } catch (err) {
+      console.error('Thumbnail sprite generation failed:', err);
+    }
+  }, [selectedFile, generateThumbnailSprite]);
+
+  const downloadOutput = useCallback((outputFile: Uint8Array, baseName: string) => {
+    const blob = new Blob([new Uint8Array(outputFile)], { 
+      type: `video/${conversionOptions.outputFormat}` 
+    });
+    const url = URL.createObjectURL(blob);
+    
+    if (downloadLinkRef.current) {
+      downloadLinkRef.current.href = url;
+      downloadLinkRef.current.download = `${baseName}.${conversionOptions.outputFormat}`;
+      downloadLinkRef.current.click();
+    }
+    
+    URL.revokeObjectURL(url);
+  }, [conversionOptions.outputFormat]);
+
   const handleDownload = useCallback(() => {
     if (result?.success && result.outputFile) {
-      const blob = new Blob([new Uint8Array(result.outputFile)], { 
-        type: `video/${conversionOptions.outputFormat}` 
-      });
-      const url = URL.createObjectURL(blob);
-      
-      if (downloadLinkRef.current) {
-        downloadLinkRef.current.href = url;
-        downloadLinkRef.current.download = `converted-${Date.now()}.${conversionOptions.outputFormat}`;
-        downloadLinkRef.current.click();
-      }
-      
-      URL.revokeObjectURL(url);
+      downloadOutput(result.outputFile, `converted-${Date.now()}`);
     }
-  }, [result, conversionOptions.outputFormat]);
+  }, [result, downloadOutput]);
+
+  const handleJobDownload = useCallback((job: FFmpegJob) => {
+    if (job.result?.success && job.result.outputFile) {
+      downloadOutput(job.result.outputFile, `${job.fileName.replace(/\.[^.]+$/, '')}-converted`);
+    }
+  }, [downloadOutput]);
 
   const handleLoadFFmpeg = useCallback(async () => {
     try {
@@ -123,11 +227,16 @@ export const VideoConverter: React.FC<VideoConverterProps> = ({
             <div className="flex items-center gap-4">
               <button
                 onClick={handleLoadFFmpeg}
-                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors"
+                disabled={isLoading}
+                className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
               >
                 Load FFmpeg
               </button>
-              <span className="text-gray-600">FFmpeg not loaded</span>
+              <span className="text-gray-600">
+                {isLoading
+                  ? `Loading FFmpeg core... ${loadProgress ? `${loadProgress.percent}% (${formatFileSize(loadProgress.loaded)})` : ''}`
+                  : 'FFmpeg not loaded'}
+              </span>
             </div>
           ) : (
             <div className="flex items-center gap-2">
@@ -147,6 +256,7 @@ export const VideoConverter: React.FC<VideoConverterProps> = ({
             ref={fileInputRef}
             type="file"
             accept="video/*"
+            multiple
             onChange={handleFileSelect}
             className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
           />
@@ -154,6 +264,18 @@ export const VideoConverter: React.FC<VideoConverterProps> = ({
             <div className="mt-2 text-sm text-gray-600">
               <p>File: {selectedFile.name}</p>
               <p>Size: {formatFileSize(selectedFile.size)}</p>
+              {selectedFiles.length > 1 && (
+                <p>
+                  +{selectedFiles.length - 1} more: {selectedFiles.slice(1).map(file => file.name).join(', ')}
+                </p>
+              )}
+              {mediaInfo && (
+                <p>
+                  Source: {mediaInfo.container.split(',')[0]} · {formatDuration(mediaInfo.duration)}
+                  {mediaInfo.videoStreams[0] && ` · ${mediaInfo.videoStreams[0].codec} ${mediaInfo.videoStreams[0].width}x${mediaInfo.videoStreams[0].height} @ ${mediaInfo.videoStreams[0].frameRate} fps`}
+                  {mediaInfo.audioStreams[0] && ` · ${mediaInfo.audioStreams[0].codec} ${mediaInfo.audioStreams[0].sampleRate} Hz`}
+                </p>
+              )}
             </div>
           )}
         </div>
@@ -274,6 +396,39 @@ export const VideoConverter: React.FC<VideoConverterProps> = ({
           </div>
         )}
 
+        {/* Clip Editor */}
+        {selectedFile && (
+          <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-medium text-gray-800">Clip Editor</h3>
+              <button
+                onClick={() => setShowClipEditor(!showClipEditor)}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                {showClipEditor ? 'Hide' : 'Show'} Clip Editor
+              </button>
+            </div>
+            {!showClipEditor && cuts.length > 0 && (
+              <p className="mt-2 text-sm text-gray-600">
+                {cuts.length} cut{cuts.length > 1 ? 's' : ''} will be {cuts.length > 1 ? 'joined' : 'kept'}
+              </p>
+            )}
+            {showClipEditor && (
+              <div className="mt-4">
+                <ClipEditor
+                  file={selectedFile}
+                  cuts={cuts}
+                  mode={conversionOptions.trimMode || 'reencode'}
+                  onCutsChange={setCuts}
+                  onModeChange={(trimMode) => setConversionOptions(prev => ({ ...prev, trimMode }))}
+                  duration={mediaInfo?.duration}
+                  generateThumbnailSprite={isLoaded ? generateThumbnailSprite : undefined}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Thumbnail Extraction */}
         {selectedFile && (
           <div className="mb-6 p-4 bg-gray-50 rounded-lg">
@@ -290,11 +445,18 @@ export const VideoConverter: React.FC<VideoConverterProps> = ({
               <span className="text-sm text-gray-600">seconds</span>
               <button
                 onClick={handleExtractThumbnail}
-                disabled={!isLoaded || isProcessing}
+                disabled={!isLoaded}
                 className="bg-green-500 hover:bg-green-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
               >
                 Extract Thumbnail
               </button>
+              <button
+                onClick={handleGenerateSprite}
+                disabled={!isLoaded}
+                className="border border-green-500 text-green-700 hover:bg-green-50 disabled:border-gray-400 disabled:text-gray-400 px-4 py-2 rounded-lg transition-colors"
+              >
+                Preview Sprite + VTT
+              </button>
             </div>
           </div>
         )}
@@ -319,6 +481,64 @@ export const VideoConverter: React.FC<VideoConverterProps> = ({
           </div>
         )}
 
+        {/* Job Queue */}
+        {jobs.length > 0 && (
+          <div className="mb-6">
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-lg font-medium text-gray-800">Queue</h3>
+              <button
+                onClick={clearFinishedJobs}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Clear finished
+              </button>
+            </div>
+            <ul className="space-y-2">
+              {jobs.map(job => (
+                <li key={job.id} className="p-3 border border-gray-200 rounded-lg">
+                  <div className="flex justify-between items-center gap-4 text-sm">
+                    <span className="truncate text-gray-800">
+                      {job.fileName} <span className="text-gray-500">({job.type})</span>
+                    </span>
+                    <span className={`font-medium ${JOB_STATUS_STYLES[job.status]}`}>
+                      {job.status === 'running' && job.progress ? `running ${job.progress.percent}%` : job.status}
+                    </span>
+                  </div>
+                  {job.status === 'running' && (
+                    <div className="mt-2 w-full bg-gray-200 rounded-full h-1">
+                      <div
+                        className="bg-blue-600 h-1 rounded-full transition-all duration-300"
+                        style={{ width: `${job.progress?.percent ?? 0}%` }}
+                      ></div>
+                    </div>
+                  )}
+                  {job.status === 'failed' && job.result?.error && (
+                    <p className="mt-1 text-sm text-red-700">{job.result.error}</p>
+                  )}
+                  <div className="mt-2 flex gap-3 text-sm">
+                    {(job.status === 'queued' || job.status === 'running') && (
+                      <button
+                        onClick={() => cancelJob(job.id)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    {job.status === 'done' && job.type === 'convert' && (
+                      <button
+                        onClick={() => handleJobDownload(job)}
+                        className="text-green-600 hover:text-green-800"
+                      >
+                        Download
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Error Display */}
         {error && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -354,10 +574,10 @@ export const VideoConverter: React.FC<VideoConverterProps> = ({
         <div className="flex gap-4">
           <button
             onClick={handleConvert}
-            disabled={!selectedFile || !isLoaded || isProcessing}
+            disabled={!selectedFile || !isLoaded}
             className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white px-6 py-3 rounded-lg transition-colors font-medium"
           >
-            {isProcessing ? 'Converting...' : 'Convert Video'}
+            {isProcessing ? 'Add to Queue' : selectedFiles.length > 1 ? `Convert ${selectedFiles.length} Videos` : 'Convert Video'}
           </button>
           
           <button
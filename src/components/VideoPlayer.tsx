@@ -1,21 +1,43 @@
 'use client';
 
-import React, { useEffect, memo } from 'react';
+import React, { useEffect, useRef, useState, memo } from 'react';
 import { useVideoPlayer } from '@/hooks/useVideoPlayer';
-// import { useDASH } from '@/hooks/useDASH';
-import { StreamingConfig, DASHConfig } from '@/types/player';
+import { useThumbnailTrack } from '@/hooks/useThumbnailTrack';
+import { useCaptionStyle } from '@/hooks/useCaptionStyle';
+import { useAudioPreference } from '@/hooks/useAudioPreference';
+import { StreamingConfig, DASHConfig, EMEConfig, PlaybackEngineType, AdaptiveBundle, SidecarTextTrack, AudioTrack } from '@/types/player';
+import { AdaptiveStreamingConfig } from '@/utils/adaptiveStreaming';
+import { LowLatencyConfig } from '@/utils/lowLatencyOptimizer';
+import { resolveStreamType } from '@/utils/streamType';
+import { createBundleSource, BundleSource } from '@/utils/adaptiveBundle';
+import { selectPreferredAudioTrack, toAudioPreference } from '@/utils/audioTracks';
 import { PlayerControls } from './PlayerControls';
 import { QualitySelector } from './QualitySelector';
+import { AudioSelector } from './AudioSelector';
+import { CaptionSelector } from './CaptionSelector';
+import { CaptionRenderer } from './CaptionRenderer';
 import { ProgressBar } from './ProgressBar';
 import { VolumeControl } from './VolumeControl';
 import { PlaybackRateControl } from './PlaybackRateControl';
 
 interface VideoPlayerProps {
-  src: string;
+  src?: string;
+  // In-memory ABR package (e.g. from FFmpegProcessor.packageAdaptive), played instead of src
+  bundle?: AdaptiveBundle;
   isHLS?: boolean;
   isDASH?: boolean;
+  engine?: PlaybackEngineType;
   config?: Partial<StreamingConfig>;
   dashConfig?: Partial<DASHConfig>;
+  adaptiveConfig?: AdaptiveStreamingConfig;
+  // Encrypted streams: key system and license server for DRMManager
+  drm?: EMEConfig;
+  // WebVTT thumbnails track (#xywh= sprite cues) previewed while scrubbing
+  thumbnails?: string;
+  // Sidecar subtitle files (WebVTT, TTML or SRT) offered next to the stream's own text tracks
+  textTracks?: SidecarTextTrack[];
+  // Live streams: latency target, LL-HLS/LL-DASH delivery and catch-up
+  lowLatency?: Partial<LowLatencyConfig>;
   className?: string;
 }
 
@@ -29,41 +51,26 @@ const defaultConfig: StreamingConfig = {
   analyticsEnabled: true,
 };
 
-const defaultDASHConfig: DASHConfig = {
-  manifestUrl: '',
-  autoStart: true,
-  autoPlay: false,
-  streaming: {
-    delay: {
-      liveDelay: 0,
-      liveDelayFragmentCount: 0
-    },
-    abr: {
-      autoSwitchBitrate: true,
-      initialBitrate: 1000000,
-      maxBitrate: 5000000,
-      minBitrate: 500000
-    }
-  },
-  debug: {
-    logLevel: 0
-  }
-};
-
 export const VideoPlayer: React.FC<VideoPlayerProps> = memo(({
-  src,
+  src = '',
+  bundle,
   isHLS = true,
   isDASH = false,
+  engine,
   config = {},
-  dashConfig = {},
+  dashConfig,
+  adaptiveConfig,
+  drm,
+  thumbnails,
+  textTracks,
+  lowLatency,
   className = '',
 }) => {
   const playerConfig = { ...defaultConfig, ...config };
-  const dashPlayerConfig = { ...defaultDASHConfig, ...dashConfig, manifestUrl: src };
-  
-  // Use appropriate hook based on streaming protocol
-  const hlsPlayer = useVideoPlayer(playerConfig);
-  // const dashPlayer = useDASH(dashPlayerConfig);
+  const [bundleSource, setBundleSource] = useState<BundleSource | null>(null);
+  const activeBundleSource = bundle ? bundleSource : null;
+  const sourceUrl = bundle ? activeBundleSource?.url || '' : src;
+  const engineType = engine || activeBundleSource?.engine || resolveStreamType(src, { isHLS, isDASH });
   
   const {
     videoRef,
@@ -72,17 +79,59 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = memo(({
     play,
     pause,
     setQuality,
+    setAudioTrack,
+    setTextTrack,
+    setSidecarTextTracks,
+    captionCues,
     setVolume,
     setPlaybackRate,
     seekTo,
+    seekToLive,
     toggleMute,
-  } = hlsPlayer;
+  } = useVideoPlayer(playerConfig, { dash: dashConfig, adaptive: adaptiveConfig, drm, lowLatency });
+  const thumbnailCues = useThumbnailTrack(thumbnails);
+  const { captionStyle, updateCaptionStyle } = useCaptionStyle();
+  const { audioPreference, updateAudioPreference } = useAudioPreference();
+  // Compare by content so an inline array prop doesn't refetch every render
+  const textTracksKey = JSON.stringify(textTracks || []);
 
   useEffect(() => {
-    if (src) {
-      loadVideo(src, isHLS);
+    if (!bundle) {
+      setBundleSource(null);
+      return;
     }
-  }, [src, isHLS, loadVideo]);
+
+    const source = createBundleSource(bundle);
+    setBundleSource(source);
+    return () => source.revoke();
+  }, [bundle]);
+
+  useEffect(() => {
+    if (sourceUrl) {
+      loadVideo(sourceUrl, engineType);
+    }
+  }, [sourceUrl, engineType, loadVideo]);
+
+  useEffect(() => {
+    setSidecarTextTracks(JSON.parse(textTracksKey));
+  }, [textTracksKey, setSidecarTextTracks]);
+
+  // Switch to the remembered audio language once a video lists its tracks.
+  // The current track is read through a ref so a manual switch doesn't re-run it.
+  const { audioTracks } = playerState;
+  const currentAudioTrackRef = useRef(playerState.currentAudioTrack);
+  currentAudioTrackRef.current = playerState.currentAudioTrack;
+  useEffect(() => {
+    const preferred = selectPreferredAudioTrack(audioTracks, audioPreference);
+    if (preferred && preferred.id !== currentAudioTrackRef.current?.id) {
+      setAudioTrack(preferred);
+    }
+  }, [audioTracks, audioPreference, setAudioTrack]);
+
+  const handleAudioTrackChange = (track: AudioTrack) => {
+    setAudioTrack(track);
+    updateAudioPreference(toAudioPreference(track));
+  };
 
   const handleVideoClick = () => {
     if (playerState.currentState === 'playing') {
@@ -138,6 +187,8 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = memo(({
         playsInline
         preload="metadata"
       />
+
+      <CaptionRenderer cues={captionCues} captionStyle={captionStyle} />
       
       {playerState.metadata.hasError && (
         <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-75">
@@ -146,7 +197,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = memo(({
             <div className="text-lg mb-2">Playback Error</div>
             <div className="text-sm text-gray-300">{playerState.metadata.errorMessage}</div>
             <button
-              onClick={() => loadVideo(src, isHLS)}
+              onClick={() => loadVideo(sourceUrl, engineType)}
               className="mt-4 px-4 py-2 bg-red-600 hover:bg-red-700 rounded text-white"
             >
               Retry
@@ -170,6 +221,9 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = memo(({
           duration={playerState.metadata.duration}
           buffered={playerState.metadata.buffered}
           onSeek={seekTo}
+          thumbnails={thumbnailCues}
+          liveWindow={playerState.metadata.liveWindow}
+          onGoLive={seekToLive}
         />
         
         <div className="flex items-center justify-between mt-2">
@@ -188,9 +242,15 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = memo(({
               onToggleMute={toggleMute}
             />
             
-            <div className="text-white text-sm">
-              {formatTime(playerState.metadata.currentTime)} / {formatTime(playerState.metadata.duration)}
-            </div>
+            {playerState.metadata.liveWindow ? (
+              <div className="text-white text-sm">
+                Latency {playerState.metadata.liveWindow.latency.toFixed(1)}s
+              </div>
+            ) : (
+              <div className="text-white text-sm">
+                {formatTime(playerState.metadata.currentTime)} / {formatTime(playerState.metadata.duration)}
+              </div>
+            )}
           </div>
           
           <div className="flex items-center space-x-4">
@@ -204,6 +264,20 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = memo(({
               currentQuality={playerState.currentQuality}
               onQualityChange={setQuality}
             />
+
+            <AudioSelector
+              tracks={playerState.audioTracks}
+              currentTrack={playerState.currentAudioTrack}
+              onTrackChange={handleAudioTrackChange}
+            />
+
+            <CaptionSelector
+              tracks={playerState.textTracks}
+              currentTrack={playerState.currentTextTrack}
+              onTrackChange={setTextTrack}
+              captionStyle={captionStyle}
+              onCaptionStyleChange={updateCaptionStyle}
+            />
             
             <button
               onClick={() => {
@@ -44,7 +44,7 @@ describe('AdaptiveStreamingDashboard', () => {
         resolution: { width: 426, height: 240 },
         codec: 'avc1.42E01E',
         mimeType: 'video/mp4',
-        url: '/streams/240p/',
+        url: '/streams/240p/index.m3u8',
         bandwidth: 400000
       },
       {
@@ -53,7 +53,7 @@ describe('AdaptiveStreamingDashboard', () => {
         resolution: { width: 1280, height: 720 },
         codec: 'avc1.4D401F',
         mimeType: 'video/mp4',
-        url: '/streams/720p/',
+        url: '/streams/720p/index.m3u8',
         bandwidth: 2500000
       }
     ],
@@ -64,6 +64,7 @@ describe('AdaptiveStreamingDashboard', () => {
       averageLatency: 150,
       bufferHealth: 85,
       networkStability: 90,
+      qoeScore: 72,
       userExperience: 'good'
     },
     networkMetrics: {
@@ -75,7 +76,17 @@ describe('AdaptiveStreamingDashboard', () => {
       connectionType: 'wifi'
     },
     bufferHealth: 85,
+    qoeScore: 72,
     userExperience: 'good',
+    cacheStats: {
+      hits: 30,
+      persistentHits: 6,
+      misses: 10,
+      evictions: 4,
+      entries: 12,
+      bytes: 12 * 1024 * 1024,
+      maxBytes: 64 * 1024 * 1024
+    },
     error: null,
     loadSegment: jest.fn(),
     switchQuality: jest.fn(),
@@ -95,6 +106,7 @@ describe('AdaptiveStreamingDashboard', () => {
         averageLatency: 150,
         bufferHealth: 85,
         networkStability: 90,
+        qoeScore: 72,
         userExperience: 'good'
       },
       network: {
@@ -148,6 +160,7 @@ describe('AdaptiveStreamingDashboard', () => {
       expect(screen.getByText('85.0%')).toBeInTheDocument();
       expect(screen.getByText('5.0 Mbps')).toBeInTheDocument();
       expect(screen.getByText('Good')).toBeInTheDocument();
+      expect(screen.getByText('QoE 72/100 · 3 switches')).toBeInTheDocument();
     });
 
     it('should display error message when there is an error', () => {
@@ -301,6 +314,18 @@ describe('AdaptiveStreamingDashboard', () => {
       expect(screen.getByText('Buffer Length')).toBeInTheDocument();
     });
 
+    it('should display segment cache metrics when advanced is shown', () => {
+      render(<AdaptiveStreamingDashboard {...defaultProps} />);
+
+      fireEvent.click(screen.getByText('Show Advanced Metrics'));
+
+      expect(screen.getByText('Segment Cache')).toBeInTheDocument();
+      expect(screen.getByText('75.0%')).toBeInTheDocument();
+      expect(screen.getByText('30 / 10')).toBeInTheDocument();
+      expect(screen.getByText('6 from storage')).toBeInTheDocument();
+      expect(screen.getByText('12.0 MB / 64.0 MB')).toBeInTheDocument();
+    });
+
     it('should display raw metrics when advanced is shown', () => {
       render(<AdaptiveStreamingDashboard {...defaultProps} />);
 
@@ -312,6 +337,24 @@ describe('AdaptiveStreamingDashboard', () => {
     });
   });
 
+  describe('network emulation', () => {
+    it('should route segment requests through the emulator', () => {
+      render(<AdaptiveStreamingDashboard {...defaultProps} />);
+
+      const options = mockUseAdaptiveStreaming.mock.calls[mockUseAdaptiveStreaming.mock.calls.length - 1][0];
+      expect(typeof options.config.segmentLoader.fetch).toBe('function');
+      expect(screen.getByText('Real network')).toBeInTheDocument();
+    });
+
+    it('should show the conditions of the selected profile', () => {
+      render(<AdaptiveStreamingDashboard {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText('Network profile'), { target: { value: '3g' } });
+
+      expect(screen.getByText('1.5 Mbps · 150ms · 1% loss')).toBeInTheDocument();
+    });
+  });
+
   describe('buffering state', () => {
     it('should display buffering indicator when buffering', () => {
       const bufferingState = {
@@ -0,0 +1,32 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AudioSelector } from '../AudioSelector';
+import { AudioTrack } from '../../types/player';
+
+describe('AudioSelector', () => {
+  const tracks: AudioTrack[] = [
+    { id: 'audio-0', label: 'English', language: 'en', roles: ['main'], descriptive: false, channels: '6' },
+    { id: 'audio-1', label: 'English AD', language: 'en', roles: ['description'], descriptive: true }
+  ];
+
+  it('renders nothing with a single audio track', () => {
+    const { container } = render(
+      <AudioSelector tracks={tracks.slice(0, 1)} currentTrack={tracks[0]} onTrackChange={jest.fn()} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('lists tracks with their details and switches on click', () => {
+    const onTrackChange = jest.fn();
+    render(<AudioSelector tracks={tracks} currentTrack={tracks[0]} onTrackChange={onTrackChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Audio' }));
+
+    expect(screen.getByText('en · 6ch')).toBeInTheDocument();
+    expect(screen.getByText('en · Audio description')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('English AD'));
+    expect(onTrackChange).toHaveBeenCalledWith(tracks[1]);
+  });
+});
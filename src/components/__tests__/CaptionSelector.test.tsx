@@ -0,0 +1,79 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CaptionSelector } from '../CaptionSelector';
+import { CaptionRenderer } from '../CaptionRenderer';
+import { TextTrackInfo } from '../../types/player';
+import { DEFAULT_CAPTION_STYLE } from '../../utils/captions';
+
+describe('CaptionSelector', () => {
+  const tracks: TextTrackInfo[] = [
+    { id: 'subtitle-0', label: 'English', language: 'en', kind: 'subtitles', source: 'manifest' },
+    { id: 'cc1', label: 'CC1', language: 'en', kind: 'captions', source: 'embedded' }
+  ];
+
+  it('renders nothing without text tracks', () => {
+    const { container } = render(
+      <CaptionSelector
+        tracks={[]}
+        currentTrack={null}
+        onTrackChange={jest.fn()}
+        captionStyle={DEFAULT_CAPTION_STYLE}
+        onCaptionStyleChange={jest.fn()}
+      />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('selects a track or turns captions off', () => {
+    const onTrackChange = jest.fn();
+    render(
+      <CaptionSelector
+        tracks={tracks}
+        currentTrack={tracks[0]}
+        onTrackChange={onTrackChange}
+        captionStyle={DEFAULT_CAPTION_STYLE}
+        onCaptionStyleChange={jest.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Captions' }));
+    fireEvent.click(screen.getByText('CC1'));
+    expect(onTrackChange).toHaveBeenLastCalledWith(tracks[1]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Captions' }));
+    fireEvent.click(screen.getByText('Off'));
+    expect(onTrackChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('updates the caption style', () => {
+    const onCaptionStyleChange = jest.fn();
+    render(
+      <CaptionSelector
+        tracks={tracks}
+        currentTrack={null}
+        onTrackChange={jest.fn()}
+        captionStyle={DEFAULT_CAPTION_STYLE}
+        onCaptionStyleChange={onCaptionStyleChange}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Captions' }));
+    fireEvent.change(screen.getByLabelText('Size'), { target: { value: 'large' } });
+    fireEvent.change(screen.getByLabelText('Background'), { target: { value: '0' } });
+
+    expect(onCaptionStyleChange).toHaveBeenCalledWith({ fontSize: 'large' });
+    expect(onCaptionStyleChange).toHaveBeenCalledWith({ backgroundOpacity: 0 });
+  });
+
+  it('renders active cues with the caption style', () => {
+    render(
+      <CaptionRenderer
+        cues={[{ start: 0, end: 2, text: 'Hello' }]}
+        captionStyle={{ ...DEFAULT_CAPTION_STYLE, fontSize: 'large', color: '#ffff00' }}
+      />
+    );
+
+    expect(screen.getByText('Hello')).toHaveStyle({ fontSize: '28px', color: '#ffff00' });
+  });
+});
@@ -0,0 +1,129 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ClipEditor } from '../ClipEditor';
+import { FFmpegJobOptions, FFmpegResult, TrimRange } from '../../types/player';
+
+describe('ClipEditor', () => {
+  const file = new File(['video'], 'clip.mp4', { type: 'video/mp4' });
+  const cuts: TrimRange[] = [{ start: 2, end: 5 }, { start: 10, end: 12 }];
+
+  const renderEditor = (props: Partial<React.ComponentProps<typeof ClipEditor>> = {}) => {
+    const onCutsChange = jest.fn();
+    const onModeChange = jest.fn();
+    const element = (overrides: typeof props) => (
+      <ClipEditor
+        file={file}
+        cuts={cuts}
+        mode="reencode"
+        onCutsChange={onCutsChange}
+        onModeChange={onModeChange}
+        duration={20}
+        {...overrides}
+      />
+    );
+    const { rerender, unmount } = render(element(props));
+    return {
+      onCutsChange,
+      onModeChange,
+      rerender: (overrides: typeof props) => rerender(element({ ...props, ...overrides })),
+      unmount
+    };
+  };
+
+  beforeEach(() => {
+    URL.createObjectURL = jest.fn(() => `blob:clip/${Math.random()}`);
+    URL.revokeObjectURL = jest.fn();
+  });
+
+  it('lists cuts and the joined output length', () => {
+    renderEditor();
+
+    expect(screen.getByText('Cut 1: 0:02.0 – 0:05.0 (3.0s)')).toBeInTheDocument();
+    expect(screen.getByText('Cut 2: 0:10.0 – 0:12.0 (2.0s)')).toBeInTheDocument();
+    expect(screen.getByText('Output: 0:05.0')).toBeInTheDocument();
+  });
+
+  it('nudges handles with the keyboard without crossing other cuts', () => {
+    const { onCutsChange } = renderEditor();
+
+    fireEvent.keyDown(screen.getByLabelText('Cut 1 in point'), { key: 'ArrowLeft' });
+    expect(onCutsChange).toHaveBeenLastCalledWith([{ start: 1.9, end: 5 }, cuts[1]]);
+
+    // The second cut cannot start before the first one ends
+    const { onCutsChange: onTightChange } = renderEditor({ cuts: [{ start: 2, end: 5 }, { start: 5, end: 8 }] });
+    fireEvent.keyDown(screen.getAllByLabelText('Cut 2 in point')[1], { key: 'ArrowLeft' });
+    expect(onTightChange).toHaveBeenLastCalledWith([{ start: 2, end: 5 }, { start: 5, end: 8 }]);
+  });
+
+  it('drags the out point along the timeline', () => {
+    const { onCutsChange } = renderEditor();
+    const timeline = screen.getByTestId('clip-timeline');
+    timeline.getBoundingClientRect = () => ({ left: 0, width: 200 } as DOMRect);
+
+    fireEvent.mouseDown(screen.getByLabelText('Cut 1 out point'));
+    fireEvent.mouseMove(window, { clientX: 80 });
+    fireEvent.mouseUp(window);
+
+    expect(onCutsChange).toHaveBeenLastCalledWith([{ start: 2, end: 8 }, cuts[1]]);
+
+    // Past the next cut's in point the handle stops there
+    fireEvent.mouseDown(screen.getByLabelText('Cut 1 out point'));
+    fireEvent.mouseMove(window, { clientX: 150 });
+    expect(onCutsChange).toHaveBeenLastCalledWith([{ start: 2, end: 10 }, cuts[1]]);
+  });
+
+  it('adds and removes cuts', () => {
+    const { onCutsChange } = renderEditor();
+
+    fireEvent.click(screen.getByText('Add cut at 0:00.0'));
+    expect(onCutsChange).toHaveBeenLastCalledWith([{ start: 0, end: 2 }, ...cuts]);
+
+    fireEvent.click(screen.getAllByText('Remove')[0]);
+    expect(onCutsChange).toHaveBeenLastCalledWith([cuts[1]]);
+  });
+
+  it('switches between stream copy and re-encode', () => {
+    const { onModeChange } = renderEditor();
+
+    fireEvent.click(screen.getByLabelText(/Stream copy/));
+    expect(onModeChange).toHaveBeenCalledWith('copy');
+  });
+
+  it('builds a filmstrip from one sprite job', async () => {
+    const generateThumbnailSprite = jest.fn(async () => ({
+      success: true,
+      sprite: {
+        duration: 20, interval: 5, count: 4, columns: 4, rows: 1, tileWidth: 160, tileHeight: 90,
+        image: new Uint8Array([0xff, 0xd8]), imageName: 'thumbnails.jpg', mimeType: 'image/jpeg', vtt: ''
+      }
+    }));
+    const { rerender } = renderEditor({ generateThumbnailSprite, filmstripFrames: 4 });
+
+    await waitFor(() => {
+      expect(screen.getAllByRole('img', { name: /Frame \d/ })).toHaveLength(4);
+    });
+    expect(generateThumbnailSprite).toHaveBeenCalledWith(
+      file,
+      { count: 4, columns: 4, width: 160 },
+      { signal: expect.any(AbortSignal), hidden: true }
+    );
+    expect(screen.getByRole('img', { name: 'Frame 4' }).style.backgroundPosition).toBe('100% 0px');
+
+    // A slightly different duration from the loaded metadata doesn't start over
+    rerender({ duration: 20.04 });
+    expect(generateThumbnailSprite).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the sprite job when it unmounts', () => {
+    let signal: AbortSignal | undefined;
+    const generateThumbnailSprite = jest.fn((_file: File, _options?: unknown, jobOptions?: FFmpegJobOptions) => {
+      signal = jobOptions?.signal;
+      return new Promise<FFmpegResult>(() => {});
+    });
+    const { unmount } = renderEditor({ generateThumbnailSprite });
+
+    expect(signal?.aborted).toBe(false);
+    unmount();
+    expect(signal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ProgressBar } from '../ProgressBar';
+import { ThumbnailCue } from '../../types/player';
+
+describe('ProgressBar', () => {
+  const buffered = { length: 0, start: jest.fn(), end: jest.fn() } as unknown as TimeRanges;
+  const thumbnails: ThumbnailCue[] = [
+    { start: 0, end: 50, url: 'https://cdn.example.com/sprite.jpg', region: { x: 0, y: 0, width: 160, height: 90 } },
+    { start: 50, end: 100, url: 'https://cdn.example.com/sprite.jpg', region: { x: 160, y: 0, width: 160, height: 90 } }
+  ];
+
+  const hover = (container: HTMLElement, clientX: number) => {
+    const track = container.querySelector('.absolute.inset-0') as HTMLElement;
+    track.getBoundingClientRect = () => ({ left: 0, width: 200 } as DOMRect);
+    fireEvent.mouseMove(track, { clientX });
+  };
+
+  it('shows only the time tooltip without a thumbnails track', () => {
+    const { container } = render(
+      <ProgressBar currentTime={0} duration={100} buffered={buffered} onSeek={jest.fn()} />
+    );
+
+    hover(container, 50);
+
+    expect(screen.getByText('0:25')).toBeInTheDocument();
+    expect(screen.queryByTestId('thumbnail-preview')).not.toBeInTheDocument();
+  });
+
+  it('shows the sprite tile for the hovered time', () => {
+    const { container } = render(
+      <ProgressBar currentTime={0} duration={100} buffered={buffered} onSeek={jest.fn()} thumbnails={thumbnails} />
+    );
+
+    hover(container, 150);
+
+    const preview = screen.getByTestId('thumbnail-preview');
+    expect(screen.getByText('1:15')).toBeInTheDocument();
+    expect(preview).toHaveStyle({ width: '160px', height: '90px', backgroundPosition: '-160px -0px' });
+    expect(preview.parentElement).toHaveStyle({ left: '75%' });
+  });
+
+  it('scrubs within the DVR window of a live stream', () => {
+    const onSeek = jest.fn();
+    const onGoLive = jest.fn();
+    const liveWindow = { type: 'live' as const, start: 1000, end: 1120, latency: 60, targetLatency: 6, atLiveEdge: false };
+    const { container } = render(
+      <ProgressBar
+        currentTime={1060}
+        duration={Infinity}
+        buffered={buffered}
+        onSeek={onSeek}
+        liveWindow={liveWindow}
+        onGoLive={onGoLive}
+      />
+    );
+
+    hover(container, 150);
+    expect(screen.getByText('-0:30')).toBeInTheDocument();
+
+    fireEvent.click(container.querySelector('.absolute.inset-0') as HTMLElement, { clientX: 150 });
+    expect(onSeek).toHaveBeenCalledWith(1090);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Go to live' }));
+    expect(onGoLive).toHaveBeenCalled();
+  });
+
+  it('marks playback at the live edge', () => {
+    render(
+      <ProgressBar
+        currentTime={1118}
+        duration={Infinity}
+        buffered={buffered}
+        onSeek={jest.fn()}
+        liveWindow={{ type: 'live', start: 1000, end: 1120, latency: 2, targetLatency: 6, atLiveEdge: true }}
+        onGoLive={jest.fn()}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: 'Playing live' })).toBeDisabled();
+  });
+});
@@ -1,19 +1,32 @@
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { VideoConverter } from '../VideoConverter';
+import { FFmpegJob } from '../../types/player';
 
 // Mock the FFmpeg hook
+const mockCancelJob = jest.fn();
+const mockGetVideoInfo = jest.fn();
+let mockJobs: FFmpegJob[] = [];
+let mockIsLoaded = true;
+
 jest.mock('../../hooks/useFFmpeg', () => ({
   useFFmpeg: () => ({
-    isLoaded: true,
-    isProcessing: false,
+    isLoaded: mockIsLoaded,
+    isLoading: false,
+    loadProgress: null,
+    isProcessing: mockJobs.some(job => job.status === 'running'),
     progress: null,
     error: null,
     result: null,
+    jobs: mockJobs,
     loadFFmpeg: jest.fn(),
     convertVideo: jest.fn(),
     extractThumbnail: jest.fn(),
-    getVideoInfo: jest.fn(),
+    generateThumbnailSprite: jest.fn(),
+    packageAdaptive: jest.fn(),
+    getVideoInfo: mockGetVideoInfo,
+    cancelJob: mockCancelJob,
+    clearFinishedJobs: jest.fn(),
     reset: jest.fn(),
     terminate: jest.fn(),
   }),
@@ -46,6 +59,11 @@ jest.mock('../../utils/ffmpeg', () => ({
 }));
 
 describe('VideoConverter', () => {
+  beforeEach(() => {
+    mockGetVideoInfo.mockReset();
+    mockIsLoaded = true;
+  });
+
   it('renders the video converter component', () => {
     render(<VideoConverter />);
     
@@ -172,6 +190,80 @@ describe('VideoConverter', () => {
     });
   });
 
+  it('probes a file picked before FFmpeg loaded and prefills its display size', async () => {
+    mockIsLoaded = false;
+    mockGetVideoInfo.mockResolvedValue({
+      container: 'mov,mp4,m4a,3gp,3g2,mj2',
+      duration: 10,
+      bitrate: 4000000,
+      size: 100,
+      rotation: 90,
+      videoStreams: [{ index: 0, type: 'video', codec: 'h264', width: 1920, height: 1080, frameRate: 30, bitrate: 0, rotation: 90 }],
+      audioStreams: [],
+      subtitleStreams: [],
+      chapters: []
+    });
+    const { rerender } = render(<VideoConverter />);
+
+    const file = new File(['test video content'], 'portrait.mp4', { type: 'video/mp4' });
+    fireEvent.change(screen.getByLabelText('Select Video File'), { target: { files: [file] } });
+    expect(mockGetVideoInfo).not.toHaveBeenCalled();
+
+    mockIsLoaded = true;
+    rerender(<VideoConverter />);
+    fireEvent.click(screen.getByText('Show Advanced Options'));
+
+    // Width and height swap for a source shot in portrait
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText('1920')).toHaveValue(1080);
+    });
+    expect(screen.getByPlaceholderText('1080')).toHaveValue(1920);
+    expect(mockGetVideoInfo).toHaveBeenCalledTimes(1);
+    expect(mockGetVideoInfo).toHaveBeenCalledWith(file);
+  });
+
+  it('lists every selected file for batch conversion', async () => {
+    render(<VideoConverter />);
+
+    const files = [
+      new File(['a'], 'first.mp4', { type: 'video/mp4' }),
+      new File(['b'], 'second.mov', { type: 'video/quicktime' }),
+    ];
+    fireEvent.change(screen.getByLabelText('Select Video File'), { target: { files } });
+
+    await waitFor(() => {
+      expect(screen.getByText('File: first.mp4')).toBeInTheDocument();
+      expect(screen.getByText('+1 more: second.mov')).toBeInTheDocument();
+      expect(screen.getByText('Convert 2 Videos')).toBeInTheDocument();
+    });
+  });
+
+  it('shows the job queue with per-job actions', () => {
+    const job = (id: string, status: FFmpegJob['status']): FFmpegJob => ({
+      id,
+      type: 'convert',
+      fileName: `${id}.mp4`,
+      status,
+      progress: status === 'running' ? { percent: 40, time: 0, speed: 1, eta: 0 } : null,
+      logs: [],
+      result: status === 'done' ? { success: true, outputFile: new Uint8Array([1]) } : null,
+      createdAt: 0,
+    });
+    mockJobs = [job('job-1', 'done'), job('job-2', 'running'), job('job-3', 'queued')];
+
+    render(<VideoConverter />);
+
+    expect(screen.getByText('running 40%')).toBeInTheDocument();
+    expect(screen.getByText('queued')).toBeInTheDocument();
+    expect(screen.getByText('Download')).toBeInTheDocument();
+    expect(screen.getByText('Add to Queue')).toBeInTheDocument();
+
+    fireEvent.click(screen.getAllByText('Cancel')[0]);
+    expect(mockCancelJob).toHaveBeenCalledWith('job-2');
+
+    mockJobs = [];
+  });
+
   it('shows FFmpeg status correctly', () => {
     render(<VideoConverter />);
     
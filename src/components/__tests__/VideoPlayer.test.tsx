@@ -1,10 +1,12 @@
 import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { VideoPlayer } from '../VideoPlayer';
-import { VideoQuality } from '@/types/player';
+import { VideoQuality, AdaptiveBundle } from '@/types/player';
 
 // Jest types are already available globally
 
+const mockLoadVideo = jest.fn();
+
 // Mock the hooks
 jest.mock('@/hooks/useVideoPlayer', () => ({
   useVideoPlayer: () => ({
@@ -28,15 +30,26 @@ jest.mock('@/hooks/useVideoPlayer', () => ({
       },
       availableQualities: [],
       currentQuality: null,
+      textTracks: [],
+      currentTextTrack: null,
+      audioTracks: [],
+      currentAudioTrack: null,
       adaptiveBitrate: true,
     },
-    loadVideo: jest.fn(),
+    loadVideo: mockLoadVideo,
+    unloadVideo: jest.fn(),
+    getPlaybackMetrics: jest.fn(),
     play: jest.fn(),
     pause: jest.fn(),
     setQuality: jest.fn(),
+    setAudioTrack: jest.fn(),
+    setTextTrack: jest.fn(),
+    setSidecarTextTracks: jest.fn(),
+    captionCues: [],
     setVolume: jest.fn(),
     setPlaybackRate: jest.fn(),
     seekTo: jest.fn(),
+    seekToLive: jest.fn(),
     toggleMute: jest.fn(),
     analytics: [],
   }),
@@ -87,4 +100,53 @@ describe('VideoPlayer', () => {
     const videoElement = screen.getByRole('button', { name: '1x' });
     expect(videoElement).toBeInTheDocument();
   });
+
+  describe('engine selection', () => {
+    beforeEach(() => {
+      mockLoadVideo.mockClear();
+    });
+
+    it('routes .mpd sources to the DASH engine even when isHLS defaults to true', () => {
+      render(<VideoPlayer src="https://example.com/manifest.mpd" />);
+
+      expect(mockLoadVideo).toHaveBeenCalledWith('https://example.com/manifest.mpd', 'dash');
+    });
+
+    it('routes HLS sources to the HLS engine', () => {
+      render(<VideoPlayer {...defaultProps} />);
+
+      expect(mockLoadVideo).toHaveBeenCalledWith(defaultProps.src, 'hls');
+    });
+
+    it('honours an explicit isDASH flag for extensionless URLs', () => {
+      render(<VideoPlayer src="https://example.com/stream" isDASH />);
+
+      expect(mockLoadVideo).toHaveBeenCalledWith('https://example.com/stream', 'dash');
+    });
+
+    it('lets callers pick a registered engine directly', () => {
+      render(<VideoPlayer src="https://example.com/stream" engine="mse" />);
+
+      expect(mockLoadVideo).toHaveBeenCalledWith('https://example.com/stream', 'mse');
+    });
+
+    it('plays an in-memory bundle from blob URLs', () => {
+      const createObjectURL = jest.fn(() => 'blob:bundle/master');
+      const revokeObjectURL = jest.fn();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      const bundle: AdaptiveBundle = {
+        format: 'dash',
+        manifestPath: 'manifest.mpd',
+        renditions: [],
+        files: [{ path: 'manifest.mpd', mimeType: 'application/dash+xml', data: new TextEncoder().encode('<MPD/>') }]
+      };
+
+      const { unmount } = render(<VideoPlayer bundle={bundle} />);
+
+      expect(mockLoadVideo).toHaveBeenCalledWith('blob:bundle/master', 'dash');
+
+      unmount();
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:bundle/master');
+    });
+  });
 });
@@ -15,6 +15,7 @@ jest.mock('../../utils/adaptiveStreaming', () => ({
       averageLatency: 150,
       bufferHealth: 85,
       networkStability: 90,
+      qoeScore: 72,
       userExperience: 'good'
     }),
     getNetworkMetrics: jest.fn().mockReturnValue({
@@ -25,6 +26,7 @@ jest.mock('../../utils/adaptiveStreaming', () => ({
       throughput: 4800000,
       connectionType: 'wifi'
     }),
+    getCacheStats: jest.fn().mockReturnValue({ hits: 4, persistentHits: 1, misses: 2, evictions: 0, entries: 5, bytes: 1000, maxBytes: 4000 }),
     updateCooldown: jest.fn(),
     destroy: jest.fn()
   }))
@@ -49,6 +51,7 @@ describe('useAdaptiveStreaming', () => {
         averageLatency: 150,
         bufferHealth: 85,
         networkStability: 90,
+        qoeScore: 72,
         userExperience: 'good'
       }),
       getNetworkMetrics: jest.fn().mockReturnValue({
@@ -59,6 +62,7 @@ describe('useAdaptiveStreaming', () => {
         throughput: 4800000,
         connectionType: 'wifi'
       }),
+      getCacheStats: jest.fn().mockReturnValue({ hits: 4, persistentHits: 1, misses: 2, evictions: 0, entries: 5, bytes: 1000, maxBytes: 4000 }),
       updateCooldown: jest.fn(),
       destroy: jest.fn()
     }));
@@ -76,7 +80,7 @@ describe('useAdaptiveStreaming', () => {
         resolution: { width: 1280, height: 720 },
         codec: 'avc1.4D401F',
         mimeType: 'video/mp4',
-        url: '/streams/720p/',
+        url: '/streams/720p/index.m3u8',
         bandwidth: 2500000
       }
     ],
@@ -203,6 +207,7 @@ describe('useAdaptiveStreaming', () => {
           averageLatency: 100,
           bufferHealth: 85,
           networkStability: 90,
+          qoeScore: 72,
           userExperience: 'good'
         }),
         getNetworkMetrics: jest.fn().mockReturnValue({
@@ -213,6 +218,7 @@ describe('useAdaptiveStreaming', () => {
           throughput: 4800000,
           connectionType: 'wifi'
         }),
+        getCacheStats: jest.fn().mockReturnValue({ hits: 4, persistentHits: 1, misses: 2, evictions: 0, entries: 5, bytes: 1000, maxBytes: 4000 }),
         updateCooldown: jest.fn(),
         destroy: jest.fn()
       }));
@@ -288,6 +294,9 @@ describe('useAdaptiveStreaming', () => {
       expect(result.current.metrics.currentQuality).toBe('720p');
       expect(result.current.metrics.qualitySwitches).toBe(2);
       expect(result.current.metrics.rebufferingEvents).toBe(1);
+      expect(result.current.qoeScore).toBe(72);
+      expect(result.current.userExperience).toBe('good');
+      expect(result.current.cacheStats?.hits).toBe(4);
     });
   });
 
@@ -0,0 +1,71 @@
+import { renderHook, act } from '@testing-library/react';
+import { useFFmpeg } from '../useFFmpeg';
+import { createFFmpegProcessor } from '../../utils/ffmpeg';
+import { FFmpegResult } from '../../types/player';
+import { beforeEach } from '@jest/globals';
+
+// A processor whose sprite jobs stay pending until the test settles them
+const mockSettles: ((result: FFmpegResult) => void)[] = [];
+const mockProcessor = {
+  load: jest.fn().mockResolvedValue(undefined),
+  cancel: jest.fn(),
+  terminate: jest.fn().mockResolvedValue(undefined),
+  generateThumbnailSprite: jest.fn(() => new Promise<FFmpegResult>(resolve => mockSettles.push(resolve)))
+};
+
+jest.mock('../../utils/ffmpeg', () => ({
+  createFFmpegProcessor: jest.fn(() => mockProcessor)
+}));
+
+describe('useFFmpeg', () => {
+  const file = new File(['video'], 'clip.mp4', { type: 'video/mp4' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSettles.length = 0;
+  });
+
+  it('loads one processor for jobs enqueued before the first load finishes', async () => {
+    const { result } = renderHook(() => useFFmpeg());
+    await act(async () => {
+      void result.current.generateThumbnailSprite(file);
+      void result.current.generateThumbnailSprite(file);
+    });
+
+    expect(createFFmpegProcessor).toHaveBeenCalledTimes(1);
+    expect(mockProcessor.load).toHaveBeenCalledTimes(1);
+    expect(result.current.jobs).toHaveLength(2);
+  });
+
+  it('keeps hidden jobs out of the job list and only aborts them while queued', async () => {
+    const { result } = renderHook(() => useFFmpeg());
+    await act(() => result.current.loadFFmpeg());
+
+    const running = new AbortController();
+    const queued = new AbortController();
+    let runningResult: Promise<FFmpegResult> = Promise.resolve({ success: false });
+    let queuedResult: Promise<FFmpegResult> = Promise.resolve({ success: false });
+    await act(async () => {
+      runningResult = result.current.generateThumbnailSprite(file, { count: 8 }, { signal: running.signal, hidden: true });
+      queuedResult = result.current.generateThumbnailSprite(file, { count: 8 }, { signal: queued.signal, hidden: true });
+    });
+
+    expect(result.current.jobs).toEqual([]);
+    expect(result.current.isProcessing).toBe(false);
+
+    await act(async () => {
+      running.abort();
+      queued.abort();
+    });
+
+    // The running job keeps the worker; the queued one never starts
+    expect(mockProcessor.cancel).not.toHaveBeenCalled();
+    expect(await queuedResult).toEqual({ success: false, error: 'Job cancelled' });
+
+    await act(async () => {
+      mockSettles[0]({ success: true });
+    });
+    expect(await runningResult).toEqual({ success: true });
+    expect(mockProcessor.generateThumbnailSprite).toHaveBeenCalledTimes(1);
+  });
+});
@@ -60,6 +60,7 @@ const AB_TESTS: Record<string, ABTest> = {
           'max_bitrate': 5000000,
           'min_bitrate': 500000,
           'buffer_size': 30,
+          'abr_rules': ['throughput', 'insufficient-buffer'],
         }
       },
       'variant_b': {
@@ -72,6 +73,7 @@ const AB_TESTS: Record<string, ABTest> = {
           'max_bitrate': 8000000,
           'min_bitrate': 1000000,
           'buffer_size': 45,
+          'abr_rules': ['dynamic', 'insufficient-buffer'],
         }
       }
     },
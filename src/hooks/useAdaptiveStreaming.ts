@@ -1,5 +1,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { AdaptiveStreamingEngine, AdaptiveStreamingConfig, QualityLevel, NetworkMetrics, AdaptiveMetrics } from '../utils/adaptiveStreaming';
+import { QoERating } from '../utils/qoeModel';
+import { SegmentCacheStats } from '../types/player';
 
 export interface UseAdaptiveStreamingOptions {
   videoElement: HTMLVideoElement | null;
@@ -18,7 +20,10 @@ export interface AdaptiveStreamingState {
   metrics: AdaptiveMetrics;
   networkMetrics: NetworkMetrics;
   bufferHealth: number;
-  userExperience: 'excellent' | 'good' | 'fair' | 'poor';
+  // QoE score (0-100) of the session so far, and its rating
+  qoeScore: number;
+  userExperience: QoERating;
+  cacheStats: SegmentCacheStats | null;
   error: string | null;
 }
 
@@ -44,7 +49,8 @@ export const useAdaptiveStreaming = (options: UseAdaptiveStreamingOptions) => {
       averageLatency: 0,
       bufferHealth: 100,
       networkStability: 100,
-      userExperience: 'good'
+      qoeScore: 100,
+      userExperience: 'excellent'
     },
     networkMetrics: {
       bandwidth: 0,
@@ -55,7 +61,9 @@ export const useAdaptiveStreaming = (options: UseAdaptiveStreamingOptions) => {
       connectionType: 'wifi'
     },
     bufferHealth: 100,
-    userExperience: 'good',
+    qoeScore: 100,
+    userExperience: 'excellent',
+    cacheStats: null,
     error: null
   });
 
@@ -108,6 +116,7 @@ export const useAdaptiveStreaming = (options: UseAdaptiveStreamingOptions) => {
       try {
         const metrics = engineRef.current.getMetrics();
         const networkMetrics = engineRef.current.getNetworkMetrics();
+        const cacheStats = engineRef.current.getCacheStats();
         
         // Update cooldown
         engineRef.current.updateCooldown();
@@ -119,7 +128,9 @@ export const useAdaptiveStreaming = (options: UseAdaptiveStreamingOptions) => {
             metrics,
             networkMetrics,
             bufferHealth: metrics.bufferHealth,
-            userExperience: metrics.userExperience
+            qoeScore: metrics.qoeScore,
+            userExperience: metrics.userExperience,
+            cacheStats
           };
 
           // Check for quality changes
@@ -0,0 +1,40 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AudioPreference } from '@/types/player';
+
+const STORAGE_KEY = 'audio_preference';
+
+/**
+ * Audio language (and audio description choice) the viewer last picked,
+ * applied to every video that offers it
+ */
+export const useAudioPreference = () => {
+  const [audioPreference, setAudioPreference] = useState<AudioPreference | null>(null);
+
+  // Read after mount so server and client render the same markup
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        setAudioPreference(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.warn('Error reading stored audio preference:', error);
+    }
+  }, []);
+
+  const updateAudioPreference = useCallback((preference: AudioPreference) => {
+    setAudioPreference(preference);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(preference));
+    } catch (error) {
+      console.warn('Error storing audio preference:', error);
+    }
+  }, []);
+
+  return {
+    audioPreference,
+    updateAudioPreference,
+  };
+};
@@ -0,0 +1,53 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CaptionStyle } from '@/types/player';
+import { DEFAULT_CAPTION_STYLE } from '@/utils/captions';
+
+const STORAGE_KEY = 'caption_style';
+
+/**
+ * Caption appearance chosen by the viewer, remembered across sessions
+ */
+export const useCaptionStyle = () => {
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(DEFAULT_CAPTION_STYLE);
+
+  // Read after mount so server and client render the same markup
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        setCaptionStyle({ ...DEFAULT_CAPTION_STYLE, ...JSON.parse(stored) });
+      }
+    } catch (error) {
+      console.warn('Error reading stored caption style:', error);
+    }
+  }, []);
+
+  const updateCaptionStyle = useCallback((updates: Partial<CaptionStyle>) => {
+    setCaptionStyle(prev => {
+      const next = { ...prev, ...updates };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.warn('Error storing caption style:', error);
+      }
+      return next;
+    });
+  }, []);
+
+  const resetCaptionStyle = useCallback(() => {
+    setCaptionStyle(DEFAULT_CAPTION_STYLE);
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.warn('Error clearing caption style:', error);
+    }
+  }, []);
+
+  return {
+    captionStyle,
+    updateCaptionStyle,
+    resetCaptionStyle,
+  };
+};
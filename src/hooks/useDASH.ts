@@ -54,6 +54,7 @@ export const useDASH = (config: DASHConfig): UseDASHReturn => {
 
   const playerRef = useRef<DASHPlayer | null>(null);
   const videoElementRef = useRef<HTMLVideoElement | null>(null);
+  const removeVideoListenersRef = useRef<(() => void) | null>(null);
 
   const initialize = useCallback(async (videoElement: HTMLVideoElement) => {
     try {
@@ -71,6 +72,11 @@ export const useDASH = (config: DASHConfig): UseDASHReturn => {
         setCurrentRepresentation(player.getCurrentRepresentation());
       });
 
+      // Our own parse of the MPD, which can land after dash.js has started and is redone for live reloads
+      player.on('manifestUpdated', (data: { manifest: DASHManifest }) => {
+        setManifest(data.manifest);
+      });
+
       player.on('representationChanged', (data: { representation: DASHRepresentation }) => {
         setCurrentRepresentation(data.representation);
         setAvailableRepresentations(player.getAvailableRepresentations());
@@ -114,6 +120,18 @@ export const useDASH = (config: DASHConfig): UseDASHReturn => {
       videoElement.addEventListener('canplay', handleCanPlay);
       videoElement.addEventListener('error', handleError);
 
+      removeVideoListenersRef.current = () => {
+        videoElement.removeEventListener('play', handlePlay);
+        videoElement.removeEventListener('pause', handlePause);
+        videoElement.removeEventListener('timeupdate', handleTimeUpdate);
+        videoElement.removeEventListener('durationchange', handleDurationChange);
+        videoElement.removeEventListener('volumechange', handleVolumeChange);
+        videoElement.removeEventListener('ratechange', handleRateChange);
+        videoElement.removeEventListener('waiting', handleWaiting);
+        videoElement.removeEventListener('canplay', handleCanPlay);
+        videoElement.removeEventListener('error', handleError);
+      };
+
       setIsInitialized(true);
       setIsBuffering(false);
       setDuration(videoElement.duration || 0);
@@ -178,20 +196,11 @@ export const useDASH = (config: DASHConfig): UseDASHReturn => {
       playerRef.current.destroy();
       playerRef.current = null;
     }
-    if (videoElementRef.current) {
-      // Remove event listeners
-      const videoElement = videoElementRef.current;
-      videoElement.removeEventListener('play', () => {});
-      videoElement.removeEventListener('pause', () => {});
-      videoElement.removeEventListener('timeupdate', () => {});
-      videoElement.removeEventListener('durationchange', () => {});
-      videoElement.removeEventListener('volumechange', () => {});
-      videoElement.removeEventListener('ratechange', () => {});
-      videoElement.removeEventListener('waiting', () => {});
-      videoElement.removeEventListener('canplay', () => {});
-      videoElement.removeEventListener('error', () => {});
-      videoElementRef.current = null;
+    if (removeVideoListenersRef.current) {
+      removeVideoListenersRef.current();
+      removeVideoListenersRef.current = null;
     }
+    videoElementRef.current = null;
     setIsInitialized(false);
     setIsPlaying(false);
     setIsBuffering(false);
@@ -1,55 +1,113 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { FFmpegProcessor, createFFmpegProcessor } from '../utils/ffmpeg';
-import { FFmpegProgress, FFmpegResult, VideoConversionOptions } from '../types/player';
+import {
+  FFmpegJobQueue,
+  FFmpegJobRunner,
+  createFFmpegJobQueue,
+  JOB_CANCELLED_ERROR
+} from '../utils/ffmpegQueue';
+import {
+  FFmpegCoreOptions,
+  FFmpegLoadProgress,
+  FFmpegProgress,
+  FFmpegResult,
+  FFmpegJob,
+  FFmpegJobOptions,
+  FFmpegJobType,
+  VideoConversionOptions,
+  AdaptiveRendition,
+  AdaptivePackagingOptions,
+  ThumbnailSpriteOptions,
+  MediaInfo
+} from '../types/player';
 
 export interface UseFFmpegReturn {
   isLoaded: boolean;
+  isLoading: boolean;
+  loadProgress: FFmpegLoadProgress | null;
   isProcessing: boolean;
   progress: FFmpegProgress | null;
   error: string | null;
   result: FFmpegResult | null;
+  jobs: FFmpegJob[];
   loadFFmpeg: () => Promise<void>;
   convertVideo: (inputFile: File, options: VideoConversionOptions) => Promise<FFmpegResult>;
   extractThumbnail: (inputFile: File, timeOffset?: number) => Promise<FFmpegResult>;
-  getVideoInfo: (inputFile: File) => Promise<any>;
+  generateThumbnailSprite: (
+    inputFile: File,
+    options?: ThumbnailSpriteOptions,
+    jobOptions?: FFmpegJobOptions
+  ) => Promise<FFmpegResult>;
+  packageAdaptive: (
+    inputFile: File,
+    ladder: AdaptiveRendition[],
+    options?: AdaptivePackagingOptions
+  ) => Promise<FFmpegResult>;
+  getVideoInfo: (inputFile: File) => Promise<MediaInfo | null>;
+  cancelJob: (id: string) => void;
+  clearFinishedJobs: () => void;
   reset: () => void;
   terminate: () => Promise<void>;
 }
 
-export const useFFmpeg = (): UseFFmpegReturn => {
+export const useFFmpeg = (coreOptions?: FFmpegCoreOptions): UseFFmpegReturn => {
   const [isLoaded, setIsLoaded] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState<FFmpegProgress | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<FFmpegLoadProgress | null>(null);
+  const [jobs, setJobs] = useState<FFmpegJob[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<FFmpegResult | null>(null);
   
   const processorRef = useRef<FFmpegProcessor | null>(null);
+  const queueRef = useRef<FFmpegJobQueue | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const loadingRef = useRef<Promise<void> | null>(null);
+  const coreOptionsRef = useRef(coreOptions);
+  coreOptionsRef.current = coreOptions;
 
-  const loadFFmpeg = useCallback(async () => {
-    if (isLoaded) return;
-
+  const load = useCallback(async () => {
     try {
       setError(null);
-      const processor = createFFmpegProcessor();
-      await processor.load();
+      setIsLoading(true);
+      setLoadProgress(null);
+      const processor = createFFmpegProcessor(coreOptionsRef.current);
+      await processor.load(setLoadProgress);
       processorRef.current = processor;
+
+      const queue = createFFmpegJobQueue(processor);
+      unsubscribeRef.current = queue.subscribe(all => setJobs(all.filter(job => !job.hidden)));
+      queueRef.current = queue;
       setIsLoaded(true);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load FFmpeg';
       setError(errorMessage);
       console.error('Failed to load FFmpeg:', err);
+    } finally {
+      setIsLoading(false);
     }
-  }, [isLoaded]);
+  }, []);
+
+  // Calls made while a load is in flight share it, so there is only ever one processor and queue
+  const loadFFmpeg = useCallback((): Promise<void> => {
+    if (queueRef.current) return Promise.resolve();
 
-  const convertVideo = useCallback(async (
+    loadingRef.current ??= load().finally(() => {
+      loadingRef.current = null;
+    });
+    return loadingRef.current;
+  }, [load]);
+
+  const enqueue = useCallback(async (
+    type: FFmpegJobType,
     inputFile: File,
-    options: VideoConversionOptions
+    runner: FFmpegJobRunner,
+    { signal, hidden }: FFmpegJobOptions = {}
   ): Promise<FFmpegResult> => {
-    if (!processorRef.current) {
+    if (!queueRef.current) {
       await loadFFmpeg();
     }
 
-    if (!processorRef.current) {
+    if (!queueRef.current) {
       const errorResult: FFmpegResult = {
         success: false,
         error: 'FFmpeg not loaded',
@@ -58,86 +116,78 @@ export const useFFmpeg = (): UseFFmpegReturn => {
       return errorResult;
     }
 
-    try {
-      setIsProcessing(true);
-      setError(null);
-      setResult(null);
-      setProgress(null);
-
-      const result = await processorRef.current.convertVideo(
-        inputFile,
-        options,
-        (progress) => {
-          setProgress(progress);
-        }
-      );
+    setError(null);
+    const queue = queueRef.current;
+    const job = queue.add(type, inputFile.name, runner, { hidden });
+    // Cancelling a running job would take the loaded worker down with it, so
+    // only a queued one is dropped; the caller ignores what a running one returns
+    const cancel = () => {
+      if (queue.getJobs().find(candidate => candidate.id === job.id)?.status === 'queued') {
+        queue.cancel(job.id);
+      }
+    };
+    if (signal?.aborted) cancel();
+    signal?.addEventListener('abort', cancel);
+    const result = await job.result;
+    signal?.removeEventListener('abort', cancel);
 
+    if (!result.success && result.error !== JOB_CANCELLED_ERROR) {
+      setError(result.error || 'Processing failed');
+    }
+    // Thumbnails and sprites are handed straight to the caller, e.g. for filmstrips
+    if (type !== 'thumbnail' && type !== 'sprite') {
       setResult(result);
-      setIsProcessing(false);
-      return result;
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Conversion failed';
-      setError(errorMessage);
-      setIsProcessing(false);
-      
-      const errorResult: FFmpegResult = {
-        success: false,
-        error: errorMessage,
-      };
-      setResult(errorResult);
-      return errorResult;
     }
+    return result;
   }, [loadFFmpeg]);
 
-  const extractThumbnail = useCallback(async (
+  const convertVideo = useCallback((
+    inputFile: File,
+    options: VideoConversionOptions
+  ): Promise<FFmpegResult> => {
+    return enqueue('convert', inputFile, (processor, onProgress, onLog) => (
+      processor.convertVideo(inputFile, options, onProgress, onLog)
+    ));
+  }, [enqueue]);
+
+  const extractThumbnail = useCallback((
     inputFile: File,
     timeOffset: number = 0
   ): Promise<FFmpegResult> => {
-    if (!processorRef.current) {
-      await loadFFmpeg();
-    }
+    return enqueue('thumbnail', inputFile, (processor, onProgress, onLog) => (
+      processor.extractThumbnail(inputFile, timeOffset, onProgress, onLog)
+    ));
+  }, [enqueue]);
 
-    if (!processorRef.current) {
-      const errorResult: FFmpegResult = {
-        success: false,
-        error: 'FFmpeg not loaded',
-      };
-      setError('FFmpeg not loaded');
-      return errorResult;
-    }
+  const generateThumbnailSprite = useCallback((
+    inputFile: File,
+    options?: ThumbnailSpriteOptions,
+    jobOptions?: FFmpegJobOptions
+  ): Promise<FFmpegResult> => {
+    return enqueue('sprite', inputFile, (processor, onProgress, onLog) => (
+      processor.generateThumbnailSprite(inputFile, options, onProgress, onLog)
+    ), jobOptions);
+  }, [enqueue]);
 
-    try {
-      setIsProcessing(true);
-      setError(null);
-      setResult(null);
-      setProgress(null);
+  const packageAdaptive = useCallback((
+    inputFile: File,
+    ladder: AdaptiveRendition[],
+    options?: AdaptivePackagingOptions
+  ): Promise<FFmpegResult> => {
+    return enqueue('package', inputFile, (processor, onProgress, onLog) => (
+      processor.packageAdaptive(inputFile, ladder, options, onProgress, onLog)
+    ));
+  }, [enqueue]);
 
-      const result = await processorRef.current.extractThumbnail(
-        inputFile,
-        timeOffset,
-        (progress) => {
-          setProgress(progress);
-        }
-      );
+  const cancelJob = useCallback((id: string) => {
+    queueRef.current?.cancel(id);
+  }, []);
 
-      setResult(result);
-      setIsProcessing(false);
-      return result;
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Thumbnail extraction failed';
-      setError(errorMessage);
-      setIsProcessing(false);
-      
-      const errorResult: FFmpegResult = {
-        success: false,
-        error: errorMessage,
-      };
-      setResult(errorResult);
-      return errorResult;
-    }
-  }, [loadFFmpeg]);
+  const clearFinishedJobs = useCallback(() => {
+    queueRef.current?.clearFinished();
+  }, []);
 
-  const getVideoInfo = useCallback(async (inputFile: File) => {
+  const getVideoInfo = useCallback(async (inputFile: File): Promise<MediaInfo | null> => {
     if (!processorRef.current) {
       await loadFFmpeg();
     }
@@ -159,13 +209,18 @@ export const useFFmpeg = (): UseFFmpegReturn => {
   }, [loadFFmpeg]);
 
   const reset = useCallback(() => {
-    setProgress(null);
     setError(null);
     setResult(null);
-    setIsProcessing(false);
+    queueRef.current?.clearFinished();
   }, []);
 
   const terminate = useCallback(async () => {
+    if (queueRef.current) {
+      queueRef.current.cancelAll();
+      unsubscribeRef.current?.();
+      queueRef.current = null;
+      setJobs([]);
+    }
     if (processorRef.current) {
       await processorRef.current.terminate();
       processorRef.current = null;
@@ -177,22 +232,36 @@ export const useFFmpeg = (): UseFFmpegReturn => {
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      queueRef.current?.cancelAll();
+      unsubscribeRef.current?.();
       if (processorRef.current) {
         processorRef.current.terminate();
       }
     };
   }, []);
 
+  // The running job drives the overall progress readout
+  const runningJob = jobs.find(job => job.status === 'running');
+  const progress = runningJob?.progress ?? null;
+  const isProcessing = jobs.some(job => job.status === 'queued' || job.status === 'running');
+
   return {
     isLoaded,
+    isLoading,
+    loadProgress,
     isProcessing,
     progress,
     error,
     result,
+    jobs,
     loadFFmpeg,
     convertVideo,
     extractThumbnail,
+    generateThumbnailSprite,
+    packageAdaptive,
     getVideoInfo,
+    cancelJob,
+    clearFinishedJobs,
     reset,
     terminate,
   };
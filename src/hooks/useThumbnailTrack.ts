@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { ThumbnailCue } from '../types/player';
+import { parseThumbnailVTT } from '../utils/thumbnails';
+
+/**
+ * Load a WebVTT thumbnails track for scrubbing previews. Previews are
+ * optional, so a track that fails to load just yields no cues.
+ */
+export const useThumbnailTrack = (url?: string): ThumbnailCue[] => {
+  const [cues, setCues] = useState<ThumbnailCue[]>([]);
+
+  useEffect(() => {
+    setCues([]);
+    if (!url) return;
+
+    let cancelled = false;
+
+    const loadTrack = async () => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const text = await response.text();
+        if (!cancelled) {
+          setCues(parseThumbnailVTT(text, url));
+        }
+      } catch (error) {
+        console.warn('Failed to load thumbnails track:', error);
+      }
+    };
+
+    loadTrack();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return cues;
+};
@@ -1,14 +1,28 @@
 'use client';
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import Hls from 'hls.js';
-import { PlayerState, PlayerStates, VideoMetadata, VideoQuality, StreamingConfig, AnalyticsEvent } from '@/types/player';
-
-export const useVideoPlayer = (config: StreamingConfig) => {
+import { PlayerState, PlayerStates, VideoMetadata, VideoQuality, StreamingConfig, AnalyticsEvent, PlaybackEngine, PlaybackEngineType, PlaybackMetrics, CaptionCue, SidecarTextTrack, TextTrackInfo, AudioTrack } from '@/types/player';
+import { PlaybackEngineOptions } from '@/utils/playbackEngine';
+import { TextTrackManager, createTextTrackManager } from '@/utils/textTracks';
+import { LowLatencyOptimizer, createLowLatencyOptimizer } from '@/utils/lowLatencyOptimizer';
+import { createPlaybackEngine } from '@/utils/engineRegistry';
+import { resolveStreamType } from '@/utils/streamType';
+
+export const useVideoPlayer = (
+  config: StreamingConfig,
+  engineOptions: Omit<PlaybackEngineOptions, 'streaming'> = {}
+) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const hlsRef = useRef<Hls | null>(null);
-  // const dashRef = useRef<unknown>(null); // Reserved for future DASH implementation
+  const engineRef = useRef<PlaybackEngine | null>(null);
   const analyticsRef = useRef<AnalyticsEvent[]>([]);
+  const textTracksRef = useRef<TextTrackManager | null>(null);
+  const latencyOptimizerRef = useRef<LowLatencyOptimizer | null>(null);
+  const [captionCues, setCaptionCues] = useState<CaptionCue[]>([]);
+
+  // Engines read their options at load time, so keep the latest without
+  // making loadVideo change identity on every render
+  const engineOptionsRef = useRef<PlaybackEngineOptions>({ streaming: config, ...engineOptions });
+  engineOptionsRef.current = { streaming: config, ...engineOptions };
   
   const [playerState, setPlayerState] = useState<PlayerState>({
     currentState: PlayerStates.IDLE,
@@ -29,6 +43,10 @@ export const useVideoPlayer = (config: StreamingConfig) => {
     },
     availableQualities: [],
     currentQuality: null,
+    textTracks: [],
+    currentTextTrack: null,
+    audioTracks: [],
+    currentAudioTrack: null,
     adaptiveBitrate: config.enableAdaptiveBitrate,
   });
 
@@ -63,7 +81,17 @@ export const useVideoPlayer = (config: StreamingConfig) => {
     console.log('Analytics Event:', event);
   }, [config.analyticsEnabled]);
 
-  const loadVideo = useCallback(async (url: string, isHLS: boolean = true) => {
+  const destroyEngine = useCallback(() => {
+    textTracksRef.current?.setEngine(null);
+    latencyOptimizerRef.current?.destroy();
+    latencyOptimizerRef.current = null;
+    if (engineRef.current) {
+      engineRef.current.destroy();
+      engineRef.current = null;
+    }
+  }, []);
+
+  const loadVideo = useCallback(async (url: string, engineType: PlaybackEngineType = resolveStreamType(url)) => {
     if (!videoRef.current) return;
     
     // Prevent multiple simultaneous loads
@@ -72,78 +100,68 @@ export const useVideoPlayer = (config: StreamingConfig) => {
       return;
     }
 
-    console.log('Loading video:', url, 'isHLS:', isHLS);
-    updateState({ currentState: PlayerStates.LOADING });
-    updateMetadata({ isLoading: true, hasError: false });
+    console.log('Loading video:', url, 'engine:', engineType);
+    updateState({
+      currentState: PlayerStates.LOADING,
+      availableQualities: [],
+      currentQuality: null,
+      audioTracks: [],
+      currentAudioTrack: null
+    });
+    updateMetadata({ isLoading: true, hasError: false, isLive: false, liveWindow: undefined });
 
     try {
-      if (isHLS && Hls.isSupported()) {
-        if (hlsRef.current) {
-          hlsRef.current.destroy();
-        }
-
-        hlsRef.current = new Hls({
-          enableWorker: true,
-          lowLatencyMode: true,
-          backBufferLength: 90,
-          maxBufferLength: 30,
-          maxMaxBufferLength: 600,
-          liveSyncDurationCount: 3,
-          liveMaxLatencyDurationCount: 5,
-        });
+      destroyEngine();
+
+      const engine = createPlaybackEngine(engineType, engineOptionsRef.current);
+      engineRef.current = engine;
+      textTracksRef.current?.setEngine(engine);
+      const { lowLatency } = engineOptionsRef.current;
+      if (lowLatency) {
+        latencyOptimizerRef.current = createLowLatencyOptimizer(lowLatency);
+        latencyOptimizerRef.current.startCatchUp(engine, videoRef.current);
+      }
 
-        hlsRef.current.loadSource(url);
-        hlsRef.current.attachMedia(videoRef.current);
-
-        hlsRef.current.on(Hls.Events.MANIFEST_PARSED, () => {
-          console.log('HLS manifest parsed successfully');
-          const levels = hlsRef.current?.levels || [];
-          const qualities: VideoQuality[] = levels.map((level, index) => ({
-            level: index,
-            width: level.width,
-            height: level.height,
-            bitrate: level.bitrate,
-            codecs: level.codecs || '',
-            label: `${level.height}p`
-          }));
-
-          updateState({
-            availableQualities: qualities,
-            currentQuality: qualities[qualities.length - 1] || null,
-            currentState: PlayerStates.READY
-          });
-          updateMetadata({ isLoading: false });
-          logAnalytics('video_loaded');
+      engine.on('loaded', ({ qualities }) => {
+        updateState({
+          availableQualities: qualities,
+          currentQuality: engine.getCurrentQuality() || qualities[qualities.length - 1] || null,
+          currentState: PlayerStates.READY
         });
+        updateMetadata({ isLoading: false });
+        logAnalytics('video_loaded');
+      });
 
-        hlsRef.current.on(Hls.Events.LEVEL_SWITCHED, (event, data) => {
-          const quality = playerState.availableQualities[data.level];
-          updateState({ currentQuality: quality });
-          logAnalytics('quality_changed', { quality });
-        });
+      engine.on('qualitiesChanged', ({ qualities }) => {
+        updateState({ availableQualities: qualities });
+      });
 
-        hlsRef.current.on(Hls.Events.ERROR, (event, data) => {
-          console.error('HLS Error:', data);
-          updateState({ currentState: PlayerStates.ERROR });
-          updateMetadata({ hasError: true, errorMessage: data.details });
-          logAnalytics('error', { eventType: 'hls_error' });
-        });
+      engine.on('qualityChanged', ({ quality }) => {
+        updateState({ currentQuality: quality });
+        logAnalytics('quality_changed', { quality: quality || undefined });
+      });
 
-      } else if (videoRef.current.canPlayType('application/vnd.apple.mpegurl')) {
-        // Native HLS support
-        videoRef.current.src = url;
-        updateState({ currentState: PlayerStates.READY });
-        updateMetadata({ isLoading: false });
-        logAnalytics('video_loaded');
-      } else if (!isHLS) {
-        // Direct MP4 video loading
-        videoRef.current.src = url;
-        updateState({ currentState: PlayerStates.READY });
-        updateMetadata({ isLoading: false });
-        logAnalytics('video_loaded');
-      } else {
-        throw new Error('HLS not supported');
-      }
+      engine.on('audioTracksChanged', ({ tracks }) => {
+        updateState({ audioTracks: tracks, currentAudioTrack: engine.getCurrentAudioTrack() });
+      });
+
+      engine.on('audioTrackChanged', ({ track }) => {
+        updateState({ currentAudioTrack: track });
+      });
+
+      engine.on('segmentLoaded', (segment) => {
+        logAnalytics('segment_loaded', { segment });
+      });
+
+      engine.on('error', ({ message, fatal }) => {
+        if (!fatal) return;
+
+        updateState({ currentState: PlayerStates.ERROR });
+        updateMetadata({ hasError: true, errorMessage: message, isLoading: false });
+        logAnalytics('error', { eventType: `${engine.type}_error` });
+      });
+
+      await engine.load(videoRef.current, url);
     } catch (error) {
       console.error('Error loading video:', error);
       updateState({ currentState: PlayerStates.ERROR });
@@ -154,11 +172,27 @@ export const useVideoPlayer = (config: StreamingConfig) => {
       });
       logAnalytics('error', { eventType: 'load_error' });
     }
-  }, [updateState, updateMetadata, logAnalytics]);
+  }, [updateState, updateMetadata, logAnalytics, destroyEngine]);
+
+  const unloadVideo = useCallback(() => {
+    destroyEngine();
+    updateState({
+      currentState: PlayerStates.IDLE,
+      availableQualities: [],
+      currentQuality: null,
+      audioTracks: [],
+      currentAudioTrack: null
+    });
+    updateMetadata({ isLoading: false, hasError: false, errorMessage: undefined, isLive: false, liveWindow: undefined });
+  }, [destroyEngine, updateState, updateMetadata]);
 
   const play = useCallback(() => {
     if (videoRef.current) {
-      videoRef.current.play();
+      if (engineRef.current) {
+        engineRef.current.play().catch(error => console.warn('Playback failed to start:', error));
+      } else {
+        videoRef.current.play();
+      }
       updateState({ currentState: PlayerStates.PLAYING });
       updateMetadata({ isPlaying: true, isPaused: false });
       logAnalytics('play');
@@ -167,7 +201,11 @@ export const useVideoPlayer = (config: StreamingConfig) => {
 
   const pause = useCallback(() => {
     if (videoRef.current) {
-      videoRef.current.pause();
+      if (engineRef.current) {
+        engineRef.current.pause();
+      } else {
+        videoRef.current.pause();
+      }
       updateState({ currentState: PlayerStates.PAUSED });
       updateMetadata({ isPlaying: false, isPaused: true });
       logAnalytics('pause');
@@ -175,13 +213,32 @@ export const useVideoPlayer = (config: StreamingConfig) => {
   }, [updateState, updateMetadata, logAnalytics]);
 
   const setQuality = useCallback((quality: VideoQuality) => {
-    if (hlsRef.current) {
-      hlsRef.current.currentLevel = quality.level;
+    if (engineRef.current) {
+      engineRef.current.setQuality(quality.level);
       updateState({ currentQuality: quality });
       logAnalytics('quality_changed', { quality });
     }
   }, [updateState, logAnalytics]);
 
+  const setAudioTrack = useCallback((track: AudioTrack) => {
+    if (engineRef.current) {
+      engineRef.current.setAudioTrack(track.id);
+      updateState({ currentAudioTrack: track });
+      logAnalytics('audio_track_changed');
+    }
+  }, [updateState, logAnalytics]);
+
+  const setTextTrack = useCallback((track: TextTrackInfo | null) => {
+    if (textTracksRef.current) {
+      textTracksRef.current.select(track ? track.id : null);
+      logAnalytics('text_track_changed');
+    }
+  }, [logAnalytics]);
+
+  const setSidecarTextTracks = useCallback((tracks: SidecarTextTrack[]) => {
+    return textTracksRef.current ? textTracksRef.current.setSidecarTracks(tracks) : Promise.resolve();
+  }, []);
+
   const setVolume = useCallback((volume: number) => {
     if (videoRef.current) {
       videoRef.current.volume = Math.max(0, Math.min(1, volume));
@@ -200,12 +257,23 @@ export const useVideoPlayer = (config: StreamingConfig) => {
 
   const seekTo = useCallback((time: number) => {
     if (videoRef.current) {
-      videoRef.current.currentTime = time;
+      if (engineRef.current) {
+        engineRef.current.seek(time);
+      } else {
+        videoRef.current.currentTime = time;
+      }
       updateMetadata({ currentTime: time });
       logAnalytics('seek', { currentTime: time });
     }
   }, [updateMetadata, logAnalytics]);
 
+  const seekToLive = useCallback(() => {
+    if (engineRef.current) {
+      engineRef.current.seekToLiveEdge();
+      logAnalytics('go_live');
+    }
+  }, [logAnalytics]);
+
   const toggleMute = useCallback(() => {
     if (videoRef.current) {
       videoRef.current.muted = !videoRef.current.muted;
@@ -214,17 +282,41 @@ export const useVideoPlayer = (config: StreamingConfig) => {
     }
   }, [updateMetadata, logAnalytics]);
 
+  // Text tracks outlive engines: sidecar files stay across loads
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const manager = createTextTrackManager();
+    manager.on('tracksChanged', ({ tracks }) => updateState({ textTracks: tracks }));
+    manager.on('trackChanged', ({ track }) => updateState({ currentTextTrack: track }));
+    manager.on('cuesChanged', ({ cues }) => setCaptionCues(cues));
+    manager.attach(video);
+    textTracksRef.current = manager;
+
+    return () => {
+      manager.destroy();
+      textTracksRef.current = null;
+    };
+  }, [updateState]);
+
   // Event handlers
   useEffect(() => {
     const video = videoRef.current;
     if (!video) return;
 
+    // The DVR window of a live stream moves with playback
+    const getLiveMetadata = (): Partial<VideoMetadata> => {
+      const liveWindow = engineRef.current?.getLiveWindow() || undefined;
+      return { isLive: !!liveWindow, liveWindow };
+    };
+
     const handleTimeUpdate = () => {
-      updateMetadata({ currentTime: video.currentTime });
+      updateMetadata({ currentTime: video.currentTime, ...getLiveMetadata() });
     };
 
     const handleDurationChange = () => {
-      updateMetadata({ duration: video.duration });
+      updateMetadata({ duration: video.duration, ...getLiveMetadata() });
     };
 
     const handleVolumeChange = () => {
@@ -286,27 +378,35 @@ export const useVideoPlayer = (config: StreamingConfig) => {
     };
   }, [updateState, updateMetadata, logAnalytics]);
 
+  const getPlaybackMetrics = useCallback((): PlaybackMetrics | null => {
+    return engineRef.current ? engineRef.current.getMetrics() : null;
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
-      }
-      // Note: dashRef cleanup would be handled here if DASH was implemented
+      destroyEngine();
     };
-  }, []);
+  }, [destroyEngine]);
 
   return {
     videoRef,
     playerState,
     loadVideo,
+    unloadVideo,
     play,
     pause,
     setQuality,
+    setAudioTrack,
+    setTextTrack,
+    setSidecarTextTracks,
+    captionCues,
     setVolume,
     setPlaybackRate,
     seekTo,
+    seekToLive,
     toggleMute,
+    getPlaybackMetrics,
     analytics: analyticsRef.current,
   };
 };
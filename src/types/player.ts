@@ -13,6 +13,8 @@ export interface VideoMetadata {
   isLoading: boolean;
   hasError: boolean;
   errorMessage?: string;
+  // Set while a live or event stream is playing
+  liveWindow?: LiveWindow;
 }
 
 export interface VideoQuality {
@@ -29,6 +31,10 @@ export interface PlayerState {
   metadata: VideoMetadata;
   availableQualities: VideoQuality[];
   currentQuality: VideoQuality | null;
+  textTracks: TextTrackInfo[];
+  currentTextTrack: TextTrackInfo | null;
+  audioTracks: AudioTrack[];
+  currentAudioTrack: AudioTrack | null;
   adaptiveBitrate: boolean;
   abTestVariant?: string;
 }
@@ -44,6 +50,147 @@ export enum PlayerStates {
   ENDED = 'ended'
 }
 
+// Playback engine interfaces
+export type PlaybackEngineType = 'hls' | 'dash' | 'progressive' | 'mse' | (string & {});
+
+export interface PlaybackMetrics {
+  bandwidth: number;
+  currentBitrate: number;
+  bufferLength: number;
+  droppedFrames: number;
+  totalFrames: number;
+}
+
+// 'event' streams keep every segment from the start; 'live' ones slide
+export type LiveStreamType = 'live' | 'event';
+
+export interface LiveWindow {
+  type: LiveStreamType;
+  // Seekable range (the DVR window) on the media element's timeline
+  start: number;
+  end: number;
+  // Seconds behind the live edge, and how far behind the engine aims to play
+  latency: number;
+  targetLatency: number;
+  atLiveEdge: boolean;
+}
+
+export interface PlaybackEngineEventMap {
+  loaded: { qualities: VideoQuality[] };
+  qualitiesChanged: { qualities: VideoQuality[] };
+  qualityChanged: { quality: VideoQuality | null };
+  textTracksChanged: { tracks: TextTrackInfo[] };
+  audioTracksChanged: { tracks: AudioTrack[] };
+  audioTrackChanged: { track: AudioTrack | null };
+  // Segments the engine fetched through its own SegmentLoader
+  segmentLoaded: SegmentLoadEvent;
+  error: { message: string; fatal: boolean };
+}
+
+export type PlaybackEngineListener<K extends keyof PlaybackEngineEventMap> =
+  (data: PlaybackEngineEventMap[K]) => void;
+
+export interface PlaybackEngine {
+  readonly type: PlaybackEngineType;
+  load(videoElement: HTMLVideoElement, url: string): Promise<void>;
+  play(): Promise<void>;
+  pause(): void;
+  seek(time: number): void;
+  getQualities(): VideoQuality[];
+  getCurrentQuality(): VideoQuality | null;
+  // A level of -1 hands quality selection back to the engine's ABR
+  setQuality(level: number): void;
+  getTextTracks(): TextTrackInfo[];
+  // Starts loading cues for the track; null turns text off
+  setTextTrack(id: string | null): void;
+  // The media element track that receives the cues of a text track
+  getNativeTextTrack(id: string): TextTrack | null;
+  getAudioTracks(): AudioTrack[];
+  getCurrentAudioTrack(): AudioTrack | null;
+  setAudioTrack(id: string): void;
+  // null for on-demand content
+  getLiveWindow(): LiveWindow | null;
+  // Seconds the playhead trails real time by the stream's own clock; null without one
+  getWallClockLatency(): number | null;
+  seekToLiveEdge(): void;
+  getMetrics(): PlaybackMetrics;
+  on<K extends keyof PlaybackEngineEventMap>(event: K, listener: PlaybackEngineListener<K>): void;
+  off<K extends keyof PlaybackEngineEventMap>(event: K, listener: PlaybackEngineListener<K>): void;
+  destroy(): void;
+}
+
+// Text tracks (subtitles and captions)
+export type TextTrackKind = 'subtitles' | 'captions';
+
+export type TextTrackFormat = 'webvtt' | 'ttml' | 'srt';
+
+export interface TextTrackInfo {
+  id: string;
+  label: string;
+  language: string;
+  kind: TextTrackKind;
+  // 'manifest' for HLS/DASH text renditions, 'embedded' for in-band and
+  // CEA-608/708 captions, 'sidecar' for separately loaded files
+  source: 'manifest' | 'embedded' | 'sidecar';
+}
+
+export interface SidecarTextTrack {
+  src: string;
+  label?: string;
+  language?: string;
+  kind?: TextTrackKind;
+  // Detected from the file extension or Content-Type when omitted
+  format?: TextTrackFormat;
+  default?: boolean;
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TextTrackEventMap {
+  tracksChanged: { tracks: TextTrackInfo[] };
+  trackChanged: { track: TextTrackInfo | null };
+  // Cues to show right now for the selected track
+  cuesChanged: { cues: CaptionCue[] };
+}
+
+export type TextTrackListener<K extends keyof TextTrackEventMap> = (data: TextTrackEventMap[K]) => void;
+
+export type CaptionFontSize = 'small' | 'medium' | 'large' | 'x-large';
+
+export type CaptionEdgeStyle = 'none' | 'outline' | 'drop-shadow' | 'raised' | 'depressed';
+
+export interface CaptionStyle {
+  fontSize: CaptionFontSize;
+  color: string;
+  backgroundColor: string;
+  backgroundOpacity: number;
+  edgeStyle: CaptionEdgeStyle;
+}
+
+// Audio renditions: languages, commentary, audio description
+export interface AudioTrack {
+  id: string;
+  label: string;
+  language: string;
+  // DASH Role values ('main', 'alternate', 'commentary', 'description', ...);
+  // HLS renditions are mapped onto the same vocabulary
+  roles: string[];
+  // Audio description for blind and low-vision viewers
+  descriptive: boolean;
+  // Channel count or layout as signalled, e.g. '2' or '6'
+  channels?: string;
+  codecs?: string;
+}
+
+export interface AudioPreference {
+  language: string;
+  descriptive: boolean;
+}
+
 export interface StreamingConfig {
   enableAdaptiveBitrate: boolean;
   maxBitrate: number;
@@ -67,6 +214,7 @@ export interface AnalyticsEvent {
   volume?: number;
   isMuted?: boolean;
   errorMessage?: string;
+  segment?: SegmentLoadEvent;
 }
 
 export interface ABTestConfig {
@@ -90,6 +238,22 @@ export interface FFmpegConfig {
   duration?: number;
 }
 
+// Where the ffmpeg.wasm core is fetched from; explicit URLs take precedence over baseURL
+export interface FFmpegCoreOptions {
+  baseURL?: string;
+  coreURL?: string;
+  wasmURL?: string;
+  workerURL?: string; // Multi-threaded cores only
+  cacheName?: string | false; // Cache Storage bucket, false to always hit the network
+}
+
+export interface FFmpegLoadProgress {
+  file: string;
+  loaded: number;
+  total: number;
+  percent: number;
+}
+
 export interface FFmpegProgress {
   percent: number;
   time: number;
@@ -100,11 +264,162 @@ export interface FFmpegProgress {
 export interface FFmpegResult {
   success: boolean;
   outputFile?: Uint8Array;
+  bundle?: AdaptiveBundle;
+  sprite?: ThumbnailSprite;
   error?: string;
   duration?: number;
   size?: number;
 }
 
+export type FFmpegJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type FFmpegJobType = 'convert' | 'thumbnail' | 'sprite' | 'package';
+
+export interface FFmpegJob {
+  id: string;
+  type: FFmpegJobType;
+  fileName: string;
+  status: FFmpegJobStatus;
+  progress: FFmpegProgress | null;
+  logs: string[];
+  result: FFmpegResult | null;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  // Background work such as filmstrips; left out of the visible job list
+  hidden?: boolean;
+}
+
+export interface FFmpegJobOptions {
+  // Aborting cancels the job while it is queued; a running job finishes and its result is ignored
+  signal?: AbortSignal;
+  hidden?: boolean;
+}
+
+export interface ThumbnailSpriteOptions {
+  interval?: number; // Seconds between thumbnails
+  count?: number; // Spread this many thumbnails over the whole video instead
+  width?: number; // Tile width in pixels; height follows the display aspect ratio
+  columns?: number;
+}
+
+export interface ThumbnailSpriteLayout {
+  duration: number;
+  interval: number;
+  count: number;
+  columns: number;
+  rows: number;
+  tileWidth: number;
+  tileHeight: number;
+}
+
+// A sprite sheet plus the WebVTT track whose #xywh= cues point into it
+export interface ThumbnailSprite extends ThumbnailSpriteLayout {
+  image: Uint8Array;
+  imageName: string;
+  mimeType: string;
+  vtt: string;
+}
+
+export interface ThumbnailCue {
+  start: number;
+  end: number;
+  url: string;
+  // Absent when the cue shows the whole image
+  region?: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+// One rung of an ABR ladder; bitrates are in kbps like VideoConversionOptions.bitrate
+export interface AdaptiveRendition {
+  name: string;
+  width: number;
+  height: number;
+  videoBitrate: number;
+  audioBitrate?: number;
+}
+
+export interface AdaptivePackagingOptions {
+  format: 'hls' | 'dash';
+  // HLS only, DASH segments are always fragmented MP4
+  segmentFormat?: 'ts' | 'fmp4';
+  segmentDuration?: number;
+  includeAudio?: boolean;
+  // DASH only: encrypt segments with CENC (AES-CTR)
+  encryption?: CENCKey;
+}
+
+export interface AdaptiveBundleFile {
+  path: string;
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface AdaptiveBundle {
+  format: 'hls' | 'dash';
+  manifestPath: string;
+  renditions: AdaptiveRendition[];
+  files: AdaptiveBundleFile[];
+}
+
+// Source media properties as reported by ffprobe / ffmpeg
+interface MediaStreamBase {
+  index: number;
+  codec: string;
+  profile?: string;
+  language?: string;
+  title?: string;
+  bitrate?: number;
+  isDefault: boolean;
+}
+
+export interface VideoStreamInfo extends MediaStreamBase {
+  type: 'video';
+  width: number;
+  height: number;
+  frameRate: number;
+  pixelFormat?: string;
+  level?: number;
+  // Clockwise degrees the frames must be turned for display
+  rotation: number;
+}
+
+export interface AudioStreamInfo extends MediaStreamBase {
+  type: 'audio';
+  sampleRate: number;
+  channels: number;
+  channelLayout?: string;
+}
+
+export interface SubtitleStreamInfo extends MediaStreamBase {
+  type: 'subtitle';
+}
+
+export type MediaStreamInfo = VideoStreamInfo | AudioStreamInfo | SubtitleStreamInfo;
+
+export interface MediaChapter {
+  id: number;
+  start: number;
+  end: number;
+  title?: string;
+}
+
+export interface MediaInfo {
+  container: string;
+  duration: number;
+  bitrate: number;
+  size?: number;
+  videoStreams: VideoStreamInfo[];
+  audioStreams: AudioStreamInfo[];
+  subtitleStreams: SubtitleStreamInfo[];
+  chapters: MediaChapter[];
+  rotation: number;
+}
+
 export interface VideoConversionOptions {
   inputFormat: string;
   outputFormat: string;
@@ -118,12 +433,20 @@ export interface VideoConversionOptions {
   audioCodec?: string;
   videoCodec?: string;
   frameRate?: number;
-  trim?: {
-    start: number;
-    end: number;
-  };
+  trim?: TrimRange;
+  // Several ranges are cut out and concatenated in order; takes precedence over trim
+  cuts?: TrimRange[];
+  trimMode?: TrimMode;
+}
+
+export interface TrimRange {
+  start: number;
+  end: number;
 }
 
+// 'copy' is fast but snaps to keyframes, 'reencode' is frame-accurate
+export type TrimMode = 'copy' | 'reencode';
+
 // MSE (Media Source Extensions) interfaces
 export interface MSEConfig {
   mimeType: string;
@@ -152,9 +475,19 @@ export interface MSEMetrics {
 // EME (Encrypted Media Extensions) interfaces
 export interface EMEConfig {
   keySystem: string;
-  initData: ArrayBuffer;
+  licenseUrl: string;
+  licenseHeaders?: Record<string, string>;
+  withCredentials?: boolean;
+  // Only needed for streams that don't signal init data through `encrypted` events
+  initData?: ArrayBuffer;
+  initDataType?: string;
   sessionType: MediaKeySessionType;
   persistentState: 'required' | 'optional' | 'not-allowed';
+  videoCapabilities?: MediaKeySystemMediaCapability[];
+  audioCapabilities?: MediaKeySystemMediaCapability[];
+  serverCertificate?: ArrayBuffer;
+  // Seconds before a session expires to fetch a fresh license (default 30)
+  renewalThreshold?: number;
 }
 
 export interface EMELicense {
@@ -172,6 +505,26 @@ export interface EMEMetrics {
   decryptionErrors: number;
 }
 
+export interface CENCKey {
+  // 16-byte key ID and content key, hex-encoded
+  keyId: string;
+  key: string;
+}
+
+export interface EMEKeyStatus {
+  // Hex-encoded key ID
+  keyId: string;
+  status: MediaKeyStatus;
+}
+
+export interface DRMEventMap {
+  license: EMELicense;
+  keyStatusesChange: { sessionId: string; statuses: EMEKeyStatus[] };
+  error: { message: string; fatal: boolean };
+}
+
+export type DRMListener<K extends keyof DRMEventMap> = (data: DRMEventMap[K]) => void;
+
 // DASH (Dynamic Adaptive Streaming over HTTP) interfaces
 export interface DASHConfig {
   manifestUrl: string;
@@ -188,10 +541,39 @@ export interface DASHConfig {
       maxBitrate: number;
       minBitrate: number;
     };
+    protection?: {
+      ignoreEmeEncryptedEvent: boolean;
+    };
+    // dash.js' own rate-based catch-up; off when LowLatencyOptimizer drives it
+    liveCatchup?: {
+      enabled: boolean;
+    };
   };
   debug: {
     logLevel: number;
   };
+  // Key system and license server; dash.js sets up MediaKeys itself
+  drm?: EMEConfig;
+}
+
+export interface DASHSegment {
+  url: string;
+  start: number;
+  duration: number;
+  number?: number;
+  time?: number;
+  byteRange?: string;
+}
+
+export interface DASHSegmentIndex {
+  type: 'template' | 'list' | 'base';
+  timescale: number;
+  initialization?: {
+    url: string;
+    byteRange?: string;
+  };
+  indexRange?: string;
+  segments: DASHSegment[];
 }
 
 export interface DASHRepresentation {
@@ -203,6 +585,8 @@ export interface DASHRepresentation {
   mimeType: string;
   frameRate: number;
   qualityRanking: number;
+  baseUrl?: string;
+  segmentIndex?: DASHSegmentIndex;
 }
 
 export interface DASHAdaptationSet {
@@ -228,6 +612,7 @@ export interface DASHManifest {
   availabilityEndTime?: number;
   suggestedPresentationDelay: number;
   timeShiftBufferDepth: number;
+  minimumUpdatePeriod?: number;
 }
 
 export interface DASHMetrics {
@@ -245,7 +630,197 @@ export interface DASHMetrics {
 }
 
 export interface DASHEvent {
-  type: 'manifestLoaded' | 'representationChanged' | 'bufferLevelChanged' | 'error';
+  type: 'manifestLoaded' | 'manifestUpdated' | 'representationChanged' | 'bufferLevelChanged' | 'error';
   timestamp: number;
   data: any;
 }
+
+// HLS (HTTP Live Streaming) playlist interfaces
+export interface HLSByteRange {
+  length: number;
+  offset?: number;
+}
+
+export interface HLSKey {
+  method: 'NONE' | 'AES-128' | 'SAMPLE-AES' | 'SAMPLE-AES-CTR' | (string & {});
+  uri?: string;
+  iv?: string;
+  keyFormat?: string;
+  keyFormatVersions?: string;
+}
+
+export interface HLSInitSegment {
+  uri: string;
+  byteRange?: HLSByteRange;
+}
+
+export interface HLSPartialSegment {
+  uri: string;
+  duration: number;
+  independent: boolean;
+  gap: boolean;
+  byteRange?: HLSByteRange;
+}
+
+export interface HLSSegment {
+  uri: string;
+  duration: number;
+  title?: string;
+  sequenceNumber: number;
+  discontinuitySequence: number;
+  discontinuity: boolean;
+  gap: boolean;
+  programDateTime?: number;
+  byteRange?: HLSByteRange;
+  key?: HLSKey;
+  map?: HLSInitSegment;
+  parts?: HLSPartialSegment[];
+}
+
+export interface HLSPreloadHint {
+  type: 'PART' | 'MAP';
+  uri: string;
+  byteRangeStart?: number;
+  byteRangeLength?: number;
+}
+
+export interface HLSServerControl {
+  canBlockReload: boolean;
+  canSkipUntil?: number;
+  canSkipDateRanges: boolean;
+  holdBack?: number;
+  partHoldBack?: number;
+}
+
+export interface HLSVariant {
+  uri: string;
+  bandwidth: number;
+  averageBandwidth?: number;
+  codecs?: string;
+  resolution?: {
+    width: number;
+    height: number;
+  };
+  frameRate?: number;
+  hdcpLevel?: string;
+  audio?: string;
+  video?: string;
+  subtitles?: string;
+  closedCaptions?: string;
+}
+
+export interface HLSRendition {
+  type: 'AUDIO' | 'VIDEO' | 'SUBTITLES' | 'CLOSED-CAPTIONS';
+  groupId: string;
+  name: string;
+  uri?: string;
+  language?: string;
+  assocLanguage?: string;
+  default: boolean;
+  autoselect: boolean;
+  forced: boolean;
+  instreamId?: string;
+  characteristics?: string;
+  channels?: string;
+}
+
+export interface HLSMasterPlaylist {
+  type: 'master';
+  version: number;
+  independentSegments: boolean;
+  variants: HLSVariant[];
+  iFrameVariants: HLSVariant[];
+  renditions: HLSRendition[];
+}
+
+export interface HLSMediaPlaylist {
+  type: 'media';
+  version: number;
+  independentSegments: boolean;
+  targetDuration: number;
+  mediaSequence: number;
+  discontinuitySequence: number;
+  playlistType?: 'VOD' | 'EVENT';
+  iFramesOnly: boolean;
+  endList: boolean;
+  isLive: boolean;
+  duration: number;
+  segments: HLSSegment[];
+  // LL-HLS parts of the segment still being produced at the live edge
+  trailingParts: HLSPartialSegment[];
+  partTargetDuration?: number;
+  serverControl?: HLSServerControl;
+  preloadHints: HLSPreloadHint[];
+}
+
+export type HLSPlaylist = HLSMasterPlaylist | HLSMediaPlaylist;
+
+// Segment loading (SegmentLoader)
+export interface SegmentByteRange {
+  start: number;
+  // Inclusive; open-ended when omitted
+  end?: number;
+}
+
+// Manifests and playlists go through the segment loader too, but aren't media
+export type SegmentRequestKind = 'segment' | 'manifest';
+
+export interface SegmentLoadEvent {
+  // URL actually requested, after failover
+  url: string;
+  kind: SegmentRequestKind;
+  // Base URL (CDN) the request went to
+  host: string;
+  bytes: number;
+  // Milliseconds to the response headers
+  ttfb: number;
+  // Milliseconds to the last byte
+  duration: number;
+  // HTTP status; 0 for network errors and timeouts
+  status: number;
+  // 1 for the first try
+  attempt: number;
+}
+
+export interface SegmentLoaderEventMap {
+  load: SegmentLoadEvent;
+  error: SegmentLoadEvent & { message: string; willRetry: boolean };
+}
+
+export type SegmentLoaderListener<K extends keyof SegmentLoaderEventMap> = (data: SegmentLoaderEventMap[K]) => void;
+
+// Segment caching (SegmentCache)
+export type SegmentCachePersistence = 'none' | 'indexeddb' | 'cache-storage';
+
+export interface SegmentCacheStats {
+  hits: number;
+  // Hits served from persistent storage rather than memory
+  persistentHits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+// Per-rendition segment timeline for the MSE pipeline (segmentIndex)
+export interface SegmentRef {
+  url: string;
+  byteRange?: SegmentByteRange;
+}
+
+export interface IndexedSegment extends SegmentRef {
+  // Seconds on the presentation timeline
+  start: number;
+  duration: number;
+  // Initialization segment the media segment decodes with
+  init?: SegmentRef;
+  // HLS media sequence number, for lining up reloaded live playlists
+  sequenceNumber?: number;
+}
+
+export interface RenditionSegmentIndex {
+  segments: IndexedSegment[];
+  duration: number;
+  isLive: boolean;
+}
@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+import trace from './fixtures/abr-trace-bandwidth-drop.json';
+import {
+  AbrContext,
+  AbrController,
+  AbrRule,
+  AbrRuleName,
+  BolaRule,
+  DEFAULT_ABR_CONFIG,
+  DynamicRule,
+  InsufficientBufferRule,
+  ThroughputRule,
+  createAbrController,
+  createAbrRule
+} from '../abrRules';
+
+const context = (overrides: Partial<AbrContext> = {}): AbrContext => ({
+  bitrates: trace.bitrates,
+  currentIndex: 0,
+  bufferLevel: 5,
+  bufferTarget: 10,
+  minBufferLength: 3,
+  segmentDuration: trace.segmentDuration,
+  throughput: 0,
+  bandwidth: 0,
+  networkStability: 100,
+  safetyFactor: 0.8,
+  ...overrides
+});
+
+// Replays the trace segment by segment, following each decision
+const replay = (rules: AbrRuleName[]): number[] => {
+  const controller = createAbrController({ rules });
+  let currentIndex = 0;
+
+  return trace.segments.map(segment => {
+    controller.onSample(segment);
+    const decision = controller.decide(context({
+      currentIndex,
+      bufferLevel: segment.bufferLevel,
+      throughput: (segment.bytes * 8 * 1000) / segment.duration
+    }));
+    currentIndex = decision ? decision.index : currentIndex;
+    return currentIndex;
+  });
+};
+
+const fixedRule = (name: string, index: number, priority: 'weak' | 'default' | 'strong'): AbrRule => ({
+  name,
+  decide: () => ({ index, priority, rule: name })
+});
+
+describe('abrRules', () => {
+  describe('ThroughputRule', () => {
+    it('follows a bandwidth drop at once and a recovery only slowly', () => {
+      expect(replay(['throughput'])).toEqual([4, 4, 4, 4, 4, 4, 3, 3, 2, 2, 2, 1, 2, 3, 3, 3, 3, 3]);
+    });
+
+    it('falls back to the lower spot measurement before any segment', () => {
+      const rule = new ThroughputRule(DEFAULT_ABR_CONFIG);
+
+      expect(rule.decide(context())).toBeNull();
+      expect(rule.decide(context({ throughput: 4000000, bandwidth: 1600000 }))?.index).toBe(2);
+    });
+
+    it('ignores responses too small to measure', () => {
+      const rule = new ThroughputRule(DEFAULT_ABR_CONFIG);
+      rule.onSample({ bytes: 1000, duration: 1 });
+
+      expect(rule.decide(context())).toBeNull();
+    });
+
+    it('uses less of the estimate on an unstable network', () => {
+      const rule = new ThroughputRule(DEFAULT_ABR_CONFIG);
+      rule.onSample({ bytes: 500000, duration: 2000 });
+
+      expect(rule.decide(context())?.index).toBe(2);
+      expect(rule.decide(context({ networkStability: 0 }))?.index).toBe(1);
+    });
+  });
+
+  describe('BolaRule', () => {
+    it('steps up as the buffer fills and back down as it drains', () => {
+      expect(replay(['bola'])).toEqual([0, 0, 1, 2, 3, 4, 4, 3, 2, 1, 0, 0, 0, 0, 1, 2, 3, 4]);
+    });
+
+    it('picks the lowest rendition on an empty buffer and the highest on a full one', () => {
+      const rule = new BolaRule();
+
+      expect(rule.decide(context({ bufferLevel: 0 }))?.index).toBe(0);
+      expect(rule.decide(context({ bufferLevel: 10 }))?.index).toBe(4);
+    });
+
+    it('does not switch up past what the last download sustains', () => {
+      const rule = new BolaRule();
+
+      expect(rule.decide(context({ bufferLevel: 10, currentIndex: 1, throughput: 2000000 }))?.index).toBe(2);
+    });
+  });
+
+  describe('DynamicRule', () => {
+    it('hands over to BOLA once the buffer fills', () => {
+      expect(replay(['dynamic'])).toEqual([4, 4, 4, 4, 4, 4, 4, 3, 2, 1, 0, 1, 2, 3, 3, 3, 3, 4]);
+    });
+
+    it('keeps BOLA until the buffer falls well below where it took over', () => {
+      const rule = new DynamicRule(DEFAULT_ABR_CONFIG);
+
+      rule.decide(context({ bufferLevel: 6 }));
+      expect(rule.isUsingBola()).toBe(true);
+      rule.decide(context({ bufferLevel: 4 }));
+      expect(rule.isUsingBola()).toBe(true);
+      rule.decide(context({ bufferLevel: 2 }));
+      expect(rule.isUsingBola()).toBe(false);
+    });
+  });
+
+  describe('InsufficientBufferRule', () => {
+    const rule = new InsufficientBufferRule();
+
+    it('stays out of it while the buffer is healthy', () => {
+      expect(rule.decide(context({ bufferLevel: 3, currentIndex: 4, throughput: 1000000 }))).toBeNull();
+    });
+
+    it('drops to a rendition whose next segment downloads in half the buffer', () => {
+      expect(rule.decide(context({ bufferLevel: 2, currentIndex: 4, throughput: 1000000 }))).toEqual({
+        index: 0,
+        priority: 'strong',
+        rule: 'insufficient-buffer'
+      });
+      expect(rule.decide(context({ bufferLevel: 2, currentIndex: 4, throughput: 2000000 }))?.index).toBe(1);
+    });
+
+    it('never switches up', () => {
+      expect(rule.decide(context({ bufferLevel: 2, currentIndex: 0, throughput: 50000000 }))).toBeNull();
+    });
+  });
+
+  describe('AbrController', () => {
+    it('lets a strong decision override default ones', () => {
+      const controller = new AbrController([
+        fixedRule('a', 3, 'default'),
+        fixedRule('b', 4, 'strong'),
+        fixedRule('c', 1, 'weak')
+      ]);
+
+      expect(controller.decide(context())).toEqual({ index: 4, priority: 'strong', rule: 'b' });
+    });
+
+    it('takes the lowest rendition among decisions of equal priority', () => {
+      const controller = new AbrController([
+        fixedRule('a', 3, 'default'),
+        fixedRule('b', 2, 'default')
+      ]);
+
+      expect(controller.decide(context())?.rule).toBe('b');
+    });
+
+    it('builds the configured rule set', () => {
+      expect(createAbrController().getRuleNames()).toEqual(['dynamic', 'insufficient-buffer']);
+      expect(() => createAbrRule('magic' as AbrRuleName)).toThrow('Unknown ABR rule: magic');
+    });
+  });
+});
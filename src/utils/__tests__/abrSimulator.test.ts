@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import manifest from './fixtures/abr-sim-manifest.json';
+import { AbrSimulationResult, simulateAbr } from '../abrSimulator';
+import { AbrRuleName } from '../abrRules';
+import { NETWORK_PROFILES, NetworkProfile, parseNetworkTrace } from '../networkEmulator';
+
+const traces: Record<string, NetworkProfile> = {
+  commute: parseNetworkTrace(readFileSync(join(__dirname, 'fixtures', 'network-trace-commute.txt'), 'utf8')),
+  'step-down': NETWORK_PROFILES['step-down']
+};
+
+const constant = (bandwidth: number, latency = 50): NetworkProfile => ({
+  name: 'constant',
+  loop: false,
+  steps: [{ duration: 60, bandwidth, latency, loss: 0 }]
+});
+
+// Rounded so the stored expectations read as numbers people can check
+const summarize = ({ qoe, metrics }: AbrSimulationResult) => ({
+  averageKbps: Math.round(qoe.averageBitrate / 1000),
+  switches: qoe.switches,
+  rebufferCount: qoe.rebufferCount,
+  rebufferTime: Number(qoe.rebufferTime.toFixed(2)),
+  startupDelay: Number(qoe.startupDelay.toFixed(2)),
+  qoeScore: metrics.qoeScore,
+  userExperience: metrics.userExperience
+});
+
+describe('simulateAbr', () => {
+  // Recorded results: an ABR change that moves these should be deliberate
+  const recorded: [string, AbrRuleName[], ReturnType<typeof summarize>][] = [
+    ['commute', ['throughput'], { averageKbps: 1821, switches: 6, rebufferCount: 0, rebufferTime: 0, startupDelay: 0.31, qoeScore: 79, userExperience: 'good' }],
+    ['commute', ['bola'], { averageKbps: 2254, switches: 4, rebufferCount: 1, rebufferTime: 3.58, startupDelay: 0.31, qoeScore: 72, userExperience: 'good' }],
+    ['commute', ['dynamic', 'insufficient-buffer'], { averageKbps: 2301, switches: 4, rebufferCount: 1, rebufferTime: 3.58, startupDelay: 0.31, qoeScore: 72, userExperience: 'good' }],
+    ['step-down', ['throughput'], { averageKbps: 1796, switches: 5, rebufferCount: 0, rebufferTime: 0, startupDelay: 0.22, qoeScore: 80, userExperience: 'excellent' }],
+    ['step-down', ['bola'], { averageKbps: 1592, switches: 4, rebufferCount: 1, rebufferTime: 0.9, startupDelay: 0.22, qoeScore: 73, userExperience: 'good' }],
+    ['step-down', ['dynamic', 'insufficient-buffer'], { averageKbps: 1807, switches: 3, rebufferCount: 1, rebufferTime: 0.9, startupDelay: 0.22, qoeScore: 75, userExperience: 'good' }]
+  ];
+
+  recorded.forEach(([trace, rules, expected]) => {
+    it(`replays the ${trace} trace with ${rules.join(' + ')} as recorded`, () => {
+      const result = simulateAbr({ manifest, trace: traces[trace], config: { abr: { rules } } });
+
+      expect(result.completed).toBe(true);
+      expect(result.timeline).toHaveLength(manifest.segmentDurations.length);
+      expect(summarize(result)).toEqual(expected);
+    });
+  });
+
+  it('settles on the top rendition with bandwidth to spare', () => {
+    const result = simulateAbr({ manifest, trace: constant(20000000) });
+
+    expect(result.metrics.currentQuality).toBe('1080p');
+    expect(result.qoe.rebufferCount).toBe(0);
+    // 50 ms to first byte, then 200 kB of 240p at 20 Mbps
+    expect(result.qoe.startupDelay).toBeCloseTo(0.13);
+  });
+
+  it('stalls when an outage outlasts the buffer', () => {
+    const trace: NetworkProfile = {
+      name: 'long outage',
+      loop: false,
+      steps: [
+        { duration: 30, bandwidth: 5000000, latency: 30, loss: 0 },
+        { duration: 20, bandwidth: 0, latency: 30, loss: 1 },
+        { duration: 60, bandwidth: 5000000, latency: 30, loss: 0 }
+      ]
+    };
+
+    const result = simulateAbr({ manifest, trace, config: { abr: { rules: ['throughput'] } } });
+
+    expect(result.qoe.rebufferCount).toBe(1);
+    expect(result.qoe.rebufferTime).toBeGreaterThan(8);
+    // Requested as the outage began, delivered after it
+    const stalled = result.timeline.find(segment => segment.stall > 0);
+    expect(stalled?.requestTime).toBeGreaterThanOrEqual(30);
+    expect(stalled!.requestTime + stalled!.downloadTime).toBeGreaterThan(50);
+  });
+
+  it('stops when the trace never carries the next segment', () => {
+    const trace: NetworkProfile = {
+      name: 'cut off',
+      loop: false,
+      steps: [
+        { duration: 10, bandwidth: 5000000, latency: 30, loss: 0 },
+        { duration: 60, bandwidth: 0, latency: 30, loss: 1 }
+      ]
+    };
+
+    const result = simulateAbr({ manifest, trace });
+
+    expect(result.completed).toBe(false);
+    expect(result.timeline.length).toBeLessThan(manifest.segmentDurations.length);
+  });
+
+  it('uses segment sizes from the manifest when it has them', () => {
+    const sizes = manifest.segmentDurations.map((_, index) => (index % 2 === 0 ? 100000 : 300000));
+
+    const result = simulateAbr({
+      manifest: { ...manifest, qualities: manifest.qualities.slice(0, 1), segmentSizes: { '240p': sizes } },
+      trace: constant(5000000)
+    });
+
+    expect(result.timeline.slice(0, 2).map(segment => segment.bytes)).toEqual([100000, 300000]);
+  });
+});
@@ -0,0 +1,83 @@
+import { createBundleSource } from '../adaptiveBundle';
+import { AdaptiveBundle } from '../../types/player';
+import { beforeEach, afterEach } from '@jest/globals';
+
+const encode = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+describe('createBundleSource', () => {
+  const blobs = new Map<string, Blob>();
+  let nextId = 0;
+
+  const readBlob = (url: string): Promise<string> => new Promise(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blobs.get(url)!);
+  });
+
+  beforeEach(() => {
+    blobs.clear();
+    nextId = 0;
+    URL.createObjectURL = jest.fn((blob: Blob) => {
+      const url = `blob:bundle/${nextId++}`;
+      blobs.set(url, blob);
+      return url;
+    });
+    URL.revokeObjectURL = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rewrites HLS playlists to point at blob URLs', async () => {
+    const bundle: AdaptiveBundle = {
+      format: 'hls',
+      manifestPath: 'master.m3u8',
+      renditions: [],
+      files: [
+        { path: 'master.m3u8', mimeType: 'application/vnd.apple.mpegurl', data: encode('#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000\nv0.m3u8\n') },
+        { path: 'v0.m3u8', mimeType: 'application/vnd.apple.mpegurl', data: encode('#EXTM3U\n#EXT-X-MAP:URI="v0_init.mp4"\n#EXTINF:4,\nv0_00000.m4s\n') },
+        { path: 'v0_init.mp4', mimeType: 'video/mp4', data: new Uint8Array([1]) },
+        { path: 'v0_00000.m4s', mimeType: 'video/iso.segment', data: new Uint8Array([2]) }
+      ]
+    };
+
+    const source = createBundleSource(bundle);
+
+    // Segments get URLs 0 and 1, the variant playlist 2 and the master 3
+    expect(source.url).toBe('blob:bundle/3');
+    expect(source.engine).toBe('hls');
+    expect(await readBlob('blob:bundle/2')).toBe('#EXTM3U\n#EXT-X-MAP:URI="blob:bundle/0"\n#EXTINF:4,\nblob:bundle/1\n');
+    expect(await readBlob(source.url)).toBe('#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000\nblob:bundle/2\n');
+
+    source.revoke();
+    expect(URL.revokeObjectURL).toHaveBeenCalledTimes(4);
+  });
+
+  it('rewrites DASH segment references', async () => {
+    const mpd = '<MPD><SegmentList><Initialization sourceURL="init-0.m4s"/><SegmentURL media="chunk-0-00001.m4s"/></SegmentList></MPD>';
+    const bundle: AdaptiveBundle = {
+      format: 'dash',
+      manifestPath: 'manifest.mpd',
+      renditions: [],
+      files: [
+        { path: 'manifest.mpd', mimeType: 'application/dash+xml', data: encode(mpd) },
+        { path: 'init-0.m4s', mimeType: 'video/iso.segment', data: new Uint8Array([1]) },
+        { path: 'chunk-0-00001.m4s', mimeType: 'video/iso.segment', data: new Uint8Array([2]) }
+      ]
+    };
+
+    const source = createBundleSource(bundle);
+
+    expect(source.engine).toBe('dash');
+    expect(await readBlob(source.url)).toBe(
+      '<MPD><SegmentList><Initialization sourceURL="blob:bundle/0"/><SegmentURL media="blob:bundle/1"/></SegmentList></MPD>'
+    );
+  });
+
+  it('requires the manifest to be part of the bundle', () => {
+    const bundle: AdaptiveBundle = { format: 'hls', manifestPath: 'master.m3u8', renditions: [], files: [] };
+
+    expect(() => createBundleSource(bundle)).toThrow('Bundle is missing its manifest: master.m3u8');
+  });
+});
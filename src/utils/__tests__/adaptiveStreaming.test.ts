@@ -0,0 +1,382 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { AdaptiveStreamingEngine, AdaptiveStreamingConfig, QualityLevel, getInitialQuality } from '../adaptiveStreaming';
+import { BandwidthEstimator } from '../bandwidthEstimator';
+import { FixtureBody, NETWORK_PROFILES, createFixtureFetch, createNetworkEmulator } from '../networkEmulator';
+import { afterEach, beforeEach } from '@jest/globals';
+
+const MANIFEST_URL = 'https://cdn.example.com/vod/manifest.mpd';
+
+/**
+ * Records SourceBuffer calls in order and, like the real thing, refuses
+ * an append while the previous one is still updating
+ */
+class FakeSourceBuffer extends EventTarget {
+  mode = 'segments';
+  updating = false;
+  log: string[] = [];
+  buffered = { length: 0, start: () => 0, end: () => 0 };
+
+  appendBuffer(data: ArrayBuffer): void {
+    if (this.updating) throw new Error('InvalidStateError: append while updating');
+    this.updating = true;
+    this.log.push(new TextDecoder().decode(data));
+    setTimeout(() => {
+      this.updating = false;
+      this.dispatchEvent(new Event('updateend'));
+    }, 5);
+  }
+
+  changeType(type: string): void {
+    this.log.push(`changeType ${type}`);
+  }
+}
+
+class FakeMediaSource extends EventTarget {
+  static instances: FakeMediaSource[] = [];
+  readyState = 'closed';
+  duration = NaN;
+  sourceBuffers: FakeSourceBuffer[] = [];
+  endOfStream = jest.fn(() => {
+    this.readyState = 'ended';
+  });
+
+  constructor() {
+    super();
+    FakeMediaSource.instances.push(this);
+    setTimeout(() => {
+      this.readyState = 'open';
+      this.dispatchEvent(new Event('sourceopen'));
+    }, 0);
+  }
+
+  addSourceBuffer(): FakeSourceBuffer {
+    const buffer = new FakeSourceBuffer();
+    this.sourceBuffers.push(buffer);
+    return buffer;
+  }
+}
+
+// Segments are their own path, so appends read back as what was fetched
+const respond = (url: string) => {
+  const body = url === MANIFEST_URL
+    ? readFileSync(join(__dirname, 'fixtures', 'vod-template-number.mpd'), 'utf8')
+    : new URL(url).pathname.replace('/vod/', '');
+  return {
+    ok: true,
+    status: 200,
+    arrayBuffer: async () => new TextEncoder().encode(body).buffer
+  };
+};
+
+const config: AdaptiveStreamingConfig = {
+  qualities: [],
+  networkCheckInterval: 60000,
+  targetBufferLength: 8,
+  maxBufferLength: 30,
+  minBufferLength: 3,
+  lowLatencyMode: false,
+  segmentDuration: 4,
+  rebufferThreshold: 0,
+  qualitySwitchThreshold: 0.8
+};
+
+describe('AdaptiveStreamingEngine segment pipeline', () => {
+  const originalFetch = global.fetch;
+  const globals = global as unknown as { MediaSource?: unknown };
+  let engine: AdaptiveStreamingEngine;
+  let video: HTMLVideoElement;
+
+  const getSourceBuffer = () => FakeMediaSource.instances[0].sourceBuffers[0];
+  const setCurrentTime = (time: number) => {
+    Object.defineProperty(video, 'currentTime', { value: time, configurable: true, writable: true });
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    FakeMediaSource.instances = [];
+    globals.MediaSource = FakeMediaSource;
+    URL.createObjectURL = jest.fn(() => 'blob:media-source');
+    global.fetch = jest.fn(async (url: string) => respond(url)) as unknown as typeof fetch;
+
+    video = document.createElement('video');
+    setCurrentTime(0);
+    engine = new AdaptiveStreamingEngine(config);
+    const ready = engine.initialize(video, MANIFEST_URL);
+    await jest.advanceTimersByTimeAsync(0);
+    await ready;
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    global.fetch = originalFetch;
+    delete globals.MediaSource;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('takes the rendition ladder from the manifest', () => {
+    expect(engine.getQualities().map(quality => quality.id)).toEqual(['360p', '720p']);
+    expect(FakeMediaSource.instances[0].sourceBuffers).toHaveLength(1);
+  });
+
+  it('fills the buffer from the timeline, init segment first', async () => {
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(getSourceBuffer().log).toEqual(['360p/init.mp4', '360p/seg-00001.m4s', '360p/seg-00002.m4s']);
+    expect(FakeMediaSource.instances[0].duration).toBe(10);
+  });
+
+  it('appends the new init segment on a rendition change and carries on from the same position', async () => {
+    await jest.advanceTimersByTimeAsync(100);
+    engine.setQuality('720p');
+    setCurrentTime(4);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(getSourceBuffer().log.slice(3)).toEqual([
+      'changeType video/mp4; codecs="avc1.4D401F"',
+      '720p/init.mp4',
+      '720p/seg-00003.m4s'
+    ]);
+    expect(FakeMediaSource.instances[0].sourceBuffers).toHaveLength(1);
+    expect(FakeMediaSource.instances[0].endOfStream).toHaveBeenCalled();
+  });
+
+  it('serializes appends from the pipeline and manual loads', async () => {
+    const manual = engine.loadSegment('https://cdn.example.com/vod/extra.m4s');
+
+    await jest.advanceTimersByTimeAsync(100);
+    await manual;
+
+    expect(getSourceBuffer().log).toHaveLength(4);
+    expect(getSourceBuffer().log).toContain('extra.m4s');
+  });
+
+  it('restarts at the seek position after a seek outside the buffer', async () => {
+    await jest.advanceTimersByTimeAsync(100);
+    setCurrentTime(9);
+
+    video.dispatchEvent(new Event('seeking'));
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(getSourceBuffer().log.slice(3)).toEqual(['360p/seg-00003.m4s']);
+  });
+
+  it('scores the session live from playback events', async () => {
+    video.dispatchEvent(new Event('play'));
+    await jest.advanceTimersByTimeAsync(2000);
+    video.dispatchEvent(new Event('playing'));
+    await jest.advanceTimersByTimeAsync(10000);
+    const smooth = engine.getMetrics();
+
+    video.dispatchEvent(new Event('waiting'));
+    await jest.advanceTimersByTimeAsync(3000);
+    video.dispatchEvent(new Event('playing'));
+    await jest.advanceTimersByTimeAsync(1000);
+
+    // 360p of a 720p ladder, after a 2 s start
+    expect(smooth).toMatchObject({ qoeScore: 81, userExperience: 'excellent' });
+    // A 3 s stall in 14 s watched takes the whole rebuffer weight
+    expect(engine.getMetrics()).toMatchObject({ qoeScore: 46, userExperience: 'fair' });
+  });
+});
+
+describe('AdaptiveStreamingEngine under an emulated network', () => {
+  const globals = global as unknown as { MediaSource?: unknown };
+
+  // Two minutes of 4 s segments at each rendition's nominal bitrate
+  const createFixtures = (): Record<string, FixtureBody> => {
+    const fixtures: Record<string, FixtureBody> = {
+      [MANIFEST_URL]: readFileSync(join(__dirname, 'fixtures', 'vod-template-number.mpd'), 'utf8')
+        .replace('mediaPresentationDuration="PT10S"', 'mediaPresentationDuration="PT120S"')
+    };
+    [['360p', 800000], ['720p', 2500000]].forEach(([id, bitrate]) => {
+      fixtures[`/vod/${id}/init.mp4`] = 800;
+      for (let number = 1; number <= 30; number++) {
+        fixtures[`/vod/${id}/seg-${String(number).padStart(5, '0')}.m4s`] = (Number(bitrate) * 4) / 8;
+      }
+    });
+    return fixtures;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    FakeMediaSource.instances = [];
+    globals.MediaSource = FakeMediaSource;
+    URL.createObjectURL = jest.fn(() => 'blob:media-source');
+  });
+
+  afterEach(() => {
+    delete globals.MediaSource;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('steps down when the bandwidth does', async () => {
+    const emulator = createNetworkEmulator({
+      profile: NETWORK_PROFILES['step-down'],
+      upstream: createFixtureFetch(createFixtures())
+    });
+    const engine = new AdaptiveStreamingEngine({
+      ...config,
+      networkCheckInterval: 1000,
+      abr: { rules: ['throughput'] },
+      // The 720p segment in flight at the drop takes 10 s; let it finish
+      segmentLoader: { fetch: emulator.fetch, timeout: 30000 }
+    });
+    const video = document.createElement('video');
+    let currentTime = 0;
+    Object.defineProperty(video, 'currentTime', { get: () => currentTime, configurable: true });
+
+    const ready = engine.initialize(video, MANIFEST_URL);
+    await jest.advanceTimersByTimeAsync(100);
+    await ready;
+
+    // Play in real time and note the rendition every 10 s
+    const qualities: string[] = [];
+    for (let second = 1; second <= 100; second++) {
+      await jest.advanceTimersByTimeAsync(1000);
+      currentTime = second;
+      engine.updateCooldown();
+      if (second % 10 === 0) qualities.push(engine.getMetrics().currentQuality);
+    }
+    engine.destroy();
+
+    expect(qualities.slice(0, 6)).toEqual(['720p', '720p', '720p', '720p', '720p', '720p']);
+    expect(qualities.slice(-2)).toEqual(['360p', '360p']);
+    expect(engine.getNetworkMetrics().bandwidth).toBeLessThan(1200000);
+    // Time to first byte over the last ten transfers, mostly on the 80 ms step
+    expect(engine.getMetrics().averageLatency).toBeGreaterThan(40);
+    expect(engine.getMetrics().averageLatency).toBeLessThanOrEqual(80);
+  });
+});
+
+describe('AdaptiveStreamingEngine with a live playlist', () => {
+  const originalFetch = global.fetch;
+  const globals = global as unknown as { MediaSource?: unknown };
+  const PLAYLIST_URL = 'https://cdn.example.com/live/360p.m3u8';
+
+  // A window of five 4 s segments that moves on a segment every 4 s
+  const livePlaylist = (elapsed: number): string => {
+    const mediaSequence = Math.floor(elapsed / 4000);
+    return [
+      '#EXTM3U',
+      '#EXT-X-VERSION:7',
+      '#EXT-X-TARGETDURATION:4',
+      `#EXT-X-MEDIA-SEQUENCE:${mediaSequence}`,
+      '#EXT-X-MAP:URI="init.mp4"',
+      ...Array.from({ length: 5 }, (_, i) => `#EXTINF:4,\nseg-${mediaSequence + i}.m4s`)
+    ].join('\n');
+  };
+
+  let engine: AdaptiveStreamingEngine;
+  let video: HTMLVideoElement;
+  let playlistLoads: number;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    FakeMediaSource.instances = [];
+    globals.MediaSource = FakeMediaSource;
+    URL.createObjectURL = jest.fn(() => 'blob:media-source');
+
+    const startedAt = Date.now();
+    playlistLoads = 0;
+    global.fetch = jest.fn(async (url: string) => {
+      if (url === PLAYLIST_URL) playlistLoads++;
+      const body = url === PLAYLIST_URL ? livePlaylist(Date.now() - startedAt) : new URL(url).pathname.replace('/live/', '');
+      return { ok: true, status: 200, arrayBuffer: async () => new TextEncoder().encode(body).buffer };
+    }) as unknown as typeof fetch;
+
+    video = document.createElement('video');
+    Object.defineProperty(video, 'currentTime', { value: 0, configurable: true, writable: true });
+    engine = new AdaptiveStreamingEngine({
+      ...config,
+      qualities: [{
+        id: '360p',
+        bitrate: 800000,
+        resolution: { width: 640, height: 360 },
+        codec: 'avc1.42E01E',
+        mimeType: 'video/mp4',
+        url: PLAYLIST_URL,
+        bandwidth: 800000
+      }]
+    });
+    const ready = engine.initialize(video);
+    await jest.advanceTimersByTimeAsync(0);
+    await ready;
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    global.fetch = originalFetch;
+    delete globals.MediaSource;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('starts near the live edge', async () => {
+    await jest.advanceTimersByTimeAsync(100);
+
+    // Three segments back from the end of 0-20 s
+    expect(video.currentTime).toBe(8);
+    expect(FakeMediaSource.instances[0].sourceBuffers[0].log).toEqual(['init.mp4', 'seg-2.m4s', 'seg-3.m4s']);
+  });
+
+  it('reloads the playlist as playback catches up with it', async () => {
+    for (let second = 1; second <= 30; second++) {
+      await jest.advanceTimersByTimeAsync(1000);
+      video.currentTime = 8 + second;
+    }
+    await jest.advanceTimersByTimeAsync(1000);
+
+    const appended = FakeMediaSource.instances[0].sourceBuffers[0].log.slice(1);
+    expect(appended).toEqual(Array.from({ length: appended.length }, (_, i) => `seg-${i + 2}.m4s`));
+    // 30 s of playback plus the buffer ahead
+    expect(appended.length).toBeGreaterThanOrEqual(10);
+    expect(playlistLoads).toBeGreaterThan(1);
+    expect(FakeMediaSource.instances[0].endOfStream).not.toHaveBeenCalled();
+  });
+
+  it('keeps playlist reloads out of the bandwidth samples', async () => {
+    const addSample = jest.spyOn(BandwidthEstimator.prototype, 'addSample');
+    const kinds: string[] = [];
+    engine.getSegmentLoader().on('load', ({ kind }) => kinds.push(kind));
+
+    for (let second = 1; second <= 20; second++) {
+      await jest.advanceTimersByTimeAsync(1000);
+      video.currentTime = 8 + second;
+    }
+
+    expect(kinds).toContain('manifest');
+    expect(addSample).toHaveBeenCalledTimes(kinds.filter(kind => kind === 'segment').length);
+  });
+});
+
+describe('getInitialQuality', () => {
+  const quality = (id: string, bitrate: number, codec = 'avc1.4D401F'): QualityLevel => ({
+    id,
+    bitrate,
+    resolution: { width: 0, height: 0 },
+    codec,
+    mimeType: 'video/mp4',
+    url: bitrate > 0 ? `/streams/${id}/index.m3u8` : '',
+    bandwidth: bitrate
+  });
+
+  it('never starts on a placeholder without a bitrate', () => {
+    const qualities = [quality('auto', 0, 'auto'), quality('240p', 400000), quality('720p', 2500000)];
+
+    expect(getInitialQuality(qualities, 0)?.id).toBe('240p');
+    expect(getInitialQuality(qualities, 3000000)?.id).toBe('240p');
+    expect(getInitialQuality(qualities, 6000000)?.id).toBe('720p');
+    expect(getInitialQuality([quality('auto', 0, 'auto'), quality('720p', 2500000)], 0)?.id).toBe('720p');
+  });
+
+  it('starts on a lone rendition that declares no bitrate', () => {
+    expect(getInitialQuality([quality('default', 0)], 0)?.id).toBe('default');
+  });
+});
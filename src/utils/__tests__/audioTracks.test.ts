@@ -0,0 +1,42 @@
+import { selectPreferredAudioTrack, toAudioPreference } from '../audioTracks';
+import { AudioTrack } from '../../types/player';
+
+describe('audioTracks', () => {
+  const track = (id: string, language: string, descriptive = false): AudioTrack => ({
+    id,
+    label: id,
+    language,
+    roles: [descriptive ? 'description' : 'main'],
+    descriptive
+  });
+
+  const tracks = [
+    track('en', 'en'),
+    track('en-ad', 'en', true),
+    track('pt-BR', 'pt-BR'),
+    track('pt-PT', 'pt-PT')
+  ];
+
+  it('prefers an exact language match', () => {
+    expect(selectPreferredAudioTrack(tracks, { language: 'pt-PT', descriptive: false })?.id).toBe('pt-PT');
+  });
+
+  it('falls back to the primary language subtag', () => {
+    expect(selectPreferredAudioTrack(tracks, { language: 'en-GB', descriptive: false })?.id).toBe('en');
+    expect(selectPreferredAudioTrack(tracks, { language: 'PT', descriptive: false })?.id).toBe('pt-BR');
+  });
+
+  it('honours the audio description choice within a language', () => {
+    expect(selectPreferredAudioTrack(tracks, { language: 'en', descriptive: true })?.id).toBe('en-ad');
+    expect(selectPreferredAudioTrack(tracks, { language: 'pt-BR', descriptive: true })?.id).toBe('pt-BR');
+  });
+
+  it('returns null without a preference or a matching language', () => {
+    expect(selectPreferredAudioTrack(tracks, null)).toBeNull();
+    expect(selectPreferredAudioTrack(tracks, { language: 'de', descriptive: false })).toBeNull();
+  });
+
+  it('remembers the language and description setting of a track', () => {
+    expect(toAudioPreference(tracks[1])).toEqual({ language: 'en', descriptive: true });
+  });
+});
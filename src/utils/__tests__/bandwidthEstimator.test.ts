@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import { createBandwidthEstimator } from '../bandwidthEstimator';
+
+const MB = 1000000;
+
+describe('BandwidthEstimator', () => {
+  it('times transfers from the first byte', () => {
+    const estimator = createBandwidthEstimator();
+
+    estimator.addSample({ bytes: 0.5 * MB, ttfb: 500, duration: 1500 });
+
+    const { bandwidth, throughput, latency } = estimator.getEstimate();
+    expect(bandwidth).toBeCloseTo(4 * MB);
+    expect(throughput).toBeCloseTo((4 * MB) / 1.5);
+    expect(latency).toBe(500);
+  });
+
+  it('keeps the throughput of the last transfer big enough to sample', () => {
+    const estimator = createBandwidthEstimator();
+
+    estimator.addSample({ bytes: MB, ttfb: 0, duration: 2000 });
+    // A playlist reload: a few kB, mostly waiting for the response
+    estimator.addSample({ bytes: 3000, ttfb: 150, duration: 160 });
+
+    expect(estimator.getEstimate().throughput).toBeCloseTo(4 * MB);
+    expect(estimator.getEstimate().latency).toBe(75);
+  });
+
+  it('weights transfers by their size', () => {
+    const estimator = createBandwidthEstimator();
+
+    estimator.addSample({ bytes: 2 * MB, ttfb: 0, duration: 2000 });
+    estimator.addSample({ bytes: 20000, ttfb: 0, duration: 160 });
+
+    // 8 Mbps for 2 MB outweighs 1 Mbps for 20 kB
+    expect(estimator.getBandwidth()).toBeGreaterThan(7.5 * MB);
+  });
+
+  it('follows a drop at once through the fast average', () => {
+    const estimator = createBandwidthEstimator();
+    for (let i = 0; i < 10; i++) {
+      estimator.addSample({ bytes: MB, ttfb: 0, duration: 1000 });
+    }
+
+    estimator.addSample({ bytes: MB, ttfb: 0, duration: 8000 });
+    const afterDrop = estimator.getBandwidth();
+    estimator.addSample({ bytes: MB, ttfb: 0, duration: 1000 });
+
+    expect(afterDrop).toBeLessThan(4 * MB);
+    // The slow average keeps the estimate down after a single good transfer
+    expect(estimator.getBandwidth()).toBeLessThan(7 * MB);
+  });
+
+  it('uses the startup hint only until a transfer is measured', () => {
+    const estimator = createBandwidthEstimator({ defaultEstimate: 500000 });
+    expect(estimator.getBandwidth()).toBe(500000);
+
+    estimator.setHint(10 * MB);
+    expect(estimator.getBandwidth()).toBe(10 * MB);
+
+    estimator.addSample({ bytes: 0.25 * MB, ttfb: 0, duration: 1000 });
+    expect(estimator.getBandwidth()).toBeCloseTo(2 * MB);
+  });
+
+  it('takes latency and jitter from time to first byte', () => {
+    const estimator = createBandwidthEstimator({ latencyWindow: 3 });
+
+    [400, 100, 200, 100].forEach(ttfb => estimator.addSample({ bytes: 1000, ttfb, duration: ttfb + 10 }));
+
+    const { latency, jitter } = estimator.getEstimate();
+    expect(latency).toBeCloseTo(400 / 3);
+    expect(jitter).toBe(100);
+    // Small transfers count towards latency but not bandwidth
+    expect(estimator.hasSamples()).toBe(false);
+  });
+
+  it('keeps recent transfer bandwidths for stability', () => {
+    const estimator = createBandwidthEstimator({ stabilityWindow: 2 });
+
+    [1000, 500, 250].forEach(duration => estimator.addSample({ bytes: 0.5 * MB, ttfb: 0, duration }));
+    estimator.addSample({ bytes: 1000, ttfb: 0, duration: 10 });
+
+    expect(estimator.getRecentBandwidths()).toEqual([8 * MB, 16 * MB]);
+  });
+});
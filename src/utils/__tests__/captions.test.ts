@@ -0,0 +1,96 @@
+import {
+  DEFAULT_CAPTION_STYLE,
+  captionStyleToCSS,
+  detectTextTrackFormat,
+  getActiveCues,
+  parseSRT,
+  parseTTML,
+  parseWebVTT
+} from '../captions';
+
+describe('captions', () => {
+  it('parses WebVTT cues and drops markup', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      'NOTE comments are skipped',
+      '',
+      'intro',
+      '00:00:01.000 --> 00:00:03.500 align:start',
+      '<v Narrator>Hello &amp; <i>welcome</i></v>',
+      '',
+      '01:02.250 --> 01:04.000',
+      'Line one',
+      'Line two'
+    ].join('\n');
+
+    expect(parseWebVTT(vtt)).toEqual([
+      { start: 1, end: 3.5, text: 'Hello & welcome' },
+      { start: 62.25, end: 64, text: 'Line one\nLine two' }
+    ]);
+    expect(() => parseWebVTT('1\n00:00:01.000 --> 00:00:02.000\nHi')).toThrow('Missing WEBVTT header');
+  });
+
+  it('parses SRT with CRLF line endings', () => {
+    const srt = '1\r\n00:00:01,500 --> 00:00:02,000\r\n<b>Bold</b> text\r\n\r\n2\r\n00:01:00,000 --> 00:01:02,100\r\nNext\r\n';
+
+    expect(parseSRT(srt)).toEqual([
+      { start: 1.5, end: 2, text: 'Bold text' },
+      { start: 60, end: 62.1, text: 'Next' }
+    ]);
+  });
+
+  it('parses TTML clock, offset and frame times with inherited offsets', () => {
+    const ttml = `<?xml version="1.0" encoding="UTF-8"?>
+      <tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" ttp:frameRate="25">
+        <body>
+          <div>
+            <p begin="00:00:01.000" end="00:00:02.500">First<br/>line</p>
+            <p begin="3s" dur="1.5s">Second</p>
+          </div>
+          <div begin="10s">
+            <p begin="00:00:00:05" end="00:00:01:00"><span>Framed</span></p>
+          </div>
+        </body>
+      </tt>`;
+
+    expect(parseTTML(ttml)).toEqual([
+      { start: 1, end: 2.5, text: 'First\nline' },
+      { start: 3, end: 4.5, text: 'Second' },
+      { start: 10.2, end: 11, text: 'Framed' }
+    ]);
+    expect(() => parseTTML('<html></html>')).toThrow('Missing TTML <tt> root element');
+  });
+
+  it('detects the format from Content-Type, extension, then content', () => {
+    expect(detectTextTrackFormat('/subs/track', 'text/vtt; charset=utf-8')).toBe('webvtt');
+    expect(detectTextTrackFormat('/subs/en.dfxp?v=2')).toBe('ttml');
+    expect(detectTextTrackFormat('/subs/en.srt')).toBe('srt');
+    expect(detectTextTrackFormat('/subs/en', '', 'WEBVTT\n\n')).toBe('webvtt');
+    expect(detectTextTrackFormat('/subs/en', '', '<tt></tt>')).toBe('ttml');
+  });
+
+  it('returns the cues active at a position', () => {
+    const cues = [
+      { start: 5, end: 8, text: 'b' },
+      { start: 0, end: 6, text: 'a' },
+      { start: 8, end: 9, text: 'c' }
+    ];
+
+    expect(getActiveCues(cues, 5.5).map(cue => cue.text)).toEqual(['a', 'b']);
+    expect(getActiveCues(cues, 8).map(cue => cue.text)).toEqual(['c']);
+    expect(getActiveCues(cues, 10)).toEqual([]);
+  });
+
+  it('turns a caption style into CSS', () => {
+    expect(captionStyleToCSS(DEFAULT_CAPTION_STYLE)).toEqual({
+      fontSize: '20px',
+      color: '#ffffff',
+      backgroundColor: 'rgba(0, 0, 0, 0.75)',
+      textShadow: 'none'
+    });
+    expect(captionStyleToCSS({ ...DEFAULT_CAPTION_STYLE, backgroundColor: '#fff', edgeStyle: 'raised' })).toEqual(
+      expect.objectContaining({ backgroundColor: 'rgba(255, 255, 255, 0.75)', textShadow: '1px 1px 0 #000, 2px 2px 0 #000' })
+    );
+  });
+});
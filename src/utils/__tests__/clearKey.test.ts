@@ -0,0 +1,53 @@
+import {
+  base64UrlToHex,
+  buildClearKeyLicense,
+  createClearKeyInitData,
+  hexToBase64Url,
+  isValidCENCKey,
+  parseClearKeyKeys,
+  parseClearKeyRequest
+} from '../clearKey';
+
+describe('clearKey', () => {
+  const keyId = '0123456789abcdef0123456789abcdef';
+  const key = 'fedcba9876543210fedcba9876543210';
+
+  it('converts between hex and base64url', () => {
+    expect(hexToBase64Url(keyId)).toBe('ASNFZ4mrze8BI0VniavN7w');
+    expect(base64UrlToHex('ASNFZ4mrze8BI0VniavN7w')).toBe(keyId);
+    expect(base64UrlToHex(hexToBase64Url('fbff'))).toBe('fbff');
+  });
+
+  it('validates 16-byte hex keys', () => {
+    expect(isValidCENCKey({ keyId, key: key.toUpperCase() })).toBe(true);
+    expect(isValidCENCKey({ keyId: keyId.slice(2), key })).toBe(false);
+    expect(isValidCENCKey({ keyId, key: 'z'.repeat(32) })).toBe(false);
+  });
+
+  it('parses a kid:key list and skips malformed entries', () => {
+    expect(parseClearKeyKeys(` ${keyId.toUpperCase()}:${key}, broken, ${key}:abc`)).toEqual({ [keyId]: key });
+  });
+
+  it('rejects license requests without key IDs', () => {
+    expect(() => parseClearKeyRequest('not json')).toThrow('License request is not valid JSON');
+    expect(() => parseClearKeyRequest('{"kids":"abc"}')).toThrow('License request must list key IDs in "kids"');
+    expect(parseClearKeyRequest('{"kids":["abc"],"type":"temporary"}')).toEqual({ kids: ['abc'], type: 'temporary' });
+  });
+
+  it('answers with a JWK set of the known keys only', () => {
+    const unknown = hexToBase64Url('ff'.repeat(16));
+
+    const license = buildClearKeyLicense({ kids: [hexToBase64Url(keyId), unknown] }, { [keyId]: key });
+
+    expect(license).toEqual({
+      keys: [{ kty: 'oct', kid: 'ASNFZ4mrze8BI0VniavN7w', k: hexToBase64Url(key) }],
+      type: 'temporary'
+    });
+  });
+
+  it('builds keyids init data', () => {
+    const initData = createClearKeyInitData([keyId]);
+
+    expect(JSON.parse(new TextDecoder().decode(initData))).toEqual({ kids: ['ASNFZ4mrze8BI0VniavN7w'] });
+  });
+});
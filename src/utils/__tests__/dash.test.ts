@@ -9,6 +9,7 @@ const mockDashPlayer = {
   on: jest.fn(),
   destroy: jest.fn(),
   updateSettings: jest.fn(),
+  setProtectionData: jest.fn(),
   getDashMetrics: jest.fn(),
   setQualityFor: jest.fn(),
   getBufferLength: jest.fn(),
@@ -50,6 +51,8 @@ describe('DASHPlayer', () => {
     }
   };
 
+  const originalFetch = global.fetch;
+
   beforeEach(() => {
     jest.clearAllMocks();
     mockDashPlayer.initialize.mockResolvedValue(undefined);
@@ -70,6 +73,8 @@ describe('DASHPlayer', () => {
   });
 
   afterEach(() => {
+    // Restored here so a failed assertion can't leak a test's fetch mock
+    global.fetch = originalFetch;
     jest.clearAllMocks();
   });
 
@@ -89,6 +94,52 @@ describe('DASHPlayer', () => {
       expect(mockDashPlayer.initialize).toHaveBeenCalledWith(mockVideoElement, mockConfig.manifestUrl, mockConfig.autoStart);
     });
 
+    it('hands the DRM config to dash.js before attaching the element', async () => {
+      const drm = {
+        keySystem: 'org.w3.clearkey',
+        licenseUrl: 'https://license.example.com/clearkey',
+        licenseHeaders: { 'X-Auth-Token': 'secret' },
+        sessionType: 'temporary' as const,
+        persistentState: 'optional' as const,
+        serverCertificate: new Uint8Array([1, 2, 3]).buffer
+      };
+      const player = createDASHPlayer({ ...mockConfig, drm });
+
+      await player.initialize(document.createElement('video'));
+
+      expect(mockDashPlayer.setProtectionData).toHaveBeenCalledWith({
+        'org.w3.clearkey': expect.objectContaining({
+          serverURL: 'https://license.example.com/clearkey',
+          httpRequestHeaders: { 'X-Auth-Token': 'secret' },
+          serverCertificate: 'AQID',
+          sessionType: 'temporary'
+        })
+      });
+      expect(mockDashPlayer.setProtectionData.mock.invocationCallOrder[0])
+        .toBeLessThan(mockDashPlayer.attachView.mock.invocationCallOrder[0]);
+    });
+
+    it('counts license and key events from dash.js as DRM metrics', async () => {
+      const player = createDASHPlayer(mockConfig);
+      await player.initialize(document.createElement('video'));
+      const handlers = mockDashPlayer.on.mock.calls as unknown as [string, (event: unknown) => void][];
+      const handler = (event: string) => handlers.find(([name]) => name === event)![1];
+      const keyStatuses = (statuses: MediaKeyStatus[]) => ({ getKeyStatuses: () => statuses });
+
+      handler('public_licenseRequestComplete')({ data: {} });
+      handler('public_licenseRequestComplete')({ data: {}, error: { message: 'HTTP 403' } });
+      handler('public_keyStatusesChanged')({ data: keyStatuses(['usable', 'output-restricted']) });
+
+      expect(player.getDRMMetrics()).toEqual({
+        licenseRequests: 2,
+        licenseResponses: 1,
+        keyStatusChanges: 1,
+        sessionErrors: 1,
+        decryptionErrors: 1
+      });
+      expect(mockDashPlayer.setProtectionData).not.toHaveBeenCalled();
+    });
+
     it('should handle initialization errors', async () => {
       mockDashPlayer.initialize.mockRejectedValue(new Error('Initialization failed'));
       
@@ -101,45 +152,69 @@ describe('DASHPlayer', () => {
 
   describe('manifest handling', () => {
     it('should get manifest when available', async () => {
-      const mockManifest = {
-        Period: [{
-          id: 'period1',
-          start: 0,
-          duration: 100,
-          AdaptationSet: [{
-            id: 'adaptation1',
-            type: 'video',
-            RepresentationAsArray: [{
-              id: '0',
-              bandwidth: 1000000,
-              width: 1280,
-              height: 720,
-              codecs: 'avc1.4D401F',
-              mimeType: 'video/mp4',
-              frameRate: 30,
-              qualityRanking: 0
-            }]
-          }]
-        }],
-        Duration: 100,
-        IsLive: false,
-        AvailabilityStartTime: 0,
-        SuggestedPresentationDelay: 0,
-        TimeShiftBufferDepth: 0
-      };
-
-      mockDashPlayer.getDashMetrics.mockReturnValue(mockManifest);
+      const mpd = `<?xml version="1.0"?>
+        <MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" mediaPresentationDuration="PT100S">
+          <Period id="period1">
+            <AdaptationSet id="adaptation1" contentType="video" mimeType="video/mp4">
+              <SegmentTemplate timescale="1" duration="10" media="$RepresentationID$/$Number$.m4s"/>
+              <Representation id="0" bandwidth="1000000" width="1280" height="720" codecs="avc1.4D401F" frameRate="30"/>
+            </AdaptationSet>
+          </Period>
+        </MPD>`;
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        url: mockConfig.manifestUrl,
+        text: () => Promise.resolve(mpd)
+      }) as unknown as typeof fetch;
 
       const player = createDASHPlayer(mockConfig);
       const mockVideoElement = document.createElement('video');
+      const updated = new Promise(resolve => player.on('manifestUpdated', resolve));
 
       await player.initialize(mockVideoElement);
+      await updated;
 
       const manifest = player.getManifest();
+      expect(global.fetch).toHaveBeenCalledWith(mockConfig.manifestUrl);
       expect(manifest).toBeDefined();
       expect(manifest?.periods).toHaveLength(1);
       expect(manifest?.duration).toBe(100);
       expect(manifest?.isLive).toBe(false);
+
+      const representation = manifest?.periods[0].adaptationSets[0].representations[0];
+      expect(representation?.width).toBe(1280);
+      expect(representation?.segmentIndex?.segments[0].url).toBe('https://example.com/0/1.m4s');
+    });
+
+    it('does not hold dash.js back while parsing the MPD', async () => {
+      global.fetch = jest.fn(() => new Promise(() => {})) as unknown as typeof fetch;
+
+      const player = createDASHPlayer(mockConfig);
+      await player.initialize(document.createElement('video'));
+
+      expect(mockDashPlayer.initialize).toHaveBeenCalled();
+      expect(player.getManifest()).toBeNull();
+    });
+
+    it('parses the MPD again when dash.js reloads a dynamic one', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        url: mockConfig.manifestUrl,
+        text: () => Promise.resolve('<MPD type="static"/>')
+      }) as unknown as typeof fetch;
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const player = createDASHPlayer(mockConfig);
+      await player.initialize(document.createElement('video'));
+      const onManifestLoaded = (mockDashPlayer.on.mock.calls as unknown as [string, (event: unknown) => void][])
+        .find(([event]) => event === 'manifestLoaded')![1];
+
+      // The first load is the one initialize() already asked for
+      onManifestLoaded({ data: { type: 'dynamic' } });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      onManifestLoaded({ data: { type: 'dynamic' } });
+      onManifestLoaded({ data: { type: 'static' } });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
     });
 
     it('should return null manifest when not available', () => {
@@ -0,0 +1,295 @@
+import { DRMManager, CLEARKEY_KEY_SYSTEM, toHex } from '../drm';
+import { base64UrlToHex, buildClearKeyLicense, createClearKeyInitData, parseClearKeyRequest } from '../clearKey';
+import { EMEConfig } from '../../types/player';
+import { beforeEach, afterEach } from '@jest/globals';
+
+const KEY_ID = '0123456789abcdef0123456789abcdef';
+const KEY = 'fedcba9876543210fedcba9876543210';
+
+const toArrayBuffer = (text: string): ArrayBuffer => {
+  const bytes = new TextEncoder().encode(text);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
+
+const keyIdsInitData = (...keyIds: string[]): ArrayBuffer => createClearKeyInitData(keyIds);
+
+/**
+ * Minimal ClearKey CDM: license requests list the key IDs from the init
+ * data, and every key in a license becomes usable.
+ */
+class FakeKeySession extends EventTarget {
+  static count = 0;
+  sessionId = '';
+  expiration = NaN;
+  keyStatuses = new Map<ArrayBuffer, MediaKeyStatus>();
+  closed = false;
+
+  async generateRequest(initDataType: string, initData: ArrayBuffer): Promise<void> {
+    if (initDataType !== 'keyids') {
+      throw new Error(`Unsupported init data type: ${initDataType}`);
+    }
+    this.sessionId = `session-${++FakeKeySession.count}`;
+    const { kids } = JSON.parse(new TextDecoder().decode(initData));
+    this.sendMessage(toArrayBuffer(JSON.stringify({ kids, type: 'temporary' })));
+  }
+
+  async update(response: ArrayBuffer): Promise<void> {
+    const { keys } = JSON.parse(new TextDecoder().decode(response)) as { keys: { kid: string }[] };
+    keys.forEach(({ kid }) => {
+      const keyId = new Uint8Array(Buffer.from(base64UrlToHex(kid), 'hex')).buffer;
+      this.keyStatuses.set(keyId, 'usable');
+    });
+    this.dispatchEvent(new Event('keystatuseschange'));
+  }
+
+  setStatus(status: MediaKeyStatus): void {
+    Array.from(this.keyStatuses.keys()).forEach(keyId => this.keyStatuses.set(keyId, status));
+    this.dispatchEvent(new Event('keystatuseschange'));
+  }
+
+  sendMessage(message: ArrayBuffer, messageType = 'license-request'): void {
+    // Delivered asynchronously, like a real CDM
+    setTimeout(() => {
+      this.dispatchEvent(Object.assign(new Event('message'), { message, messageType }));
+    }, 0);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
+
+describe('DRMManager', () => {
+  const keys: Record<string, string> = { [KEY_ID]: KEY };
+  const config: EMEConfig = {
+    keySystem: CLEARKEY_KEY_SYSTEM,
+    licenseUrl: 'http://localhost/api/license',
+    licenseHeaders: { 'X-Auth-Token': 'secret' },
+    sessionType: 'temporary',
+    persistentState: 'optional'
+  };
+
+  let sessions: FakeKeySession[];
+  let mediaKeys: { createSession: ReturnType<typeof jest.fn>; setServerCertificate: ReturnType<typeof jest.fn> };
+  let requestAccess: ReturnType<typeof jest.fn>;
+  let fetchMock: ReturnType<typeof jest.fn>;
+  let video: HTMLVideoElement;
+
+  const flush = async (rounds = 5) => {
+    for (let i = 0; i < rounds; i++) {
+      await jest.advanceTimersByTimeAsync(1);
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sessions = [];
+    mediaKeys = {
+      createSession: jest.fn(() => {
+        const session = new FakeKeySession();
+        sessions.push(session);
+        return session;
+      }),
+      setServerCertificate: jest.fn(async () => true)
+    };
+    requestAccess = jest.fn(async (keySystem: string) => {
+      if (keySystem !== CLEARKEY_KEY_SYSTEM) throw new Error('Unsupported key system');
+      return { createMediaKeys: async () => mediaKeys };
+    });
+    Object.defineProperty(navigator, 'requestMediaKeySystemAccess', { value: requestAccess, configurable: true });
+
+    // Local ClearKey license server, answering like the /api/clearkey route
+    fetchMock = jest.fn(async (_url: string, init: RequestInit) => {
+      const request = parseClearKeyRequest(new TextDecoder().decode(init.body as ArrayBuffer));
+      const license = buildClearKeyLicense(request, keys);
+      if (!license.keys.length) return { ok: false, status: 404 };
+
+      return { ok: true, status: 200, arrayBuffer: async () => toArrayBuffer(JSON.stringify(license)) };
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    video = document.createElement('video');
+    video.setMediaKeys = jest.fn(async () => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const dispatchEncrypted = (initData: ArrayBuffer) => {
+    video.dispatchEvent(Object.assign(new Event('encrypted'), { initDataType: 'keyids', initData }));
+  };
+
+  it('sets up MediaKeys for the configured key system', async () => {
+    const drm = new DRMManager({ ...config, serverCertificate: new ArrayBuffer(4) });
+
+    await drm.attach(video);
+
+    expect(requestAccess).toHaveBeenCalledWith(CLEARKEY_KEY_SYSTEM, [expect.objectContaining({
+      persistentState: 'optional',
+      sessionTypes: ['temporary']
+    })]);
+    expect(mediaKeys.setServerCertificate).toHaveBeenCalled();
+    expect(video.setMediaKeys).toHaveBeenCalledWith(mediaKeys);
+  });
+
+  it('fetches a license for each new init data and tracks key statuses', async () => {
+    const drm = new DRMManager(config);
+    const onLicense = jest.fn();
+    const onStatuses = jest.fn();
+    drm.on('license', onLicense);
+    drm.on('keyStatusesChange', onStatuses);
+    await drm.attach(video);
+
+    dispatchEncrypted(keyIdsInitData(KEY_ID));
+    dispatchEncrypted(keyIdsInitData(KEY_ID));
+    await flush();
+
+    expect(sessions).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledWith(config.licenseUrl, expect.objectContaining({
+      method: 'POST',
+      headers: { 'X-Auth-Token': 'secret' }
+    }));
+    expect(onLicense).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'session-' + FakeKeySession.count }));
+    expect(onStatuses).toHaveBeenCalledWith(expect.objectContaining({ statuses: [{ keyId: KEY_ID, status: 'usable' }] }));
+    expect(drm.getKeyStatuses()).toEqual([{ keyId: KEY_ID, status: 'usable' }]);
+    expect(drm.getLicenses()).toHaveLength(1);
+    expect(drm.getMetrics()).toEqual({
+      licenseRequests: 1,
+      licenseResponses: 1,
+      keyStatusChanges: 1,
+      sessionErrors: 0,
+      decryptionErrors: 0
+    });
+  });
+
+  it('opens a session up front for configured init data', async () => {
+    const drm = new DRMManager({ ...config, initDataType: 'keyids', initData: keyIdsInitData(KEY_ID) });
+
+    await drm.attach(video);
+    dispatchEncrypted(keyIdsInitData(KEY_ID));
+    await flush();
+
+    expect(sessions).toHaveLength(1);
+    expect(drm.getMetrics().licenseResponses).toBe(1);
+  });
+
+  it('reports license server failures', async () => {
+    const drm = new DRMManager(config);
+    const onError = jest.fn();
+    drm.on('error', onError);
+    await drm.attach(video);
+
+    dispatchEncrypted(keyIdsInitData('ffffffffffffffffffffffffffffffff'));
+    await flush();
+
+    expect(onError).toHaveBeenCalledWith({ message: 'License request failed: HTTP 404', fatal: true });
+    expect(drm.getMetrics()).toEqual(expect.objectContaining({ licenseRequests: 1, licenseResponses: 0, sessionErrors: 1 }));
+  });
+
+  it('fails to attach when the key system is unavailable', async () => {
+    const drm = new DRMManager({ ...config, keySystem: 'com.widevine.alpha' });
+    const onError = jest.fn();
+    drm.on('error', onError);
+
+    await expect(drm.attach(video)).rejects.toThrow('Failed to set up com.widevine.alpha: Unsupported key system');
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ fatal: true }));
+    expect(drm.getMetrics().sessionErrors).toBe(1);
+  });
+
+  it('counts keys entering an error state once', async () => {
+    const drm = new DRMManager(config);
+    await drm.attach(video);
+    dispatchEncrypted(keyIdsInitData(KEY_ID));
+    await flush();
+
+    sessions[0].setStatus('output-restricted');
+    sessions[0].setStatus('output-restricted');
+
+    expect(drm.getMetrics()).toEqual(expect.objectContaining({ keyStatusChanges: 3, decryptionErrors: 1 }));
+  });
+
+  it('renews the license before it expires and closes the old session', async () => {
+    const drm = new DRMManager({ ...config, renewalThreshold: 10 });
+    await drm.attach(video);
+
+    const createSession = mediaKeys.createSession.getMockImplementation() as () => FakeKeySession;
+    mediaKeys.createSession.mockImplementation(() => {
+      const session = createSession();
+      session.expiration = Date.now() + 60000;
+      return session;
+    });
+
+    dispatchEncrypted(keyIdsInitData(KEY_ID));
+    await flush();
+    expect(sessions).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(45000);
+    await flush();
+    expect(sessions).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    await flush();
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0].closed).toBe(true);
+    expect(drm.getLicenses().map(license => license.sessionId)).toEqual([sessions[1].sessionId]);
+    expect(drm.getMetrics().licenseResponses).toBe(2);
+  });
+
+  it('renews a session whose keys expired', async () => {
+    const drm = new DRMManager(config);
+    await drm.attach(video);
+    dispatchEncrypted(keyIdsInitData(KEY_ID));
+    await flush();
+
+    sessions[0].setStatus('expired');
+    await flush();
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0].closed).toBe(true);
+    expect(drm.getKeyStatuses()).toEqual([{ keyId: KEY_ID, status: 'usable' }]);
+  });
+
+  it('closes sessions and releases the element on destroy', async () => {
+    const drm = new DRMManager(config);
+    await drm.attach(video);
+    dispatchEncrypted(keyIdsInitData(KEY_ID));
+    await flush();
+
+    drm.destroy();
+    dispatchEncrypted(keyIdsInitData('00112233445566778899aabbccddeeff'));
+    await flush();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].closed).toBe(true);
+    expect(video.setMediaKeys).toHaveBeenLastCalledWith(null);
+    expect(drm.getLicenses()).toEqual([]);
+  });
+
+  it('waits for the previous manager to release the element before attaching', async () => {
+    const previous = new DRMManager(config);
+    await previous.attach(video);
+
+    let released: () => void = () => {};
+    jest.mocked(video.setMediaKeys).mockImplementationOnce(() => new Promise<void>(resolve => {
+      released = resolve;
+    }));
+    previous.destroy();
+
+    const attaching = new DRMManager(config).attach(video);
+    await flush();
+    expect(requestAccess).toHaveBeenCalledTimes(1);
+
+    released();
+    await attaching;
+    expect(requestAccess).toHaveBeenCalledTimes(2);
+    expect(video.setMediaKeys).toHaveBeenLastCalledWith(mediaKeys);
+  });
+
+  it('hex-encodes key IDs from any buffer view', () => {
+    const bytes = new Uint8Array([0, 1, 0xab, 0xff]);
+    expect(toHex(bytes.buffer)).toBe('0001abff');
+    expect(toHex(bytes.subarray(2))).toBe('abff');
+  });
+});
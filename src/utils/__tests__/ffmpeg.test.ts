@@ -0,0 +1,577 @@
+import { FFmpegProcessor, normalizeTrimRanges } from '../ffmpeg';
+import { fetchFFmpegCore } from '../ffmpegCore';
+import { AdaptiveRendition, FFmpegProgress } from '../../types/player';
+import { beforeEach } from '@jest/globals';
+
+// In-memory stand-in for the ffmpeg.wasm filesystem
+const mockFiles = new Map<string, Uint8Array | string>();
+const mockFFmpeg = {
+  on: jest.fn(),
+  off: jest.fn(),
+  load: jest.fn().mockResolvedValue(true),
+  exec: jest.fn(),
+  ffprobe: jest.fn(),
+  writeFile: jest.fn(async (path: string, data: Uint8Array) => {
+    mockFiles.set(path, data);
+  }),
+  readFile: jest.fn(async (path: string, encoding?: string) => {
+    const data = mockFiles.get(path);
+    return encoding === 'utf8' && data instanceof Uint8Array ? new TextDecoder().decode(data) : data;
+  }),
+  deleteFile: jest.fn(async (path: string) => {
+    mockFiles.delete(path);
+  }),
+  createDir: jest.fn().mockResolvedValue(true),
+  deleteDir: jest.fn().mockResolvedValue(true),
+  listDir: jest.fn(async (dir: string) => [
+    { name: '.', isDir: true },
+    ...Array.from(mockFiles.keys())
+      .filter(path => path.startsWith(`${dir}/`))
+      .map(path => ({ name: path.slice(dir.length + 1), isDir: false }))
+  ]),
+  terminate: jest.fn()
+};
+
+jest.mock('@ffmpeg/ffmpeg', () => ({
+  FFmpeg: jest.fn().mockImplementation(() => mockFFmpeg)
+}));
+
+jest.mock('@ffmpeg/util', () => ({
+  fetchFile: jest.fn(async () => new Uint8Array([1, 2, 3]))
+}));
+
+jest.mock('../ffmpegCore', () => ({
+  fetchFFmpegCore: jest.fn(async () => ({ coreURL: 'blob:core', wasmURL: 'blob:wasm' }))
+}));
+
+URL.revokeObjectURL = jest.fn();
+
+const cencKey = { keyId: '0123456789abcdef0123456789abcdef', key: 'fedcba9876543210fedcba9876543210' };
+
+describe('FFmpegProcessor.packageAdaptive', () => {
+  const ladder: AdaptiveRendition[] = [
+    { name: '360p', width: 640, height: 360, videoBitrate: 800, audioBitrate: 96 },
+    { name: '720p', width: 1280, height: 720, videoBitrate: 2500 }
+  ];
+  const inputFile = new File(['video'], 'clip.mov', { type: 'video/quicktime' });
+  const probeStreams = (streams: object[]) => {
+    mockFFmpeg.ffprobe.mockImplementation(async (args: string[]) => {
+      mockFiles.set(args[args.length - 1], JSON.stringify({ format: { duration: '10.000000' }, streams }));
+      return 0;
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFiles.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    probeStreams([
+      { index: 0, codec_type: 'video', width: 1920, height: 1080 },
+      { index: 1, codec_type: 'audio', codec_name: 'aac', channels: 2, sample_rate: '48000' }
+    ]);
+  });
+
+  it('packages an HLS ladder into an in-memory bundle', async () => {
+    mockFFmpeg.exec.mockImplementation(async () => {
+      mockFiles.set('/package/master.m3u8', '#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000\nv0.m3u8\n');
+      mockFiles.set('/package/v0.m3u8', new TextEncoder().encode('#EXTM3U\n#EXTINF:4,\nv0_00000.ts\n'));
+      mockFiles.set('/package/v0_00000.ts', new Uint8Array([0x47, 0x40]));
+      return 0;
+    });
+
+    const processor = new FFmpegProcessor();
+    const result = await processor.packageAdaptive(inputFile, ladder);
+
+    const command: string[] = mockFFmpeg.exec.mock.calls[0][0];
+    expect(command).toEqual(expect.arrayContaining(['-f', 'hls', '-hls_segment_type', 'mpegts']));
+    expect(command[command.indexOf('-filter_complex') + 1])
+      .toBe('[0:v]split=2[s0][s1];[s0]scale=640:360[v0];[s1]scale=1280:720[v1]');
+    expect(command[command.indexOf('-b:v:1') + 1]).toBe('2500k');
+    expect(command[command.indexOf('-b:a:0') + 1]).toBe('96k');
+    expect(command[command.indexOf('-var_stream_map') + 1]).toBe('v:0,a:0 v:1,a:1');
+    expect(command[command.length - 1]).toBe('/package/v%v.m3u8');
+
+    expect(result.success).toBe(true);
+    expect(result.bundle?.format).toBe('hls');
+    expect(result.bundle?.manifestPath).toBe('master.m3u8');
+    expect(result.bundle?.renditions).toBe(ladder);
+    expect(result.bundle?.files.map(file => [file.path, file.mimeType])).toEqual([
+      ['master.m3u8', 'application/vnd.apple.mpegurl'],
+      ['v0.m3u8', 'application/vnd.apple.mpegurl'],
+      ['v0_00000.ts', 'video/mp2t']
+    ]);
+    expect(new TextDecoder().decode(result.bundle!.files[0].data)).toContain('v0.m3u8');
+
+    // The working directory and input are cleaned up
+    expect(mockFiles.size).toBe(0);
+    expect(mockFFmpeg.off).toHaveBeenCalledWith('progress', expect.any(Function));
+  });
+
+  it('uses fMP4 segments and one audio adaptation set for DASH', async () => {
+    mockFFmpeg.exec.mockImplementation(async () => {
+      mockFiles.set('/package/manifest.mpd', '<MPD/>');
+      return 0;
+    });
+
+    const processor = new FFmpegProcessor();
+    const result = await processor.packageAdaptive(inputFile, ladder, { format: 'dash', segmentDuration: 2 });
+
+    const command: string[] = mockFFmpeg.exec.mock.calls[0][0];
+    expect(command).toEqual(expect.arrayContaining(['-f', 'dash', '-seg_duration', '2', '-use_template', '0']));
+    expect(command[command.indexOf('-b:a') + 1]).toBe('128k');
+    expect(command[command.indexOf('-adaptation_sets') + 1]).toBe('id=0,streams=v id=1,streams=a');
+    expect(command[command.indexOf('-force_key_frames') + 1]).toBe('expr:gte(t,n_forced*2)');
+    expect(result.bundle?.manifestPath).toBe('manifest.mpd');
+  });
+
+  it('drops audio mapping when the input has none', async () => {
+    mockFFmpeg.exec.mockImplementation(async () => {
+      mockFiles.set('/package/master.m3u8', '#EXTM3U');
+      return 0;
+    });
+
+    const processor = new FFmpegProcessor();
+    await processor.packageAdaptive(inputFile, ladder, { format: 'hls', segmentFormat: 'fmp4', includeAudio: false });
+
+    const command: string[] = mockFFmpeg.exec.mock.calls[0][0];
+    expect(command).not.toContain('0:a:0');
+    expect(command).toEqual(expect.arrayContaining(['-hls_segment_type', 'fmp4', '-hls_fmp4_init_filename', 'v%v_init.mp4']));
+    expect(command[command.indexOf('-var_stream_map') + 1]).toBe('v:0 v:1');
+  });
+
+  it('packages video-only inputs without mapping audio', async () => {
+    probeStreams([{ index: 0, codec_type: 'video', width: 1920, height: 1080 }]);
+    mockFFmpeg.exec.mockImplementation(async () => {
+      mockFiles.set('/package/manifest.mpd', '<MPD/>');
+      return 0;
+    });
+
+    const processor = new FFmpegProcessor();
+    const dash = await processor.packageAdaptive(inputFile, ladder, { format: 'dash' });
+
+    const dashCommand: string[] = mockFFmpeg.exec.mock.calls[0][0];
+    expect(dash.success).toBe(true);
+    expect(dashCommand).not.toContain('0:a:0');
+    expect(dashCommand).not.toContain('-c:a');
+    expect(dashCommand[dashCommand.indexOf('-adaptation_sets') + 1]).toBe('id=0,streams=v');
+
+    mockFFmpeg.exec.mockImplementation(async () => {
+      mockFiles.set('/package/master.m3u8', '#EXTM3U');
+      return 0;
+    });
+    await processor.packageAdaptive(inputFile, ladder);
+
+    const hlsCommand: string[] = mockFFmpeg.exec.mock.calls[1][0];
+    expect(hlsCommand).not.toContain('0:a:0');
+    expect(hlsCommand).not.toContain('-c:a:0');
+    expect(hlsCommand[hlsCommand.indexOf('-var_stream_map') + 1]).toBe('v:0 v:1');
+    expect(mockFiles.size).toBe(0);
+  });
+
+  it('reports ffmpeg failures', async () => {
+    mockFFmpeg.exec.mockResolvedValue(1);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const processor = new FFmpegProcessor();
+    const result = await processor.packageAdaptive(inputFile, ladder);
+
+    expect(result).toEqual({ success: false, error: 'FFmpeg exited with code 1' });
+    // The input and partial package are gone after a failure too
+    expect(mockFiles.size).toBe(0);
+    expect(mockFFmpeg.deleteDir).toHaveBeenLastCalledWith('/package');
+  });
+
+  it('rejects an empty ladder', async () => {
+    const processor = new FFmpegProcessor();
+    const result = await processor.packageAdaptive(inputFile, []);
+
+    expect(result.success).toBe(false);
+    expect(mockFFmpeg.exec).not.toHaveBeenCalled();
+  });
+
+  it('encrypts DASH representations with CENC', async () => {
+    mockFFmpeg.exec.mockImplementation(async () => {
+      mockFiles.set('/package/manifest.mpd', '<MPD/>');
+      return 0;
+    });
+
+    const processor = new FFmpegProcessor();
+    await processor.packageAdaptive(inputFile, ladder, { format: 'dash', encryption: cencKey });
+
+    const command: string[] = mockFFmpeg.exec.mock.calls[0][0];
+    expect(command[command.indexOf('-format_options') + 1]).toBe(
+      `encryption_scheme=cenc-aes-ctr:encryption_key=${cencKey.key}:encryption_kid=${cencKey.keyId}`
+    );
+    expect(command[command.length - 1]).toBe('/package/manifest.mpd');
+  });
+
+  it('only encrypts DASH packages', async () => {
+    const processor = new FFmpegProcessor();
+    const result = await processor.packageAdaptive(inputFile, ladder, { format: 'hls', encryption: cencKey });
+
+    expect(result).toEqual({ success: false, error: 'CENC encryption is only supported for DASH packaging' });
+    expect(mockFFmpeg.exec).not.toHaveBeenCalled();
+  });
+});
+
+describe('FFmpegProcessor.encryptCENC', () => {
+  const inputFile = new File(['video'], 'clip.MP4', { type: 'video/mp4' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFiles.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('stream-copies into fragmented MP4 encrypted with the given key', async () => {
+    mockFFmpeg.exec.mockImplementation(async () => {
+      mockFiles.set('encrypted.mp4', new Uint8Array([0, 0, 0, 0x18]));
+      return 0;
+    });
+
+    const processor = new FFmpegProcessor();
+    const result = await processor.encryptCENC(inputFile, { keyId: cencKey.keyId.toUpperCase(), key: cencKey.key });
+
+    expect(mockFFmpeg.exec).toHaveBeenCalledWith([
+      '-i', 'input.mp4',
+      '-map', '0:v', '-map', '0:a?',
+      '-c', 'copy',
+      '-encryption_scheme', 'cenc-aes-ctr',
+      '-encryption_key', cencKey.key,
+      '-encryption_kid', cencKey.keyId,
+      '-movflags', 'frag_keyframe+empty_moov+default_base_moof',
+      'encrypted.mp4'
+    ]);
+    expect(result).toEqual({ success: true, outputFile: new Uint8Array([0, 0, 0, 0x18]), size: 4 });
+    expect(mockFiles.size).toBe(0);
+  });
+
+  it('removes the input and partial output when ffmpeg fails', async () => {
+    mockFFmpeg.exec.mockImplementation(async () => {
+      mockFiles.set('encrypted.mp4', new Uint8Array([0]));
+      return 1;
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const processor = new FFmpegProcessor();
+    const result = await processor.encryptCENC(inputFile, cencKey);
+
+    expect(result).toEqual({ success: false, error: 'FFmpeg exited with code 1' });
+    expect(mockFiles.size).toBe(0);
+  });
+
+  it('rejects keys that are not 16 bytes of hex', async () => {
+    const processor = new FFmpegProcessor();
+    const result = await processor.encryptCENC(inputFile, { keyId: cencKey.keyId, key: 'secret' });
+
+    expect(result).toEqual({ success: false, error: 'CENC key ID and key must be 16 bytes of hex' });
+    expect(mockFFmpeg.load).not.toHaveBeenCalled();
+  });
+});
+
+describe('FFmpegProcessor.getVideoInfo', () => {
+  const inputFile = new File(['video'], 'clip.mp4', { type: 'video/mp4' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFiles.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('prefers ffprobe JSON when the core supports it', async () => {
+    mockFFmpeg.ffprobe.mockImplementation(async (args: string[]) => {
+      mockFiles.set(args[args.length - 1], JSON.stringify({
+        format: { format_name: 'mov,mp4,m4a,3gp,3g2,mj2', duration: '12.000000', bit_rate: '900000' },
+        streams: [{ index: 0, codec_type: 'video', codec_name: 'h264', width: 1280, height: 720, avg_frame_rate: '25/1' }]
+      }));
+      return 0;
+    });
+
+    const processor = new FFmpegProcessor();
+    const info = await processor.getVideoInfo(inputFile);
+
+    expect(mockFFmpeg.exec).not.toHaveBeenCalled();
+    expect(info).toEqual(expect.objectContaining({ duration: 12, bitrate: 900000, size: inputFile.size }));
+    expect(info?.videoStreams[0]).toEqual(expect.objectContaining({ width: 1280, height: 720, frameRate: 25 }));
+    expect(mockFiles.size).toBe(0);
+  });
+
+  it('keeps concurrent probes apart', async () => {
+    mockFFmpeg.ffprobe.mockImplementation(async (args: string[]) => {
+      const input = args[args.length - 3];
+      mockFiles.set(args[args.length - 1], JSON.stringify({ format: { duration: input.endsWith('.mp4') ? '12' : '30' }, streams: [] }));
+      // The first probe finishes last
+      await new Promise(resolve => setTimeout(resolve, input.endsWith('.mp4') ? 10 : 0));
+      return 0;
+    });
+
+    const processor = new FFmpegProcessor();
+    const [first, second] = await Promise.all([
+      processor.getVideoInfo(inputFile),
+      processor.getVideoInfo(new File(['video'], 'other.mov', { type: 'video/quicktime' }))
+    ]);
+
+    expect(mockFFmpeg.exec).not.toHaveBeenCalled();
+    expect(first?.duration).toBe(12);
+    expect(second?.duration).toBe(30);
+    expect(mockFiles.size).toBe(0);
+  });
+
+  it('falls back to parsing the ffmpeg input banner', async () => {
+    mockFFmpeg.ffprobe.mockRejectedValue(new Error('ffprobe is not a function'));
+    mockFFmpeg.exec.mockImplementation(async () => {
+      const logCalls = (mockFFmpeg.on.mock.calls as [string, (event: { type: string; message: string }) => void][])
+        .filter(([event]) => event === 'log');
+      const logListener = logCalls[logCalls.length - 1][1];
+      [
+        "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'probe-1.mp4':",
+        '  Duration: 00:00:12.00, start: 0.000000, bitrate: 900 kb/s',
+        '  Stream #0:0[0x1](und): Video: h264 (Main) (avc1 / 0x31637661), yuv420p(progressive), 640x360, 800 kb/s, 25 fps, 25 tbr, 12800 tbn (default)'
+      ].forEach(message => logListener({ type: 'stderr', message }));
+      return 1;
+    });
+
+    const processor = new FFmpegProcessor();
+    const info = await processor.getVideoInfo(inputFile);
+
+    expect(mockFFmpeg.exec).toHaveBeenCalledWith(['-hide_banner', '-i', 'probe-1.mp4']);
+    expect(info?.duration).toBe(12);
+    expect(info?.videoStreams[0]).toEqual(expect.objectContaining({ codec: 'h264', profile: 'Main', width: 640, height: 360 }));
+    expect(mockFFmpeg.off).toHaveBeenCalledWith('log', expect.any(Function));
+  });
+
+  it('returns null when the input cannot be read', async () => {
+    mockFFmpeg.ffprobe.mockResolvedValue(1);
+    mockFFmpeg.exec.mockResolvedValue(1);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const processor = new FFmpegProcessor();
+
+    expect(await processor.getVideoInfo(inputFile)).toBeNull();
+    expect(mockFiles.size).toBe(0);
+  });
+});
+
+describe('FFmpegProcessor.cancel', () => {
+  const inputFile = new File(['video'], 'clip.mp4', { type: 'video/mp4' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFiles.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('drops the worker and reloads it for the next job', async () => {
+    mockFFmpeg.exec.mockImplementation(async () => {
+      mockFiles.set('output.mp4', new Uint8Array([1]));
+      return 0;
+    });
+
+    const processor = new FFmpegProcessor();
+    await processor.load();
+    processor.cancel();
+    expect(mockFFmpeg.terminate).toHaveBeenCalledTimes(1);
+
+    const result = await processor.convertVideo(inputFile, { inputFormat: 'mp4', outputFormat: 'mp4', quality: 'low' });
+    expect(result.success).toBe(true);
+    expect(mockFFmpeg.load).toHaveBeenCalledTimes(2);
+  });
+
+  it('only forwards progress and logs to the call that registered them', async () => {
+    const onLog = jest.fn();
+    mockFFmpeg.exec.mockResolvedValue(0);
+    mockFFmpeg.readFile.mockResolvedValueOnce(new Uint8Array([1]));
+
+    const processor = new FFmpegProcessor();
+    await processor.extractThumbnail(inputFile, 0, undefined, onLog);
+
+    const listeners = (calls: unknown[][]) => calls.map(call => call[1]);
+    expect(listeners(mockFFmpeg.off.mock.calls)).toEqual(listeners(mockFFmpeg.on.mock.calls.slice(2)));
+    expect(mockFFmpeg.off).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('FFmpegProcessor.load', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('loads the configured core and releases its blob URLs', async () => {
+    const onProgress = jest.fn();
+    const processor = new FFmpegProcessor({ baseURL: '/vendor/ffmpeg' });
+    await processor.load(onProgress);
+
+    expect(fetchFFmpegCore).toHaveBeenCalledWith({ baseURL: '/vendor/ffmpeg' }, onProgress);
+    expect(mockFFmpeg.load).toHaveBeenCalledWith({ coreURL: 'blob:core', wasmURL: 'blob:wasm' });
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:core');
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:wasm');
+  });
+
+  it('shares a load that is already in flight', async () => {
+    const processor = new FFmpegProcessor();
+    await Promise.all([processor.load(), processor.load()]);
+
+    expect(mockFFmpeg.load).toHaveBeenCalledTimes(1);
+    expect(fetchFFmpegCore).toHaveBeenCalledTimes(1);
+  });
+
+  it('surfaces why the core failed to load', async () => {
+    jest.mocked(fetchFFmpegCore).mockRejectedValueOnce(new Error('Failed to fetch /api/ffmpeg-core/ffmpeg-core.wasm (HTTP 500)'));
+
+    const processor = new FFmpegProcessor();
+
+    await expect(processor.load()).rejects.toThrow(
+      'Failed to initialize FFmpeg: Failed to fetch /api/ffmpeg-core/ffmpeg-core.wasm (HTTP 500)'
+    );
+    expect(mockFFmpeg.load).not.toHaveBeenCalled();
+  });
+});
+
+describe('FFmpegProcessor.convertVideo trimming', () => {
+  const inputFile = new File(['video'], 'clip.mp4', { type: 'video/mp4' });
+  const options = { inputFormat: 'mp4', outputFormat: 'mp4', quality: 'medium' as const };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFiles.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockFFmpeg.exec.mockImplementation(async (command: string[]) => {
+      mockFiles.set(command[command.length - 1], new Uint8Array([1]));
+      return 0;
+    });
+  });
+
+  it('stream-copies a single cut from the keyframe before its in point', async () => {
+    const processor = new FFmpegProcessor();
+    await processor.convertVideo(inputFile, { ...options, cuts: [{ start: 3, end: 8 }], trimMode: 'copy' });
+
+    expect(mockFFmpeg.exec).toHaveBeenCalledWith([
+      '-ss', '3', '-i', 'input.mp4', '-t', '5', '-c', 'copy', '-avoid_negative_ts', 'make_zero', 'output.mp4'
+    ]);
+  });
+
+  it('re-encodes each cut and concatenates the parts', async () => {
+    const onProgress = jest.fn();
+    mockFFmpeg.exec.mockImplementation(async (command: string[]) => {
+      const progressCalls = (mockFFmpeg.on.mock.calls as [string, (event: { progress: number; time: number }) => void][])
+        .filter(([event]) => event === 'progress');
+      progressCalls[progressCalls.length - 1][1]({ progress: 0.5, time: 1000 });
+      mockFiles.set(command[command.length - 1], new Uint8Array([1]));
+      return 0;
+    });
+
+    const processor = new FFmpegProcessor();
+    const result = await processor.convertVideo(
+      inputFile,
+      { ...options, cuts: [{ start: 10, end: 12 }, { start: 0, end: 6 }] },
+      onProgress
+    );
+
+    const commands = (mockFFmpeg.exec.mock.calls as string[][][]).map(call => call[0]);
+    expect(commands).toHaveLength(3);
+    expect(commands[0]).toEqual(expect.arrayContaining(['-c:v', 'libx264', '-ss', '0', '-t', '6', 'part0.mp4']));
+    expect(commands[1]).toEqual(expect.arrayContaining(['-ss', '10', '-t', '2', 'part1.mp4']));
+    expect(commands[2]).toEqual(['-f', 'concat', '-safe', '0', '-i', 'cuts.txt', '-c', 'copy', 'output.mp4']);
+    expect(mockFFmpeg.writeFile).toHaveBeenCalledWith('cuts.txt', "file 'part0.mp4'\nfile 'part1.mp4'");
+
+    // Progress is weighted by each cut's share of the output
+    expect((onProgress.mock.calls as [FFmpegProgress][]).map(call => call[0].percent)).toEqual([38, 88]);
+    expect(result.success).toBe(true);
+    expect(mockFiles.size).toBe(0);
+  });
+
+  it('reports which cut failed', async () => {
+    mockFFmpeg.exec.mockResolvedValue(1);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const processor = new FFmpegProcessor();
+    const result = await processor.convertVideo(inputFile, { ...options, cuts: [{ start: 0, end: 1 }, { start: 2, end: 3 }] });
+
+    expect(result).toEqual({ success: false, error: 'FFmpeg exited with code 1 while cutting 0-1s' });
+  });
+});
+
+describe('normalizeTrimRanges', () => {
+  it('sorts, clamps and merges overlapping ranges', () => {
+    expect(normalizeTrimRanges([
+      { start: 8, end: 30 },
+      { start: -1, end: 2 },
+      { start: 1, end: 3 },
+      { start: 5, end: 5 },
+    ], 20)).toEqual([{ start: 0, end: 3 }, { start: 8, end: 20 }]);
+  });
+});
+
+describe('FFmpegProcessor.generateThumbnailSprite', () => {
+  const inputFile = new File(['video'], 'clip.mp4', { type: 'video/mp4' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFiles.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockFFmpeg.ffprobe.mockImplementation(async (args: string[]) => {
+      mockFiles.set(args[args.length - 1], JSON.stringify({
+        format: { duration: '42.000000' },
+        streams: [{
+          index: 0,
+          codec_type: 'video',
+          width: 1920,
+          height: 1080,
+          side_data_list: [{ side_data_type: 'Display Matrix', rotation: -90 }]
+        }]
+      }));
+      return 0;
+    });
+    mockFFmpeg.exec.mockImplementation(async (command: string[]) => {
+      mockFiles.set(command[command.length - 1], new Uint8Array([0xff, 0xd8]));
+      return 0;
+    });
+  });
+
+  it('tiles frames into one sprite sized for the display orientation', async () => {
+    const processor = new FFmpegProcessor();
+    const result = await processor.generateThumbnailSprite(inputFile, { interval: 10, columns: 4, width: 90 });
+
+    // A portrait (rotated) 1080x1920 source gives 90x160 tiles; 42s / 10s rounds up to 5 tiles
+    expect(mockFFmpeg.exec).toHaveBeenCalledWith([
+      '-i', 'input.mp4',
+      '-vf', 'fps=1/10,scale=90:160,tile=4x2',
+      '-frames:v', '1',
+      '-q:v', '4',
+      'thumbnails.jpg'
+    ]);
+    expect(result.success).toBe(true);
+    expect(result.sprite).toEqual(expect.objectContaining({
+      count: 5,
+      rows: 2,
+      tileWidth: 90,
+      tileHeight: 160,
+      imageName: 'thumbnails.jpg',
+      mimeType: 'image/jpeg'
+    }));
+    expect(result.sprite?.vtt).toContain('00:00:40.000 --> 00:00:42.000\nthumbnails.jpg#xywh=0,160,90,160');
+    expect(mockFiles.size).toBe(0);
+  });
+
+  it('spreads a fixed number of frames over the whole video', async () => {
+    const processor = new FFmpegProcessor();
+    const result = await processor.generateThumbnailSprite(inputFile, { count: 8, columns: 8, width: 90 });
+
+    const command: string[] = mockFFmpeg.exec.mock.calls[0][0];
+    expect(command[command.indexOf('-vf') + 1]).toBe('fps=8/42,scale=90:160,tile=8x1');
+    expect(result.sprite).toEqual(expect.objectContaining({ count: 8, rows: 1, interval: 5.25 }));
+  });
+
+  it('fails when the input has no video', async () => {
+    mockFFmpeg.ffprobe.mockResolvedValue(1);
+    mockFFmpeg.exec.mockResolvedValue(1);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const processor = new FFmpegProcessor();
+    const result = await processor.generateThumbnailSprite(inputFile);
+
+    expect(result).toEqual({ success: false, error: 'Could not read the video duration and frame size' });
+    expect(mockFiles.size).toBe(0);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { fetchFFmpegCore, resolveFFmpegCoreURLs, FFMPEG_CORE_CACHE_NAME } from '../ffmpegCore';
+import { FFmpegLoadProgress } from '../../types/player';
+import { beforeEach, afterEach } from '@jest/globals';
+
+// The core files installed with @ffmpeg/core, served like the app's API route does
+const CORE_DIR = join(process.cwd(), 'node_modules', '@ffmpeg', 'core', 'dist', 'umd');
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+const localResponse = (data: Uint8Array | null): Response => {
+  let offset = 0;
+  const response = {
+    ok: data !== null,
+    status: data ? 200 : 404,
+    headers: { get: (name: string) => (name === 'Content-Length' && data ? data.length.toString() : null) },
+    body: data && {
+      getReader: () => ({
+        read: async () => {
+          if (offset >= data.length) return { done: true, value: undefined };
+          const value = data.subarray(offset, offset + CHUNK_SIZE);
+          offset += value.length;
+          return { done: false, value };
+        },
+      }),
+    },
+  };
+
+  return response as unknown as Response;
+};
+
+describe('ffmpegCore', () => {
+  const blobs = new Map<string, Blob>();
+  const cached = new Map<string, Response>();
+  let fetchMock: ReturnType<typeof jest.fn>;
+
+  beforeEach(() => {
+    blobs.clear();
+    cached.clear();
+
+    fetchMock = jest.fn(async (url: string) => {
+      const file = url.split('/').pop()!;
+      try {
+        return localResponse(new Uint8Array(readFileSync(join(CORE_DIR, file))));
+      } catch {
+        return localResponse(null);
+      }
+    });
+    global.fetch = fetchMock;
+
+    Object.assign(global, {
+      caches: {
+        open: jest.fn(async () => ({
+          match: async (url: string) => cached.get(url),
+          // Reads the body like the real thing, so a response read elsewhere fails here
+          put: async (url: string, response: Response) => {
+            cached.set(url, localResponse(new Uint8Array(await response.arrayBuffer())));
+          },
+        })),
+      },
+    });
+
+    URL.createObjectURL = jest.fn((blob: Blob) => {
+      const url = `blob:core/${blobs.size}`;
+      blobs.set(url, blob);
+      return url;
+    });
+  });
+
+  afterEach(() => {
+    delete (global as { caches?: unknown }).caches;
+  });
+
+  it('resolves core URLs from a base URL or explicit overrides', () => {
+    expect(resolveFFmpegCoreURLs()).toEqual({
+      coreURL: '/api/ffmpeg-core/ffmpeg-core.js',
+      wasmURL: '/api/ffmpeg-core/ffmpeg-core.wasm',
+      workerURL: undefined,
+    });
+    expect(resolveFFmpegCoreURLs({ baseURL: '/vendor/ffmpeg/', wasmURL: '/wasm/core.wasm' })).toEqual({
+      coreURL: '/vendor/ffmpeg/ffmpeg-core.js',
+      wasmURL: '/wasm/core.wasm',
+      workerURL: undefined,
+    });
+  });
+
+  it('loads the local core into blob URLs and reports progress', async () => {
+    const progress: FFmpegLoadProgress[] = [];
+    const urls = await fetchFFmpegCore({}, update => progress.push(update));
+
+    const coreSize = readFileSync(join(CORE_DIR, 'ffmpeg-core.js')).length;
+    const wasmSize = readFileSync(join(CORE_DIR, 'ffmpeg-core.wasm')).length;
+
+    expect(blobs.get(urls.coreURL)?.size).toBe(coreSize);
+    expect(blobs.get(urls.coreURL)?.type).toBe('text/javascript');
+    expect(blobs.get(urls.wasmURL)?.size).toBe(wasmSize);
+    expect(blobs.get(urls.wasmURL)?.type).toBe('application/wasm');
+    expect(urls.workerURL).toBeUndefined();
+
+    // Several chunks of the wasm are reported before the final total
+    expect(progress.length).toBeGreaterThan(3);
+    expect(progress[progress.length - 1]).toEqual(expect.objectContaining({
+      loaded: coreSize + wasmSize,
+      total: coreSize + wasmSize,
+      percent: 100,
+    }));
+  });
+
+  it('serves repeat loads from Cache Storage', async () => {
+    await fetchFFmpegCore();
+    const urls = await fetchFFmpegCore();
+
+    expect(caches.open).toHaveBeenCalledWith(FFMPEG_CORE_CACHE_NAME);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(blobs.get(urls.wasmURL)?.size).toBe(readFileSync(join(CORE_DIR, 'ffmpeg-core.wasm')).length);
+  });
+
+  it('skips the cache when disabled', async () => {
+    await fetchFFmpegCore({ cacheName: false });
+    await fetchFFmpegCore({ cacheName: false });
+
+    expect(caches.open).not.toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('reports assets that cannot be fetched', async () => {
+    await expect(fetchFFmpegCore({ coreURL: '/missing/ffmpeg-core-mt.js' }))
+      .rejects.toThrow('Failed to fetch /missing/ffmpeg-core-mt.js (HTTP 404)');
+  });
+});
@@ -0,0 +1,141 @@
+import { FFmpegJobQueue, FFmpegJobRunner } from '../ffmpegQueue';
+import { FFmpegProcessor } from '../ffmpeg';
+import { FFmpegResult } from '../../types/player';
+import { beforeEach } from '@jest/globals';
+
+jest.mock('../ffmpeg', () => ({
+  FFmpegProcessor: jest.fn().mockImplementation(() => ({ cancel: jest.fn() }))
+}));
+
+// A runner that stays pending until the test settles it
+const deferredRunner = () => {
+  let settle: (result: FFmpegResult) => void = () => {};
+  const runner = jest.fn((..._args: Parameters<FFmpegJobRunner>) => new Promise<FFmpegResult>(resolve => {
+    settle = resolve;
+  }));
+
+  return { runner, settle: (result: FFmpegResult) => settle(result) };
+};
+
+describe('FFmpegJobQueue', () => {
+  let processor: FFmpegProcessor;
+  let queue: FFmpegJobQueue;
+
+  beforeEach(() => {
+    processor = new FFmpegProcessor();
+    queue = new FFmpegJobQueue(processor);
+  });
+
+  it('runs jobs one at a time in order', async () => {
+    const first = deferredRunner();
+    const second = deferredRunner();
+
+    const a = queue.add('convert', 'a.mp4', first.runner);
+    const b = queue.add('thumbnail', 'b.mp4', second.runner);
+
+    expect(queue.getJobs().map(job => job.status)).toEqual(['running', 'queued']);
+    expect(second.runner).not.toHaveBeenCalled();
+
+    first.settle({ success: true, size: 10 });
+    expect(await a.result).toEqual({ success: true, size: 10 });
+    expect(queue.getJobs().map(job => job.status)).toEqual(['done', 'running']);
+
+    second.settle({ success: false, error: 'boom' });
+    await b.result;
+    expect(queue.getJobs()[1]).toEqual(expect.objectContaining({
+      type: 'thumbnail',
+      fileName: 'b.mp4',
+      status: 'failed',
+      result: { success: false, error: 'boom' }
+    }));
+  });
+
+  it('tracks progress and logs per job', async () => {
+    const { runner, settle } = deferredRunner();
+    const { id, result } = queue.add('convert', 'a.mp4', runner);
+    const [, onProgress, onLog] = runner.mock.calls[0];
+
+    onProgress({ percent: 50, time: 1000, speed: 1, eta: 1000 });
+    onLog('frame=10');
+    settle({ success: true });
+    await result;
+
+    const job = queue.getJobs().find(candidate => candidate.id === id)!;
+    expect(job.progress?.percent).toBe(50);
+    expect(job.logs).toEqual(['frame=10']);
+    expect(job.startedAt).toBeDefined();
+    expect(job.finishedAt).toBeDefined();
+  });
+
+  it('cancels a queued job without touching the processor', async () => {
+    const first = deferredRunner();
+    const second = deferredRunner();
+    queue.add('convert', 'a.mp4', first.runner);
+    const queued = queue.add('convert', 'b.mp4', second.runner);
+
+    expect(queue.cancel(queued.id)).toBe(true);
+    expect(await queued.result).toEqual({ success: false, error: 'Job cancelled' });
+    expect(processor.cancel).not.toHaveBeenCalled();
+
+    first.settle({ success: true });
+    await Promise.resolve();
+    expect(second.runner).not.toHaveBeenCalled();
+  });
+
+  it('cancels the running job through the processor and moves on', async () => {
+    const first = deferredRunner();
+    const second = deferredRunner();
+    const running = queue.add('convert', 'a.mp4', first.runner);
+    queue.add('convert', 'b.mp4', second.runner);
+
+    expect(queue.cancel(running.id)).toBe(true);
+    expect(processor.cancel).toHaveBeenCalledTimes(1);
+
+    // The interrupted runner reports a failure, which the queue records as a cancellation
+    first.settle({ success: false, error: 'called FFmpeg.terminate()' });
+    expect(await running.result).toEqual({ success: false, error: 'Job cancelled' });
+    expect(queue.getJobs().map(job => job.status)).toEqual(['cancelled', 'running']);
+    expect(queue.cancel(running.id)).toBe(false);
+  });
+
+  it('notifies subscribers and clears finished jobs', async () => {
+    const listener = jest.fn();
+    const unsubscribe = queue.subscribe(listener);
+    expect(listener).toHaveBeenLastCalledWith([]);
+
+    const { runner, settle } = deferredRunner();
+    const job = queue.add('package', 'a.mp4', runner);
+    settle({ success: true });
+    await job.result;
+
+    expect(listener).toHaveBeenLastCalledWith([expect.objectContaining({ status: 'done' })]);
+
+    queue.clearFinished();
+    expect(queue.getJobs()).toEqual([]);
+
+    unsubscribe();
+    const calls = listener.mock.calls.length;
+    queue.add('convert', 'b.mp4', deferredRunner().runner);
+    expect(listener).toHaveBeenCalledTimes(calls);
+  });
+
+  it('drops hidden jobs once they finish', async () => {
+    const { runner, settle } = deferredRunner();
+    const job = queue.add('sprite', 'a.mp4', runner, { hidden: true });
+
+    expect(queue.getJobs()).toEqual([expect.objectContaining({ id: job.id, status: 'running', hidden: true })]);
+
+    settle({ success: true });
+    await job.result;
+    expect(queue.getJobs()).toEqual([]);
+  });
+
+  it('marks runner exceptions as failures', async () => {
+    const { result } = queue.add('convert', 'a.mp4', async () => {
+      throw new Error('worker crashed');
+    });
+
+    expect(await result).toEqual({ success: false, error: 'worker crashed' });
+    expect(queue.getJobs()[0].status).toBe('failed');
+  });
+});
@@ -0,0 +1,187 @@
+import { LowLatencyOptimizer, createLowLatencyOptimizer } from '../lowLatencyOptimizer';
+import { LiveWindow, PlaybackEngine } from '../../types/player';
+import { afterEach, beforeEach } from '@jest/globals';
+
+const createEngine = () => {
+  const state = {
+    window: { type: 'live', start: 0, end: 60, latency: 3, targetLatency: 3, atLiveEdge: true } as LiveWindow | null,
+    wallClockLatency: null as number | null
+  };
+  return {
+    state,
+    engine: {
+      getLiveWindow: jest.fn(() => state.window),
+      getWallClockLatency: jest.fn(() => state.wallClockLatency),
+      seekToLiveEdge: jest.fn()
+    } as unknown as PlaybackEngine
+  };
+};
+
+const createVideo = (bufferedEnd: number) => {
+  const video = document.createElement('video');
+  Object.defineProperty(video, 'paused', { value: false, configurable: true });
+  Object.defineProperty(video, 'currentTime', { value: 50, configurable: true, writable: true });
+  Object.defineProperty(video, 'buffered', {
+    configurable: true,
+    value: { length: 1, start: () => 40, end: () => bufferedEnd }
+  });
+  return video;
+};
+
+describe('LowLatencyOptimizer latency catch-up', () => {
+  let optimizer: LowLatencyOptimizer;
+  let fake: ReturnType<typeof createEngine>;
+  let video: HTMLVideoElement;
+
+  beforeEach(() => {
+    optimizer = createLowLatencyOptimizer({ targetLatency: 3, maxLatency: 8 });
+    fake = createEngine();
+    video = createVideo(53);
+    optimizer.startCatchUp(fake.engine, video);
+  });
+
+  afterEach(() => {
+    optimizer.destroy();
+  });
+
+  it('leaves the rate alone near the target latency', () => {
+    fake.state.wallClockLatency = 3.1;
+
+    expect(optimizer.updateCatchUp()).toBeNull();
+    expect(video.playbackRate).toBe(1);
+  });
+
+  it('speeds up when behind, within the maximum rate', () => {
+    fake.state.wallClockLatency = 6;
+
+    const entry = optimizer.updateCatchUp();
+
+    expect(video.playbackRate).toBe(1.05);
+    expect(entry?.adjustment).toMatchObject({
+      action: 'speed-up',
+      latencyBefore: 6,
+      latencyAfter: null,
+      playbackRateBefore: 1,
+      playbackRateAfter: 1.05
+    });
+  });
+
+  it('slows down when closer to live than the target', () => {
+    fake.state.wallClockLatency = 2;
+
+    optimizer.updateCatchUp();
+
+    expect(video.playbackRate).toBe(0.95);
+  });
+
+  it('falls back to the live window latency without a stream clock', () => {
+    fake.state.window = { ...fake.state.window!, latency: 4 };
+
+    optimizer.updateCatchUp();
+
+    expect(video.playbackRate).toBe(1.05);
+    expect(optimizer.getLatencyMetrics().liveLatency).toBe(4);
+  });
+
+  it('does not speed up on a nearly empty buffer', () => {
+    Object.defineProperty(video, 'buffered', {
+      configurable: true,
+      value: { length: 1, start: () => 40, end: () => 50.5 }
+    });
+    fake.state.wallClockLatency = 6;
+
+    expect(optimizer.updateCatchUp()).toBeNull();
+    expect(video.playbackRate).toBe(1);
+  });
+
+  it('seeks to the live edge past the maximum latency', () => {
+    fake.state.wallClockLatency = 12;
+
+    const entry = optimizer.updateCatchUp();
+
+    expect(fake.engine.seekToLiveEdge).toHaveBeenCalled();
+    expect(entry?.adjustment?.action).toBe('seek-live');
+  });
+
+  it('records the measured latency after an action', () => {
+    fake.state.wallClockLatency = 5;
+    optimizer.updateCatchUp();
+
+    fake.state.wallClockLatency = 3.1;
+    optimizer.updateCatchUp();
+
+    const history = optimizer.getOptimizationHistory();
+    expect(history[0].adjustment?.latencyAfter).toBe(3.1);
+    expect(history[0].latencyReduction).toBeCloseTo(1.9);
+    expect(history[1].adjustment?.action).toBe('resume-rate');
+    expect(video.playbackRate).toBe(1);
+  });
+
+  it('keeps a playback rate the viewer picked', () => {
+    video.playbackRate = 1.5;
+    fake.state.wallClockLatency = 6;
+
+    expect(optimizer.updateCatchUp()).toBeNull();
+    expect(video.playbackRate).toBe(1.5);
+  });
+
+  it('stays in the DVR window after the viewer seeks back', () => {
+    video.dispatchEvent(new Event('seeking'));
+    fake.state.window = { ...fake.state.window!, atLiveEdge: false };
+    fake.state.wallClockLatency = 30;
+
+    expect(optimizer.updateCatchUp()).toBeNull();
+    expect(fake.engine.seekToLiveEdge).not.toHaveBeenCalled();
+  });
+
+  it('does nothing for on-demand content', () => {
+    fake.state.window = null;
+
+    expect(optimizer.updateCatchUp()).toBeNull();
+    expect(optimizer.getOptimizationHistory()).toEqual([]);
+  });
+
+  it('checks latency on an interval until stopped', () => {
+    jest.useFakeTimers();
+    try {
+      optimizer.startCatchUp(fake.engine, video);
+      fake.state.wallClockLatency = 6;
+
+      jest.advanceTimersByTime(500);
+      expect(video.playbackRate).toBe(1.05);
+
+      optimizer.stopCatchUp();
+      expect(video.playbackRate).toBe(1);
+      jest.advanceTimersByTime(500);
+      expect(optimizer.getOptimizationHistory()).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('scores buffer efficiency against the target latency', () => {
+    fake.state.wallClockLatency = 6;
+
+    // 3s buffered ahead matches the 3s target
+    expect(optimizer.updateCatchUp()?.bufferEfficiency).toBe(100);
+  });
+});
+
+describe('LowLatencyOptimizer efficiency', () => {
+  it('scores network efficiency from segment download times', async () => {
+    const optimizer = createLowLatencyOptimizer({ segmentDuration: 2 });
+    const originalFetch = global.fetch;
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200, arrayBuffer: async () => new ArrayBuffer(8) }) as unknown as typeof fetch;
+
+    try {
+      expect((await optimizer.runOptimization()).networkEfficiency).toBe(0);
+
+      await optimizer.downloadSegmentOptimized('https://example.com/segment.m4s');
+      const { networkEfficiency } = await optimizer.runOptimization();
+      expect(networkEfficiency).toBeGreaterThan(90);
+      expect(networkEfficiency).toBeLessThanOrEqual(100);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
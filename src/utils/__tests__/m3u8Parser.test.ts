@@ -0,0 +1,177 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseM3U8, parseAttributeList } from '../m3u8Parser';
+import { HLSMasterPlaylist, HLSMediaPlaylist } from '../../types/player';
+
+const loadFixture = (name: string): string => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('m3u8Parser', () => {
+  describe('parseAttributeList', () => {
+    it('keeps commas inside quoted values', () => {
+      expect(parseAttributeList('BANDWIDTH=800000,CODECS="avc1.4d401e,mp4a.40.2",RESOLUTION=640x360')).toEqual({
+        BANDWIDTH: '800000',
+        CODECS: 'avc1.4d401e,mp4a.40.2',
+        RESOLUTION: '640x360'
+      });
+    });
+  });
+
+  describe('master playlists', () => {
+    const playlist = parseM3U8(loadFixture('master.m3u8'), {
+      baseUrl: 'https://example.com/show/master.m3u8'
+    }) as HLSMasterPlaylist;
+
+    it('parses variant streams', () => {
+      expect(playlist.type).toBe('master');
+      expect(playlist.version).toBe(6);
+      expect(playlist.independentSegments).toBe(true);
+      expect(playlist.variants).toHaveLength(2);
+      expect(playlist.variants[0]).toEqual({
+        uri: 'https://example.com/show/360p/index.m3u8',
+        bandwidth: 800000,
+        averageBandwidth: 700000,
+        codecs: 'avc1.4d401e,mp4a.40.2',
+        resolution: { width: 640, height: 360 },
+        frameRate: 29.97,
+        hdcpLevel: undefined,
+        audio: 'aac',
+        video: undefined,
+        subtitles: 'subs',
+        closedCaptions: 'cc'
+      });
+      expect(playlist.variants[1].uri).toBe('https://cdn.example.com/720p/index.m3u8');
+      expect(playlist.variants[1].closedCaptions).toBe('NONE');
+    });
+
+    it('parses I-frame variants from their URI attribute', () => {
+      expect(playlist.iFrameVariants).toHaveLength(1);
+      expect(playlist.iFrameVariants[0]).toEqual(expect.objectContaining({
+        uri: 'https://example.com/show/360p/iframes.m3u8',
+        bandwidth: 90000
+      }));
+    });
+
+    it('parses audio, subtitle and caption renditions', () => {
+      const [english, french, subtitles, captions] = playlist.renditions;
+
+      expect(playlist.renditions).toHaveLength(4);
+      expect(english).toEqual(expect.objectContaining({
+        type: 'AUDIO',
+        groupId: 'aac',
+        name: 'English',
+        language: 'en',
+        default: true,
+        autoselect: true,
+        channels: '2',
+        uri: 'https://example.com/show/audio/en/index.m3u8'
+      }));
+      expect(french.name).toBe('Français');
+      expect(french.default).toBe(false);
+      expect(subtitles.type).toBe('SUBTITLES');
+      expect(subtitles.characteristics).toContain('public.accessibility.describes-music-and-sound');
+      expect(captions).toEqual(expect.objectContaining({ type: 'CLOSED-CAPTIONS', instreamId: 'CC1', uri: undefined }));
+    });
+  });
+
+  describe('media playlists', () => {
+    it('parses segments with keys, maps, byte ranges and discontinuities', () => {
+      const playlist = parseM3U8(loadFixture('vod-media.m3u8'), {
+        baseUrl: 'https://example.com/vod/index.m3u8'
+      }) as HLSMediaPlaylist;
+      const segments = playlist.segments;
+
+      expect(playlist.type).toBe('media');
+      expect(playlist.targetDuration).toBe(6);
+      expect(playlist.playlistType).toBe('VOD');
+      expect(playlist.endList).toBe(true);
+      expect(playlist.isLive).toBe(false);
+      expect(playlist.duration).toBe(25);
+      expect(segments.map(segment => segment.sequenceNumber)).toEqual([100, 101, 102, 103, 104]);
+
+      expect(segments[0]).toEqual(expect.objectContaining({
+        uri: 'https://example.com/vod/main.mp4',
+        duration: 6,
+        title: 'Intro',
+        programDateTime: Date.parse('2024-03-01T12:00:00.000Z'),
+        map: { uri: 'https://example.com/vod/init.mp4', byteRange: { length: 720, offset: 0 } },
+        key: {
+          method: 'AES-128',
+          uri: 'https://keys.example.com/key1',
+          iv: '0x00000000000000000000000000000001',
+          keyFormat: undefined,
+          keyFormatVersions: undefined
+        }
+      }));
+      expect(segments[1].programDateTime).toBe(Date.parse('2024-03-01T12:00:06.000Z'));
+      expect(segments[1].byteRange).toEqual({ length: 50000, offset: 720 });
+      expect(segments[2].byteRange).toEqual({ length: 40000, offset: 50720 });
+
+      expect(segments[3]).toEqual(expect.objectContaining({
+        discontinuity: true,
+        discontinuitySequence: 1,
+        key: undefined,
+        programDateTime: undefined,
+        map: { uri: 'https://example.com/vod/ad/init.mp4', byteRange: undefined }
+      }));
+      expect(segments[2].discontinuitySequence).toBe(0);
+      expect(segments[4].gap).toBe(true);
+      expect(segments[4].discontinuity).toBe(false);
+      expect(segments[4].discontinuitySequence).toBe(1);
+    });
+
+    it('parses low-latency parts, preload hints and server control', () => {
+      const playlist = parseM3U8(loadFixture('ll-live.m3u8')) as HLSMediaPlaylist;
+
+      expect(playlist.isLive).toBe(true);
+      expect(playlist.partTargetDuration).toBe(1);
+      expect(playlist.serverControl).toEqual({
+        canBlockReload: true,
+        canSkipUntil: 24,
+        canSkipDateRanges: false,
+        holdBack: 12,
+        partHoldBack: 3
+      });
+
+      expect(playlist.segments).toHaveLength(2);
+      expect(playlist.segments[0].parts).toBeUndefined();
+      expect(playlist.segments[1].parts?.map(part => part.uri)).toEqual([
+        'filePart267.0.mp4',
+        'filePart267.1.mp4',
+        'filePart267.2.mp4',
+        'filePart267.3.mp4'
+      ]);
+      expect(playlist.segments[1].parts?.[0].independent).toBe(true);
+      expect(playlist.segments[1].discontinuitySequence).toBe(3);
+      expect(playlist.segments[1].programDateTime).toBe(Date.parse('2024-03-01T12:00:04.000Z'));
+
+      expect(playlist.trailingParts).toHaveLength(2);
+      expect(playlist.trailingParts[1].gap).toBe(true);
+      expect(playlist.preloadHints).toEqual([
+        { type: 'PART', uri: 'filePart268.2.mp4', byteRangeStart: undefined, byteRangeLength: undefined },
+        { type: 'MAP', uri: 'init2.mp4', byteRangeStart: 0, byteRangeLength: 1024 }
+      ]);
+    });
+
+    it('continues part byte ranges without an offset from the previous part of the same file', () => {
+      const playlist = parseM3U8([
+        '#EXTM3U',
+        '#EXT-X-TARGETDURATION:2',
+        '#EXT-X-PART:DURATION=0.5,URI="seg0.mp4",BYTERANGE="1000@0",INDEPENDENT=YES',
+        '#EXT-X-PART:DURATION=0.5,URI="seg0.mp4",BYTERANGE="800"',
+        '#EXT-X-PART:DURATION=0.5,URI="seg0.mp4",BYTERANGE="600"',
+        '#EXT-X-PART:DURATION=0.5,URI="seg1.mp4",BYTERANGE="900"'
+      ].join('\n')) as HLSMediaPlaylist;
+
+      expect(playlist.trailingParts.map(part => part.byteRange)).toEqual([
+        { length: 1000, offset: 0 },
+        { length: 800, offset: 1000 },
+        { length: 600, offset: 1800 },
+        { length: 900, offset: 0 }
+      ]);
+    });
+  });
+
+  it('rejects documents without the EXTM3U header', () => {
+    expect(() => parseM3U8('#EXTINF:4,\nsegment.ts')).toThrow('Invalid M3U8: missing #EXTM3U header');
+  });
+});
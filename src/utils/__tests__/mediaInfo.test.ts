@@ -0,0 +1,98 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseFFmpegLog, parseFFprobeOutput } from '../mediaInfo';
+
+const loadFixture = (name: string): string => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('mediaInfo', () => {
+  describe('parseFFmpegLog', () => {
+    const info = parseFFmpegLog(loadFixture('ffmpeg-input.log').split('\n'))!;
+
+    it('reads container, duration and overall bitrate', () => {
+      expect(info.container).toBe('mov,mp4,m4a,3gp,3g2,mj2');
+      expect(info.duration).toBe(90.5);
+      expect(info.bitrate).toBe(4321000);
+    });
+
+    it('reads video stream properties', () => {
+      expect(info.videoStreams).toEqual([{
+        index: 0,
+        type: 'video',
+        codec: 'h264',
+        profile: 'High',
+        language: undefined,
+        bitrate: 4000000,
+        isDefault: true,
+        width: 1920,
+        height: 1080,
+        frameRate: 29.97,
+        pixelFormat: 'yuv420p',
+        rotation: 90
+      }]);
+      expect(info.rotation).toBe(90);
+    });
+
+    it('reads audio and subtitle streams with languages', () => {
+      expect(info.audioStreams).toHaveLength(2);
+      expect(info.audioStreams[0]).toEqual(expect.objectContaining({
+        codec: 'aac',
+        profile: 'LC',
+        language: 'eng',
+        sampleRate: 48000,
+        channels: 6,
+        channelLayout: '5.1(side)',
+        isDefault: true
+      }));
+      expect(info.audioStreams[1]).toEqual(expect.objectContaining({
+        codec: 'ac3',
+        profile: undefined,
+        channels: 2,
+        isDefault: false
+      }));
+      expect(info.subtitleStreams).toEqual([expect.objectContaining({
+        index: 3,
+        codec: 'mov_text',
+        language: 'fre',
+        title: 'Français'
+      })]);
+    });
+
+    it('reads chapters', () => {
+      expect(info.chapters).toEqual([
+        { id: 0, start: 0, end: 45, title: 'Opening' },
+        { id: 1, start: 45, end: 90.5, title: 'Finale' }
+      ]);
+    });
+
+    it('returns null when ffmpeg could not open the input', () => {
+      expect(parseFFmpegLog(['input.mp4: Invalid data found when processing input'])).toBeNull();
+    });
+  });
+
+  describe('parseFFprobeOutput', () => {
+    it('maps ffprobe JSON onto MediaInfo', () => {
+      const info = parseFFprobeOutput(JSON.parse(loadFixture('ffprobe-output.json')));
+
+      expect(info).toEqual(expect.objectContaining({
+        container: 'matroska,webm',
+        duration: 600.25,
+        bitrate: 15000000,
+        size: 1125000000,
+        rotation: 270
+      }));
+      expect(info.videoStreams[0]).toEqual(expect.objectContaining({
+        codec: 'hevc',
+        profile: 'Main 10',
+        level: 153,
+        width: 3840,
+        height: 2160,
+        frameRate: 23.976,
+        pixelFormat: 'yuv420p10le',
+        language: undefined
+      }));
+      expect(info.audioStreams[0]).toEqual(expect.objectContaining({ codec: 'opus', channels: 2, language: 'eng' }));
+      expect(info.subtitleStreams[0]).toEqual(expect.objectContaining({ title: 'Deutsch', isDefault: false }));
+      expect(info.chapters).toEqual([{ id: 0, start: 0, end: 12.5, title: 'Cold open' }]);
+    });
+  });
+});
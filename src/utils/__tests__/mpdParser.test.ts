@@ -0,0 +1,189 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseMPD, parseISODuration, expandSegmentTemplate } from '../mpdParser';
+
+const loadFixture = (name: string): string => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('mpdParser', () => {
+  describe('parseISODuration', () => {
+    it('converts durations to seconds', () => {
+      expect(parseISODuration('PT1H2M3.5S')).toBe(3723.5);
+      expect(parseISODuration('P1DT1S')).toBe(86401);
+      expect(parseISODuration('PT0S')).toBe(0);
+    });
+
+    it('returns undefined for missing or malformed values', () => {
+      expect(parseISODuration(null)).toBeUndefined();
+      expect(parseISODuration('10 seconds')).toBeUndefined();
+    });
+  });
+
+  describe('expandSegmentTemplate', () => {
+    it('fills identifiers with optional zero padding', () => {
+      const values = { RepresentationID: 'v1', Bandwidth: 800000, Number: 7, Time: 90000 };
+
+      expect(expandSegmentTemplate('$RepresentationID$/$Number%05d$.m4s', values)).toBe('v1/00007.m4s');
+      expect(expandSegmentTemplate('$Bandwidth$-$Time$.m4s', values)).toBe('800000-90000.m4s');
+      expect(expandSegmentTemplate('cost$$/$Number$.m4s', values)).toBe('cost$/7.m4s');
+    });
+  });
+
+  describe('parseMPD', () => {
+    it('expands $Number$ templates and resolves BaseURL', () => {
+      const manifest = parseMPD(loadFixture('vod-template-number.mpd'));
+
+      expect(manifest.isLive).toBe(false);
+      expect(manifest.duration).toBe(10);
+      expect(manifest.periods).toHaveLength(1);
+
+      const [video, audio] = manifest.periods[0].adaptationSets;
+      expect(manifest.periods[0].adaptationSets).toHaveLength(2);
+      expect(video.type).toBe('video');
+      expect(video.representations.map(rep => rep.id)).toEqual(['360p', '720p']);
+
+      const rep = video.representations[0];
+      expect(rep).toEqual(expect.objectContaining({
+        bandwidth: 800000,
+        width: 640,
+        height: 360,
+        codecs: 'avc1.4D401E',
+        mimeType: 'video/mp4'
+      }));
+      expect(rep.frameRate).toBeCloseTo(29.97, 2);
+      expect(rep.segmentIndex?.initialization?.url).toBe('https://cdn.example.com/vod/360p/init.mp4');
+      expect(rep.segmentIndex?.segments.map(segment => segment.url)).toEqual([
+        'https://cdn.example.com/vod/360p/seg-00001.m4s',
+        'https://cdn.example.com/vod/360p/seg-00002.m4s',
+        'https://cdn.example.com/vod/360p/seg-00003.m4s'
+      ]);
+      expect(rep.segmentIndex?.segments[2]).toEqual(expect.objectContaining({ start: 8, duration: 4, number: 3 }));
+
+      expect(audio.type).toBe('audio');
+      expect(audio.lang).toBe('en');
+      expect(audio.roles).toEqual(['main']);
+      expect(audio.representations[0].codecs).toBe('mp4a.40.2');
+      expect(audio.representations[0].segmentIndex?.segments[0].url).toBe('https://cdn.example.com/vod/audio/128000/1.m4s');
+    });
+
+    it('walks SegmentTimeline entries with repeats and $Time$', () => {
+      const manifest = parseMPD(loadFixture('vod-template-timeline.mpd'), {
+        baseUrl: 'https://example.com/streams/show/manifest.mpd'
+      });
+
+      const [video, subtitles] = manifest.periods[0].adaptationSets;
+      const segments = video.representations[0].segmentIndex!.segments;
+
+      expect(video.representations[0].width).toBe(1280);
+      expect(segments.map(segment => segment.time)).toEqual([90000, 450000, 810000, 990000, 1080000]);
+      expect(segments.map(segment => segment.start)).toEqual([0, 4, 8, 10, 11]);
+      expect(segments.map(segment => segment.duration)).toEqual([4, 4, 2, 1, 1]);
+      expect(segments[1].url).toBe('https://example.com/streams/show/chunk-v1-450000.m4s');
+      expect(video.representations[0].segmentIndex?.initialization?.url).toBe('https://example.com/streams/show/init-v1.mp4');
+
+      expect(subtitles.type).toBe('text');
+      expect(subtitles.lang).toBe('fr');
+      expect(subtitles.roles).toEqual(['subtitle']);
+      expect(subtitles.representations[0].segmentIndex?.segments).toHaveLength(2);
+    });
+
+    it('describes SegmentBase representations by byte ranges', () => {
+      const manifest = parseMPD(loadFixture('vod-segment-base.mpd'), {
+        baseUrl: 'https://example.com/movie/manifest.mpd'
+      });
+
+      const rep = manifest.periods[0].adaptationSets[0].representations[0];
+
+      expect(manifest.duration).toBe(90);
+      expect(rep.baseUrl).toBe('https://example.com/movie/video/1080p.mp4');
+      expect(rep.segmentIndex).toEqual({
+        type: 'base',
+        timescale: 12800,
+        initialization: { url: 'https://example.com/movie/video/1080p.mp4', byteRange: '0-832' },
+        indexRange: '833-1020',
+        segments: [{ url: 'https://example.com/movie/video/1080p.mp4', start: 0, duration: 90 }]
+      });
+    });
+
+    it('lists SegmentList URLs with media ranges', () => {
+      const manifest = parseMPD(loadFixture('vod-segment-list.mpd'));
+      const index = manifest.periods[0].adaptationSets[0].representations[0].segmentIndex!;
+
+      expect(index.type).toBe('list');
+      expect(index.initialization?.url).toBe('https://media.example.com/list/480p/init.mp4');
+      expect(index.segments.map(segment => segment.url)).toEqual([
+        'https://media.example.com/list/480p/segment-1.m4s',
+        'https://media.example.com/list/480p/segment-2.m4s',
+        'https://media.example.com/list/480p/segment-3.m4s'
+      ]);
+      expect(index.segments[2]).toEqual(expect.objectContaining({ start: 20, duration: 10, byteRange: '0-49999' }));
+    });
+
+    it('derives period timing and inherits Period-level templates', () => {
+      const manifest = parseMPD(loadFixture('vod-multi-period.mpd'));
+      const [preroll, content] = manifest.periods;
+
+      expect(preroll).toEqual(expect.objectContaining({ id: 'preroll', start: 0, duration: 10 }));
+      expect(content).toEqual(expect.objectContaining({ id: 'content', start: 10, duration: 40 }));
+
+      const adSegments = preroll.adaptationSets[0].representations[0].segmentIndex!.segments;
+      expect(adSegments.map(segment => segment.url)).toEqual(['ads/ad_1.m4s', 'ads/ad_2.m4s']);
+
+      const contentSegments = content.adaptationSets[0].representations[0].segmentIndex!.segments;
+      expect(contentSegments).toHaveLength(5);
+      expect(contentSegments[0]).toEqual(expect.objectContaining({ url: 'content/main/1.m4s', start: 10, duration: 8 }));
+      expect(contentSegments[4].start).toBe(42);
+    });
+
+    it('limits dynamic MPDs to the time shift buffer', () => {
+      const manifest = parseMPD(loadFixture('live-template.mpd'), {
+        now: Date.parse('2024-01-01T00:01:00Z')
+      });
+
+      expect(manifest.isLive).toBe(true);
+      expect(manifest.availabilityStartTime).toBe(Date.parse('2024-01-01T00:00:00Z'));
+      expect(manifest.timeShiftBufferDepth).toBe(30);
+      expect(manifest.suggestedPresentationDelay).toBe(6);
+      expect(manifest.minimumUpdatePeriod).toBe(2);
+
+      const segments = manifest.periods[0].adaptationSets[0].representations[0].segmentIndex!.segments;
+      expect(segments).toHaveLength(15);
+      expect(segments[0]).toEqual(expect.objectContaining({ number: 15, start: 30 }));
+      expect(segments[14]).toEqual(expect.objectContaining({ number: 29, url: 'live/v/29.m4s' }));
+    });
+
+    it('expands only a bounded window of a dynamic MPD without timeShiftBufferDepth', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      const xml = loadFixture('live-template.mpd')
+        .replace(' timeShiftBufferDepth="PT30S"', '')
+        .replace('2024-01-01T00:00:00Z', '2000-01-01T00:00:00Z');
+      const timelineXml = xml.replace(
+        /<SegmentTemplate timescale="1" duration="2" ([^>]*)\/>/,
+        '<SegmentTemplate timescale="1" $1><SegmentTimeline><S t="0" d="2" r="-1"/></SegmentTimeline></SegmentTemplate>'
+      );
+
+      expect(timelineXml).toContain('<S t="0" d="2" r="-1"/>');
+
+      [xml, timelineXml].forEach(document => {
+        const segments = parseMPD(document, { now }).periods[0].adaptationSets[0].representations[0].segmentIndex!.segments;
+        const lastNumber = (now - Date.parse('2000-01-01T00:00:00Z')) / 2000 - 1;
+
+        // 30 s behind the edge, not 24 years of 2 s segments
+        expect(segments).toHaveLength(15);
+        expect(segments[14].number).toBe(lastNumber);
+      });
+    });
+
+    it('rejects a dynamic MPD without availabilityStartTime', () => {
+      const xml = loadFixture('live-template.mpd')
+        .replace(' availabilityStartTime="2024-01-01T00:00:00Z"', '')
+        .replace(' timeShiftBufferDepth="PT30S"', '');
+
+      expect(() => parseMPD(xml)).toThrow('dynamic MPD without availabilityStartTime');
+    });
+
+    it('rejects documents that are not MPDs', () => {
+      expect(() => parseMPD('<MPD><Period>')).toThrow('Invalid MPD');
+      expect(() => parseMPD('<Playlist/>')).toThrow('missing MPD root element');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  NETWORK_PROFILES,
+  NetworkProfile,
+  createFixtureFetch,
+  createNetworkEmulator,
+  parseNetworkTrace
+} from '../networkEmulator';
+import { afterEach, beforeEach } from '@jest/globals';
+
+const profile = (...steps: [number, number, number, number][]): NetworkProfile => ({
+  name: 'test',
+  loop: false,
+  steps: steps.map(([duration, bandwidth, latency, loss]) => ({ duration, bandwidth, latency, loss }))
+});
+
+const upstream = createFixtureFetch({
+  '/vod/seg-1.m4s': 100000,
+  '/vod/seg-2.m4s': 250000,
+  'https://cdn.example.com/vod/manifest.txt': 'manifest'
+});
+
+describe('NetworkEmulator', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('follows the profile over time', () => {
+    const emulator = createNetworkEmulator({ profile: NETWORK_PROFILES['step-down'] });
+    expect(emulator.getConditions()).toEqual({ bandwidth: 8000000, latency: 20, loss: 0 });
+
+    jest.advanceTimersByTime(45000);
+    expect(emulator.getConditions()?.bandwidth).toBe(4000000);
+
+    // The last step holds
+    jest.advanceTimersByTime(600000);
+    expect(emulator.getConditions()?.bandwidth).toBe(1000000);
+  });
+
+  it('starts a looping profile over', () => {
+    const emulator = createNetworkEmulator({ profile: NETWORK_PROFILES['congested-wifi'] });
+
+    jest.advanceTimersByTime(28000);
+
+    expect(emulator.getConditions()?.bandwidth).toBe(8000000);
+  });
+
+  it('delays headers by the latency and the body by its size', async () => {
+    const emulator = createNetworkEmulator({ profile: profile([60, 1600000, 150, 0]), upstream });
+    let response: Response | null = null;
+    emulator.fetch('https://cdn.example.com/vod/seg-1.m4s').then(result => {
+      response = result;
+    });
+
+    await jest.advanceTimersByTimeAsync(149);
+    expect(response).toBeNull();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(response).not.toBeNull();
+
+    let data: ArrayBuffer | null = null;
+    response!.arrayBuffer().then(result => {
+      data = result;
+    });
+    await jest.advanceTimersByTimeAsync(499);
+    expect(data).toBeNull();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(data!.byteLength).toBe(100000);
+  });
+
+  it('carries a transfer across a change in bandwidth', async () => {
+    const emulator = createNetworkEmulator({ profile: profile([1, 1000000, 0, 0], [60, 2000000, 0, 0]), upstream });
+    const start = performance.now();
+
+    const pending = emulator.fetch('/vod/seg-2.m4s').then(response => response.arrayBuffer());
+    await jest.advanceTimersByTimeAsync(2000);
+    await pending;
+
+    // 1 Mbit in the first second, the other 1 Mbit at 2 Mbps
+    expect(emulator.getConditions()?.bandwidth).toBe(2000000);
+    expect(performance.now() - start).toBe(2000);
+  });
+
+  it('drops the same requests for the same seed', async () => {
+    const run = async () => {
+      const emulator = createNetworkEmulator({ profile: profile([60, 8000000, 0, 0.5]), upstream, seed: 7 });
+      const outcomes: boolean[] = [];
+      for (let i = 0; i < 12; i++) {
+        outcomes.push(await emulator.fetch('/vod/seg-1.m4s').then(() => true, () => false));
+      }
+      return outcomes;
+    };
+
+    const first = run();
+    await jest.runAllTimersAsync();
+    const outcomes = await first;
+    expect(outcomes).toContain(true);
+    expect(outcomes).toContain(false);
+
+    const second = run();
+    await jest.runAllTimersAsync();
+    expect(await second).toEqual(outcomes);
+  });
+
+  it('fails every request during an outage', async () => {
+    const emulator = createNetworkEmulator({ profile: NETWORK_PROFILES.outage, upstream });
+    jest.advanceTimersByTime(21000);
+
+    const request = emulator.fetch('/vod/seg-1.m4s');
+    const assertion = expect(request).rejects.toThrow('emulated network loss');
+    await jest.advanceTimersByTimeAsync(30);
+    await assertion;
+  });
+
+  it('stops a transfer when the request is aborted', async () => {
+    const emulator = createNetworkEmulator({ profile: profile([60, 100000, 0, 0]), upstream });
+    const controller = new AbortController();
+    const request = emulator.fetch('/vod/seg-1.m4s', { signal: controller.signal });
+    await jest.advanceTimersByTimeAsync(0);
+
+    const body = (await request).arrayBuffer();
+    await jest.advanceTimersByTimeAsync(1000);
+    controller.abort();
+
+    await expect(body).rejects.toThrow('aborted');
+  });
+
+  it('passes requests through without a profile', async () => {
+    const emulator = createNetworkEmulator({ upstream });
+
+    const response = await emulator.fetch('https://cdn.example.com/vod/manifest.txt');
+
+    expect(await response.text()).toBe('manifest');
+    expect((await emulator.fetch('/vod/missing.m4s')).status).toBe(404);
+  });
+});
+
+describe('parseNetworkTrace', () => {
+  it('reads a recorded trace', () => {
+    const trace = parseNetworkTrace(
+      readFileSync(join(__dirname, 'fixtures', 'network-trace-commute.txt'), 'utf8'),
+      'Commute'
+    );
+
+    expect(trace.steps).toHaveLength(6);
+    expect(trace.steps[0]).toEqual({ duration: 20, bandwidth: 6000000, latency: 40, loss: 0 });
+    expect(trace.steps[3]).toEqual({ duration: 3, bandwidth: 0, latency: 0, loss: 1 });
+  });
+
+  it('rejects lines it cannot read', () => {
+    expect(() => parseNetworkTrace('10 fast')).toThrow('Invalid network trace line 1: "10 fast"');
+    expect(() => parseNetworkTrace('# nothing here')).toThrow('Network trace has no steps');
+  });
+});
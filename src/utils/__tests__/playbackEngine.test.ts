@@ -0,0 +1,617 @@
+import { createPlaybackEngine, registerPlaybackEngine, hasPlaybackEngine } from '../engineRegistry';
+import { NativePlaybackEngine } from '../nativeEngine';
+import { HLSPlaybackEngine } from '../hlsEngine';
+import { DASHPlaybackEngine } from '../dashEngine';
+import { MSEPlaybackEngine } from '../mseEngine';
+import { BasePlaybackEngine, PlaybackEngineOptions } from '../playbackEngine';
+import { StreamingConfig } from '../../types/player';
+import { beforeEach } from '@jest/globals';
+
+// Mock hls.js with handlers we can trigger
+const mockHlsHandlers: Record<string, (event: string, data: unknown) => void> = {};
+const mockHlsInstance = {
+  loadSource: jest.fn(),
+  attachMedia: jest.fn(),
+  destroy: jest.fn(),
+  currentLevel: -1,
+  latency: 0,
+  targetLatency: null as number | null,
+  liveSyncPosition: null as number | null,
+  playingDate: null as Date | null,
+  audioTrack: 0,
+  audioTracks: [] as { name: string; lang?: string; characteristics?: string; channels?: string; audioCodec?: string; default: boolean }[],
+  subtitleTrack: -1,
+  subtitleDisplay: true,
+  subtitleTracks: [] as { name: string; lang?: string; characteristics?: string }[],
+  bandwidthEstimate: 2500000,
+  levels: [
+    { width: 640, height: 360, bitrate: 800000, codecs: 'avc1.4D401E' },
+    { width: 1280, height: 720, bitrate: 2500000, codecs: 'avc1.4D401F' }
+  ],
+  on: jest.fn((event: string, handler: (event: string, data: unknown) => void) => {
+    mockHlsHandlers[event] = handler;
+  })
+};
+
+jest.mock('hls.js', () => {
+  const MockHls = jest.fn().mockImplementation(() => mockHlsInstance);
+  Object.assign(MockHls, {
+    isSupported: jest.fn(() => true),
+    Events: {
+      MANIFEST_PARSED: 'hlsManifestParsed',
+      LEVEL_LOADED: 'hlsLevelLoaded',
+      LEVEL_SWITCHED: 'hlsLevelSwitched',
+      AUDIO_TRACKS_UPDATED: 'hlsAudioTracksUpdated',
+      AUDIO_TRACK_SWITCHED: 'hlsAudioTrackSwitched',
+      SUBTITLE_TRACKS_UPDATED: 'hlsSubtitleTracksUpdated',
+      ERROR: 'hlsError'
+    }
+  });
+  return { __esModule: true, default: MockHls };
+});
+
+// Mock the DASH player wrapper
+const mockDashHandlers: Record<string, (data: unknown) => void> = {};
+const mockDashPlayer = {
+  initialize: jest.fn().mockResolvedValue(undefined),
+  on: jest.fn((event: string, handler: (data: unknown) => void) => {
+    mockDashHandlers[event] = handler;
+  }),
+  getAvailableRepresentations: jest.fn(() => [
+    { id: 'v0', bandwidth: 500000, width: 640, height: 360, codecs: 'avc1.4D401E', mimeType: 'video/mp4', frameRate: 25, qualityRanking: 1 },
+    { id: 'v1', bandwidth: 1500000, width: 1280, height: 720, codecs: 'avc1.4D401F', mimeType: 'video/mp4', frameRate: 25, qualityRanking: 0 }
+  ]),
+  getCurrentRepresentation: jest.fn(() => ({ id: 'v1' })),
+  switchQuality: jest.fn(() => true),
+  getMetrics: jest.fn(() => ({ throughput: 3000000, bufferLevel: 8, currentRepresentation: { bandwidth: 1500000 } })),
+  getTextTracks: jest.fn(() => [
+    { id: 'dash-text-0', label: 'English', language: 'en', kind: 'subtitles', source: 'manifest' },
+    { id: 'dash-text-1', label: 'Deutsch', language: 'de', kind: 'subtitles', source: 'manifest' }
+  ]),
+  setTextTrack: jest.fn(),
+  getNativeTextTrack: jest.fn(() => null),
+  getAudioTracks: jest.fn(() => [
+    { id: 'dash-audio-0', label: 'English', language: 'en', roles: ['main'], descriptive: false },
+    { id: 'dash-audio-1', label: 'English (AD)', language: 'en', roles: ['description'], descriptive: true }
+  ]),
+  getCurrentAudioTrack: jest.fn(() => null),
+  setAudioTrack: jest.fn(() => true),
+  isDynamic: jest.fn(() => false),
+  getLiveLatency: jest.fn(() => NaN),
+  getTargetLiveDelay: jest.fn(() => 0),
+  seekToLiveEdge: jest.fn(),
+  getDRMMetrics: jest.fn(() => ({ licenseRequests: 2, licenseResponses: 2, keyStatusChanges: 1, sessionErrors: 0, decryptionErrors: 0 })),
+  destroy: jest.fn()
+};
+
+jest.mock('../dash', () => ({
+  createDASHPlayer: jest.fn(() => mockDashPlayer)
+}));
+
+// Mock the DRM manager; its EME handling is covered in drm.test.ts
+const mockDrmHandlers: Record<string, (data: unknown) => void> = {};
+const mockDrmManager = {
+  attach: jest.fn().mockResolvedValue(undefined),
+  on: jest.fn((event: string, handler: (data: unknown) => void) => {
+    mockDrmHandlers[event] = handler;
+  }),
+  getMetrics: jest.fn(() => ({ licenseRequests: 1, licenseResponses: 1, keyStatusChanges: 1, sessionErrors: 0, decryptionErrors: 0 })),
+  destroy: jest.fn()
+};
+
+jest.mock('../drm', () => ({
+  createDRMManager: jest.fn(() => mockDrmManager)
+}));
+
+describe('playback engines', () => {
+  const streaming: StreamingConfig = {
+    enableAdaptiveBitrate: true,
+    maxBitrate: 5000000,
+    minBitrate: 500000,
+    bufferSize: 30,
+    qualityLevels: [],
+    abTestEnabled: false,
+    analyticsEnabled: false
+  };
+  const options: PlaybackEngineOptions = { streaming };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockHlsInstance.currentLevel = -1;
+    mockHlsInstance.subtitleTrack = -1;
+    mockHlsInstance.subtitleTracks = [];
+    mockHlsInstance.audioTrack = 0;
+    mockHlsInstance.audioTracks = [];
+    Object.assign(mockHlsInstance, { latency: 0, targetLatency: null, liveSyncPosition: null, playingDate: null });
+    mockDashPlayer.isDynamic.mockReturnValue(false);
+  });
+
+  // A live element: unbounded duration and a seekable DVR window
+  const withSeekable = (video: HTMLVideoElement, start: number, end: number, currentTime: number) => {
+    Object.defineProperty(video, 'duration', { value: Infinity, configurable: true });
+    Object.defineProperty(video, 'seekable', {
+      value: { length: 1, start: () => start, end: () => end },
+      configurable: true
+    });
+    video.currentTime = currentTime;
+    return video;
+  };
+
+  // Stand-in for the native tracks hls.js and dash.js add to the element
+  const withTextTracks = (video: HTMLVideoElement, tracks: Partial<TextTrack>[]) => {
+    Object.defineProperty(video, 'textTracks', { value: Object.assign([...tracks], { length: tracks.length }) });
+    return video;
+  };
+
+  describe('registry', () => {
+    it('creates the built-in engines by type', () => {
+      expect(createPlaybackEngine('progressive', options)).toBeInstanceOf(NativePlaybackEngine);
+      expect(createPlaybackEngine('hls', options)).toBeInstanceOf(HLSPlaybackEngine);
+      expect(createPlaybackEngine('dash', options)).toBeInstanceOf(DASHPlaybackEngine);
+      expect(createPlaybackEngine('mse', options)).toBeInstanceOf(MSEPlaybackEngine);
+    });
+
+    it('throws for unregistered engine types', () => {
+      expect(() => createPlaybackEngine('webrtc', options)).toThrow('No playback engine registered for type: webrtc');
+    });
+
+    it('accepts custom engines without changes to the hook', async () => {
+      class TestEngine extends BasePlaybackEngine {
+        readonly type = 'test';
+        async load(videoElement: HTMLVideoElement): Promise<void> {
+          this.videoElement = videoElement;
+          this.emit('loaded', { qualities: [] });
+        }
+      }
+
+      registerPlaybackEngine('test', (engineOptions) => new TestEngine(engineOptions));
+      expect(hasPlaybackEngine('test')).toBe(true);
+
+      const engine = createPlaybackEngine('test', options);
+      const onLoaded = jest.fn();
+      engine.on('loaded', onLoaded);
+      await engine.load(document.createElement('video'), 'test://stream');
+
+      expect(onLoaded).toHaveBeenCalledWith({ qualities: [] });
+    });
+  });
+
+  describe('NativePlaybackEngine', () => {
+    it('assigns the source to the video element', async () => {
+      const engine = new NativePlaybackEngine(options);
+      const video = document.createElement('video');
+      const onLoaded = jest.fn();
+      engine.on('loaded', onLoaded);
+
+      await engine.load(video, 'https://example.com/video.mp4');
+
+      expect(video.src).toBe('https://example.com/video.mp4');
+      expect(onLoaded).toHaveBeenCalledWith({ qualities: [] });
+
+      engine.destroy();
+      expect(video.hasAttribute('src')).toBe(false);
+    });
+
+    it('rejects HLS when the browser has no native support', async () => {
+      const engine = new NativePlaybackEngine(options, 'hls');
+      const video = document.createElement('video');
+      video.canPlayType = jest.fn(() => '' as CanPlayTypeResult);
+
+      await expect(engine.load(video, 'https://example.com/video.m3u8')).rejects.toThrow('HLS not supported');
+    });
+
+    it('reports in-band text tracks of progressive files as embedded', async () => {
+      const engine = new NativePlaybackEngine(options);
+      const video = withTextTracks(document.createElement('video'), [
+        { kind: 'metadata', label: 'chapters', language: '' },
+        { kind: 'subtitles', label: '', language: 'fr' }
+      ]);
+
+      await engine.load(video, 'https://example.com/video.mp4');
+
+      expect(engine.getTextTracks()).toEqual([
+        { id: 'text-1', label: 'fr', language: 'fr', kind: 'subtitles', source: 'embedded' }
+      ]);
+      expect(engine.getNativeTextTrack('text-1')).toBe(video.textTracks[1]);
+    });
+
+    it('reports the seekable window of natively played live streams', async () => {
+      const engine = new NativePlaybackEngine(options);
+      const video = withSeekable(document.createElement('video'), 100, 160, 130);
+
+      await engine.load(video, 'https://example.com/live.mp4');
+
+      expect(engine.getLiveWindow()).toEqual({
+        type: 'live', start: 100, end: 160, latency: 30, targetLatency: 0, atLiveEdge: false
+      });
+
+      engine.seekToLiveEdge();
+      expect(video.currentTime).toBe(160);
+      expect(engine.getLiveWindow()?.atLiveEdge).toBe(true);
+    });
+
+    it('has no live window for on-demand files', async () => {
+      const engine = new NativePlaybackEngine(options);
+      await engine.load(document.createElement('video'), 'https://example.com/video.mp4');
+
+      expect(engine.getLiveWindow()).toBeNull();
+    });
+
+    it('stops notifying listeners once removed', async () => {
+      const engine = new NativePlaybackEngine(options);
+      const onLoaded = jest.fn();
+      engine.on('loaded', onLoaded);
+      engine.off('loaded', onLoaded);
+
+      await engine.load(document.createElement('video'), 'https://example.com/video.mp4');
+
+      expect(onLoaded).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('HLSPlaybackEngine', () => {
+    it('maps hls.js levels to qualities once the manifest is parsed', async () => {
+      const engine = new HLSPlaybackEngine(options);
+      const video = document.createElement('video');
+      const onLoaded = jest.fn();
+      engine.on('loaded', onLoaded);
+
+      await engine.load(video, 'https://example.com/master.m3u8');
+      mockHlsHandlers.hlsManifestParsed('hlsManifestParsed', {});
+
+      expect(mockHlsInstance.loadSource).toHaveBeenCalledWith('https://example.com/master.m3u8');
+      expect(mockHlsInstance.attachMedia).toHaveBeenCalledWith(video);
+      expect(onLoaded).toHaveBeenCalledWith({
+        qualities: [
+          { level: 0, width: 640, height: 360, bitrate: 800000, codecs: 'avc1.4D401E', label: '360p' },
+          { level: 1, width: 1280, height: 720, bitrate: 2500000, codecs: 'avc1.4D401F', label: '720p' }
+        ]
+      });
+    });
+
+    it('switches levels and reports the switched quality', async () => {
+      const engine = new HLSPlaybackEngine(options);
+      const onQualityChanged = jest.fn();
+      engine.on('qualityChanged', onQualityChanged);
+
+      await engine.load(document.createElement('video'), 'https://example.com/master.m3u8');
+      mockHlsHandlers.hlsManifestParsed('hlsManifestParsed', {});
+
+      engine.setQuality(1);
+      expect(mockHlsInstance.currentLevel).toBe(1);
+
+      mockHlsHandlers.hlsLevelSwitched('hlsLevelSwitched', { level: 1 });
+      expect(onQualityChanged).toHaveBeenCalledWith({ quality: expect.objectContaining({ level: 1, label: '720p' }) });
+      expect(engine.getMetrics().bandwidth).toBe(2500000);
+    });
+
+    it('forwards hls.js errors with their fatal flag', async () => {
+      const engine = new HLSPlaybackEngine(options);
+      const onError = jest.fn();
+      engine.on('error', onError);
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await engine.load(document.createElement('video'), 'https://example.com/master.m3u8');
+      mockHlsHandlers.hlsError('hlsError', { details: 'manifestLoadError', fatal: true });
+
+      expect(onError).toHaveBeenCalledWith({ message: 'manifestLoadError', fatal: true });
+      consoleSpy.mockRestore();
+    });
+
+    it('lists subtitle renditions and embedded 608 captions as text tracks', async () => {
+      const engine = new HLSPlaybackEngine(options);
+      const onTracks = jest.fn();
+      engine.on('textTracksChanged', onTracks);
+      const subtitleTrack = { kind: 'subtitles', label: 'English', language: 'en' } as Partial<TextTrack>;
+      const captionTrack = { kind: 'captions', label: 'English', language: 'en', textTrack1: true } as Partial<TextTrack>;
+      const video = withTextTracks(document.createElement('video'), [captionTrack, subtitleTrack]);
+
+      await engine.load(video, 'https://example.com/master.m3u8');
+      mockHlsInstance.subtitleTracks = [
+        { name: 'English', lang: 'en' },
+        { name: 'English SDH', lang: 'en', characteristics: 'public.accessibility.describes-music-and-sound' }
+      ];
+      mockHlsHandlers.hlsSubtitleTracksUpdated('hlsSubtitleTracksUpdated', {});
+
+      expect(mockHlsInstance.subtitleDisplay).toBe(false);
+      expect(onTracks).toHaveBeenCalledWith({
+        tracks: [
+          { id: 'subtitle-0', label: 'English', language: 'en', kind: 'subtitles', source: 'manifest' },
+          { id: 'subtitle-1', label: 'English SDH', language: 'en', kind: 'captions', source: 'manifest' },
+          { id: 'cc1', label: 'English', language: 'en', kind: 'captions', source: 'embedded' }
+        ]
+      });
+      expect(engine.getNativeTextTrack('subtitle-0')).toBe(subtitleTrack);
+      expect(engine.getNativeTextTrack('cc1')).toBe(captionTrack);
+    });
+
+    it('loads the selected subtitle rendition only', async () => {
+      const engine = new HLSPlaybackEngine(options);
+      await engine.load(document.createElement('video'), 'https://example.com/master.m3u8');
+      mockHlsInstance.subtitleTracks = [{ name: 'English', lang: 'en' }, { name: 'Deutsch', lang: 'de' }];
+
+      engine.setTextTrack('subtitle-1');
+      expect(mockHlsInstance.subtitleTrack).toBe(1);
+
+      engine.setTextTrack('cc1');
+      expect(mockHlsInstance.subtitleTrack).toBe(-1);
+    });
+
+    it('maps hls.js audio renditions and switches between them', async () => {
+      const engine = new HLSPlaybackEngine(options);
+      const onTracks = jest.fn();
+      const onTrack = jest.fn();
+      engine.on('audioTracksChanged', onTracks);
+      engine.on('audioTrackChanged', onTrack);
+
+      await engine.load(document.createElement('video'), 'https://example.com/master.m3u8');
+      mockHlsInstance.audioTracks = [
+        { name: 'English', lang: 'en', channels: '2', audioCodec: 'mp4a.40.2', default: true },
+        { name: 'English AD', lang: 'en', characteristics: 'public.accessibility.describes-video', default: false },
+        { name: 'Français', lang: 'fr', default: false }
+      ];
+      mockHlsHandlers.hlsAudioTracksUpdated('hlsAudioTracksUpdated', {});
+
+      expect(onTracks.mock.calls[0][0].tracks).toEqual([
+        { id: 'audio-0', label: 'English', language: 'en', roles: ['main'], descriptive: false, channels: '2', codecs: 'mp4a.40.2' },
+        { id: 'audio-1', label: 'English AD', language: 'en', roles: ['description'], descriptive: true, channels: undefined, codecs: undefined },
+        { id: 'audio-2', label: 'Français', language: 'fr', roles: ['alternate'], descriptive: false, channels: undefined, codecs: undefined }
+      ]);
+
+      engine.setAudioTrack('audio-2');
+      mockHlsHandlers.hlsAudioTrackSwitched('hlsAudioTrackSwitched', {});
+
+      expect(mockHlsInstance.audioTrack).toBe(2);
+      expect(onTrack).toHaveBeenCalledWith({ track: expect.objectContaining({ id: 'audio-2', language: 'fr' }) });
+    });
+
+    it('detects live and event playlists and jumps to the live sync position', async () => {
+      const engine = new HLSPlaybackEngine(options);
+      const video = withSeekable(document.createElement('video'), 0, 120, 60);
+      await engine.load(video, 'https://example.com/live.m3u8');
+      Object.assign(mockHlsInstance, { latency: 60, targetLatency: 18, liveSyncPosition: 102 });
+
+      mockHlsHandlers.hlsLevelLoaded('hlsLevelLoaded', { details: { live: true, type: 'EVENT' } });
+      expect(engine.getLiveWindow()).toEqual({
+        type: 'event', start: 0, end: 120, latency: 60, targetLatency: 18, atLiveEdge: false
+      });
+
+      engine.seekToLiveEdge();
+      expect(video.currentTime).toBe(102);
+
+      // EXT-X-ENDLIST turns the event into on-demand content
+      mockHlsHandlers.hlsLevelLoaded('hlsLevelLoaded', { details: { live: false, type: 'EVENT' } });
+      expect(engine.getLiveWindow()).toBeNull();
+    });
+
+    it('configures hls.js from the low-latency options', async () => {
+      const engine = new HLSPlaybackEngine({ ...options, lowLatency: { targetLatency: 2, maxLatency: 6 } });
+      await engine.load(document.createElement('video'), 'https://example.com/live.m3u8');
+
+      const Hls = (jest.requireMock('hls.js') as { default: ReturnType<typeof jest.fn> }).default;
+      const config = (Hls.mock.calls.at(-1) as unknown[])[0] as Record<string, unknown>;
+      expect(config).toEqual(expect.objectContaining({ lowLatencyMode: true, liveSyncDuration: 2, liveMaxLatencyDuration: 6 }));
+      expect(config.liveSyncDurationCount).toBeUndefined();
+    });
+
+    it('measures wall clock latency from the program date time', async () => {
+      const engine = new HLSPlaybackEngine(options);
+      await engine.load(document.createElement('video'), 'https://example.com/live.m3u8');
+      expect(engine.getWallClockLatency()).toBeNull();
+
+      mockHlsInstance.playingDate = new Date(Date.now() - 4000);
+      expect(engine.getWallClockLatency()).toBeCloseTo(4, 1);
+    });
+
+    it('destroys the hls.js instance', async () => {
+      const engine = new HLSPlaybackEngine(options);
+      await engine.load(document.createElement('video'), 'https://example.com/master.m3u8');
+
+      engine.destroy();
+
+      expect(mockHlsInstance.destroy).toHaveBeenCalled();
+    });
+  });
+
+  describe('DASHPlaybackEngine', () => {
+    it('exposes DASH representations as qualities', async () => {
+      const engine = new DASHPlaybackEngine({ ...options, dash: { autoStart: false } });
+      const video = document.createElement('video');
+      const onLoaded = jest.fn();
+      engine.on('loaded', onLoaded);
+
+      await engine.load(video, 'https://example.com/manifest.mpd');
+      mockDashHandlers.manifestLoaded({});
+
+      const { createDASHPlayer } = jest.requireMock('../dash');
+      expect(createDASHPlayer).toHaveBeenCalledWith(expect.objectContaining({
+        manifestUrl: 'https://example.com/manifest.mpd',
+        autoStart: false
+      }));
+      expect(mockDashPlayer.initialize).toHaveBeenCalledWith(video);
+      expect(onLoaded.mock.calls[0][0].qualities.map((q: { label: string }) => q.label)).toEqual(['360p', '720p']);
+      expect(engine.getCurrentQuality()).toEqual(expect.objectContaining({ level: 1, bitrate: 1500000 }));
+    });
+
+    it('hands live catch-up to LowLatencyOptimizer', async () => {
+      const engine = new DASHPlaybackEngine({ ...options, lowLatency: { targetLatency: 2 } });
+      await engine.load(document.createElement('video'), 'https://example.com/live.mpd');
+
+      const { createDASHPlayer } = jest.requireMock('../dash');
+      expect(createDASHPlayer).toHaveBeenLastCalledWith(expect.objectContaining({
+        streaming: expect.objectContaining({
+          delay: expect.objectContaining({ liveDelay: 2 }),
+          liveCatchup: { enabled: false }
+        })
+      }));
+    });
+
+    it('switches quality by representation id', async () => {
+      const engine = new DASHPlaybackEngine(options);
+      await engine.load(document.createElement('video'), 'https://example.com/manifest.mpd');
+      mockDashHandlers.manifestLoaded({});
+
+      engine.setQuality(0);
+
+      expect(mockDashPlayer.switchQuality).toHaveBeenCalledWith('v0');
+    });
+
+    it('reports dash.js errors as fatal', async () => {
+      const engine = new DASHPlaybackEngine(options);
+      const onError = jest.fn();
+      engine.on('error', onError);
+
+      await engine.load(document.createElement('video'), 'https://example.com/manifest.mpd');
+      mockDashHandlers.error({ error: { message: 'Manifest unavailable' } });
+
+      expect(onError).toHaveBeenCalledWith({ message: 'DASH Error: Manifest unavailable', fatal: true });
+    });
+
+    it('selects text tracks by index and reports new ones', async () => {
+      const engine = new DASHPlaybackEngine(options);
+      const onTracks = jest.fn();
+      engine.on('textTracksChanged', onTracks);
+      await engine.load(document.createElement('video'), 'https://example.com/manifest.mpd');
+
+      const tracks = mockDashPlayer.getTextTracks();
+      mockDashHandlers.textTracksAdded({ tracks });
+      engine.setTextTrack('dash-text-1');
+      engine.setTextTrack(null);
+
+      expect(onTracks).toHaveBeenCalledWith({ tracks });
+      expect(mockDashPlayer.setTextTrack.mock.calls).toEqual([[1], [-1]]);
+    });
+
+    it('reports audio adaptation sets once the stream is initialized', async () => {
+      const engine = new DASHPlaybackEngine(options);
+      const onTracks = jest.fn();
+      engine.on('audioTracksChanged', onTracks);
+      await engine.load(document.createElement('video'), 'https://example.com/manifest.mpd');
+
+      mockDashHandlers.manifestLoaded({});
+      engine.setAudioTrack('dash-audio-1');
+
+      expect(onTracks).toHaveBeenCalledWith({ tracks: mockDashPlayer.getAudioTracks() });
+      expect(mockDashPlayer.setAudioTrack).toHaveBeenCalledWith(1);
+    });
+
+    it('treats dynamic MPDs as live and seeks through dash.js', async () => {
+      const engine = new DASHPlaybackEngine(options);
+      const video = withSeekable(document.createElement('video'), 1000, 1300, 1290);
+      await engine.load(video, 'https://example.com/live.mpd');
+      mockDashPlayer.isDynamic.mockReturnValue(true);
+      mockDashPlayer.getLiveLatency.mockReturnValue(12.5);
+      mockDashPlayer.getTargetLiveDelay.mockReturnValue(10);
+
+      expect(engine.getLiveWindow()).toEqual({
+        type: 'live', start: 1000, end: 1300, latency: 12.5, targetLatency: 10, atLiveEdge: true
+      });
+
+      expect(engine.getWallClockLatency()).toBe(12.5);
+
+      engine.seekToLiveEdge();
+      expect(mockDashPlayer.seekToLiveEdge).toHaveBeenCalled();
+    });
+
+    it('reads metrics from the DASH player', async () => {
+      const engine = new DASHPlaybackEngine(options);
+      await engine.load(document.createElement('video'), 'https://example.com/manifest.mpd');
+
+      const metrics = engine.getMetrics();
+
+      expect(metrics.bandwidth).toBe(3000000);
+      expect(metrics.bufferLength).toBe(8);
+      expect(metrics.currentBitrate).toBe(1500000);
+    });
+  });
+
+  describe('DRM', () => {
+    const drmOptions: PlaybackEngineOptions = {
+      ...options,
+      drm: {
+        keySystem: 'org.w3.clearkey',
+        licenseUrl: 'https://license.example.com/clearkey',
+        sessionType: 'temporary',
+        persistentState: 'optional'
+      }
+    };
+
+    it('sets up MediaKeys before hls.js attaches', async () => {
+      const engine = new HLSPlaybackEngine(drmOptions);
+      const video = document.createElement('video');
+
+      await engine.load(video, 'https://example.com/encrypted.m3u8');
+
+      const { createDRMManager } = jest.requireMock('../drm');
+      expect(createDRMManager).toHaveBeenCalledWith(drmOptions.drm);
+      expect(mockDrmManager.attach).toHaveBeenCalledWith(video);
+      expect(mockDrmManager.attach.mock.invocationCallOrder[0])
+        .toBeLessThan(mockHlsInstance.attachMedia.mock.invocationCallOrder[0]);
+      expect(engine.getDRMMetrics()).toEqual(expect.objectContaining({ licenseResponses: 1 }));
+
+      engine.destroy();
+      expect(mockDrmManager.destroy).toHaveBeenCalled();
+    });
+
+    it('leaves MediaKeys to dash.js under the DASH engine', async () => {
+      const engine = new DASHPlaybackEngine(drmOptions);
+
+      await engine.load(document.createElement('video'), 'https://example.com/encrypted.mpd');
+
+      const { createDASHPlayer } = jest.requireMock('../dash');
+      const { createDRMManager } = jest.requireMock('../drm');
+      expect(createDASHPlayer).toHaveBeenCalledWith(expect.objectContaining({ drm: drmOptions.drm }));
+      expect(createDRMManager).not.toHaveBeenCalled();
+      expect(engine.getDRMMetrics()).toEqual(expect.objectContaining({ licenseResponses: 2 }));
+    });
+
+    it('reports DRM setup failures and skips loading', async () => {
+      const engine = new HLSPlaybackEngine(drmOptions);
+      const onError = jest.fn();
+      engine.on('error', onError);
+      mockDrmManager.attach.mockImplementationOnce(async () => {
+        mockDrmHandlers.error({ message: 'Failed to set up org.w3.clearkey: Unsupported', fatal: true });
+        throw new Error('Failed to set up org.w3.clearkey: Unsupported');
+      });
+
+      await engine.load(document.createElement('video'), 'https://example.com/encrypted.m3u8');
+
+      expect(onError).toHaveBeenCalledWith({ message: 'Failed to set up org.w3.clearkey: Unsupported', fatal: true });
+      expect(mockHlsInstance.attachMedia).not.toHaveBeenCalled();
+    });
+
+    it('attaches nothing when destroyed while the license is pending', async () => {
+      const engine = new HLSPlaybackEngine(drmOptions);
+      let finishAttach: () => void = () => {};
+      mockDrmManager.attach.mockImplementationOnce(() => new Promise<void>(resolve => {
+        finishAttach = resolve;
+      }));
+
+      const loading = engine.load(document.createElement('video'), 'https://example.com/encrypted.m3u8');
+      engine.destroy();
+      finishAttach();
+      await loading;
+
+      expect(mockHlsInstance.attachMedia).not.toHaveBeenCalled();
+      expect(mockDrmManager.destroy).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not create a DRM manager for clear streams', async () => {
+      const engine = new HLSPlaybackEngine(options);
+      await engine.load(document.createElement('video'), 'https://example.com/master.m3u8');
+
+      const { createDRMManager } = jest.requireMock('../drm');
+      expect(createDRMManager).not.toHaveBeenCalled();
+      expect(engine.getDRMMetrics()).toBeNull();
+    });
+  });
+
+  describe('MSEPlaybackEngine', () => {
+    it('requires an adaptive streaming config', async () => {
+      const engine = new MSEPlaybackEngine(options);
+
+      await expect(engine.load(document.createElement('video'), 'https://example.com/stream'))
+        .rejects.toThrow('requires an adaptive streaming config');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+import { QoESession, QoETracker, createQoEModel, getQoERating } from '../qoeModel';
+import { afterEach, beforeEach } from '@jest/globals';
+
+const session = (overrides: Partial<QoESession> = {}): QoESession => ({
+  startupDelay: 0,
+  playTime: 120,
+  rebufferTime: 0,
+  rebufferCount: 0,
+  averageBitrate: 5000000,
+  topBitrate: 5000000,
+  switches: 0,
+  droppedFrames: 0,
+  totalFrames: 3000,
+  ...overrides
+});
+
+describe('QoEModel', () => {
+  const model = createQoEModel();
+
+  it('scores a session at the top rendition with nothing wrong as 100', () => {
+    expect(model.score(session())).toEqual({ score: 100, rating: 'excellent' });
+  });
+
+  it('counts bitrate on a log curve', () => {
+    const half = model.score(session({ averageBitrate: 2500000 })).score;
+    const tenth = model.score(session({ averageBitrate: 500000 })).score;
+
+    // Halving the bitrate costs less than half the bitrate weight...
+    expect(100 - half).toBeLessThan(35 / 2);
+    // ...and dropping to a tenth costs more than the next halving would
+    expect(half - tenth).toBeGreaterThan(100 - half);
+  });
+
+  it('counts stalls by time and by number, up to the rebuffer weight', () => {
+    const oneShort = model.score(session({ rebufferTime: 1, rebufferCount: 1 })).score;
+    const manyShort = model.score(session({ rebufferTime: 1, rebufferCount: 4 })).score;
+    const long = model.score(session({ rebufferTime: 30, rebufferCount: 1 })).score;
+    const endless = model.score(session({ rebufferTime: 300, rebufferCount: 20 })).score;
+
+    expect(oneShort).toBe(92);
+    expect(manyShort).toBeLessThan(oneShort);
+    expect(long).toBe(65);
+    expect(endless).toBe(65);
+  });
+
+  it('counts startup delay, switches per minute and dropped frames', () => {
+    expect(model.score(session({ startupDelay: 5 })).score).toBe(95);
+    // 8 switches in 2 minutes is the full switch penalty
+    expect(model.score(session({ switches: 8 })).score).toBe(90);
+    // One early switch isn't judged as a rate of several a minute
+    expect(model.score(session({ playTime: 5, switches: 1 })).score).toBe(98);
+    expect(model.score(session({ droppedFrames: 150 })).score).toBe(95);
+  });
+
+  it('takes its weights from the config', () => {
+    const strict = createQoEModel({ startupWeight: 40 });
+
+    expect(strict.score(session({ startupDelay: 10 }))).toEqual({ score: 60, rating: 'good' });
+  });
+
+  it('rates scores in bands', () => {
+    const bands: [number, string][] = [[100, 'excellent'], [80, 'excellent'], [79, 'good'], [60, 'good'], [59, 'fair'], [40, 'fair'], [39, 'poor'], [0, 'poor']];
+
+    bands.forEach(([score, rating]) => expect(getQoERating(score)).toBe(rating));
+  });
+});
+
+describe('QoETracker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('times startup, play and stalls from playback events', () => {
+    const tracker = new QoETracker();
+    tracker.setBitrate(1000000);
+
+    tracker.play();
+    jest.advanceTimersByTime(1500);
+    tracker.playing();
+    jest.advanceTimersByTime(10000);
+    tracker.stall();
+    jest.advanceTimersByTime(2000);
+    tracker.playing();
+    tracker.setBitrate(3000000);
+    jest.advanceTimersByTime(10000);
+    tracker.pause();
+    // Paused time counts for nothing
+    jest.advanceTimersByTime(60000);
+
+    expect(tracker.getPlayback()).toEqual({
+      startupDelay: 1.5,
+      playTime: 20,
+      rebufferTime: 2,
+      rebufferCount: 1,
+      averageBitrate: 2000000,
+      switches: 1
+    });
+  });
+
+  it('counts startup still in progress', () => {
+    const tracker = new QoETracker();
+
+    tracker.play();
+    jest.advanceTimersByTime(4000);
+
+    expect(tracker.getPlayback().startupDelay).toBe(4);
+    expect(tracker.getPlayback().playTime).toBe(0);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * @jest-environment node
+ */
+import { createIndexedDBStore, createSegmentCache } from '../segmentCache';
+import { afterEach } from '@jest/globals';
+
+const segment = (bytes: number) => new ArrayBuffer(bytes);
+
+// Cache Storage stand-in: named caches of responses keyed by URL
+const createFakeCaches = () => {
+  const caches = new Map<string, Map<string, Response>>();
+  return {
+    open: async (name: string) => {
+      const cache = caches.get(name) || new Map<string, Response>();
+      caches.set(name, cache);
+      const key = (request: string | { url: string }) => typeof request === 'string' ? request : request.url;
+      return {
+        match: async (request: string | { url: string }) => cache.get(key(request))?.clone(),
+        put: async (url: string, response: Response) => {
+          cache.set(url, response);
+        },
+        delete: async (url: string) => cache.delete(url),
+        keys: async () => Array.from(cache.keys()).map(url => ({ url }))
+      };
+    },
+    delete: async (name: string) => caches.delete(name)
+  };
+};
+
+// IndexedDB stand-in: named object stores, with requests settling on a later tick
+const createFakeIndexedDB = () => {
+  const stores = new Map<string, Map<string, unknown>>();
+  const request = <T>(run: () => T) => {
+    const pending: { result?: T; onsuccess?: () => void; onupgradeneeded?: () => void } = {};
+    setTimeout(() => {
+      pending.result = run();
+      pending.onsuccess?.();
+    }, 0);
+    return pending;
+  };
+  const objectStore = (name: string) => {
+    const store = stores.get(name)!;
+    return {
+      get: (url: string) => request(() => store.get(url)),
+      put: (value: unknown, url: string) => request(() => store.set(url, value)),
+      delete: (url: string) => request(() => store.delete(url)),
+      getAll: () => request(() => Array.from(store.values())),
+      clear: () => request(() => store.clear())
+    };
+  };
+  const database = {
+    get objectStoreNames() {
+      return Array.from(stores.keys());
+    },
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    deleteObjectStore: (name: string) => stores.delete(name),
+    transaction: () => ({ objectStore })
+  };
+  return {
+    open: () => {
+      const pending: { result?: typeof database; onsuccess?: () => void; onupgradeneeded?: () => void } = {};
+      setTimeout(() => {
+        pending.result = database;
+        if (stores.size === 0) pending.onupgradeneeded?.();
+        pending.onsuccess?.();
+      }, 0);
+      return pending;
+    }
+  };
+};
+
+const flushWrites = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('SegmentCache', () => {
+  const globals = global as { caches?: unknown; indexedDB?: unknown };
+
+  afterEach(() => {
+    delete globals.caches;
+    delete globals.indexedDB;
+    jest.restoreAllMocks();
+  });
+
+  it('counts hits and misses', async () => {
+    const cache = createSegmentCache();
+    cache.set('a.m4s', segment(10));
+
+    expect(await cache.get('a.m4s')).toBeInstanceOf(ArrayBuffer);
+    expect(await cache.get('b.m4s')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, entries: 1, bytes: 10 });
+  });
+
+  it('evicts the least recently used segment over the byte budget', async () => {
+    const cache = createSegmentCache({ maxBytes: 30 });
+    cache.set('a.m4s', segment(10));
+    cache.set('b.m4s', segment(10));
+    cache.set('c.m4s', segment(10));
+    await cache.get('a.m4s');
+
+    cache.set('d.m4s', segment(10));
+
+    expect(cache.has('a.m4s')).toBe(true);
+    expect(cache.has('b.m4s')).toBe(false);
+    expect(cache.getStats()).toMatchObject({ evictions: 1, bytes: 30, entries: 3 });
+  });
+
+  it('keeps segments near the playhead longest', () => {
+    const cache = createSegmentCache({ maxBytes: 30, playheadWindow: 10 });
+    cache.setPlayhead(100);
+    cache.set('near.m4s', segment(10), 96);
+    cache.set('far.m4s', segment(10), 20);
+    cache.set('untimed.m4s', segment(10));
+
+    cache.set('next.m4s', segment(10), 102);
+    expect(cache.has('near.m4s')).toBe(true);
+    expect(cache.has('far.m4s')).toBe(false);
+
+    cache.set('after.m4s', segment(10), 104);
+    expect(cache.has('untimed.m4s')).toBe(false);
+
+    // With everything near the playhead, fall back to plain LRU
+    cache.set('later.m4s', segment(10), 106);
+    expect(cache.has('near.m4s')).toBe(false);
+  });
+
+  it('does not cache a segment larger than the budget', () => {
+    const cache = createSegmentCache({ maxBytes: 30 });
+    cache.set('a.m4s', segment(10));
+
+    cache.set('huge.m4s', segment(40));
+
+    expect(cache.has('huge.m4s')).toBe(false);
+    expect(cache.has('a.m4s')).toBe(true);
+  });
+
+  it('shares one load between concurrent requests', async () => {
+    const cache = createSegmentCache();
+    const load = jest.fn(async () => segment(10));
+
+    const [first, second] = await Promise.all([
+      cache.getOrLoad('a.m4s', load),
+      cache.getOrLoad('a.m4s', load)
+    ]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+    expect(await cache.getOrLoad('a.m4s', load)).toBe(first);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads evicted segments back from Cache Storage', async () => {
+    globals.caches = createFakeCaches();
+    const cache = createSegmentCache({ maxBytes: 10, persistence: 'cache-storage' });
+    cache.set('https://cdn.example.com/a.m4s', segment(10));
+    cache.set('https://cdn.example.com/b.m4s', segment(10));
+    await flushWrites();
+    expect(cache.has('https://cdn.example.com/a.m4s')).toBe(false);
+
+    const data = await cache.get('https://cdn.example.com/a.m4s');
+
+    expect(data?.byteLength).toBe(10);
+    expect(cache.getStats()).toMatchObject({ hits: 1, persistentHits: 1, misses: 0 });
+
+    // Persisted segments outlive the session's memory cache
+    const nextSession = createSegmentCache({ persistence: 'cache-storage' });
+    expect(await nextSession.get('https://cdn.example.com/b.m4s')).not.toBeNull();
+    await nextSession.clearPersisted();
+    expect(await createSegmentCache({ persistence: 'cache-storage' }).get('https://cdn.example.com/b.m4s')).toBeNull();
+  });
+
+  it('deletes the least recently used persisted segments past their own budget', async () => {
+    globals.caches = createFakeCaches();
+    const cache = createSegmentCache({ maxBytes: 10, maxPersistentBytes: 20, persistence: 'cache-storage' });
+    cache.set('https://cdn.example.com/a.m4s', segment(10));
+    await flushWrites();
+    cache.set('https://cdn.example.com/b.m4s', segment(10));
+    await flushWrites();
+    await cache.get('https://cdn.example.com/a.m4s');
+
+    cache.set('https://cdn.example.com/c.m4s', segment(10));
+    await flushWrites();
+
+    const nextSession = createSegmentCache({ persistence: 'cache-storage' });
+    expect(await nextSession.get('https://cdn.example.com/a.m4s')).not.toBeNull();
+    expect(await nextSession.get('https://cdn.example.com/b.m4s')).toBeNull();
+    expect(await nextSession.get('https://cdn.example.com/c.m4s')).not.toBeNull();
+  });
+
+  it('budgets segments persisted by an earlier session', async () => {
+    globals.caches = createFakeCaches();
+    const earlier = createSegmentCache({ persistence: 'cache-storage' });
+    earlier.set('https://cdn.example.com/a.m4s', segment(10));
+    earlier.set('https://cdn.example.com/b.m4s', segment(10));
+    await flushWrites();
+
+    const cache = createSegmentCache({ maxPersistentBytes: 20, persistence: 'cache-storage' });
+    cache.set('https://cdn.example.com/c.m4s', segment(10));
+    await flushWrites();
+
+    cache.clear();
+    expect(await cache.get('https://cdn.example.com/a.m4s')).toBeNull();
+    expect(await cache.get('https://cdn.example.com/b.m4s')).not.toBeNull();
+  });
+
+  it('stores segments and their sizes in IndexedDB', async () => {
+    globals.indexedDB = createFakeIndexedDB();
+    const store = createIndexedDBStore('segments');
+    await store.put('a.m4s', segment(10));
+    await store.put('b.m4s', segment(20));
+
+    expect((await store.get('a.m4s'))?.byteLength).toBe(10);
+    expect(await store.list()).toEqual([
+      { url: 'a.m4s', bytes: 10, storedAt: expect.any(Number) },
+      { url: 'b.m4s', bytes: 20, storedAt: expect.any(Number) }
+    ]);
+
+    await store.delete('a.m4s');
+    expect(await store.get('a.m4s')).toBeNull();
+    expect(await store.list()).toHaveLength(1);
+
+    await store.clear();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('falls back to memory only when persistence is unavailable', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const cache = createSegmentCache({ persistence: 'indexeddb' });
+    cache.set('a.m4s', segment(10));
+
+    expect(warn).toHaveBeenCalledWith('Segment cache persistence "indexeddb" is not available here');
+    expect(await cache.get('a.m4s')).not.toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  alignSegmentIndex,
+  createDASHSegmentIndex,
+  createHLSSegmentIndex,
+  findSegmentAt,
+  getSegmentKey
+} from '../segmentIndex';
+import { parseM3U8 } from '../m3u8Parser';
+import { parseMPD } from '../mpdParser';
+import { HLSMediaPlaylist } from '../../types/player';
+
+const loadFixture = (name: string): string => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('segmentIndex', () => {
+  describe('createHLSSegmentIndex', () => {
+    const playlist = parseM3U8(loadFixture('vod-media.m3u8'), {
+      baseUrl: 'https://example.com/vod/index.m3u8'
+    }) as HLSMediaPlaylist;
+    const index = createHLSSegmentIndex(playlist);
+
+    it('lays segments out on a timeline with their init segments', () => {
+      expect(index.duration).toBe(25);
+      expect(index.isLive).toBe(false);
+      expect(index.segments[1]).toEqual({
+        url: 'https://example.com/vod/main.mp4',
+        byteRange: { start: 720, end: 50719 },
+        start: 6,
+        duration: 6,
+        init: { url: 'https://example.com/vod/init.mp4', byteRange: { start: 0, end: 719 } },
+        sequenceNumber: 101
+      });
+      expect(index.segments[3].init).toEqual({ url: 'https://example.com/vod/ad/init.mp4', byteRange: undefined });
+    });
+
+    it('leaves GAP segments out of the timeline', () => {
+      expect(index.segments.map(segment => segment.start)).toEqual([0, 6, 12, 16.5]);
+    });
+  });
+
+  describe('createDASHSegmentIndex', () => {
+    it('indexes one representation', () => {
+      const manifest = parseMPD(loadFixture('vod-template-number.mpd'));
+      const index = createDASHSegmentIndex(manifest, '720p');
+
+      expect(index.duration).toBe(10);
+      expect(index.segments.map(({ url, start, duration }) => ({ url, start, duration }))).toEqual([
+        { url: 'https://cdn.example.com/vod/720p/seg-00001.m4s', start: 0, duration: 4 },
+        { url: 'https://cdn.example.com/vod/720p/seg-00002.m4s', start: 4, duration: 4 },
+        { url: 'https://cdn.example.com/vod/720p/seg-00003.m4s', start: 8, duration: 4 }
+      ]);
+      expect(index.segments[0].init).toEqual({ url: 'https://cdn.example.com/vod/720p/init.mp4', byteRange: undefined });
+    });
+
+    it('turns SegmentBase ranges into byte ranges', () => {
+      const manifest = parseMPD(loadFixture('vod-segment-base.mpd'));
+      const representationId = manifest.periods[0].adaptationSets[0].representations[0].id;
+      const [segment] = createDASHSegmentIndex(manifest, representationId).segments;
+
+      expect(segment.url).toBe('video/1080p.mp4');
+      expect(segment.init).toEqual({ url: 'video/1080p.mp4', byteRange: { start: 0, end: 832 } });
+    });
+  });
+
+  describe('findSegmentAt', () => {
+    const index = {
+      segments: [
+        { url: 'a', start: 0, duration: 4 },
+        { url: 'b', start: 4, duration: 4 },
+        { url: 'c', start: 10, duration: 4 }
+      ],
+      duration: 14,
+      isLive: false
+    };
+
+    it('finds the segment playing at a time', () => {
+      expect(findSegmentAt(index, 0)).toBe(0);
+      expect(findSegmentAt(index, 5)).toBe(1);
+    });
+
+    it('moves on at a boundary despite rounding', () => {
+      expect(findSegmentAt(index, 3.999)).toBe(1);
+    });
+
+    it('skips ahead over a gap and stops at the end', () => {
+      expect(findSegmentAt(index, 9)).toBe(2);
+      expect(findSegmentAt(index, 14)).toBe(-1);
+    });
+  });
+
+  describe('alignSegmentIndex', () => {
+    const live = (mediaSequence: number, count: number) => createHLSSegmentIndex(parseM3U8([
+      '#EXTM3U',
+      '#EXT-X-TARGETDURATION:4',
+      `#EXT-X-MEDIA-SEQUENCE:${mediaSequence}`,
+      ...Array.from({ length: count }, (_, i) => `#EXTINF:4,\nseg-${mediaSequence + i}.m4s`)
+    ].join('\n')) as HLSMediaPlaylist);
+
+    it('lines a reloaded HLS playlist up by media sequence number', () => {
+      const aligned = alignSegmentIndex(live(10, 5), live(12, 5));
+
+      expect(aligned.segments.map(({ url, start }) => [url, start])).toEqual([
+        ['seg-12.m4s', 8], ['seg-13.m4s', 12], ['seg-14.m4s', 16], ['seg-15.m4s', 20], ['seg-16.m4s', 24]
+      ]);
+      expect(aligned.duration).toBe(28);
+    });
+
+    it('carries on from the end when the playlists have nothing in common', () => {
+      const aligned = alignSegmentIndex(live(10, 2), live(20, 2));
+
+      expect(aligned.segments.map(({ start }) => start)).toEqual([8, 12]);
+    });
+
+    it('leaves DASH timelines as they are', () => {
+      const dash = { segments: [{ url: 'a', start: 100, duration: 2 }], duration: 102, isLive: true };
+
+      expect(alignSegmentIndex(dash, dash)).toBe(dash);
+    });
+  });
+
+  it('keys byte ranges of one file apart', () => {
+    expect(getSegmentKey({ url: 'main.mp4' })).toBe('main.mp4');
+    expect(getSegmentKey({ url: 'main.mp4', byteRange: { start: 0, end: 719 } })).toBe('main.mp4|bytes=0-719');
+  });
+});
@@ -0,0 +1,159 @@
+import { createSegmentLoader } from '../segmentLoader';
+import { SegmentLoadEvent, SegmentLoaderEventMap } from '../../types/player';
+import { afterEach, beforeEach } from '@jest/globals';
+
+const respond = (status: number, bytes = 0) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  arrayBuffer: async () => new Uint8Array(bytes).map((_, i) => i % 256).buffer
+});
+
+// A request that only ends when its signal aborts
+const hang = (_url: string, init?: RequestInit) => new Promise((_resolve, reject) => {
+  init?.signal?.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+});
+
+describe('SegmentLoader', () => {
+  let fetchMock: ReturnType<typeof jest.fn>;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('loads a segment and publishes a load event', async () => {
+    fetchMock.mockResolvedValue(respond(200, 1000));
+    const loader = createSegmentLoader();
+    const onLoad = jest.fn();
+    loader.on('load', onLoad);
+
+    const data = await loader.load({ url: 'https://cdn.example.com/seg1.m4s' });
+
+    expect(data.byteLength).toBe(1000);
+    const event = onLoad.mock.calls[0][0] as SegmentLoadEvent;
+    expect(event).toEqual(expect.objectContaining({
+      url: 'https://cdn.example.com/seg1.m4s',
+      kind: 'segment',
+      bytes: 1000,
+      status: 200,
+      attempt: 1
+    }));
+    expect(event.duration).toBeGreaterThanOrEqual(event.ttfb);
+  });
+
+  it('retries server errors and reports each failed attempt', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(503))
+      .mockRejectedValueOnce(new Error('Failed to fetch'))
+      .mockResolvedValueOnce(respond(200, 10));
+    const loader = createSegmentLoader({ retryDelay: 0 });
+    const errors: SegmentLoaderEventMap['error'][] = [];
+    loader.on('error', error => errors.push(error));
+
+    await expect(loader.load({ url: 'https://cdn.example.com/seg1.m4s' })).resolves.toBeInstanceOf(ArrayBuffer);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(errors.map(({ status, message, willRetry }) => ({ status, message, willRetry }))).toEqual([
+      { status: 503, message: 'HTTP 503', willRetry: true },
+      { status: 0, message: 'Failed to fetch', willRetry: true }
+    ]);
+  });
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValue(respond(404));
+    const loader = createSegmentLoader({ retryDelay: 0 });
+
+    await expect(loader.load({ url: 'https://cdn.example.com/missing.m4s' }))
+      .rejects.toThrow('Failed to load segment https://cdn.example.com/missing.m4s: HTTP 404');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up on an attempt after the timeout', async () => {
+    fetchMock.mockImplementation(hang);
+    const loader = createSegmentLoader({ timeout: 10, maxRetries: 0 });
+
+    await expect(loader.load({ url: 'https://cdn.example.com/slow.m4s' })).rejects.toThrow('timed out after 10ms');
+  });
+
+  it('stops retrying when the caller aborts', async () => {
+    fetchMock.mockImplementation(hang);
+    const loader = createSegmentLoader({ retryDelay: 0 });
+    const controller = new AbortController();
+
+    const request = loader.load({ url: 'https://cdn.example.com/seg1.m4s', signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toThrow('Segment request aborted');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs off exponentially with jitter', async () => {
+    jest.useFakeTimers();
+    try {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      fetchMock
+        .mockResolvedValueOnce(respond(500))
+        .mockResolvedValueOnce(respond(500))
+        .mockResolvedValueOnce(respond(200, 1));
+      const loader = createSegmentLoader({ retryDelay: 100 });
+
+      const request = loader.load({ url: 'https://cdn.example.com/seg1.m4s' });
+      await jest.advanceTimersByTimeAsync(49);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      // Half of 100ms with no random share
+      await jest.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(99);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      await expect(request).resolves.toBeInstanceOf(ArrayBuffer);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('fails over to the healthiest CDN', async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url.startsWith('https://a.example.com') ? respond(502) : respond(200, 5));
+    const loader = createSegmentLoader({
+      baseUrls: ['https://a.example.com/live/', 'https://b.example.com/live/'],
+      retryDelay: 0
+    });
+
+    await loader.load({ url: 'https://a.example.com/live/seg1.m4s' });
+    expect((fetchMock.mock.calls as unknown[][]).map(call => call[0])).toEqual([
+      'https://a.example.com/live/seg1.m4s',
+      'https://b.example.com/live/seg1.m4s'
+    ]);
+
+    // The failing CDN is skipped until its score recovers
+    await loader.load({ url: 'seg2.m4s' });
+    expect(fetchMock).toHaveBeenLastCalledWith('https://b.example.com/live/seg2.m4s', expect.anything());
+
+    const health = loader.getHostHealth();
+    expect(health['https://a.example.com/live/']).toBeLessThan(1);
+    expect(health['https://b.example.com/live/']).toBe(1);
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60000);
+    expect(loader.getHostHealth()['https://a.example.com/live/']).toBe(1);
+  });
+
+  it('requests byte ranges and trims servers that ignore them', async () => {
+    fetchMock.mockResolvedValue(respond(200, 100));
+    const loader = createSegmentLoader();
+
+    const data = await loader.load({ url: 'https://cdn.example.com/file.mp4', byteRange: { start: 10, end: 19 } });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://cdn.example.com/file.mp4', expect.objectContaining({
+      headers: { Range: 'bytes=10-19' }
+    }));
+    expect(Array.from(new Uint8Array(data))).toEqual([10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+  });
+});
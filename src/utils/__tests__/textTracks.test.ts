@@ -0,0 +1,174 @@
+import { TextTrackManager } from '../textTracks';
+import { PlaybackEngine, PlaybackEngineEventMap, TextTrackInfo } from '../../types/player';
+import { beforeEach } from '@jest/globals';
+
+class FakeNativeTrack extends EventTarget {
+  mode: TextTrackMode = 'disabled';
+  activeCues: { startTime: number; endTime: number; text: string }[] = [];
+
+  constructor(public kind: string, public label: string, public language: string) {
+    super();
+  }
+
+  showCues(cues: { startTime: number; endTime: number; text: string }[]): void {
+    this.activeCues = cues;
+    this.dispatchEvent(new Event('cuechange'));
+  }
+}
+
+// Array-like list that dispatches events, like TextTrackList
+const createTrackList = (tracks: FakeNativeTrack[]) => {
+  const list = new EventTarget() as EventTarget & Record<number, FakeNativeTrack> & { length: number };
+  const sync = () => {
+    tracks.forEach((track, i) => { list[i] = track; });
+    list.length = tracks.length;
+  };
+  sync();
+  return {
+    list,
+    add(track: FakeNativeTrack) {
+      tracks.push(track);
+      sync();
+      list.dispatchEvent(new Event('addtrack'));
+    }
+  };
+};
+
+const createEngine = (tracks: TextTrackInfo[], nativeTracks: Record<string, FakeNativeTrack>) => {
+  let listener: ((data: PlaybackEngineEventMap['textTracksChanged']) => void) | null = null;
+  return {
+    engine: {
+      getTextTracks: jest.fn(() => tracks),
+      setTextTrack: jest.fn(),
+      getNativeTextTrack: jest.fn((id: string) => nativeTracks[id] || null),
+      on: jest.fn((event: string, handler: typeof listener) => { listener = handler; }),
+      off: jest.fn()
+    } as unknown as PlaybackEngine,
+    updateTracks(next: TextTrackInfo[]) {
+      tracks = next;
+      listener?.({ tracks: next });
+    }
+  };
+};
+
+describe('TextTrackManager', () => {
+  const english: TextTrackInfo = { id: 'subtitle-0', label: 'English', language: 'en', kind: 'subtitles', source: 'manifest' };
+  let video: HTMLVideoElement;
+  let trackList: ReturnType<typeof createTrackList>;
+  let fetchMock: ReturnType<typeof jest.fn>;
+
+  beforeEach(() => {
+    video = document.createElement('video');
+    trackList = createTrackList([]);
+    Object.defineProperty(video, 'textTracks', { value: trackList.list });
+
+    fetchMock = jest.fn(async (url: string) => ({
+      ok: !url.includes('missing'),
+      status: url.includes('missing') ? 404 : 200,
+      headers: new Headers(),
+      text: async () => 'WEBVTT\n\n00:00:01.000 --> 00:00:04.000\nFrom a sidecar'
+    }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('merges engine tracks with sidecar files and skips failed loads', async () => {
+    const manager = new TextTrackManager();
+    const onTracks = jest.fn();
+    manager.on('tracksChanged', onTracks);
+    manager.attach(video);
+    manager.setEngine(createEngine([english], {}).engine);
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await manager.setSidecarTracks([
+      { src: '/subs/fr.vtt', label: 'Français', language: 'fr' },
+      { src: '/subs/missing.vtt', language: 'de' }
+    ]);
+
+    expect(manager.getTracks()).toEqual([
+      english,
+      { id: 'sidecar-1', label: 'Français', language: 'fr', kind: 'subtitles', source: 'sidecar' }
+    ]);
+    expect(onTracks).toHaveBeenLastCalledWith({ tracks: manager.getTracks() });
+    expect(warnSpy).toHaveBeenCalledWith('Failed to load text track:', '/subs/missing.vtt', expect.any(Error));
+    warnSpy.mockRestore();
+  });
+
+  it('shows sidecar cues for the playback position', async () => {
+    const manager = new TextTrackManager();
+    const onCues = jest.fn();
+    manager.on('cuesChanged', onCues);
+    manager.attach(video);
+
+    await manager.setSidecarTracks([{ src: '/subs/en.vtt', language: 'en', default: true }]);
+    expect(manager.getCurrentTrack()?.id).toBe('sidecar-1');
+
+    video.currentTime = 2;
+    video.dispatchEvent(new Event('timeupdate'));
+    video.dispatchEvent(new Event('timeupdate'));
+    expect(onCues).toHaveBeenCalledTimes(1);
+    expect(manager.getCues()).toEqual([{ start: 1, end: 4, text: 'From a sidecar' }]);
+
+    manager.select(null);
+    expect(manager.getCues()).toEqual([]);
+  });
+
+  it('reads cues from the hidden native track of an engine track', () => {
+    const native = new FakeNativeTrack('subtitles', 'English', 'en');
+    const { engine } = createEngine([english], { 'subtitle-0': native });
+    const manager = new TextTrackManager();
+    manager.attach(video);
+    manager.setEngine(engine);
+
+    manager.select('subtitle-0');
+    // hls.js only creates the native track once the subtitle playlist loads
+    trackList.add(native);
+    native.showCues([{ startTime: 1, endTime: 2, text: '<i>Native</i> cue' }]);
+
+    expect(engine.setTextTrack).toHaveBeenCalledWith('subtitle-0');
+    expect(native.mode).toBe('hidden');
+    expect(manager.getCues()).toEqual([{ start: 1, end: 2, text: 'Native cue' }]);
+  });
+
+  it('keeps other native tracks out of the browser caption display', () => {
+    const other = new FakeNativeTrack('captions', 'English', 'en');
+    other.mode = 'showing';
+    trackList.add(other);
+    const manager = new TextTrackManager();
+    manager.attach(video);
+
+    trackList.list.dispatchEvent(new Event('change'));
+
+    expect(other.mode).toBe('disabled');
+  });
+
+  it('drops an engine track selection when the engine changes or removes it', () => {
+    const first = createEngine([english], {});
+    const manager = new TextTrackManager();
+    const onTrack = jest.fn();
+    manager.on('trackChanged', onTrack);
+    manager.attach(video);
+    manager.setEngine(first.engine);
+    manager.select('subtitle-0');
+
+    first.updateTracks([]);
+    expect(manager.getCurrentTrack()).toBeNull();
+
+    first.updateTracks([english]);
+    manager.select('subtitle-0');
+    manager.setEngine(createEngine([], {}).engine);
+
+    expect(manager.getCurrentTrack()).toBeNull();
+    expect(onTrack).toHaveBeenLastCalledWith({ track: null });
+  });
+
+  it('ignores sidecar loads replaced before they finish', async () => {
+    const manager = new TextTrackManager();
+    manager.attach(video);
+
+    const stale = manager.setSidecarTracks([{ src: '/subs/old.vtt', label: 'Old' }]);
+    await manager.setSidecarTracks([{ src: '/subs/new.vtt', label: 'New' }]);
+    await stale;
+
+    expect(manager.getTracks().map(track => track.label)).toEqual(['New']);
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  buildThumbnailVTT,
+  parseThumbnailVTT,
+  findThumbnailCue,
+  createThumbnailTrackSource
+} from '../thumbnails';
+import { ThumbnailSpriteLayout } from '../../types/player';
+
+describe('thumbnails', () => {
+  const layout: ThumbnailSpriteLayout = {
+    duration: 12.5,
+    interval: 5,
+    count: 3,
+    columns: 2,
+    rows: 2,
+    tileWidth: 160,
+    tileHeight: 90
+  };
+
+  it('builds one #xywh= cue per tile, row by row', () => {
+    expect(buildThumbnailVTT(layout, 'sprite.jpg')).toBe([
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:00:05.000',
+      'sprite.jpg#xywh=0,0,160,90',
+      '',
+      '00:00:05.000 --> 00:00:10.000',
+      'sprite.jpg#xywh=160,0,160,90',
+      '',
+      '00:00:10.000 --> 00:00:12.500',
+      'sprite.jpg#xywh=0,90,160,90',
+      ''
+    ].join('\n'));
+  });
+
+  it('parses cues and resolves images against the track URL', () => {
+    const cues = parseThumbnailVTT(
+      buildThumbnailVTT(layout, 'sprite.jpg'),
+      'https://cdn.example.com/vod/thumbs/track.vtt'
+    );
+
+    expect(cues).toHaveLength(3);
+    expect(cues[2]).toEqual({
+      start: 10,
+      end: 12.5,
+      url: 'https://cdn.example.com/vod/thumbs/sprite.jpg',
+      region: { x: 0, y: 90, width: 160, height: 90 }
+    });
+  });
+
+  it('accepts short timestamps, CRLF and whole-image cues', () => {
+    const cues = parseThumbnailVTT('WEBVTT\r\n\r\n1\r\n00:00.000 --> 00:04.000\r\n/frames/1.jpg\r\n', 'https://a.example/t.vtt');
+
+    expect(cues).toEqual([{ start: 0, end: 4, url: 'https://a.example/frames/1.jpg' }]);
+  });
+
+  it('finds the cue for a position and holds the last frame', () => {
+    const cues = parseThumbnailVTT(buildThumbnailVTT(layout, 'sprite.jpg'));
+
+    expect(findThumbnailCue(cues, 7)?.region?.x).toBe(160);
+    expect(findThumbnailCue(cues, 30)).toBe(cues[2]);
+    expect(findThumbnailCue([], 3)).toBeNull();
+  });
+
+  it('exposes an in-memory sprite as a thumbnails track', () => {
+    const blobs: Blob[] = [];
+    URL.createObjectURL = jest.fn((blob: Blob) => {
+      blobs.push(blob);
+      return `blob:sprite/${blobs.length - 1}`;
+    });
+    URL.revokeObjectURL = jest.fn();
+
+    const source = createThumbnailTrackSource({
+      ...layout,
+      image: new Uint8Array([0xff, 0xd8]),
+      imageName: 'thumbnails.jpg',
+      mimeType: 'image/jpeg',
+      vtt: ''
+    });
+
+    expect(source.url).toBe('blob:sprite/1');
+    expect(blobs[0].type).toBe('image/jpeg');
+    expect(blobs[1].type).toBe('text/vtt');
+
+    source.revoke();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:sprite/0');
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:sprite/1');
+  });
+});
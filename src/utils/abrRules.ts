@@ -0,0 +1,308 @@
+import { Ewma } from './bandwidthEstimator';
+
+export type AbrRuleName = 'throughput' | 'bola' | 'dynamic' | 'insufficient-buffer';
+
+// Stronger decisions override weaker ones whatever rendition they pick
+export type AbrPriority = 'weak' | 'default' | 'strong';
+
+export interface AbrConfig {
+  // Rules consulted on every decision
+  rules: AbrRuleName[];
+  // Half-lives (seconds of download time) of the fast and slow throughput averages
+  fastHalfLife: number;
+  slowHalfLife: number;
+}
+
+export const DEFAULT_ABR_CONFIG: AbrConfig = {
+  rules: ['dynamic', 'insufficient-buffer'],
+  fastHalfLife: 3,
+  slowHalfLife: 9
+};
+
+/**
+ * One measured segment download
+ */
+export interface AbrThroughputSample {
+  bytes: number;
+  // Milliseconds to the last byte
+  duration: number;
+}
+
+/**
+ * What a rule gets to decide on. Renditions are referred to by their
+ * position in `bitrates`, lowest first.
+ */
+export interface AbrContext {
+  bitrates: number[];
+  currentIndex: number;
+  // Seconds buffered ahead of the playhead
+  bufferLevel: number;
+  bufferTarget: number;
+  minBufferLength: number;
+  segmentDuration: number;
+  // Last segment download, bps; 0 before the first one
+  throughput: number;
+  // Bandwidth estimate, bps; 0 when unknown
+  bandwidth: number;
+  // 0-100
+  networkStability: number;
+  // Share of the estimated throughput a rendition may use
+  safetyFactor: number;
+}
+
+export interface AbrDecision {
+  index: number;
+  priority: AbrPriority;
+  rule: string;
+}
+
+export interface AbrRule {
+  readonly name: string;
+  // Null when the rule has no opinion
+  decide(context: AbrContext): AbrDecision | null;
+  onSample?(sample: AbrThroughputSample): void;
+  reset?(): void;
+}
+
+const PRIORITY_ORDER: AbrPriority[] = ['weak', 'default', 'strong'];
+// Tiny responses are mostly latency and would skew the estimate
+const MIN_SAMPLE_BYTES = 16000;
+// Seconds of buffer BOLA wants per rendition above its minimum
+const BOLA_BUFFER_PER_LEVEL = 1;
+// Buffer share of the target at which the dynamic rule hands over to BOLA, and back
+const DYNAMIC_BOLA_ON = 0.6;
+const DYNAMIC_BOLA_OFF = 0.3;
+// Share of the buffer the next segment download may take in an emergency
+const EMERGENCY_DOWNLOAD_SHARE = 0.5;
+
+/**
+ * Highest rendition whose bitrate fits in `bitrate`, or the lowest
+ */
+export const indexForBitrate = (bitrates: number[], bitrate: number): number => {
+  let index = 0;
+  bitrates.forEach((candidate, i) => {
+    if (candidate <= bitrate) index = i;
+  });
+  return index;
+};
+
+/**
+ * Picks the highest rendition the measured throughput sustains. A fast and a
+ * slow average are kept and the lower one wins, so drops are followed at once
+ * and recoveries only once they last. Unstable networks get a smaller share.
+ */
+export class ThroughputRule implements AbrRule {
+  readonly name = 'throughput';
+  private fast: Ewma;
+  private slow: Ewma;
+  private samples = 0;
+
+  constructor(config: AbrConfig) {
+    this.fast = new Ewma(config.fastHalfLife);
+    this.slow = new Ewma(config.slowHalfLife);
+  }
+
+  onSample({ bytes, duration }: AbrThroughputSample): void {
+    if (bytes < MIN_SAMPLE_BYTES || duration <= 0) return;
+    const seconds = duration / 1000;
+    const bps = (bytes * 8) / seconds;
+    this.fast.sample(seconds, bps);
+    this.slow.sample(seconds, bps);
+    this.samples++;
+  }
+
+  /**
+   * Throughput estimate in bps; before any segment has been measured, the
+   * lower of the context's spot measurements
+   */
+  getEstimate(context: AbrContext): number {
+    if (this.samples > 0) {
+      return Math.min(this.fast.getEstimate(), this.slow.getEstimate());
+    }
+    const measured = [context.throughput, context.bandwidth].filter(value => value > 0);
+    return measured.length > 0 ? Math.min(...measured) : 0;
+  }
+
+  decide(context: AbrContext): AbrDecision | null {
+    const estimate = this.getEstimate(context);
+    if (estimate <= 0) return null;
+
+    const stability = Math.min(100, Math.max(0, context.networkStability)) / 100;
+    const usable = estimate * context.safetyFactor * (0.5 + stability / 2);
+    return { index: indexForBitrate(context.bitrates, usable), priority: 'default', rule: this.name };
+  }
+
+  reset(): void {
+    this.fast.reset();
+    this.slow.reset();
+    this.samples = 0;
+  }
+}
+
+/**
+ * BOLA: buffer occupancy picks the rendition, trading the log utility of a
+ * higher bitrate against the buffer it costs. An empty buffer means the
+ * lowest rendition, a full one the highest. The last download bounds it both
+ * ways: no switching up past what it could sustain, and no switching down
+ * below it while the buffer is above its minimum.
+ */
+export class BolaRule implements AbrRule {
+  readonly name = 'bola';
+
+  decide(context: AbrContext): AbrDecision | null {
+    const { bitrates, bufferLevel, currentIndex } = context;
+    if (bitrates.length === 0) return null;
+    if (bitrates.length === 1) return { index: 0, priority: 'default', rule: this.name };
+
+    const utilities = bitrates.map(bitrate => Math.log(bitrate / bitrates[0]) + 1);
+    const minimumBuffer = Math.max(context.minBufferLength, context.segmentDuration);
+    const bufferTarget = Math.max(
+      context.bufferTarget,
+      minimumBuffer + BOLA_BUFFER_PER_LEVEL * bitrates.length
+    );
+    const gp = (utilities[utilities.length - 1] - 1) / (bufferTarget / minimumBuffer - 1);
+    const vp = minimumBuffer / gp;
+
+    let index = 0;
+    let bestScore = -Infinity;
+    bitrates.forEach((bitrate, i) => {
+      const score = (vp * (utilities[i] + gp) - bufferLevel) / bitrate;
+      if (score >= bestScore) {
+        bestScore = score;
+        index = i;
+      }
+    });
+
+    if (context.throughput > 0) {
+      const sustainable = indexForBitrate(bitrates, context.throughput * context.safetyFactor);
+      if (index > currentIndex) {
+        index = Math.min(index, Math.max(currentIndex, sustainable));
+      } else if (index < currentIndex && bufferLevel > minimumBuffer) {
+        // With buffer to spare, don't give up quality the network still carries
+        index = Math.max(index, Math.min(currentIndex, sustainable));
+      }
+    }
+    return { index, priority: 'default', rule: this.name };
+  }
+}
+
+/**
+ * Throughput while the buffer is short, BOLA once it has filled; the gap
+ * between the two thresholds keeps it from flapping between them
+ */
+export class DynamicRule implements AbrRule {
+  readonly name = 'dynamic';
+  private throughputRule: ThroughputRule;
+  private bolaRule = new BolaRule();
+  private useBola = false;
+
+  constructor(config: AbrConfig) {
+    this.throughputRule = new ThroughputRule(config);
+  }
+
+  onSample(sample: AbrThroughputSample): void {
+    this.throughputRule.onSample(sample);
+  }
+
+  decide(context: AbrContext): AbrDecision | null {
+    const fill = context.bufferTarget > 0 ? context.bufferLevel / context.bufferTarget : 0;
+    if (this.useBola ? fill < DYNAMIC_BOLA_OFF : fill >= DYNAMIC_BOLA_ON) {
+      this.useBola = !this.useBola;
+    }
+
+    const decision = this.useBola ? this.bolaRule.decide(context) : this.throughputRule.decide(context);
+    return decision && { ...decision, rule: `${this.name}:${decision.rule}` };
+  }
+
+  isUsingBola(): boolean {
+    return this.useBola;
+  }
+
+  reset(): void {
+    this.throughputRule.reset();
+    this.useBola = false;
+  }
+}
+
+/**
+ * Emergency down-switch: once the buffer runs below minBufferLength, drop to
+ * a rendition whose next segment downloads in well under what is buffered.
+ * Never switches up, and has no opinion before a download has been measured.
+ */
+export class InsufficientBufferRule implements AbrRule {
+  readonly name = 'insufficient-buffer';
+
+  decide(context: AbrContext): AbrDecision | null {
+    const { bitrates, bufferLevel, currentIndex, segmentDuration, throughput } = context;
+    if (bufferLevel >= context.minBufferLength || throughput <= 0) return null;
+
+    const downloadBudget = bufferLevel * EMERGENCY_DOWNLOAD_SHARE;
+    let index = 0;
+    bitrates.forEach((bitrate, i) => {
+      if ((bitrate * segmentDuration) / throughput <= downloadBudget) index = i;
+    });
+
+    return index < currentIndex ? { index, priority: 'strong', rule: this.name } : null;
+  }
+}
+
+export const createAbrRule = (name: AbrRuleName, config: AbrConfig = DEFAULT_ABR_CONFIG): AbrRule => {
+  switch (name) {
+    case 'throughput':
+      return new ThroughputRule(config);
+    case 'bola':
+      return new BolaRule();
+    case 'dynamic':
+      return new DynamicRule(config);
+    case 'insufficient-buffer':
+      return new InsufficientBufferRule();
+    default:
+      throw new Error(`Unknown ABR rule: ${name}`);
+  }
+};
+
+/**
+ * Runs a set of ABR rules and combines what they decide: the highest
+ * priority any rule reached wins, and among those the lowest rendition
+ */
+export class AbrController {
+  private rules: AbrRule[];
+
+  constructor(rules: AbrRule[]) {
+    this.rules = rules;
+  }
+
+  onSample(sample: AbrThroughputSample): void {
+    this.rules.forEach(rule => rule.onSample?.(sample));
+  }
+
+  decide(context: AbrContext): AbrDecision | null {
+    if (context.bitrates.length === 0) return null;
+
+    let best: AbrDecision | null = null;
+    for (const rule of this.rules) {
+      const decision = rule.decide(context);
+      if (!decision) continue;
+
+      const rank = PRIORITY_ORDER.indexOf(decision.priority);
+      const bestRank = best ? PRIORITY_ORDER.indexOf(best.priority) : -1;
+      if (!best || rank > bestRank || (rank === bestRank && decision.index < best.index)) {
+        best = decision;
+      }
+    }
+    return best;
+  }
+
+  getRuleNames(): string[] {
+    return this.rules.map(rule => rule.name);
+  }
+
+  reset(): void {
+    this.rules.forEach(rule => rule.reset?.());
+  }
+}
+
+export const createAbrController = (config: Partial<AbrConfig> = {}): AbrController => {
+  const fullConfig = { ...DEFAULT_ABR_CONFIG, ...config };
+  return new AbrController(fullConfig.rules.map(name => createAbrRule(name, fullConfig)));
+};
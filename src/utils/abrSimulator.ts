@@ -0,0 +1,210 @@
+import {
+  AdaptiveMetrics,
+  AdaptiveStreamingConfig,
+  QUALITY_SWITCH_COOLDOWN,
+  QualityLevel,
+  getInitialQuality,
+  getNetworkStability,
+  selectAdaptiveQuality
+} from './adaptiveStreaming';
+import { createAbrController } from './abrRules';
+import { createBandwidthEstimator } from './bandwidthEstimator';
+import { NetworkProfile, getProfileStepAt, getTransferTime } from './networkEmulator';
+import { createQoEModel } from './qoeModel';
+
+/**
+ * What the simulator needs of a manifest: the ladder and the segments
+ */
+export interface SimulationManifest {
+  qualities: QualityLevel[];
+  // Seconds of media in each segment
+  segmentDurations: number[];
+  // Bytes of each segment per rendition id; bitrate × duration where missing
+  segmentSizes?: Record<string, number[]>;
+}
+
+export interface AbrSimulationInput {
+  manifest: SimulationManifest;
+  // Bandwidth and latency over time; loss isn't modelled
+  trace: NetworkProfile;
+  // Engine settings, including the ABR rule set; qualities come from the manifest
+  config?: Partial<AdaptiveStreamingConfig>;
+}
+
+export const DEFAULT_ABR_SIMULATION_CONFIG: AdaptiveStreamingConfig = {
+  qualities: [],
+  networkCheckInterval: 1000,
+  targetBufferLength: 10,
+  maxBufferLength: 30,
+  minBufferLength: 3,
+  lowLatencyMode: false,
+  segmentDuration: 4,
+  rebufferThreshold: 2,
+  qualitySwitchThreshold: 0.8
+};
+
+export interface AbrSimulationSegment {
+  index: number;
+  quality: string;
+  bitrate: number;
+  bytes: number;
+  // Seconds into the session the request went out
+  requestTime: number;
+  // Seconds from request to last byte
+  downloadTime: number;
+  // Seconds buffered once it was appended
+  bufferLevel: number;
+  // Seconds playback stalled waiting for it
+  stall: number;
+}
+
+export interface AbrSimulationQoE {
+  // bps, weighted by media time
+  averageBitrate: number;
+  switches: number;
+  rebufferCount: number;
+  // Seconds stalled after playback started
+  rebufferTime: number;
+  // Seconds from the first request to the first frame
+  startupDelay: number;
+}
+
+export interface AbrSimulationResult {
+  timeline: AbrSimulationSegment[];
+  metrics: AdaptiveMetrics;
+  qoe: AbrSimulationQoE;
+  // False when the trace ran out of bandwidth for good before the last segment
+  completed: boolean;
+}
+
+const getSegmentBytes = (manifest: SimulationManifest, quality: QualityLevel, index: number): number => {
+  const size = manifest.segmentSizes?.[quality.id]?.[index];
+  return size ?? (quality.bitrate * manifest.segmentDurations[index]) / 8;
+};
+
+/**
+ * Play a manifest over a bandwidth trace without a browser, deciding
+ * renditions exactly as AdaptiveStreamingEngine does (same ABR rules,
+ * bandwidth estimator, starting rendition and switch cooldown). Segments
+ * are fetched one at a time until targetBufferLength is buffered, and
+ * playback drains the buffer in real time from the first segment on,
+ * stalling whenever it runs dry. Decisions are made before each request
+ * rather than on the engine's timer.
+ */
+export const simulateAbr = ({ manifest, trace, config = {} }: AbrSimulationInput): AbrSimulationResult => {
+  const streamingConfig = { ...DEFAULT_ABR_SIMULATION_CONFIG, ...config, qualities: manifest.qualities };
+  const controller = createAbrController(streamingConfig.abr);
+  const estimator = createBandwidthEstimator(streamingConfig.bandwidthEstimator);
+  const qualities = [...manifest.qualities].sort((a, b) => a.bitrate - b.bitrate);
+  const topBitrate = qualities[qualities.length - 1]?.bitrate ?? 0;
+
+  const timeline: AbrSimulationSegment[] = [];
+  const qoe: AbrSimulationQoE = { averageBitrate: 0, switches: 0, rebufferCount: 0, rebufferTime: 0, startupDelay: 0 };
+  const latencies: number[] = [];
+  let current = getInitialQuality(qualities, estimator.getBandwidth());
+  let time = 0;
+  let buffer = 0;
+  let playing = false;
+  let lastSwitchTime = -Infinity;
+  let playedMedia = 0;
+  let bitrateTime = 0;
+  let completed = true;
+
+  // Move the clock on, playing out what's buffered; returns the stall
+  const advance = (seconds: number): number => {
+    time += seconds;
+    if (!playing) return 0;
+    const played = Math.min(buffer, seconds);
+    buffer -= played;
+    playedMedia += played;
+    return seconds - played;
+  };
+
+  for (let index = 0; index < manifest.segmentDurations.length && current; index++) {
+    // The engine stops fetching once targetBufferLength is buffered
+    if (playing && buffer > streamingConfig.targetBufferLength) {
+      advance(buffer - streamingConfig.targetBufferLength);
+    }
+
+    if (index > 0) {
+      const { bandwidth, throughput } = estimator.getEstimate();
+      const next = selectAdaptiveQuality(controller, qualities, current, {
+        bufferLevel: buffer,
+        throughput,
+        bandwidth,
+        networkStability: getNetworkStability(estimator.getRecentBandwidths()),
+        inCooldown: (time - lastSwitchTime) * 1000 < QUALITY_SWITCH_COOLDOWN
+      }, streamingConfig);
+      if (next) {
+        current = next;
+        lastSwitchTime = time;
+        qoe.switches++;
+      }
+    }
+
+    const bytes = getSegmentBytes(manifest, current, index);
+    const latency = (getProfileStepAt(trace, time)?.step.latency ?? 0) / 1000;
+    const transferTime = getTransferTime(trace, bytes, time + latency);
+    if (transferTime === Infinity) {
+      completed = false;
+      break;
+    }
+
+    const requestTime = time;
+    const downloadTime = latency + transferTime;
+    const stall = advance(downloadTime);
+    if (stall > 0) {
+      qoe.rebufferCount++;
+      qoe.rebufferTime += stall;
+    }
+
+    const duration = manifest.segmentDurations[index];
+    buffer += duration;
+    bitrateTime += current.bitrate * duration;
+    latencies.push(latency * 1000);
+    estimator.addSample({ bytes, ttfb: latency * 1000, duration: downloadTime * 1000 });
+    controller.onSample({ bytes, duration: downloadTime * 1000 });
+
+    if (!playing) {
+      playing = true;
+      qoe.startupDelay = time;
+    }
+    timeline.push({
+      index,
+      quality: current.id,
+      bitrate: current.bitrate,
+      bytes,
+      requestTime,
+      downloadTime,
+      bufferLevel: buffer,
+      stall
+    });
+  }
+
+  const mediaTime = timeline.reduce((sum, segment) => sum + manifest.segmentDurations[segment.index], 0);
+  qoe.averageBitrate = mediaTime > 0 ? bitrateTime / mediaTime : 0;
+  playedMedia += buffer;
+  const { score, rating } = createQoEModel(streamingConfig.qoe).score({
+    ...qoe,
+    playTime: playedMedia,
+    topBitrate,
+    droppedFrames: 0,
+    totalFrames: 0
+  });
+
+  return {
+    timeline,
+    qoe,
+    completed,
+    metrics: {
+      currentQuality: current?.id ?? '',
+      qualitySwitches: qoe.switches,
+      rebufferingEvents: qoe.rebufferCount,
+      averageLatency: latencies.length > 0 ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length : 0,
+      bufferHealth: Math.min(100, (buffer / streamingConfig.targetBufferLength) * 100),
+      networkStability: getNetworkStability(estimator.getRecentBandwidths()),
+      qoeScore: score,
+      userExperience: rating
+    }
+  };
+};
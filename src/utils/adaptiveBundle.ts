@@ -0,0 +1,71 @@
+import { AdaptiveBundle, AdaptiveBundleFile, PlaybackEngineType } from '../types/player';
+
+export interface BundleSource {
+  url: string;
+  engine: PlaybackEngineType;
+  revoke: () => void;
+}
+
+const isManifest = (file: AdaptiveBundleFile): boolean => /\.(m3u8|mpd)$/i.test(file.path);
+
+// Blob URLs cannot resolve relative paths, so every reference is swapped for its blob URL
+const rewriteHLSPlaylist = (text: string, lookup: (reference: string) => string): string => {
+  return text
+    .split('\n')
+    .map(line => {
+      const trimmed = line.trim();
+      if (!trimmed) return line;
+      if (!trimmed.startsWith('#')) return lookup(trimmed);
+      return line.replace(/URI="([^"]+)"/g, (_, uri: string) => `URI="${lookup(uri)}"`);
+    })
+    .join('\n');
+};
+
+const rewriteMPD = (text: string, lookup: (reference: string) => string): string => {
+  return text.replace(
+    /\b(sourceURL|media|initialization)="([^"]+)"/g,
+    (_, attribute: string, reference: string) => `${attribute}="${lookup(reference)}"`
+  );
+};
+
+/**
+ * Expose an in-memory ABR bundle as blob URLs that a playback engine can load.
+ * Call revoke() once the player no longer needs the bundle.
+ */
+export const createBundleSource = (bundle: AdaptiveBundle): BundleSource => {
+  const urls = new Map<string, string>();
+
+  const createUrl = (file: AdaptiveBundleFile, data: BlobPart): void => {
+    urls.set(file.path, URL.createObjectURL(new Blob([data], { type: file.mimeType })));
+  };
+
+  const lookup = (reference: string): string => {
+    return urls.get(reference) ?? urls.get(reference.split('/').pop() || '') ?? reference;
+  };
+
+  const rewrite = (file: AdaptiveBundleFile): string => {
+    const text = new TextDecoder().decode(file.data);
+    return bundle.format === 'hls' ? rewriteHLSPlaylist(text, lookup) : rewriteMPD(text, lookup);
+  };
+
+  // Segments first, then variant playlists, then the manifest that references them
+  const manifest = bundle.files.find(file => file.path === bundle.manifestPath);
+  if (!manifest) {
+    throw new Error(`Bundle is missing its manifest: ${bundle.manifestPath}`);
+  }
+
+  bundle.files.filter(file => !isManifest(file)).forEach(file => createUrl(file, file.data as BlobPart));
+  bundle.files
+    .filter(file => isManifest(file) && file !== manifest)
+    .forEach(file => createUrl(file, rewrite(file)));
+  createUrl(manifest, rewrite(manifest));
+
+  return {
+    url: urls.get(manifest.path)!,
+    engine: bundle.format,
+    revoke: () => {
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    }
+  };
+};
@@ -1,4 +1,61 @@
-import { MSEConfig, MSEBuffer, MSEMetrics } from '../types/player';
+import {
+  DASHAdaptationSet,
+  DASHRepresentation,
+  HLSVariant,
+  IndexedSegment,
+  MSEConfig,
+  MSEBuffer,
+  MSEMetrics,
+  RenditionSegmentIndex,
+  SegmentCacheStats,
+  SegmentLoadEvent,
+  SegmentRef
+} from '../types/player';
+import { SegmentLoader, SegmentLoaderConfig, createSegmentLoader } from './segmentLoader';
+import { SegmentCache, SegmentCacheConfig, createSegmentCache } from './segmentCache';
+import { AbrConfig, AbrController, createAbrController } from './abrRules';
+import { BandwidthEstimator, BandwidthEstimatorConfig, createBandwidthEstimator } from './bandwidthEstimator';
+import { QoEModel, QoEModelConfig, QoERating, QoETracker, createQoEModel } from './qoeModel';
+import {
+  alignSegmentIndex,
+  createDASHSegmentIndex,
+  createHLSSegmentIndex,
+  findSegmentAt,
+  getSegmentKey
+} from './segmentIndex';
+import { parseM3U8 } from './m3u8Parser';
+import { parseMPD } from './mpdParser';
+
+// Codecs assumed for renditions whose manifest doesn't name any
+const DEFAULT_CODECS = 'avc1.42E01E,mp4a.40.2';
+// Seconds kept behind the playhead when a full SourceBuffer needs room
+const BACK_BUFFER_LENGTH = 10;
+// Segments back from the live edge a live stream starts at
+const LIVE_EDGE_SEGMENTS = 3;
+// Media element events the QoE session is timed from
+const PLAYBACK_EVENTS = ['play', 'playing', 'waiting', 'pause'];
+
+const getMimeType = (quality: QualityLevel): string => `${quality.mimeType}; codecs="${quality.codec}"`;
+
+const hlsVariantToQuality = (variant: HLSVariant): QualityLevel => ({
+  id: variant.resolution ? `${variant.resolution.height}p` : `${Math.round(variant.bandwidth / 1000)}k`,
+  bitrate: variant.averageBandwidth || variant.bandwidth,
+  resolution: variant.resolution || { width: 0, height: 0 },
+  codec: variant.codecs || DEFAULT_CODECS,
+  mimeType: 'video/mp4',
+  url: variant.uri,
+  bandwidth: variant.bandwidth
+});
+
+const dashRepresentationToQuality = (representation: DASHRepresentation, manifestUrl: string): QualityLevel => ({
+  id: representation.id,
+  bitrate: representation.bandwidth,
+  resolution: { width: representation.width, height: representation.height },
+  codec: representation.codecs || DEFAULT_CODECS,
+  mimeType: representation.mimeType || 'video/mp4',
+  url: manifestUrl,
+  bandwidth: representation.bandwidth
+});
 
 export interface AdaptiveStreamingConfig {
   // Quality levels
@@ -15,6 +72,16 @@ export interface AdaptiveStreamingConfig {
   // Rebuffering prevention
   rebufferThreshold: number;
   qualitySwitchThreshold: number;
+  // Segment fetching: timeouts, retries and CDN failover
+  segmentLoader?: Partial<SegmentLoaderConfig>;
+  // Memory budget, eviction and persistence for fetched segments
+  segmentCache?: Partial<SegmentCacheConfig>;
+  // ABR rule set and its tuning; qualitySwitchThreshold is the throughput safety factor
+  abr?: Partial<AbrConfig>;
+  // Averaging of segment transfer timings into the bandwidth estimate
+  bandwidthEstimator?: Partial<BandwidthEstimatorConfig>;
+  // Weights of the QoE score behind userExperience
+  qoe?: Partial<QoEModelConfig>;
 }
 
 export interface QualityLevel {
@@ -23,6 +90,7 @@ export interface QualityLevel {
   resolution: { width: number; height: number };
   codec: string;
   mimeType: string;
+  // HLS media playlist or MPD the rendition's segment index comes from
   url: string;
   bandwidth: number;
 }
@@ -43,9 +111,99 @@ export interface AdaptiveMetrics {
   averageLatency: number;
   bufferHealth: number;
   networkStability: number;
-  userExperience: 'excellent' | 'good' | 'fair' | 'poor';
+  // 0-100, and its rating
+  qoeScore: number;
+  userExperience: QoERating;
 }
 
+// Milliseconds after a switch before the next non-emergency one
+export const QUALITY_SWITCH_COOLDOWN = 2000;
+
+export interface AdaptiveQualityState {
+  // Seconds buffered ahead of the playhead
+  bufferLevel: number;
+  throughput: number;
+  bandwidth: number;
+  networkStability: number;
+  // Within QUALITY_SWITCH_COOLDOWN of the last switch
+  inCooldown: boolean;
+}
+
+/**
+ * Rendition to start on, before any segment has been measured
+ */
+export const getInitialQuality = (qualities: QualityLevel[], bandwidth: number): QualityLevel | null => {
+  // Skip placeholders without a bitrate (e.g. "auto"), unless nothing
+  // declares one, as with a lone media playlist
+  const measured = qualities.filter(q => q.bitrate > 0);
+  const candidates = measured.length > 0 ? measured : qualities;
+
+  // Start with conservative quality
+  let selectedQuality = candidates.find(q => q.bitrate <= 500000); // 500kbps
+
+  // If we have good network, start higher
+  if (bandwidth > 2000000) { // 2Mbps
+    selectedQuality = candidates.find(q => q.bitrate <= 2000000);
+  }
+
+  // If we have excellent network, start with highest quality
+  if (bandwidth > 5000000) { // 5Mbps
+    selectedQuality = candidates[candidates.length - 1];
+  }
+
+  return selectedQuality || candidates[0] || null;
+};
+
+/**
+ * The rendition the ABR rules want next, or null to stay on `current`. The
+ * engine and the headless simulator both decide through here. A strong
+ * (emergency) decision goes through despite the switch cooldown.
+ */
+export const selectAdaptiveQuality = (
+  controller: AbrController,
+  qualities: QualityLevel[],
+  current: QualityLevel,
+  state: AdaptiveQualityState,
+  config: AdaptiveStreamingConfig
+): QualityLevel | null => {
+  // Placeholder renditions without a bitrate (e.g. "auto") can't be chosen
+  const candidates = qualities.filter(quality => quality.bitrate > 0);
+  const decision = controller.decide({
+    bitrates: candidates.map(quality => quality.bitrate),
+    currentIndex: Math.max(0, candidates.findIndex(quality => quality.id === current.id)),
+    bufferLevel: state.bufferLevel,
+    bufferTarget: config.targetBufferLength,
+    minBufferLength: config.minBufferLength,
+    segmentDuration: config.segmentDuration,
+    throughput: state.throughput,
+    bandwidth: state.bandwidth,
+    networkStability: state.networkStability,
+    safetyFactor: config.qualitySwitchThreshold
+  });
+  if (!decision || (state.inCooldown && decision.priority !== 'strong')) return null;
+
+  const quality = candidates[decision.index];
+  return quality && quality.id !== current.id ? quality : null;
+};
+
+/**
+ * Network stability (0-100) from how much recent transfer bandwidths vary
+ * around their mean
+ */
+export const getNetworkStability = (recentBandwidths: number[]): number => {
+  if (recentBandwidths.length < 2) return 100;
+
+  const average = recentBandwidths.reduce((sum, bandwidth) => sum + bandwidth, 0) / recentBandwidths.length;
+  if (average <= 0) return 0;
+  const variance = recentBandwidths.reduce((sum, bandwidth) => {
+    const diff = bandwidth - average;
+    return sum + (diff * diff);
+  }, 0) / recentBandwidths.length;
+
+  // A standard deviation as large as the mean is no stability at all
+  return Math.max(0, 100 * (1 - Math.sqrt(variance) / average));
+};
+
 export class AdaptiveStreamingEngine {
   private mediaSource: MediaSource | null = null;
   private sourceBuffer: SourceBuffer | null = null;
@@ -55,22 +213,76 @@ export class AdaptiveStreamingEngine {
   private networkMetrics: NetworkMetrics;
   private adaptiveMetrics: AdaptiveMetrics;
   private bufferSegments: MSEBuffer[] = [];
-  private qualityHistory: string[] = [];
   private rebufferingEvents: number[] = [];
   private networkMonitorInterval: NodeJS.Timeout | null = null;
   private bufferMonitorInterval: NodeJS.Timeout | null = null;
   private isPlaying: boolean = false;
   private isBuffering: boolean = false;
-  private lastSegmentTime: number = 0;
-  private segmentQueue: ArrayBuffer[] = [];
   private qualitySwitchCooldown: number = 0;
+  private manualQualityId: string | null = null;
+  private segmentLoader: SegmentLoader;
+  private segmentCache: SegmentCache;
+  private abrController: AbrController;
+  private bandwidthEstimator: BandwidthEstimator;
+  private qoeModel: QoEModel;
+  private qoeTracker: QoETracker = new QoETracker();
+
+  // Segment pipeline
+  private qualities: QualityLevel[];
+  private renditionIndexes: Map<string, Promise<RenditionSegmentIndex>> = new Map();
+  // When each rendition's index was last requested, for live reloads
+  private indexLoadedAt: Map<string, number> = new Map();
+  // The live index fillBuffer last used; reloads and new renditions line up with it
+  private liveTimeline: RenditionSegmentIndex | null = null;
+  private bufferQueue: Promise<void> = Promise.resolve();
+  private bufferMimeType: string = '';
+  private appendedInitKey: string | null = null;
+  // Timeline position (seconds) of the next segment to fetch
+  private nextSegmentTime: number = 0;
+  private seekGeneration: number = 0;
+  private isFilling: boolean = false;
+  private streamEnded: boolean = false;
 
   constructor(config: AdaptiveStreamingConfig) {
     this.config = config;
+    this.qualities = [...config.qualities];
     this.networkMetrics = this.initializeNetworkMetrics();
     this.adaptiveMetrics = this.initializeAdaptiveMetrics();
+    this.segmentLoader = createSegmentLoader(config.segmentLoader);
+    this.segmentLoader.on('load', this.handleSegmentLoad);
+    this.segmentCache = createSegmentCache(config.segmentCache);
+    this.abrController = createAbrController(config.abr);
+    this.bandwidthEstimator = createBandwidthEstimator(config.bandwidthEstimator);
+    this.qoeModel = createQoEModel(config.qoe);
   }
 
+  // Real segment downloads are the only bandwidth samples
+  private handleSegmentLoad = ({ kind, bytes, ttfb, duration }: SegmentLoadEvent): void => {
+    if (kind !== 'segment') return;
+    this.bandwidthEstimator.addSample({ bytes, ttfb, duration });
+    this.abrController.onSample({ bytes, duration });
+    Object.assign(this.networkMetrics, this.bandwidthEstimator.getEstimate());
+    this.adaptiveMetrics.averageLatency = this.networkMetrics.latency;
+  };
+
+  private handlePlaybackEvent = (event: Event): void => {
+    switch (event.type) {
+      case 'play':
+        this.qoeTracker.play();
+        break;
+      case 'playing':
+        this.qoeTracker.playing();
+        break;
+      case 'waiting':
+        // Waiting on a seek is the viewer's doing, not a stall
+        if (!this.videoElement?.seeking) this.qoeTracker.stall();
+        break;
+      case 'pause':
+        this.qoeTracker.pause();
+        break;
+    }
+  };
+
   private initializeNetworkMetrics(): NetworkMetrics {
     return {
       bandwidth: 0,
@@ -90,15 +302,23 @@ export class AdaptiveStreamingEngine {
       averageLatency: 0,
       bufferHealth: 100,
       networkStability: 100,
-      userExperience: 'good'
+      qoeScore: 100,
+      userExperience: 'excellent'
     };
   }
 
   /**
-   * Initialize the adaptive streaming engine
+   * Initialize the adaptive streaming engine. With a manifest URL (HLS
+   * master playlist or MPD) the rendition ladder comes from the manifest;
+   * without one, each of config.qualities names its own media playlist.
    */
-  async initialize(videoElement: HTMLVideoElement): Promise<void> {
+  async initialize(videoElement: HTMLVideoElement, manifestUrl?: string): Promise<void> {
     this.videoElement = videoElement;
+    if (manifestUrl) {
+      await this.loadManifest(manifestUrl);
+    }
+    videoElement.addEventListener('seeking', this.handleSeeking);
+    PLAYBACK_EVENTS.forEach(type => videoElement.addEventListener(type, this.handlePlaybackEvent));
     
     // Create MediaSource
     this.mediaSource = new MediaSource();
@@ -116,6 +336,7 @@ export class AdaptiveStreamingEngine {
         try {
           await this.setupSourceBuffer();
           this.startMonitoring();
+          this.fillBuffer();
           resolve();
         } catch (error) {
           reject(error);
@@ -135,21 +356,22 @@ export class AdaptiveStreamingEngine {
     if (!this.mediaSource) throw new Error('MediaSource not initialized');
 
     // Select initial quality based on network conditions
-    this.currentQuality = this.selectInitialQuality();
+    this.updateNetworkMetrics();
+    this.currentQuality = getInitialQuality(this.qualities, this.networkMetrics.bandwidth);
     
     if (!this.currentQuality) {
       throw new Error('No suitable quality level found');
     }
 
-    // Create source buffer with current quality codec
-    this.sourceBuffer = this.mediaSource.addSourceBuffer(
-      `${this.currentQuality.mimeType}; codecs="${this.currentQuality.codec}"`
-    );
+    // One SourceBuffer for the whole session; renditions swap init segments
+    this.bufferMimeType = getMimeType(this.currentQuality);
+    this.sourceBuffer = this.mediaSource.addSourceBuffer(this.bufferMimeType);
 
     // Configure source buffer for optimal performance
     this.configureSourceBuffer();
     
     this.adaptiveMetrics.currentQuality = this.currentQuality.id;
+    this.qoeTracker.setBitrate(this.currentQuality.bitrate);
   }
 
   /**
@@ -168,31 +390,8 @@ export class AdaptiveStreamingEngine {
       this.handleBufferError();
     });
 
-    // Configure buffer management
-    this.sourceBuffer.mode = 'sequence';
-  }
-
-  /**
-   * Select initial quality based on network conditions
-   */
-  private selectInitialQuality(): QualityLevel | null {
-    const { qualities } = this.config;
-    const { bandwidth } = this.networkMetrics;
-
-    // Start with conservative quality
-    let selectedQuality = qualities.find(q => q.bitrate <= 500000); // 500kbps
-
-    // If we have good network, start higher
-    if (bandwidth > 2000000) { // 2Mbps
-      selectedQuality = qualities.find(q => q.bitrate <= 2000000);
-    }
-
-    // If we have excellent network, start with highest quality
-    if (bandwidth > 5000000) { // 5Mbps
-      selectedQuality = qualities[qualities.length - 1];
-    }
-
-    return selectedQuality || qualities[0];
+    // Media timestamps place each segment, whichever rendition it came from
+    this.sourceBuffer.mode = 'segments';
   }
 
   /**
@@ -208,180 +407,78 @@ export class AdaptiveStreamingEngine {
     // Monitor buffer health
     this.bufferMonitorInterval = setInterval(() => {
       this.monitorBufferHealth();
-      this.preventRebuffering();
+      this.updateUserExperience();
+      this.fillBuffer();
     }, 1000); // Check every second
   }
 
   /**
-   * Update network metrics using various methods
+   * Update network metrics. Bandwidth, throughput, latency and jitter come
+   * from segment transfers; the Network Information API only gives the
+   * connection type and a bandwidth hint until the first transfer.
    */
-  private async updateNetworkMetrics(): Promise<void> {
-    try {
-      // Use Network Information API if available
-      if ('connection' in navigator) {
-        const connection = (navigator as any).connection;
-        this.networkMetrics.connectionType = connection.effectiveType || 'wifi';
-        this.networkMetrics.bandwidth = connection.downlink * 1000000; // Convert to bps
+  private updateNetworkMetrics(): void {
+    if (typeof navigator !== 'undefined' && 'connection' in navigator) {
+      const connection = (navigator as any).connection;
+      this.networkMetrics.connectionType = connection.effectiveType || 'wifi';
+      if (!this.bandwidthEstimator.hasSamples() && connection.downlink > 0) {
+        this.bandwidthEstimator.setHint(connection.downlink * 1000000); // Convert to bps
       }
-
-      // Measure actual throughput
-      await this.measureThroughput();
-      
-      // Calculate network stability
-      this.calculateNetworkStability();
-      
-    } catch (error) {
-      console.warn('Failed to update network metrics:', error);
     }
-  }
+    Object.assign(this.networkMetrics, this.bandwidthEstimator.getEstimate());
 
-  /**
-   * Measure actual network throughput
-   */
-  private async measureThroughput(): Promise<void> {
-    const startTime = performance.now();
-    
-    try {
-      // Make a small request to measure throughput
-      const response = await fetch('/api/network-test', {
-        method: 'HEAD',
-        cache: 'no-cache'
-      });
-      
-      const endTime = performance.now();
-      const duration = endTime - startTime;
-      
-      if (response.ok && duration > 0) {
-        // Estimate bandwidth based on response time
-        const estimatedBandwidth = (response.headers.get('content-length') || '1000') as number;
-        this.networkMetrics.throughput = (estimatedBandwidth * 8) / (duration / 1000);
-      }
-    } catch (error) {
-      // Fallback to conservative estimate
-      this.networkMetrics.throughput = 1000000; // 1Mbps
-    }
+    // Calculate network stability
+    this.calculateNetworkStability();
   }
 
   /**
-   * Calculate network stability based on recent measurements
+   * Calculate network stability from recent segment transfers
    */
   private calculateNetworkStability(): void {
-    // Simple stability calculation based on bandwidth variance
-    const recentBandwidths = this.qualityHistory.slice(-10);
-    if (recentBandwidths.length < 2) {
-      this.adaptiveMetrics.networkStability = 100;
-      return;
-    }
-
-    const avgBandwidth = recentBandwidths.reduce((sum, q) => {
-      const quality = this.config.qualities.find(ql => ql.id === q);
-      return sum + (quality?.bitrate || 0);
-    }, 0) / recentBandwidths.length;
-
-    const variance = recentBandwidths.reduce((sum, q) => {
-      const quality = this.config.qualities.find(ql => ql.id === q);
-      const diff = (quality?.bitrate || 0) - avgBandwidth;
-      return sum + (diff * diff);
-    }, 0) / recentBandwidths.length;
-
-    // Convert variance to stability percentage (lower variance = higher stability)
-    this.adaptiveMetrics.networkStability = Math.max(0, 100 - (variance / avgBandwidth) * 100);
+    this.adaptiveMetrics.networkStability = getNetworkStability(this.bandwidthEstimator.getRecentBandwidths());
   }
 
   /**
-   * Adapt quality based on current conditions
+   * Adapt quality to what the ABR rules decide
    */
   private adaptQuality(): void {
-    if (!this.currentQuality || this.qualitySwitchCooldown > 0) return;
-
-    const { bandwidth, throughput } = this.networkMetrics;
-    const { bufferHealth, networkStability } = this.adaptiveMetrics;
-    
-    // Calculate target bitrate based on available bandwidth
-    const availableBandwidth = Math.min(bandwidth, throughput);
-    const targetBitrate = availableBandwidth * 0.8; // Use 80% of available bandwidth
-
-    // Find appropriate quality level
-    const newQuality = this.selectQualityForBitrate(targetBitrate);
-    
-    if (newQuality && newQuality.id !== this.currentQuality.id) {
+    if (!this.currentQuality || this.manualQualityId) return;
+
+    const newQuality = selectAdaptiveQuality(this.abrController, this.qualities, this.currentQuality, {
+      bufferLevel: this.getBufferAhead(),
+      throughput: this.networkMetrics.throughput,
+      bandwidth: this.networkMetrics.bandwidth,
+      networkStability: this.adaptiveMetrics.networkStability,
+      inCooldown: this.qualitySwitchCooldown > 0
+    }, this.config);
+    if (newQuality) {
       this.switchQuality(newQuality);
     }
   }
 
   /**
-   * Select quality level based on target bitrate
+   * Seconds buffered ahead of the playhead
    */
-  private selectQualityForBitrate(targetBitrate: number): QualityLevel | null {
-    const { qualities } = this.config;
-    
-    // Find the highest quality that fits within the target bitrate
-    let selectedQuality = qualities[0];
-    
-    for (const quality of qualities) {
-      if (quality.bitrate <= targetBitrate) {
-        selectedQuality = quality;
-      } else {
-        break;
-      }
-    }
-
-    return selectedQuality;
+  private getBufferAhead(): number {
+    if (!this.videoElement || !this.sourceBuffer || this.sourceBuffer.buffered.length === 0) return 0;
+    const { buffered } = this.sourceBuffer;
+    return Math.max(0, buffered.end(buffered.length - 1) - this.videoElement.currentTime);
   }
 
   /**
-   * Switch to a new quality level
+   * Switch to a new quality level. The SourceBuffer stays; the next segment
+   * comes from the new rendition, preceded by its init segment.
    */
-  private async switchQuality(newQuality: QualityLevel): Promise<void> {
-    if (!this.mediaSource || !this.sourceBuffer) return;
-
-    try {
-      // Add new source buffer for new quality
-      const newSourceBuffer = this.mediaSource.addSourceBuffer(
-        `${newQuality.mimeType}; codecs="${newQuality.codec}"`
-      );
-
-      // Copy current buffer to new source buffer
-      if (this.sourceBuffer.buffered.length > 0) {
-        const currentTime = this.videoElement?.currentTime || 0;
-        const bufferStart = this.sourceBuffer.buffered.start(0);
-        const bufferEnd = this.sourceBuffer.buffered.end(0);
-        
-        // Only copy relevant portion
-        if (currentTime >= bufferStart && currentTime <= bufferEnd) {
-          const segmentData = await this.extractBufferSegment(bufferStart, bufferEnd);
-          if (segmentData) {
-            newSourceBuffer.appendBuffer(segmentData);
-          }
-        }
-      }
-
-      // Remove old source buffer
-      this.mediaSource.removeSourceBuffer(this.sourceBuffer);
-      this.sourceBuffer = newSourceBuffer;
-      this.configureSourceBuffer();
-
-      // Update metrics
-      this.currentQuality = newQuality;
-      this.adaptiveMetrics.currentQuality = newQuality.id;
-      this.adaptiveMetrics.qualitySwitches++;
-      this.qualityHistory.push(newQuality.id);
-      this.qualitySwitchCooldown = 2000; // 2 second cooldown
-
-      console.log(`Quality switched to: ${newQuality.id} (${newQuality.bitrate}bps)`);
+  private switchQuality(newQuality: QualityLevel): void {
+    if (!this.sourceBuffer) return;
 
-    } catch (error) {
-      console.error('Failed to switch quality:', error);
-    }
-  }
+    this.currentQuality = newQuality;
+    this.adaptiveMetrics.currentQuality = newQuality.id;
+    this.adaptiveMetrics.qualitySwitches++;
+    this.qoeTracker.setBitrate(newQuality.bitrate);
+    this.qualitySwitchCooldown = QUALITY_SWITCH_COOLDOWN;
 
-  /**
-   * Extract buffer segment for quality switching
-   */
-  private async extractBufferSegment(start: number, end: number): Promise<ArrayBuffer | null> {
-    // This is a simplified implementation
-    // In a real implementation, you'd need to properly extract segments
-    return null;
+    console.log(`Quality switched to: ${newQuality.id} (${newQuality.bitrate}bps)`);
   }
 
   /**
@@ -392,6 +489,7 @@ export class AdaptiveStreamingEngine {
 
     const currentTime = this.videoElement.currentTime;
     const buffered = this.sourceBuffer.buffered;
+    this.segmentCache.setPlayhead(currentTime);
     
     if (buffered.length === 0) {
       this.adaptiveMetrics.bufferHealth = 0;
@@ -411,6 +509,22 @@ export class AdaptiveStreamingEngine {
     }
   }
 
+  /**
+   * Score the session so far: startup, stalls, bitrate, switches and
+   * dropped frames
+   */
+  private updateUserExperience(): void {
+    const playbackQuality = this.videoElement?.getVideoPlaybackQuality?.();
+    const { score, rating } = this.qoeModel.score({
+      ...this.qoeTracker.getPlayback(),
+      topBitrate: Math.max(0, ...this.qualities.map(quality => quality.bitrate)),
+      droppedFrames: playbackQuality?.droppedVideoFrames ?? 0,
+      totalFrames: playbackQuality?.totalVideoFrames ?? 0
+    });
+    this.adaptiveMetrics.qoeScore = score;
+    this.adaptiveMetrics.userExperience = rating;
+  }
+
   /**
    * Handle rebuffering risk by taking preventive measures
    */
@@ -419,58 +533,306 @@ export class AdaptiveStreamingEngine {
 
     console.log('Rebuffering risk detected, taking preventive measures');
     
-    // Switch to lower quality to reduce bandwidth requirements
-    const currentIndex = this.config.qualities.findIndex(q => q.id === this.currentQuality?.id);
-    if (currentIndex > 0) {
-      const lowerQuality = this.config.qualities[currentIndex - 1];
-      this.switchQuality(lowerQuality);
-    }
+    // Let the rules (the insufficient-buffer one, if enabled) drop quality now
+    this.adaptQuality();
 
     // Preload more content
-    this.preloadContent();
+    this.fillBuffer();
   }
 
   /**
-   * Prevent rebuffering by preloading content
+   * Fetch and append segments of the current rendition from the timeline
+   * position onward, until targetBufferLength is buffered ahead
    */
-  private async preloadContent(): Promise<void> {
-    if (!this.currentQuality) return;
+  private async fillBuffer(): Promise<void> {
+    if (this.isFilling || this.streamEnded || !this.videoElement || !this.sourceBuffer) return;
+    this.isFilling = true;
 
     try {
-      // Fetch next segments
-      const nextSegments = await this.fetchNextSegments(3); // Preload 3 segments
-      
-      for (const segment of nextSegments) {
-        if (this.sourceBuffer && !this.sourceBuffer.updating) {
-          this.sourceBuffer.appendBuffer(segment);
+      while (this.currentQuality && this.nextSegmentTime - this.videoElement.currentTime < this.config.targetBufferLength) {
+        const quality = this.currentQuality;
+        let index = await this.getRenditionIndex(quality);
+        if (!index.isLive && this.mediaSource && Number.isNaN(this.mediaSource.duration)) {
+          const { duration } = index;
+          await this.enqueue(() => {
+            if (this.mediaSource) this.mediaSource.duration = duration;
+          });
+        }
+        if (index.isLive && !this.liveTimeline) {
+          this.startAtLiveEdge(index);
+        }
+
+        let position = findSegmentAt(index, this.nextSegmentTime);
+        if (position === -1 && index.isLive) {
+          index = await this.reloadLiveIndex(quality, index);
+          position = findSegmentAt(index, this.nextSegmentTime);
+        }
+        if (index.isLive) this.liveTimeline = index;
+        if (position === -1) {
+          if (!index.isLive) await this.endStream();
+          break;
+        }
+
+        const generation = this.seekGeneration;
+        const segment = index.segments[position];
+        await this.appendSegment(quality, segment);
+        // A seek while the segment loaded has already moved the timeline
+        if (generation !== this.seekGeneration) continue;
+
+        this.nextSegmentTime = segment.start + segment.duration;
+        if (!index.isLive && position === index.segments.length - 1) {
+          await this.endStream();
+          break;
         }
       }
     } catch (error) {
-      console.error('Failed to preload content:', error);
+      console.error('Failed to fill buffer:', error);
+      this.handleBufferError();
+    } finally {
+      this.isFilling = false;
     }
   }
 
-  /**
-   * Fetch next segments for preloading
-   */
-  private async fetchNextSegments(count: number): Promise<ArrayBuffer[]> {
-    if (!this.currentQuality) return [];
+  // The init segment goes in first whenever the rendition (or its init) changes
+  private async appendSegment(quality: QualityLevel, segment: IndexedSegment): Promise<void> {
+    const { init } = segment;
+    const initKey = init ? getSegmentKey(init) : null;
+    const [initData, data] = await Promise.all([
+      init && initKey !== this.appendedInitKey ? this.loadCachedSegment(init) : null,
+      this.loadCachedSegment(segment, segment.start)
+    ]);
+
+    await this.enqueue(async () => {
+      const mimeType = getMimeType(quality);
+      if (mimeType !== this.bufferMimeType && this.sourceBuffer?.changeType) {
+        this.sourceBuffer.changeType(mimeType);
+        this.bufferMimeType = mimeType;
+      }
+      if (initData) {
+        await this.appendToBuffer(initData);
+        this.appendedInitKey = initKey;
+      }
+      await this.appendToBuffer(data);
+    });
+  }
+
+  private loadCachedSegment(ref: SegmentRef, time?: number): Promise<ArrayBuffer> {
+    return this.segmentCache.getOrLoad(
+      getSegmentKey(ref),
+      () => this.segmentLoader.load({ url: ref.url, byteRange: ref.byteRange }),
+      time
+    );
+  }
+
+  // SourceBuffer work runs one task at a time, in the order it was queued
+  private enqueue(task: () => void | Promise<void>): Promise<void> {
+    const run = this.bufferQueue.then(task);
+    this.bufferQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async appendToBuffer(data: ArrayBuffer): Promise<void> {
+    try {
+      await this.updateBuffer(buffer => buffer.appendBuffer(data));
+    } catch (error) {
+      // A full buffer gets one retry after dropping what's well behind the playhead
+      if ((error as { name?: string }).name !== 'QuotaExceededError' || !(await this.evictBackBuffer())) {
+        throw error;
+      }
+      await this.updateBuffer(buffer => buffer.appendBuffer(data));
+    }
+  }
+
+  private async evictBackBuffer(): Promise<boolean> {
+    const buffered = this.sourceBuffer?.buffered;
+    const end = (this.videoElement?.currentTime || 0) - BACK_BUFFER_LENGTH;
+    if (!buffered || buffered.length === 0 || end <= buffered.start(0)) return false;
+
+    await this.updateBuffer(buffer => buffer.remove(0, end));
+    return true;
+  }
+
+  // Resolves on the updateend of the update started by `update`
+  private updateBuffer(update: (buffer: SourceBuffer) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const buffer = this.sourceBuffer;
+      if (!buffer) {
+        reject(new Error('SourceBuffer not initialized'));
+        return;
+      }
+
+      const finish = (error?: unknown) => {
+        buffer.removeEventListener('updateend', handleUpdateEnd);
+        buffer.removeEventListener('error', handleError);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      const handleUpdateEnd = () => finish();
+      const handleError = () => finish(new Error('SourceBuffer update failed'));
+      buffer.addEventListener('updateend', handleUpdateEnd);
+      buffer.addEventListener('error', handleError);
 
-    const segments: ArrayBuffer[] = [];
-    
-    for (let i = 0; i < count; i++) {
       try {
-        const segmentUrl = `${this.currentQuality.url}?segment=${i}`;
-        const response = await fetch(segmentUrl);
-        const segment = await response.arrayBuffer();
-        segments.push(segment);
+        update(buffer);
       } catch (error) {
-        console.error(`Failed to fetch segment ${i}:`, error);
-        break;
+        finish(error);
+      }
+    });
+  }
+
+  private endStream(): Promise<void> {
+    this.streamEnded = true;
+    return this.enqueue(() => {
+      if (this.mediaSource?.readyState === 'open') {
+        this.mediaSource.endOfStream();
+      }
+    });
+  }
+
+  // A seek outside the buffer restarts fetching at the new position
+  private handleSeeking = (): void => {
+    if (!this.videoElement || this.isBuffered(this.videoElement.currentTime)) return;
+    // Already where fetching carries on from, e.g. the live start position
+    if (this.videoElement.currentTime === this.nextSegmentTime) return;
+
+    this.seekGeneration++;
+    this.nextSegmentTime = this.videoElement.currentTime;
+    this.streamEnded = false;
+    this.fillBuffer();
+  };
+
+  private isBuffered(time: number): boolean {
+    const buffered = this.sourceBuffer?.buffered;
+    if (!buffered) return false;
+
+    for (let i = 0; i < buffered.length; i++) {
+      if (time >= buffered.start(i) && time < buffered.end(i)) return true;
+    }
+    return false;
+  }
+
+  // Live streams start a few segments back from the newest one, not at the oldest
+  private startAtLiveEdge(index: RenditionSegmentIndex): void {
+    const first = index.segments[0];
+    const last = index.segments[index.segments.length - 1];
+    if (!this.videoElement || !first || !last) return;
+
+    const edge = last.start + last.duration;
+    this.nextSegmentTime = Math.max(first.start, edge - LIVE_EDGE_SEGMENTS * last.duration);
+    this.videoElement.currentTime = this.nextSegmentTime;
+  }
+
+  /**
+   * Reload a live index that has run out of segments, at most once per
+   * segment duration; until then the index comes back as it was
+   */
+  private async reloadLiveIndex(quality: QualityLevel, index: RenditionSegmentIndex): Promise<RenditionSegmentIndex> {
+    const last = index.segments[index.segments.length - 1];
+    const interval = (last?.duration || this.config.segmentDuration) * 1000;
+    if (performance.now() - (this.indexLoadedAt.get(quality.id) ?? -Infinity) < interval) return index;
+
+    this.renditionIndexes.delete(quality.id);
+    return this.getRenditionIndex(quality);
+  }
+
+  private getRenditionIndex(quality: QualityLevel): Promise<RenditionSegmentIndex> {
+    let index = this.renditionIndexes.get(quality.id);
+    if (!index) {
+      index = this.loadRenditionIndex(quality).then(loaded => {
+        return loaded.isLive && this.liveTimeline ? alignSegmentIndex(this.liveTimeline, loaded) : loaded;
+      });
+      // Let a failed playlist request be retried on the next fill
+      index.catch(() => this.renditionIndexes.delete(quality.id));
+      this.setRenditionIndex(quality.id, index);
+    }
+    return index;
+  }
+
+  private setRenditionIndex(id: string, index: Promise<RenditionSegmentIndex>): void {
+    this.renditionIndexes.set(id, index);
+    this.indexLoadedAt.set(id, performance.now());
+  }
+
+  // An HLS media playlist, or the rendition's video representation of an MPD
+  private async loadRenditionIndex(quality: QualityLevel): Promise<RenditionSegmentIndex> {
+    const { url } = quality;
+    const text = await this.loadText(url);
+    if (text.trimStart().startsWith('#EXTM3U')) {
+      const playlist = parseM3U8(text, { baseUrl: url });
+      if (playlist.type === 'master') {
+        throw new Error(`Expected a media playlist for a rendition, got a master playlist: ${url}`);
       }
+      return createHLSSegmentIndex(playlist);
     }
 
-    return segments;
+    const manifest = parseMPD(text, { baseUrl: url });
+    const representations = this.getDASHVideoRepresentations(manifest.periods[0]?.adaptationSets || []);
+    const representation = representations.find(({ id }) => id === quality.id) || representations[0];
+    if (!representation) {
+      throw new Error(`No video representation in ${url}`);
+    }
+    return createDASHSegmentIndex(manifest, representation.id);
+  }
+
+  /**
+   * Take the rendition ladder from an HLS master playlist or an MPD. HLS
+   * media playlists load when their rendition is first played.
+   */
+  private async loadManifest(url: string): Promise<void> {
+    const text = await this.loadText(url);
+    this.renditionIndexes.clear();
+    this.liveTimeline = null;
+
+    if (text.trimStart().startsWith('#EXTM3U')) {
+      const playlist = parseM3U8(text, { baseUrl: url });
+      if (playlist.type === 'media') {
+        const quality = { ...hlsVariantToQuality({ uri: url, bandwidth: 0 }), id: 'default' };
+        this.setQualities([quality]);
+        this.setRenditionIndex(quality.id, Promise.resolve(createHLSSegmentIndex(playlist)));
+      } else {
+        this.setQualities(playlist.variants.map(hlsVariantToQuality));
+      }
+      return;
+    }
+
+    const manifest = parseMPD(text, { baseUrl: url });
+    const representations = this.getDASHVideoRepresentations(manifest.periods[0]?.adaptationSets || []);
+    this.setQualities(representations.map(representation => dashRepresentationToQuality(representation, url)));
+    representations.forEach(({ id }) => {
+      this.setRenditionIndex(id, Promise.resolve(createDASHSegmentIndex(manifest, id)));
+    });
+  }
+
+  private getDASHVideoRepresentations(adaptationSets: DASHAdaptationSet[]): DASHRepresentation[] {
+    return adaptationSets
+      .filter(adaptationSet => adaptationSet.type === 'video')
+      .flatMap(adaptationSet => adaptationSet.representations);
+  }
+
+  // Lowest bitrate first, with unique ids
+  private setQualities(qualities: QualityLevel[]): void {
+    if (qualities.length === 0) {
+      throw new Error('Manifest has no playable video renditions');
+    }
+
+    const ids = new Set<string>();
+    this.qualities = [...qualities]
+      .sort((a, b) => a.bitrate - b.bitrate)
+      .map(quality => {
+        let id = quality.id;
+        for (let n = 2; ids.has(id); n++) {
+          id = `${quality.id}-${n}`;
+        }
+        ids.add(id);
+        return { ...quality, id };
+      });
+  }
+
+  private async loadText(url: string): Promise<string> {
+    return new TextDecoder().decode(await this.segmentLoader.load({ url, kind: 'manifest' }));
   }
 
   /**
@@ -493,7 +855,7 @@ export class AdaptiveStreamingEngine {
     
     // Try to recover by switching to a more stable quality
     if (this.currentQuality) {
-      const stableQuality = this.config.qualities.find(q => q.bitrate < this.currentQuality!.bitrate);
+      const stableQuality = this.qualities.find(q => q.bitrate < this.currentQuality!.bitrate);
       if (stableQuality) {
         this.switchQuality(stableQuality);
       }
@@ -504,27 +866,44 @@ export class AdaptiveStreamingEngine {
    * Load a video segment
    */
   async loadSegment(segmentUrl: string): Promise<void> {
-    if (!this.sourceBuffer || this.sourceBuffer.updating) {
-      // Queue the segment if buffer is busy
-      const response = await fetch(segmentUrl);
-      const segment = await response.arrayBuffer();
-      this.segmentQueue.push(segment);
-      return;
-    }
-
     try {
-      const response = await fetch(segmentUrl);
-      const segment = await response.arrayBuffer();
-      
-      this.sourceBuffer.appendBuffer(segment);
-      this.lastSegmentTime = performance.now();
-      
+      const segment = await this.loadCachedSegment({ url: segmentUrl });
+      // Queued behind any append in progress
+      await this.enqueue(() => this.appendToBuffer(segment));
     } catch (error) {
       console.error('Failed to load segment:', error);
       this.handleBufferError();
     }
   }
 
+  /**
+   * Pin playback to a quality level, or pass null to resume automatic adaptation
+   */
+  setQuality(qualityId: string | null): void {
+    if (qualityId === null) {
+      this.manualQualityId = null;
+      return;
+    }
+
+    const quality = this.qualities.find(q => q.id === qualityId);
+    if (!quality) {
+      console.warn(`Quality level ${qualityId} not found`);
+      return;
+    }
+
+    this.manualQualityId = quality.id;
+    if (quality.id !== this.currentQuality?.id) {
+      this.switchQuality(quality);
+    }
+  }
+
+  /**
+   * The rendition ladder, lowest bitrate first when it came from a manifest
+   */
+  getQualities(): QualityLevel[] {
+    return [...this.qualities];
+  }
+
   /**
    * Get current adaptive metrics
    */
@@ -532,6 +911,20 @@ export class AdaptiveStreamingEngine {
     return { ...this.adaptiveMetrics };
   }
 
+  /**
+   * The loader behind every segment request; subscribe to its load events
+   */
+  getSegmentLoader(): SegmentLoader {
+    return this.segmentLoader;
+  }
+
+  /**
+   * Hit, miss and eviction counts and memory use of the segment cache
+   */
+  getCacheStats(): SegmentCacheStats {
+    return this.segmentCache.getStats();
+  }
+
   /**
    * Get network metrics
    */
@@ -558,6 +951,9 @@ export class AdaptiveStreamingEngine {
     if (this.bufferMonitorInterval) {
       clearInterval(this.bufferMonitorInterval);
     }
+    this.videoElement?.removeEventListener('seeking', this.handleSeeking);
+    PLAYBACK_EVENTS.forEach(type => this.videoElement?.removeEventListener(type, this.handlePlaybackEvent));
+    this.segmentCache.clear();
     
     if (this.mediaSource && this.mediaSource.readyState === 'open') {
       this.mediaSource.endOfStream();
@@ -0,0 +1,38 @@
+import { AudioPreference, AudioTrack } from '../types/player';
+
+// 'en-US' and 'en' share the primary language subtag
+const primaryLanguage = (language: string): string => language.toLowerCase().split(/[-_]/)[0];
+
+export const toAudioPreference = (track: AudioTrack): AudioPreference => ({
+  language: track.language,
+  descriptive: track.descriptive,
+});
+
+/**
+ * Pick the track that best fits a remembered preference: an exact language
+ * match over a primary-subtag match, and the preferred description setting
+ * within that. Returns null when no track is in the preferred language.
+ */
+export const selectPreferredAudioTrack = (tracks: AudioTrack[], preference: AudioPreference | null): AudioTrack | null => {
+  if (!preference?.language) return null;
+
+  const wanted = preference.language.toLowerCase();
+  const score = (track: AudioTrack): number => {
+    const language = track.language.toLowerCase();
+    let value = language === wanted ? 4 : primaryLanguage(language) === primaryLanguage(wanted) ? 2 : 0;
+    if (value && track.descriptive === preference.descriptive) value += 1;
+    return value;
+  };
+
+  let best: AudioTrack | null = null;
+  let bestScore = 0;
+  for (const track of tracks) {
+    const trackScore = score(track);
+    if (trackScore > bestScore) {
+      best = track;
+      bestScore = trackScore;
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,175 @@
+export interface BandwidthEstimatorConfig {
+  // Half-lives of the fast and slow averages, in bytes transferred
+  fastHalfLife: number;
+  slowHalfLife: number;
+  // Smaller transfers are mostly request overhead and aren't sampled
+  minSampleBytes: number;
+  // Estimate (bps) before any sample or startup hint
+  defaultEstimate: number;
+  // Number of recent transfers latency and jitter are taken over
+  latencyWindow: number;
+  // Number of recent transfer bandwidths kept for stability
+  stabilityWindow: number;
+}
+
+export const DEFAULT_BANDWIDTH_ESTIMATOR_CONFIG: BandwidthEstimatorConfig = {
+  fastHalfLife: 512 * 1024,
+  slowHalfLife: 4 * 1024 * 1024,
+  minSampleBytes: 16000,
+  defaultEstimate: 1000000,
+  latencyWindow: 10,
+  stabilityWindow: 10
+};
+
+/**
+ * One completed transfer, as reported by the segment loader
+ */
+export interface TransferSample {
+  bytes: number;
+  // Milliseconds to the response headers
+  ttfb: number;
+  // Milliseconds to the last byte
+  duration: number;
+}
+
+export interface BandwidthEstimate {
+  // Estimated link bandwidth, bps
+  bandwidth: number;
+  // What the last sampled transfer delivered end to end, bps
+  throughput: number;
+  // Average time to first byte, ms
+  latency: number;
+  // Average change in time to first byte between transfers, ms
+  jitter: number;
+}
+
+/**
+ * Exponentially weighted moving average where each sample carries a
+ * weight, corrected for its zero start so the first samples aren't dragged
+ * towards 0
+ */
+export class Ewma {
+  private alpha: number;
+  private estimate = 0;
+  private totalWeight = 0;
+
+  constructor(halfLife: number) {
+    this.alpha = Math.exp(Math.log(0.5) / halfLife);
+  }
+
+  sample(weight: number, value: number): void {
+    const adjustedAlpha = Math.pow(this.alpha, weight);
+    this.estimate = value * (1 - adjustedAlpha) + adjustedAlpha * this.estimate;
+    this.totalWeight += weight;
+  }
+
+  getEstimate(): number {
+    const zeroFactor = 1 - Math.pow(this.alpha, this.totalWeight);
+    return zeroFactor > 0 ? this.estimate / zeroFactor : 0;
+  }
+
+  reset(): void {
+    this.estimate = 0;
+    this.totalWeight = 0;
+  }
+}
+
+/**
+ * Bandwidth estimate from real segment transfers. Each transfer is timed
+ * from its first byte, so request latency doesn't read as low bandwidth,
+ * and weighted by its size, so a full segment outweighs a small part. A
+ * fast and a slow average are kept and the lower one is the estimate.
+ * A startup hint (e.g. the Network Information API) stands in until the
+ * first transfer is measured.
+ */
+export class BandwidthEstimator {
+  private config: BandwidthEstimatorConfig;
+  private fast: Ewma;
+  private slow: Ewma;
+  private samples = 0;
+  private hint: number | null = null;
+  private lastThroughput = 0;
+  private ttfbs: number[] = [];
+  private bandwidths: number[] = [];
+
+  constructor(config: BandwidthEstimatorConfig) {
+    this.config = config;
+    this.fast = new Ewma(config.fastHalfLife);
+    this.slow = new Ewma(config.slowHalfLife);
+  }
+
+  addSample({ bytes, ttfb, duration }: TransferSample): void {
+    if (duration <= 0) return;
+
+    this.ttfbs.push(ttfb);
+    if (this.ttfbs.length > this.config.latencyWindow) this.ttfbs.shift();
+
+    // A tiny transfer's rate is its request latency, not the link
+    if (bytes < this.config.minSampleBytes) return;
+    this.lastThroughput = (bytes * 8 * 1000) / duration;
+    // Fully buffered responses arrive with their headers; time them whole
+    const transferTime = duration > ttfb ? duration - ttfb : duration;
+    const bps = (bytes * 8 * 1000) / transferTime;
+    this.fast.sample(bytes, bps);
+    this.slow.sample(bytes, bps);
+    this.samples++;
+    this.bandwidths.push(bps);
+    if (this.bandwidths.length > this.config.stabilityWindow) this.bandwidths.shift();
+  }
+
+  /**
+   * Bandwidth (bps) to assume until a transfer has been measured
+   */
+  setHint(bandwidth: number): void {
+    this.hint = bandwidth > 0 ? bandwidth : null;
+  }
+
+  hasSamples(): boolean {
+    return this.samples > 0;
+  }
+
+  getBandwidth(): number {
+    if (this.samples > 0) {
+      return Math.min(this.fast.getEstimate(), this.slow.getEstimate());
+    }
+    return this.hint ?? this.config.defaultEstimate;
+  }
+
+  /**
+   * Bandwidth (bps) of each recent sampled transfer, oldest first
+   */
+  getRecentBandwidths(): number[] {
+    return [...this.bandwidths];
+  }
+
+  getEstimate(): BandwidthEstimate {
+    const { ttfbs } = this;
+    const latency = ttfbs.length > 0 ? ttfbs.reduce((sum, ttfb) => sum + ttfb, 0) / ttfbs.length : 0;
+    let jitter = 0;
+    for (let i = 1; i < ttfbs.length; i++) {
+      jitter += Math.abs(ttfbs[i] - ttfbs[i - 1]) / (ttfbs.length - 1);
+    }
+
+    return {
+      bandwidth: this.getBandwidth(),
+      throughput: this.lastThroughput,
+      latency,
+      jitter
+    };
+  }
+
+  reset(): void {
+    this.fast.reset();
+    this.slow.reset();
+    this.samples = 0;
+    this.lastThroughput = 0;
+    this.ttfbs = [];
+    this.bandwidths = [];
+  }
+}
+
+export const createBandwidthEstimator = (
+  config: Partial<BandwidthEstimatorConfig> = {}
+): BandwidthEstimator => {
+  return new BandwidthEstimator({ ...DEFAULT_BANDWIDTH_ESTIMATOR_CONFIG, ...config });
+};
@@ -0,0 +1,209 @@
+import { CaptionCue, CaptionEdgeStyle, CaptionFontSize, CaptionStyle, TextTrackFormat } from '../types/player';
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontSize: 'medium',
+  color: '#ffffff',
+  backgroundColor: '#000000',
+  backgroundOpacity: 0.75,
+  edgeStyle: 'none',
+};
+
+const FONT_SIZES: Record<CaptionFontSize, string> = {
+  small: '14px',
+  medium: '20px',
+  large: '28px',
+  'x-large': '36px',
+};
+
+const EDGE_SHADOWS: Record<CaptionEdgeStyle, string> = {
+  none: 'none',
+  outline: '-1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000',
+  'drop-shadow': '2px 2px 3px rgba(0, 0, 0, 0.8)',
+  raised: '1px 1px 0 #000, 2px 2px 0 #000',
+  depressed: '-1px -1px 0 #000, -2px -2px 0 #000',
+};
+
+const FORMAT_EXTENSIONS: Record<string, TextTrackFormat> = {
+  vtt: 'webvtt',
+  webvtt: 'webvtt',
+  srt: 'srt',
+  ttml: 'ttml',
+  dfxp: 'ttml',
+  xml: 'ttml',
+};
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&nbsp;': '\u00A0',
+  '&lrm;': '\u200E',
+  '&rlm;': '\u200F',
+};
+
+// Markup such as <i>, <b>, <c.yellow> and <v Speaker> is dropped; the renderer applies the user's style
+export const stripMarkup = (text: string): string => {
+  return text.replace(/<[^>]*>/g, '').replace(/&[a-z]+;/g, entity => ENTITIES[entity] ?? entity);
+};
+
+// hh:mm:ss.ttt or mm:ss.ttt, with a comma for SRT
+const parseTimestamp = (value: string): number => {
+  const parts = value.trim().replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+const parseCueBlocks = (text: string, timingPattern: RegExp): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  blocks.forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => timingPattern.test(line));
+    if (timingIndex === -1) return;
+
+    const timing = timingPattern.exec(lines[timingIndex])!;
+    const payload = lines.slice(timingIndex + 1).map(stripMarkup).join('\n').trim();
+    if (!payload) return;
+
+    cues.push({ start: parseTimestamp(timing[1]), end: parseTimestamp(timing[2]), text: payload });
+  });
+
+  return cues;
+};
+
+/**
+ * Parse WebVTT cues. Cue settings, regions, styles and notes are ignored.
+ */
+export const parseWebVTT = (text: string): CaptionCue[] => {
+  if (!/^(\uFEFF)?WEBVTT/.test(text)) {
+    throw new Error('Missing WEBVTT header');
+  }
+  return parseCueBlocks(text, /^\s*((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})/);
+};
+
+export const parseSRT = (text: string): CaptionCue[] => {
+  return parseCueBlocks(text, /^\s*(\d+:\d{2}:\d{2}[,.]\d{1,3})\s+-->\s+(\d+:\d{2}:\d{2}[,.]\d{1,3})/);
+};
+
+/**
+ * Parse a TTML time expression: clock time (hh:mm:ss.fff or hh:mm:ss:frames)
+ * or an offset in h, m, s, ms, f or t.
+ */
+const parseTTMLTime = (value: string | null, frameRate: number, tickRate: number): number | null => {
+  if (!value) return null;
+
+  const clock = /^(\d+):(\d{2}):(\d{2})(?:([.:])(\d+))?$/.exec(value.trim());
+  if (clock) {
+    const [, hours, minutes, seconds, separator, fraction] = clock;
+    const base = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+    if (!fraction) return base;
+    return base + (separator === ':' ? Number(fraction) / frameRate : Number(`0.${fraction}`));
+  }
+
+  const offset = /^([\d.]+)(h|m|s|ms|f|t)$/.exec(value.trim());
+  if (offset) {
+    const amount = Number(offset[1]);
+    const scale: Record<string, number> = { h: 3600, m: 60, s: 1, ms: 0.001, f: 1 / frameRate, t: 1 / tickRate };
+    return amount * scale[offset[2]];
+  }
+
+  return null;
+};
+
+const ttmlText = (node: Node): string => {
+  return Array.from(node.childNodes).map(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      return (child.textContent || '').replace(/\s+/g, ' ');
+    }
+    return (child as Element).localName === 'br' ? '\n' : ttmlText(child);
+  }).join('');
+};
+
+/**
+ * Parse the text content of TTML/DFXP (including IMSC1 text profile)
+ * paragraphs. Timing on enclosing <div> and <body> elements is inherited.
+ */
+export const parseTTML = (text: string): CaptionCue[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || root.localName !== 'tt') {
+    throw new Error('Missing TTML <tt> root element');
+  }
+
+  const attr = (element: Element, name: string) => element.getAttribute(name) ?? element.getAttribute(`ttp:${name}`);
+  const frameRate = Number(attr(root, 'frameRate')) || 30;
+  const tickRate = Number(attr(root, 'tickRate')) || 1;
+  const time = (element: Element, name: string) => parseTTMLTime(element.getAttribute(name), frameRate, tickRate);
+
+  const cues: CaptionCue[] = [];
+  Array.from(doc.getElementsByTagNameNS('*', 'p')).forEach(paragraph => {
+    let offset = 0;
+    for (let parent = paragraph.parentElement; parent && parent !== root; parent = parent.parentElement) {
+      offset += time(parent, 'begin') ?? 0;
+    }
+
+    const begin = time(paragraph, 'begin');
+    if (begin === null) return;
+
+    const duration = time(paragraph, 'dur');
+    const end = time(paragraph, 'end') ?? (duration !== null ? begin + duration : null);
+    const content = ttmlText(paragraph).split('\n').map(line => line.trim()).join('\n').trim();
+    if (end === null || !content) return;
+
+    cues.push({ start: offset + begin, end: offset + end, text: content });
+  });
+
+  return cues;
+};
+
+/**
+ * Guess a sidecar file's format from its Content-Type, then its extension,
+ * then its first bytes.
+ */
+export const detectTextTrackFormat = (url: string, contentType = '', text = ''): TextTrackFormat => {
+  if (/text\/vtt/i.test(contentType)) return 'webvtt';
+  if (/ttml|dfxp/i.test(contentType)) return 'ttml';
+  if (/subrip|x-srt/i.test(contentType)) return 'srt';
+
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+  if (FORMAT_EXTENSIONS[extension]) return FORMAT_EXTENSIONS[extension];
+
+  const head = text.trimStart();
+  if (head.startsWith('WEBVTT') || head.startsWith('\uFEFFWEBVTT')) return 'webvtt';
+  if (head.startsWith('<')) return 'ttml';
+  return 'srt';
+};
+
+export const parseCaptions = (text: string, format: TextTrackFormat): CaptionCue[] => {
+  switch (format) {
+    case 'webvtt':
+      return parseWebVTT(text);
+    case 'ttml':
+      return parseTTML(text);
+    case 'srt':
+      return parseSRT(text);
+  }
+};
+
+/**
+ * Cues showing at a playback position, in start order.
+ */
+export const getActiveCues = (cues: CaptionCue[], time: number): CaptionCue[] => {
+  return cues.filter(cue => time >= cue.start && time < cue.end).sort((a, b) => a.start - b.start);
+};
+
+const hexToRgba = (hex: string, opacity: number): string => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(char => char + char).join('') : value;
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) || 0);
+  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+};
+
+export const captionStyleToCSS = (style: CaptionStyle): Record<string, string> => ({
+  fontSize: FONT_SIZES[style.fontSize],
+  color: style.color,
+  backgroundColor: hexToRgba(style.backgroundColor, style.backgroundOpacity),
+  textShadow: EDGE_SHADOWS[style.edgeStyle],
+});
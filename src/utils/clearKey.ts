@@ -0,0 +1,92 @@
+import { CENCKey } from '../types/player';
+
+// Key ID (hex) -> content key (hex)
+export type ClearKeyKeyStore = Record<string, string>;
+
+export interface ClearKeyLicenseRequest {
+  kids: string[];
+  type?: MediaKeySessionType;
+}
+
+export interface ClearKeyLicense {
+  keys: { kty: 'oct'; kid: string; k: string }[];
+  type: MediaKeySessionType;
+}
+
+// Development key pair, used by the license route when CLEARKEY_KEYS is unset
+export const DEFAULT_CLEARKEY_KEY: CENCKey = {
+  keyId: '9eb4050de44b4802932e27d75083e266',
+  key: '166634c675823c235a4a9446fad52e4d',
+};
+
+const HEX_KEY_PATTERN = /^[0-9a-f]{32}$/;
+
+export const isValidCENCKey = ({ keyId, key }: CENCKey): boolean => {
+  return HEX_KEY_PATTERN.test(keyId.toLowerCase()) && HEX_KEY_PATTERN.test(key.toLowerCase());
+};
+
+export const hexToBase64Url = (hex: string): string => {
+  const binary = (hex.match(/.{2}/g) || []).map(byte => String.fromCharCode(parseInt(byte, 16))).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const base64UrlToHex = (value: string): string => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Array.from(binary, char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Parse a key list of the form `kid:key,kid:key` (hex), e.g. from an env var.
+ */
+export const parseClearKeyKeys = (value: string): ClearKeyKeyStore => {
+  const keys: ClearKeyKeyStore = {};
+
+  value.split(',').forEach(entry => {
+    const [keyId = '', key = ''] = entry.trim().toLowerCase().split(':');
+    if (isValidCENCKey({ keyId, key })) {
+      keys[keyId] = key;
+    }
+  });
+
+  return keys;
+};
+
+/**
+ * Parse the JSON message a ClearKey CDM sends with a license request.
+ */
+export const parseClearKeyRequest = (text: string): ClearKeyLicenseRequest => {
+  let request: Partial<ClearKeyLicenseRequest>;
+  try {
+    request = JSON.parse(text);
+  } catch {
+    throw new Error('License request is not valid JSON');
+  }
+
+  if (!Array.isArray(request.kids) || !request.kids.every(kid => typeof kid === 'string')) {
+    throw new Error('License request must list key IDs in "kids"');
+  }
+
+  return { kids: request.kids, type: request.type };
+};
+
+/**
+ * Answer a license request with a JWK set holding the keys from the store
+ * that match the requested key IDs. Unknown key IDs are left out.
+ */
+export const buildClearKeyLicense = (request: ClearKeyLicenseRequest, keys: ClearKeyKeyStore): ClearKeyLicense => {
+  const found = request.kids.flatMap(kid => {
+    const key = keys[base64UrlToHex(kid)];
+    return key ? [{ kty: 'oct' as const, kid, k: hexToBase64Url(key) }] : [];
+  });
+
+  return { keys: found, type: request.type || 'temporary' };
+};
+
+/**
+ * 'keyids' init data for content that doesn't carry a pssh box, to pass as
+ * EMEConfig.initData with initDataType 'keyids'.
+ */
+export const createClearKeyInitData = (keyIds: string[]): ArrayBuffer => {
+  const bytes = new TextEncoder().encode(JSON.stringify({ kids: keyIds.map(hexToBase64Url) }));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
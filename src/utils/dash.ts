@@ -1,12 +1,77 @@
 import * as dashjs from 'dashjs';
-import { DASHConfig, DASHManifest, DASHMetrics, DASHRepresentation, DASHEvent } from '../types/player';
+import {
+  AudioTrack,
+  DASHConfig,
+  DASHManifest,
+  DASHMetrics,
+  DASHRepresentation,
+  DASHEvent,
+  EMEConfig,
+  EMEMetrics,
+  TextTrackInfo
+} from '../types/player';
+import { DECRYPTION_ERROR_STATUSES } from './drm';
+import { parseMPD } from './mpdParser';
+
+// Accessibility scheme whose value 1 marks audio description (DVB/HbbTV)
+const AUDIO_PURPOSE_SCHEME = 'urn:tva:metadata:cs:AudioPurposeCS:2007';
+
+const toAudioTrack = (info: dashjs.MediaInfo, index: number): AudioTrack => {
+  const roles = (info.roles || []).map(role => role.value || '').filter(Boolean);
+  const describesVideo = (info.accessibility || []).some(
+    descriptor => descriptor.schemeIdUri === AUDIO_PURPOSE_SCHEME && descriptor.value === '1'
+  );
+
+  return {
+    id: `dash-audio-${index}`,
+    label: info.labels?.[0]?.text || info.lang || `Audio ${index + 1}`,
+    language: info.lang || '',
+    roles,
+    descriptive: roles.includes('description') || describesVideo,
+    channels: info.audioChannelConfiguration?.[0]?.value,
+    codecs: info.codec || undefined
+  };
+};
+
+const toBase64 = (data: ArrayBuffer): string => {
+  return btoa(Array.from(new Uint8Array(data), byte => String.fromCharCode(byte)).join(''));
+};
+
+/**
+ * dash.js protection data for a DRM config, so dash.js requests the key
+ * system and licenses itself
+ */
+export const toProtectionData = (drm: EMEConfig): dashjs.ProtectionDataSet => ({
+  [drm.keySystem]: {
+    serverURL: drm.licenseUrl,
+    httpRequestHeaders: drm.licenseHeaders,
+    withCredentials: drm.withCredentials,
+    serverCertificate: drm.serverCertificate ? toBase64(drm.serverCertificate) : undefined,
+    sessionType: drm.sessionType,
+    videoRobustness: drm.videoCapabilities?.[0]?.robustness,
+    audioRobustness: drm.audioCapabilities?.[0]?.robustness
+  }
+});
 
 export class DASHPlayer {
   private player: dashjs.MediaPlayerClass | null = null;
   private videoElement: HTMLVideoElement | null = null;
   private config: DASHConfig;
   private metrics: DASHMetrics;
+  private manifest: DASHManifest | null = null;
+  // Numbers our own MPD requests so a slow one can't overwrite a newer parse
+  private manifestRequest = 0;
+  private manifestLoads = 0;
+  private textTracks: dashjs.TextTrackInfo[] = [];
   private eventListeners: Map<string, Function[]> = new Map();
+  // Counted from dash.js protection events
+  private drmMetrics: EMEMetrics = {
+    licenseRequests: 0,
+    licenseResponses: 0,
+    keyStatusChanges: 0,
+    sessionErrors: 0,
+    decryptionErrors: 0
+  };
 
   constructor(config: DASHConfig) {
     this.config = config;
@@ -34,17 +99,30 @@ export class DASHPlayer {
       this.player.updateSettings({
         streaming: {
           delay: this.config.streaming.delay,
-          abr: this.config.streaming.abr
+          abr: this.config.streaming.abr,
+          protection: this.config.streaming.protection,
+          liveCatchup: this.config.streaming.liveCatchup,
+          // Text stays off until a track is picked; the player renders cues itself
+          text: { defaultEnabled: false }
         },
         debug: this.config.debug
       });
 
+      // Must be in place before the manifest's ContentProtection is read
+      if (this.config.drm) {
+        this.player.setProtectionData(toProtectionData(this.config.drm));
+      }
+
       // Attach video element
       this.player.attachView(videoElement);
 
       // Set up event listeners
       this.setupEventListeners();
 
+      // Parse the MPD ourselves so getManifest() sees the full structure;
+      // dash.js doesn't wait for it
+      void this.loadManifest();
+
       // Load the manifest
       await this.player.initialize(videoElement, this.config.manifestUrl, this.config.autoStart);
 
@@ -63,6 +141,15 @@ export class DASHPlayer {
       this.emit('manifestLoaded', { manifest: this.getManifest() });
     });
 
+    // dash.js reloads dynamic MPDs on its own; parse each reload so getManifest() stays current.
+    // The first load was already requested in initialize().
+    this.player.on('manifestLoaded', (event: dashjs.ManifestLoadedEvent) => {
+      const { type } = event.data as { type?: string };
+      if (this.manifestLoads++ > 0 && type === 'dynamic') {
+        void this.loadManifest();
+      }
+    });
+
     // Representation changed (quality switch)
     this.player.on('qualityChangeRequested', (event) => {
       this.metrics.bitrateSwitches++;
@@ -86,6 +173,40 @@ export class DASHPlayer {
       this.emit('error', { error: event.error });
     });
 
+    // Audio track switches once the new track is playing
+    this.player.on('trackChangeRendered', (event: dashjs.TrackChangeRenderedEvent) => {
+      if (event.mediaType === 'audio') {
+        this.emit('audioTrackChanged', { track: this.getCurrentAudioTrack() });
+      }
+    });
+
+    // Text tracks of the current period
+    this.player.on('allTextTracksAdded', (event) => {
+      this.textTracks = event.tracks;
+      this.emit('textTracksAdded', { tracks: this.getTextTracks() });
+    });
+
+    // DRM, set up by dash.js' own protection controller
+    this.player.on('public_licenseRequestComplete', (event: dashjs.LicenseRequestCompleteEvent) => {
+      this.drmMetrics.licenseRequests++;
+      if (event.error) {
+        this.drmMetrics.sessionErrors++;
+      } else {
+        this.drmMetrics.licenseResponses++;
+      }
+    });
+
+    this.player.on('public_keyStatusesChanged', (event: dashjs.KeyStatusesChangedEvent) => {
+      this.drmMetrics.keyStatusChanges++;
+      event.data?.getKeyStatuses().forEach(status => {
+        if (DECRYPTION_ERROR_STATUSES.includes(status)) this.drmMetrics.decryptionErrors++;
+      });
+    });
+
+    this.player.on('public_keyError', () => {
+      this.drmMetrics.sessionErrors++;
+    });
+
     // Playback events
     this.player.on('playbackStarted', () => {
       console.log('DASH playback started');
@@ -101,46 +222,34 @@ export class DASHPlayer {
     return Math.min((bufferLevel / targetBuffer) * 100, 100);
   }
 
-  getManifest(): DASHManifest | null {
-    if (!this.player) return null;
+  private async loadManifest(): Promise<void> {
+    const request = ++this.manifestRequest;
 
     try {
-      const manifest = this.player.getDashMetrics();
-      return {
-        periods: manifest.Period?.map(period => ({
-          id: period.id || '',
-          start: period.start || 0,
-          duration: period.duration || 0,
-          adaptationSets: period.AdaptationSet?.map(adaptationSet => ({
-            id: adaptationSet.id || '',
-            type: adaptationSet.type as 'video' | 'audio' | 'text',
-            representations: adaptationSet.RepresentationAsArray?.map(rep => ({
-              id: rep.id || '',
-              bandwidth: rep.bandwidth || 0,
-              width: rep.width || 0,
-              height: rep.height || 0,
-              codecs: rep.codecs || '',
-              mimeType: rep.mimeType || '',
-              frameRate: rep.frameRate || 0,
-              qualityRanking: rep.qualityRanking || 0
-            })) || [],
-            lang: adaptationSet.lang,
-            roles: adaptationSet.roles
-          })) || []
-        })) || [],
-        duration: manifest.Duration || 0,
-        isLive: manifest.IsLive || false,
-        availabilityStartTime: manifest.AvailabilityStartTime || 0,
-        availabilityEndTime: manifest.AvailabilityEndTime,
-        suggestedPresentationDelay: manifest.SuggestedPresentationDelay || 0,
-        timeShiftBufferDepth: manifest.TimeShiftBufferDepth || 0
-      };
+      const response = await fetch(this.config.manifestUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const xml = await response.text();
+      const manifest = parseMPD(xml, { baseUrl: response.url || this.config.manifestUrl });
+      if (request !== this.manifestRequest) return;
+
+      this.manifest = manifest;
+      this.emit('manifestUpdated', { manifest });
     } catch (error) {
-      console.error('Failed to get manifest:', error);
-      return null;
+      if (request !== this.manifestRequest) return;
+      // dash.js still plays the stream, only the parsed manifest is unavailable
+      console.warn('Failed to parse DASH manifest:', error);
+      this.manifest = null;
     }
   }
 
+  getManifest(): DASHManifest | null {
+    if (!this.player) return null;
+    return this.manifest;
+  }
+
   getCurrentRepresentation(): DASHRepresentation | null {
     if (!this.player) return null;
 
@@ -199,6 +308,116 @@ export class DASHPlayer {
     }
   }
 
+  /**
+   * Whether the MPD is dynamic (live). False until the stream is initialized.
+   */
+  isDynamic(): boolean {
+    if (!this.player) return false;
+
+    try {
+      return this.player.isDynamic();
+    } catch {
+      return false;
+    }
+  }
+
+  // Seconds behind the live edge by the wall clock, NaN before playback starts
+  getLiveLatency(): number {
+    return this.player ? this.player.getCurrentLiveLatency() : NaN;
+  }
+
+  getTargetLiveDelay(): number {
+    return this.player ? this.player.getTargetLiveDelay() : 0;
+  }
+
+  seekToLiveEdge(): void {
+    if (this.player) {
+      this.player.seekToOriginalLive();
+    }
+  }
+
+  getAudioTracks(): AudioTrack[] {
+    if (!this.player) return [];
+
+    try {
+      return this.player.getTracksFor('audio').map(toAudioTrack);
+    } catch (error) {
+      console.error('Failed to get audio tracks:', error);
+      return [];
+    }
+  }
+
+  getCurrentAudioTrack(): AudioTrack | null {
+    if (!this.player) return null;
+
+    try {
+      const current = this.player.getCurrentTrackFor('audio');
+      const index = current ? this.player.getTracksFor('audio').findIndex(track => track.id === current.id && track.lang === current.lang) : -1;
+      return index > -1 ? toAudioTrack(current!, index) : null;
+    } catch (error) {
+      console.error('Failed to get current audio track:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Select an audio adaptation set by its index in getAudioTracks()
+   */
+  setAudioTrack(index: number): boolean {
+    if (!this.player) return false;
+
+    try {
+      const track = this.player.getTracksFor('audio')[index];
+      if (!track) return false;
+      this.player.setCurrentTrack(track);
+      return true;
+    } catch (error) {
+      console.error('Failed to switch audio track:', error);
+      return false;
+    }
+  }
+
+  getTextTracks(): TextTrackInfo[] {
+    return this.textTracks.map((track, index) => ({
+      id: `dash-text-${index}`,
+      label: track.labels?.[0]?.text || track.id || track.lang || `Track ${index + 1}`,
+      language: track.lang || '',
+      kind: track.kind === 'captions' ? 'captions' : 'subtitles',
+      source: track.isEmbedded ? 'embedded' : 'manifest'
+    }));
+  }
+
+  /**
+   * Select a text track by its index in getTextTracks(), or -1 for none
+   */
+  setTextTrack(index: number): void {
+    if (!this.player) return;
+
+    try {
+      this.player.setTextTrack(index);
+    } catch (error) {
+      console.error('Failed to switch text track:', error);
+    }
+  }
+
+  /**
+   * The media element track dash.js feeds the cues of a text track into
+   */
+  getNativeTextTrack(index: number): TextTrack | null {
+    const track = this.textTracks[index];
+    const nativeTracks = this.videoElement?.textTracks;
+    if (!track || !nativeTracks) return null;
+
+    // dash.js labels native tracks with the track id, falling back to the language
+    const label = track.id ?? track.lang;
+    for (let i = 0; i < nativeTracks.length; i++) {
+      if (nativeTracks[i].label === label && nativeTracks[i].language === (track.lang || '')) {
+        return nativeTracks[i];
+      }
+    }
+    return null;
+  }
+
   getMetrics(): DASHMetrics {
     if (!this.player) return this.metrics;
 
@@ -220,6 +439,10 @@ export class DASHPlayer {
     }
   }
 
+  getDRMMetrics(): EMEMetrics {
+    return { ...this.drmMetrics };
+  }
+
   // Event system
   on(event: string, callback: Function): void {
     if (!this.eventListeners.has(event)) {
@@ -282,6 +505,11 @@ export class DASHPlayer {
       this.player = null;
     }
     this.videoElement = null;
+    this.manifest = null;
+    // Drops the result of a request still in flight
+    this.manifestRequest++;
+    this.manifestLoads = 0;
+    this.textTracks = [];
     this.eventListeners.clear();
   }
 }
@@ -0,0 +1,212 @@
+import {
+  AudioTrack,
+  DASHConfig,
+  DASHRepresentation,
+  EMEMetrics,
+  LiveStreamType,
+  PlaybackMetrics,
+  TextTrackInfo,
+  VideoQuality
+} from '../types/player';
+import { DASHPlayer, createDASHPlayer } from './dash';
+import { BasePlaybackEngine, PlaybackEngineOptions } from './playbackEngine';
+import { DEFAULT_LOW_LATENCY_CONFIG } from './lowLatencyOptimizer';
+
+export const defaultDASHConfig: DASHConfig = {
+  manifestUrl: '',
+  autoStart: true,
+  autoPlay: false,
+  streaming: {
+    delay: {
+      liveDelay: 0,
+      liveDelayFragmentCount: 0
+    },
+    abr: {
+      autoSwitchBitrate: true,
+      initialBitrate: 1000000,
+      maxBitrate: 5000000,
+      minBitrate: 500000
+    }
+  },
+  debug: {
+    logLevel: 0
+  }
+};
+
+export const representationToQuality = (representation: DASHRepresentation, index: number): VideoQuality => ({
+  level: index,
+  width: representation.width,
+  height: representation.height,
+  bitrate: representation.bandwidth,
+  codecs: representation.codecs,
+  label: representation.height ? `${representation.height}p` : `${Math.round(representation.bandwidth / 1000)}k`
+});
+
+/**
+ * MPEG-DASH playback through DASHPlayer (dash.js). With a DRM config,
+ * dash.js sets up the key system rather than DRMManager, so only one of
+ * them ever owns the element's MediaKeys.
+ */
+export class DASHPlaybackEngine extends BasePlaybackEngine {
+  readonly type = 'dash';
+  private player: DASHPlayer | null = null;
+  private representations: DASHRepresentation[] = [];
+
+  async load(videoElement: HTMLVideoElement, url: string): Promise<void> {
+    this.destroyPlayer();
+    this.videoElement = videoElement;
+
+    const config: DASHConfig = { ...defaultDASHConfig, ...this.options.dash, manifestUrl: url, drm: this.options.drm };
+
+    if (this.options.lowLatency) {
+      // Start at the target latency; LowLatencyOptimizer does the catching up
+      const { targetLatency } = { ...DEFAULT_LOW_LATENCY_CONFIG, ...this.options.lowLatency };
+      config.streaming = {
+        ...config.streaming,
+        delay: { ...config.streaming.delay, liveDelay: targetLatency },
+        liveCatchup: { enabled: false }
+      };
+    }
+
+    const player = createDASHPlayer(config);
+    this.player = player;
+
+    player.on('manifestLoaded', () => {
+      this.representations = player.getAvailableRepresentations();
+      this.emit('loaded', { qualities: this.getQualities() });
+      this.emit('audioTracksChanged', { tracks: this.getAudioTracks() });
+    });
+
+    player.on('representationChanged', () => {
+      this.representations = player.getAvailableRepresentations();
+      this.emit('qualitiesChanged', { qualities: this.getQualities() });
+      this.emit('qualityChanged', { quality: this.getCurrentQuality() });
+    });
+
+    player.on('audioTrackChanged', (data: { track: AudioTrack | null }) => {
+      this.emit('audioTrackChanged', { track: data.track });
+    });
+
+    player.on('textTracksAdded', (data: { tracks: TextTrackInfo[] }) => {
+      this.emit('textTracksChanged', { tracks: data.tracks });
+    });
+
+    player.on('error', (data: { error?: { message?: string } }) => {
+      this.emit('error', { message: `DASH Error: ${data.error?.message || 'Unknown error'}`, fatal: true });
+    });
+
+    await player.initialize(videoElement);
+  }
+
+  getDRMMetrics(): EMEMetrics | null {
+    return this.options.drm && this.player ? this.player.getDRMMetrics() : null;
+  }
+
+  getQualities(): VideoQuality[] {
+    return this.representations.map(representationToQuality);
+  }
+
+  getCurrentQuality(): VideoQuality | null {
+    const current = this.player?.getCurrentRepresentation();
+    if (!current) return null;
+
+    const index = this.representations.findIndex(rep => rep.id === current.id);
+    return index > -1 ? representationToQuality(this.representations[index], index) : null;
+  }
+
+  setQuality(level: number): void {
+    // dash.js keeps adapting on its own when autoSwitchBitrate is enabled
+    const representation = this.representations[level];
+    if (this.player && representation) {
+      this.player.switchQuality(representation.id);
+    }
+  }
+
+  seekToLiveEdge(): void {
+    if (this.player && this.player.isDynamic()) {
+      this.player.seekToLiveEdge();
+    }
+  }
+
+  // dash.js measures against the availability timeline (availabilityStartTime and UTCTiming)
+  getWallClockLatency(): number | null {
+    if (!this.player || !this.player.isDynamic()) return null;
+    const latency = this.player.getLiveLatency();
+    return Number.isFinite(latency) ? latency : null;
+  }
+
+  // Dynamic MPDs; the DVR window follows timeShiftBufferDepth
+  protected getLiveType(): LiveStreamType | null {
+    return this.player && this.player.isDynamic() ? 'live' : null;
+  }
+
+  protected getLiveLatency(liveEdge: number): number {
+    const latency = this.player ? this.player.getLiveLatency() : NaN;
+    return Number.isFinite(latency) ? latency : super.getLiveLatency(liveEdge);
+  }
+
+  protected getTargetLatency(): number {
+    return this.player ? this.player.getTargetLiveDelay() : 0;
+  }
+
+  getAudioTracks(): AudioTrack[] {
+    return this.player ? this.player.getAudioTracks() : [];
+  }
+
+  getCurrentAudioTrack(): AudioTrack | null {
+    return this.player ? this.player.getCurrentAudioTrack() : null;
+  }
+
+  setAudioTrack(id: string): void {
+    const index = this.getAudioTracks().findIndex(track => track.id === id);
+    if (this.player && index > -1) {
+      this.player.setAudioTrack(index);
+    }
+  }
+
+  getTextTracks(): TextTrackInfo[] {
+    return this.player ? this.player.getTextTracks() : [];
+  }
+
+  setTextTrack(id: string | null): void {
+    if (this.player) {
+      this.player.setTextTrack(this.textTrackIndex(id));
+    }
+  }
+
+  getNativeTextTrack(id: string): TextTrack | null {
+    return this.player ? this.player.getNativeTextTrack(this.textTrackIndex(id)) : null;
+  }
+
+  private textTrackIndex(id: string | null): number {
+    return id ? this.getTextTracks().findIndex(track => track.id === id) : -1;
+  }
+
+  getMetrics(): PlaybackMetrics {
+    const metrics = super.getMetrics();
+    if (this.player) {
+      const dashMetrics = this.player.getMetrics();
+      metrics.bandwidth = dashMetrics.throughput;
+      metrics.bufferLength = dashMetrics.bufferLevel;
+      metrics.currentBitrate = dashMetrics.currentRepresentation?.bandwidth || metrics.currentBitrate;
+    }
+    return metrics;
+  }
+
+  private destroyPlayer(): void {
+    if (this.player) {
+      this.player.destroy();
+      this.player = null;
+    }
+    this.representations = [];
+  }
+
+  destroy(): void {
+    this.destroyPlayer();
+    super.destroy();
+  }
+}
+
+export const createDASHPlaybackEngine = (options: PlaybackEngineOptions): DASHPlaybackEngine => {
+  return new DASHPlaybackEngine(options);
+};
@@ -0,0 +1,340 @@
+import { DRMEventMap, DRMListener, EMEConfig, EMEKeyStatus, EMELicense, EMEMetrics } from '../types/player';
+
+export const CLEARKEY_KEY_SYSTEM = 'org.w3.clearkey';
+
+const DEFAULT_RENEWAL_THRESHOLD = 30;
+
+// Key statuses that mean the CDM can't decrypt with that key
+export const DECRYPTION_ERROR_STATUSES: MediaKeyStatus[] = ['internal-error', 'output-restricted'];
+
+interface ManagedSession {
+  session: MediaKeySession;
+  initDataType: string;
+  initData: ArrayBuffer;
+  renewalTimer: ReturnType<typeof setTimeout> | null;
+  renewing: boolean;
+  // Session this one is renewing, closed once the new license is in place
+  replaces?: ManagedSession;
+}
+
+type DRMListeners = {
+  [K in keyof DRMEventMap]?: DRMListener<K>[];
+};
+
+const toBytes = (data: BufferSource): Uint8Array => {
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  return new Uint8Array(data);
+};
+
+export const toHex = (data: BufferSource): string => {
+  return Array.from(toBytes(data), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const errorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : String(error);
+};
+
+// MediaKeys still being cleared off an element by a destroyed manager
+const detaching = new WeakMap<HTMLVideoElement, Promise<void>>();
+
+/**
+ * Encrypted Media Extensions driver: sets up MediaKeys on a media element,
+ * opens a session per distinct init data, fetches licenses and renews them
+ * before they expire.
+ */
+export class DRMManager {
+  private config: EMEConfig;
+  private videoElement: HTMLVideoElement | null = null;
+  private mediaKeys: MediaKeys | null = null;
+  private sessions: ManagedSession[] = [];
+  private seenInitData = new Set<string>();
+  private licenses = new Map<string, EMELicense>();
+  private keyStatuses = new Map<string, MediaKeyStatus>();
+  private metrics: EMEMetrics;
+  private listeners: DRMListeners = {};
+
+  constructor(config: EMEConfig) {
+    this.config = config;
+    this.metrics = {
+      licenseRequests: 0,
+      licenseResponses: 0,
+      keyStatusChanges: 0,
+      sessionErrors: 0,
+      decryptionErrors: 0
+    };
+  }
+
+  async attach(videoElement: HTMLVideoElement): Promise<void> {
+    this.videoElement = videoElement;
+    // setMediaKeys() fails while the previous call on the element is pending
+    await detaching.get(videoElement);
+
+    try {
+      if (typeof navigator === 'undefined' || !navigator.requestMediaKeySystemAccess) {
+        throw new Error('EME is not supported in this browser');
+      }
+
+      const access = await navigator.requestMediaKeySystemAccess(this.config.keySystem, [this.buildConfiguration()]);
+      this.mediaKeys = await access.createMediaKeys();
+
+      if (this.config.serverCertificate) {
+        await this.mediaKeys.setServerCertificate(this.config.serverCertificate);
+      }
+
+      await videoElement.setMediaKeys(this.mediaKeys);
+    } catch (error) {
+      const message = `Failed to set up ${this.config.keySystem}: ${errorMessage(error)}`;
+      this.metrics.sessionErrors++;
+      this.emit('error', { message, fatal: true });
+      throw new Error(message);
+    }
+
+    videoElement.addEventListener('encrypted', this.handleEncrypted);
+
+    if (this.config.initData) {
+      this.seenInitData.add(toHex(this.config.initData));
+      await this.createSession(this.config.initDataType || 'cenc', this.config.initData);
+    }
+  }
+
+  /**
+   * Open a session and request a license for the given init data. Called
+   * automatically for `encrypted` events and `config.initData`.
+   */
+  createSession(initDataType: string, initData: ArrayBuffer): Promise<MediaKeySession> {
+    return this.openSession(initDataType, initData);
+  }
+
+  private async openSession(initDataType: string, initData: ArrayBuffer, replaces?: ManagedSession): Promise<MediaKeySession> {
+    if (!this.mediaKeys) {
+      throw new Error('DRMManager is not attached to a media element');
+    }
+
+    const session = this.mediaKeys.createSession(this.config.sessionType);
+    const entry: ManagedSession = { session, initDataType, initData, renewalTimer: null, renewing: false, replaces };
+    this.sessions.push(entry);
+
+    session.addEventListener('message', event => {
+      this.handleMessage(entry, event as MediaKeyMessageEvent);
+    });
+    session.addEventListener('keystatuseschange', () => this.handleKeyStatusesChange(entry));
+
+    try {
+      await session.generateRequest(initDataType, initData);
+    } catch (error) {
+      const message = `Failed to create ${this.config.keySystem} session: ${errorMessage(error)}`;
+      this.metrics.sessionErrors++;
+      this.removeSession(entry);
+      this.emit('error', { message, fatal: true });
+      throw new Error(message);
+    }
+
+    return session;
+  }
+
+  private handleEncrypted = (event: MediaEncryptedEvent): void => {
+    if (!event.initData) return;
+
+    // The same init data is usually repeated for every track and period
+    const key = toHex(event.initData);
+    if (this.seenInitData.has(key)) return;
+    this.seenInitData.add(key);
+
+    this.createSession(event.initDataType, event.initData).catch(() => {
+      // Already reported through the error event
+    });
+  };
+
+  private async handleMessage(entry: ManagedSession, event: MediaKeyMessageEvent): Promise<void> {
+    this.metrics.licenseRequests++;
+
+    try {
+      const license = await this.requestLicense(event.message);
+      await entry.session.update(license);
+      this.metrics.licenseResponses++;
+
+      const record: EMELicense = {
+        license,
+        sessionId: entry.session.sessionId,
+        expirationTime: entry.session.expiration,
+        keyStatuses: entry.session.keyStatuses
+      };
+      this.licenses.set(record.sessionId, record);
+      this.scheduleRenewal(entry);
+
+      if (entry.replaces) {
+        this.closeSession(entry.replaces);
+        entry.replaces = undefined;
+      }
+
+      this.emit('license', record);
+    } catch (error) {
+      this.metrics.sessionErrors++;
+      this.emit('error', { message: `License request failed: ${errorMessage(error)}`, fatal: !entry.replaces });
+    }
+  }
+
+  private async requestLicense(message: ArrayBuffer): Promise<ArrayBuffer> {
+    const response = await fetch(this.config.licenseUrl, {
+      method: 'POST',
+      headers: this.config.licenseHeaders,
+      body: message,
+      credentials: this.config.withCredentials ? 'include' : 'same-origin'
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    return response.arrayBuffer();
+  }
+
+  private handleKeyStatusesChange(entry: ManagedSession): void {
+    const statuses: EMEKeyStatus[] = [];
+    entry.session.keyStatuses.forEach((status, keyId) => {
+      statuses.push({ keyId: toHex(keyId), status });
+    });
+
+    this.metrics.keyStatusChanges++;
+
+    statuses.forEach(({ keyId, status }) => {
+      // Only count a key once per transition into an error state
+      if (DECRYPTION_ERROR_STATUSES.includes(status) && this.keyStatuses.get(keyId) !== status) {
+        this.metrics.decryptionErrors++;
+      }
+      this.keyStatuses.set(keyId, status);
+    });
+
+    this.emit('keyStatusesChange', { sessionId: entry.session.sessionId, statuses });
+
+    if (statuses.some(({ status }) => status === 'expired')) {
+      this.renewSession(entry);
+    }
+  }
+
+  private scheduleRenewal(entry: ManagedSession): void {
+    if (entry.renewalTimer) {
+      clearTimeout(entry.renewalTimer);
+      entry.renewalTimer = null;
+    }
+
+    // NaN when the license never expires
+    const expiration = entry.session.expiration;
+    if (!Number.isFinite(expiration)) return;
+
+    const threshold = (this.config.renewalThreshold ?? DEFAULT_RENEWAL_THRESHOLD) * 1000;
+    const delay = Math.max(0, expiration - threshold - Date.now());
+    entry.renewalTimer = setTimeout(() => this.renewSession(entry), delay);
+  }
+
+  /**
+   * Fetch a fresh license in a new session. The old session keeps
+   * decrypting until the new license has been applied.
+   */
+  private renewSession(entry: ManagedSession): void {
+    if (entry.renewing || !this.sessions.includes(entry)) return;
+    entry.renewing = true;
+
+    this.openSession(entry.initDataType, entry.initData, entry).catch(() => {
+      entry.renewing = false;
+    });
+  }
+
+  private removeSession(entry: ManagedSession): void {
+    if (entry.renewalTimer) {
+      clearTimeout(entry.renewalTimer);
+      entry.renewalTimer = null;
+    }
+
+    const index = this.sessions.indexOf(entry);
+    if (index > -1) {
+      this.sessions.splice(index, 1);
+    }
+    this.licenses.delete(entry.session.sessionId);
+  }
+
+  private closeSession(entry: ManagedSession): void {
+    this.removeSession(entry);
+    entry.session.close().catch(error => {
+      console.warn('Failed to close key session:', error);
+    });
+  }
+
+  getMetrics(): EMEMetrics {
+    return { ...this.metrics };
+  }
+
+  getLicenses(): EMELicense[] {
+    return Array.from(this.licenses.values());
+  }
+
+  getKeyStatuses(): EMEKeyStatus[] {
+    return Array.from(this.keyStatuses, ([keyId, status]) => ({ keyId, status }));
+  }
+
+  on<K extends keyof DRMEventMap>(event: K, listener: DRMListener<K>): void {
+    const listeners = (this.listeners[event] || []) as DRMListener<K>[];
+    listeners.push(listener);
+    (this.listeners as Record<K, DRMListener<K>[]>)[event] = listeners;
+  }
+
+  off<K extends keyof DRMEventMap>(event: K, listener: DRMListener<K>): void {
+    const listeners = this.listeners[event] as DRMListener<K>[] | undefined;
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  private emit<K extends keyof DRMEventMap>(event: K, data: DRMEventMap[K]): void {
+    const listeners = this.listeners[event] as DRMListener<K>[] | undefined;
+    if (listeners) {
+      listeners.forEach(listener => listener(data));
+    }
+  }
+
+  private buildConfiguration(): MediaKeySystemConfiguration {
+    const configuration: MediaKeySystemConfiguration = {
+      videoCapabilities: this.config.videoCapabilities || [{ contentType: 'video/mp4; codecs="avc1.42E01E"' }],
+      audioCapabilities: this.config.audioCapabilities || [{ contentType: 'audio/mp4; codecs="mp4a.40.2"' }],
+      persistentState: this.config.persistentState,
+      sessionTypes: [this.config.sessionType]
+    };
+
+    if (this.config.initDataType) {
+      configuration.initDataTypes = [this.config.initDataType];
+    }
+
+    return configuration;
+  }
+
+  destroy(): void {
+    if (this.videoElement) {
+      this.videoElement.removeEventListener('encrypted', this.handleEncrypted);
+      if (this.mediaKeys) {
+        const videoElement = this.videoElement;
+        const detached = videoElement.setMediaKeys(null).catch(() => {
+          // The element may already be gone
+        }).finally(() => {
+          if (detaching.get(videoElement) === detached) detaching.delete(videoElement);
+        });
+        detaching.set(videoElement, detached);
+      }
+    }
+
+    [...this.sessions].forEach(entry => this.closeSession(entry));
+    this.seenInitData.clear();
+    this.keyStatuses.clear();
+    this.listeners = {};
+    this.mediaKeys = null;
+    this.videoElement = null;
+  }
+}
+
+export const createDRMManager = (config: EMEConfig): DRMManager => {
+  return new DRMManager(config);
+};
@@ -0,0 +1,34 @@
+import { PlaybackEngine, PlaybackEngineType } from '../types/player';
+import { PlaybackEngineOptions } from './playbackEngine';
+import { createHLSPlaybackEngine } from './hlsEngine';
+import { createDASHPlaybackEngine } from './dashEngine';
+import { createNativePlaybackEngine } from './nativeEngine';
+import { createMSEPlaybackEngine } from './mseEngine';
+
+export type PlaybackEngineFactory = (options: PlaybackEngineOptions) => PlaybackEngine;
+
+const engineFactories = new Map<PlaybackEngineType, PlaybackEngineFactory>();
+
+/**
+ * Register a playback engine. Registering an existing type replaces it.
+ */
+export const registerPlaybackEngine = (type: PlaybackEngineType, factory: PlaybackEngineFactory): void => {
+  engineFactories.set(type, factory);
+};
+
+export const hasPlaybackEngine = (type: PlaybackEngineType): boolean => {
+  return engineFactories.has(type);
+};
+
+export const createPlaybackEngine = (type: PlaybackEngineType, options: PlaybackEngineOptions): PlaybackEngine => {
+  const factory = engineFactories.get(type);
+  if (!factory) {
+    throw new Error(`No playback engine registered for type: ${type}`);
+  }
+  return factory(options);
+};
+
+registerPlaybackEngine('hls', createHLSPlaybackEngine);
+registerPlaybackEngine('dash', createDASHPlaybackEngine);
+registerPlaybackEngine('progressive', createNativePlaybackEngine);
+registerPlaybackEngine('mse', createMSEPlaybackEngine);
@@ -1,44 +1,95 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
-import { FFmpegConfig, FFmpegProgress, FFmpegResult, VideoConversionOptions } from '../types/player';
+import { fetchFile } from '@ffmpeg/util';
+import {
+  FFmpegConfig,
+  FFmpegCoreOptions,
+  FFmpegLoadProgress,
+  FFmpegProgress,
+  FFmpegResult,
+  VideoConversionOptions,
+  TrimRange,
+  ThumbnailSprite,
+  ThumbnailSpriteLayout,
+  ThumbnailSpriteOptions,
+  AdaptiveRendition,
+  AdaptivePackagingOptions,
+  AdaptiveBundle,
+  AdaptiveBundleFile,
+  CENCKey,
+  MediaInfo
+} from '../types/player';
+import { parseFFmpegLog, parseFFprobeOutput, FFprobeOutput } from './mediaInfo';
+import { fetchFFmpegCore } from './ffmpegCore';
+import { buildThumbnailVTT } from './thumbnails';
+import { isValidCENCKey } from './clearKey';
+
+const PACKAGE_DIR = '/package';
+
+const BUNDLE_MIME_TYPES: Record<string, string> = {
+  m3u8: 'application/vnd.apple.mpegurl',
+  mpd: 'application/dash+xml',
+  ts: 'video/mp2t',
+  m4s: 'video/iso.segment',
+  mp4: 'video/mp4',
+};
 
 export class FFmpegProcessor {
   private ffmpeg: FFmpeg;
   private isLoaded: boolean = false;
-
-  constructor() {
+  private coreOptions: FFmpegCoreOptions;
+  private execChain: Promise<unknown> = Promise.resolve();
+  // Numbers probe files so concurrent probes don't overwrite each other's
+  private probeCount: number = 0;
+  // Shared by callers that arrive mid-load, e.g. the next job and a probe after a cancel
+  private loading: Promise<void> | null = null;
+
+  constructor(coreOptions: FFmpegCoreOptions = {}) {
     this.ffmpeg = new FFmpeg();
+    this.coreOptions = coreOptions;
+
+    // Registered once so reloading after cancel() does not duplicate them
+    this.ffmpeg.on('log', ({ message }) => {
+      console.log('FFmpeg:', message);
+    });
+
+    this.ffmpeg.on('progress', ({ progress, time }) => {
+      console.log(`Processing: ${Math.round(progress * 100)}% (${time}ms)`);
+    });
   }
 
-  async load(): Promise<void> {
-    if (this.isLoaded) return;
+  load(onProgress?: (progress: FFmpegLoadProgress) => void): Promise<void> {
+    if (this.isLoaded) return Promise.resolve();
 
-    try {
-      const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd';
-      this.ffmpeg.on('log', ({ message }) => {
-        console.log('FFmpeg:', message);
-      });
+    this.loading ??= this.loadCore(onProgress).finally(() => {
+      this.loading = null;
+    });
+    return this.loading;
+  }
 
-      this.ffmpeg.on('progress', ({ progress, time }) => {
-        console.log(`Processing: ${Math.round(progress * 100)}% (${time}ms)`);
-      });
+  private async loadCore(onProgress?: (progress: FFmpegLoadProgress) => void): Promise<void> {
+    try {
+      const urls = await fetchFFmpegCore(this.coreOptions, onProgress);
 
-      await this.ffmpeg.load({
-        coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-        wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-      });
+      try {
+        await this.ffmpeg.load(urls);
+      } finally {
+        // The worker has imported the core by now
+        Object.values(urls).forEach(url => url && URL.revokeObjectURL(url));
+      }
 
       this.isLoaded = true;
     } catch (error) {
       console.error('Failed to load FFmpeg:', error);
-      throw new Error('Failed to initialize FFmpeg');
+      const reason = error instanceof Error ? `: ${error.message}` : '';
+      throw new Error(`Failed to initialize FFmpeg${reason}`);
     }
   }
 
   async convertVideo(
     inputFile: File,
     options: VideoConversionOptions,
-    onProgress?: (progress: FFmpegProgress) => void
+    onProgress?: (progress: FFmpegProgress) => void,
+    onLog?: (message: string) => void
   ): Promise<FFmpegResult> {
     if (!this.isLoaded) {
       await this.load();
@@ -51,24 +102,21 @@ export class FFmpegProcessor {
       // Write input file to FFmpeg filesystem
       await this.ffmpeg.writeFile(inputFileName, await fetchFile(inputFile));
 
-      // Build FFmpeg command
-      const command = this.buildCommand(inputFileName, outputFileName, options);
-
-      // Set up progress monitoring
-      if (onProgress) {
-        this.ffmpeg.on('progress', ({ progress, time }) => {
-          onProgress({
-            percent: Math.round(progress * 100),
-            time,
-            speed: 1.0, // FFmpeg doesn't provide speed directly
-            eta: time / progress - time,
-          });
-        });
+      const cuts = normalizeTrimRanges(options.cuts || []);
+      if (cuts.length > 1) {
+        await this.convertCuts(inputFileName, outputFileName, options, cuts, onProgress, onLog);
+      } else {
+        // Build FFmpeg command
+        const command = this.buildCommand(
+          inputFileName,
+          outputFileName,
+          cuts.length === 1 ? { ...options, trim: cuts[0] } : options
+        );
+
+        // Execute conversion
+        await this.withListeners(onProgress, onLog, () => this.ffmpeg.exec(command));
       }
 
-      // Execute conversion
-      await this.ffmpeg.exec(command);
-
       // Read output file
       const outputData = await this.ffmpeg.readFile(outputFileName);
       const outputBlob = outputData instanceof Uint8Array ? outputData : new Uint8Array(await (outputData as unknown as Blob).arrayBuffer());
@@ -95,7 +143,8 @@ export class FFmpegProcessor {
   async extractThumbnail(
     inputFile: File,
     timeOffset: number = 0,
-    onProgress?: (progress: FFmpegProgress) => void
+    onProgress?: (progress: FFmpegProgress) => void,
+    onLog?: (message: string) => void
   ): Promise<FFmpegResult> {
     if (!this.isLoaded) {
       await this.load();
@@ -115,18 +164,7 @@ export class FFmpegProcessor {
         outputFileName
       ];
 
-      if (onProgress) {
-        this.ffmpeg.on('progress', ({ progress, time }) => {
-          onProgress({
-            percent: Math.round(progress * 100),
-            time,
-            speed: 1.0,
-            eta: time / progress - time,
-          });
-        });
-      }
-
-      await this.ffmpeg.exec(command);
+      await this.withListeners(onProgress, onLog, () => this.ffmpeg.exec(command));
 
       const outputData = await this.ffmpeg.readFile(outputFileName);
       const outputBlob = outputData instanceof Uint8Array ? outputData : new Uint8Array(await (outputData as unknown as Blob).arrayBuffer());
@@ -148,51 +186,386 @@ export class FFmpegProcessor {
     }
   }
 
-  async getVideoInfo(inputFile: File): Promise<{
-    duration: number;
-    width: number;
-    height: number;
-    bitrate: number;
-    codec: string;
-  } | null> {
+  async generateThumbnailSprite(
+    inputFile: File,
+    options: ThumbnailSpriteOptions = {},
+    onProgress?: (progress: FFmpegProgress) => void,
+    onLog?: (message: string) => void
+  ): Promise<FFmpegResult> {
     if (!this.isLoaded) {
       await this.load();
     }
 
+    const inputFileName = 'input.' + this.getFileExtension(inputFile.name);
+    const imageName = 'thumbnails.jpg';
+
+    try {
+      await this.ffmpeg.writeFile(inputFileName, await fetchFile(inputFile));
+
+      const info = await this.probeWithFFprobe(inputFileName) ?? await this.probeWithLog(inputFileName);
+      const video = info?.videoStreams[0];
+      if (!info?.duration || !video?.width || !video.height) {
+        throw new Error('Could not read the video duration and frame size');
+      }
+
+      // ffmpeg autorotates, so tiles follow the display orientation
+      const rotated = video.rotation % 180 !== 0;
+      const aspect = rotated ? video.width / video.height : video.height / video.width;
+      const interval = options.count ? info.duration / options.count : options.interval ?? 5;
+      const columns = options.columns ?? 10;
+      const tileWidth = options.width ?? 160;
+      const count = options.count ?? Math.max(1, Math.ceil(info.duration / interval));
+      const layout: ThumbnailSpriteLayout = {
+        duration: info.duration,
+        interval,
+        count,
+        columns,
+        rows: Math.ceil(count / columns),
+        tileWidth,
+        tileHeight: Math.round((tileWidth * aspect) / 2) * 2,
+      };
+
+      const exitCode = await this.withListeners(onProgress, onLog, () => this.ffmpeg.exec([
+        '-i', inputFileName,
+        '-vf', `${options.count ? `fps=${count}/${info.duration}` : `fps=1/${interval}`},scale=${layout.tileWidth}:${layout.tileHeight},tile=${columns}x${layout.rows}`,
+        '-frames:v', '1',
+        '-q:v', '4',
+        imageName
+      ]));
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode}`);
+      }
+
+      const imageData = await this.ffmpeg.readFile(imageName);
+      const image = imageData instanceof Uint8Array ? imageData : new TextEncoder().encode(imageData);
+      await this.ffmpeg.deleteFile(imageName);
+
+      const sprite: ThumbnailSprite = {
+        ...layout,
+        image,
+        imageName,
+        mimeType: 'image/jpeg',
+        vtt: buildThumbnailVTT(layout, imageName),
+      };
+
+      return {
+        success: true,
+        sprite,
+        size: image.length,
+      };
+    } catch (error) {
+      console.error('Thumbnail sprite generation failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    } finally {
+      await this.ffmpeg.deleteFile(inputFileName).catch(() => undefined);
+    }
+  }
+
+  async packageAdaptive(
+    inputFile: File,
+    ladder: AdaptiveRendition[],
+    options: AdaptivePackagingOptions = { format: 'hls' },
+    onProgress?: (progress: FFmpegProgress) => void,
+    onLog?: (message: string) => void
+  ): Promise<FFmpegResult> {
+    if (!this.isLoaded) {
+      await this.load();
+    }
+
+    if (ladder.length === 0) {
+      return { success: false, error: 'Bitrate ladder must contain at least one rendition' };
+    }
+
+    if (options.encryption) {
+      if (options.format !== 'dash') {
+        return { success: false, error: 'CENC encryption is only supported for DASH packaging' };
+      }
+      if (!isValidCENCKey(options.encryption)) {
+        return { success: false, error: 'CENC key ID and key must be 16 bytes of hex' };
+      }
+    }
+
+    const inputFileName = 'input.' + this.getFileExtension(inputFile.name);
+
+    try {
+      await this.ffmpeg.writeFile(inputFileName, await fetchFile(inputFile));
+
+      await this.clearPackageDir();
+      await this.ffmpeg.createDir(PACKAGE_DIR);
+
+      // Mapping an audio stream the input doesn't have fails the whole job
+      const info = options.includeAudio === false
+        ? null
+        : await this.probeWithFFprobe(inputFileName) ?? await this.probeWithLog(inputFileName);
+      const hasAudio = info ? info.audioStreams.length > 0 : options.includeAudio !== false;
+
+      const { command, manifestPath } = this.buildPackageCommand(inputFileName, ladder, options, hasAudio);
+
+      const exitCode = await this.withListeners(onProgress, onLog, () => this.ffmpeg.exec(command));
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode}`);
+      }
+
+      const files = await this.readPackageDir();
+      if (!files.some(file => file.path === manifestPath)) {
+        throw new Error(`Packaging did not produce ${manifestPath}`);
+      }
+
+      const bundle: AdaptiveBundle = {
+        format: options.format,
+        manifestPath,
+        renditions: ladder,
+        files,
+      };
+
+      return {
+        success: true,
+        bundle,
+        size: files.reduce((total, file) => total + file.data.length, 0),
+      };
+    } catch (error) {
+      console.error('Adaptive packaging failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    } finally {
+      await this.ffmpeg.deleteFile(inputFileName).catch(() => undefined);
+      await this.clearPackageDir();
+    }
+  }
+
+  /**
+   * Encrypt a file into fragmented MP4 with CENC (AES-CTR), without
+   * re-encoding. Play it back with the same key ID, e.g. through ClearKey.
+   */
+  async encryptCENC(
+    inputFile: File,
+    key: CENCKey,
+    onProgress?: (progress: FFmpegProgress) => void,
+    onLog?: (message: string) => void
+  ): Promise<FFmpegResult> {
+    if (!isValidCENCKey(key)) {
+      return { success: false, error: 'CENC key ID and key must be 16 bytes of hex' };
+    }
+
+    if (!this.isLoaded) {
+      await this.load();
+    }
+
+    const inputFileName = 'input.' + this.getFileExtension(inputFile.name);
+    const outputFileName = 'encrypted.mp4';
+
     try {
-      const inputFileName = 'input.' + this.getFileExtension(inputFile.name);
       await this.ffmpeg.writeFile(inputFileName, await fetchFile(inputFile));
 
-      // Use ffprobe to get video information
       const command = [
         '-i', inputFileName,
-        '-f', 'null',
-        '-'
+        '-map', '0:v', '-map', '0:a?',
+        '-c', 'copy',
+        '-encryption_scheme', 'cenc-aes-ctr',
+        '-encryption_key', key.key.toLowerCase(),
+        '-encryption_kid', key.keyId.toLowerCase(),
+        '-movflags', 'frag_keyframe+empty_moov+default_base_moof',
+        outputFileName
       ];
 
-      await this.ffmpeg.exec(command);
-      await this.ffmpeg.deleteFile(inputFileName);
+      const exitCode = await this.withListeners(onProgress, onLog, () => this.ffmpeg.exec(command));
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode}`);
+      }
+
+      const outputData = await this.ffmpeg.readFile(outputFileName);
+      const outputBlob = outputData instanceof Uint8Array ? outputData : new Uint8Array(await (outputData as unknown as Blob).arrayBuffer());
 
-      // Note: This is a simplified implementation
-      // In a real implementation, you'd parse the FFmpeg output
       return {
-        duration: 0,
-        width: 1920,
-        height: 1080,
-        bitrate: 1000000,
-        codec: 'h264',
+        success: true,
+        outputFile: outputBlob,
+        size: outputBlob.length,
+      };
+    } catch (error) {
+      console.error('CENC encryption failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
       };
+    } finally {
+      await this.ffmpeg.deleteFile(inputFileName).catch(() => undefined);
+      await this.ffmpeg.deleteFile(outputFileName).catch(() => undefined);
+    }
+  }
+
+  async getVideoInfo(inputFile: File): Promise<MediaInfo | null> {
+    if (!this.isLoaded) {
+      await this.load();
+    }
+
+    // Kept apart from the input name used by conversion jobs
+    const inputFileName = `probe-${++this.probeCount}.${this.getFileExtension(inputFile.name)}`;
+
+    try {
+      await this.ffmpeg.writeFile(inputFileName, await fetchFile(inputFile));
+
+      const info = await this.probeWithFFprobe(inputFileName) ?? await this.probeWithLog(inputFileName);
+
+      if (!info) {
+        throw new Error('FFmpeg did not report any input information');
+      }
+
+      return { ...info, size: info.size ?? inputFile.size };
     } catch (error) {
       console.error('Failed to get video info:', error);
       return null;
+    } finally {
+      await this.ffmpeg.deleteFile(inputFileName).catch(() => undefined);
     }
   }
 
+  // Older cores (including the default 0.12.6) are built without ffprobe
+  private async probeWithFFprobe(inputFileName: string): Promise<MediaInfo | null> {
+    const outputFileName = `probe-${++this.probeCount}.json`;
+
+    try {
+      const exitCode = await this.ffmpeg.ffprobe([
+        '-v', 'quiet',
+        '-print_format', 'json',
+        '-show_format',
+        '-show_streams',
+        '-show_chapters',
+        inputFileName,
+        '-o', outputFileName
+      ]);
+      if (exitCode !== 0) return null;
+
+      const output = await this.ffmpeg.readFile(outputFileName, 'utf8');
+      const json = typeof output === 'string' ? output : new TextDecoder().decode(output);
+      return parseFFprobeOutput(JSON.parse(json) as FFprobeOutput);
+    } catch {
+      return null;
+    } finally {
+      await this.ffmpeg.deleteFile(outputFileName).catch(() => undefined);
+    }
+  }
+
+  private async probeWithLog(inputFileName: string): Promise<MediaInfo | null> {
+    const log: string[] = [];
+
+    // Exits non-zero without an output file, after printing the input banner
+    await this.withListeners(undefined, message => log.push(message), () => (
+      this.ffmpeg.exec(['-hide_banner', '-i', inputFileName])
+    ));
+
+    return parseFFmpegLog(log);
+  }
+
+  // Each range is converted to its own part, then the concat demuxer joins the parts
+  private async convertCuts(
+    inputFileName: string,
+    outputFileName: string,
+    options: VideoConversionOptions,
+    cuts: TrimRange[],
+    onProgress?: (progress: FFmpegProgress) => void,
+    onLog?: (message: string) => void
+  ): Promise<void> {
+    const totalDuration = cuts.reduce((total, cut) => total + cut.end - cut.start, 0);
+    const listFileName = 'cuts.txt';
+    const parts: string[] = [];
+    let completed = 0;
+
+    try {
+      for (const cut of cuts) {
+        const partFileName = `part${parts.length}.${options.outputFormat}`;
+        const share = (cut.end - cut.start) / totalDuration;
+        const offset = completed;
+
+        const exitCode = await this.withListeners(
+          onProgress && (progress => onProgress({
+            ...progress,
+            percent: Math.round((offset + share * progress.percent / 100) * 100),
+          })),
+          onLog,
+          () => this.ffmpeg.exec(this.buildCommand(inputFileName, partFileName, { ...options, trim: cut }))
+        );
+        parts.push(partFileName);
+        if (exitCode !== 0) {
+          throw new Error(`FFmpeg exited with code ${exitCode} while cutting ${cut.start}-${cut.end}s`);
+        }
+        completed += share;
+      }
+
+      await this.ffmpeg.writeFile(listFileName, parts.map(part => `file '${part}'`).join('\n'));
+      const exitCode = await this.withListeners(undefined, onLog, () => this.ffmpeg.exec([
+        '-f', 'concat',
+        '-safe', '0',
+        '-i', listFileName,
+        '-c', 'copy',
+        outputFileName
+      ]));
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode} while joining cuts`);
+      }
+    } finally {
+      for (const file of [...parts, listFileName]) {
+        await this.ffmpeg.deleteFile(file).catch(() => undefined);
+      }
+    }
+  }
+
+  // ffmpeg.wasm broadcasts progress and log events to every listener, so commands
+  // are chained and each call's listeners only see its own exec
+  private withListeners<T>(
+    onProgress: ((progress: FFmpegProgress) => void) | undefined,
+    onLog: ((message: string) => void) | undefined,
+    task: () => Promise<T>
+  ): Promise<T> {
+    const progressListener = ({ progress, time }: { progress: number; time: number }) => {
+      onProgress?.({
+        percent: Math.round(progress * 100),
+        time,
+        speed: 1.0, // FFmpeg doesn't provide speed directly
+        eta: time / progress - time,
+      });
+    };
+    const logListener = ({ message }: { message: string }) => {
+      onLog?.(message);
+    };
+
+    const run = this.execChain.then(async () => {
+      this.ffmpeg.on('progress', progressListener);
+      this.ffmpeg.on('log', logListener);
+      try {
+        return await task();
+      } finally {
+        this.ffmpeg.off('progress', progressListener);
+        this.ffmpeg.off('log', logListener);
+      }
+    });
+    this.execChain = run.catch(() => undefined);
+
+    return run;
+  }
+
   private buildCommand(
     inputFileName: string,
     outputFileName: string,
     options: VideoConversionOptions
   ): string[] {
+    // Input seeking lands on the keyframe before the in-point and copies packets as-is,
+    // so codec, quality and scaling options do not apply
+    if (options.trim && options.trimMode === 'copy') {
+      return [
+        '-ss', options.trim.start.toString(),
+        '-i', inputFileName,
+        '-t', (options.trim.end - options.trim.start).toString(),
+        '-c', 'copy',
+        '-avoid_negative_ts', 'make_zero',
+        outputFileName
+      ];
+    }
+
     const command: string[] = ['-i', inputFileName];
 
     // Quality settings
@@ -249,10 +622,145 @@ export class FFmpegProcessor {
     return command;
   }
 
+  private buildPackageCommand(
+    inputFileName: string,
+    ladder: AdaptiveRendition[],
+    options: AdaptivePackagingOptions,
+    hasAudio: boolean
+  ): { command: string[]; manifestPath: string } {
+    const segmentDuration = options.segmentDuration ?? 4;
+    const includeAudio = (options.includeAudio ?? true) && hasAudio;
+
+    // Scale one decoded video stream into every rung of the ladder
+    const splits = ladder.map((_, i) => `[s${i}]`).join('');
+    const scales = ladder.map((rendition, i) => `[s${i}]scale=${rendition.width}:${rendition.height}[v${i}]`);
+    const command: string[] = [
+      '-i', inputFileName,
+      '-filter_complex', `[0:v]split=${ladder.length}${splits};${scales.join(';')}`,
+    ];
+
+    ladder.forEach((rendition, i) => {
+      command.push(
+        '-map', `[v${i}]`,
+        `-c:v:${i}`, 'libx264',
+        `-b:v:${i}`, `${rendition.videoBitrate}k`,
+        `-maxrate:v:${i}`, `${Math.round(rendition.videoBitrate * 1.07)}k`,
+        `-bufsize:v:${i}`, `${Math.round(rendition.videoBitrate * 1.5)}k`
+      );
+    });
+
+    // Keyframes on segment boundaries keep the renditions switchable
+    command.push(
+      '-preset', 'veryfast',
+      '-sc_threshold', '0',
+      '-force_key_frames', `expr:gte(t,n_forced*${segmentDuration})`
+    );
+
+    if (options.format === 'dash') {
+      if (includeAudio) {
+        const audioBitrate = Math.max(...ladder.map(rendition => rendition.audioBitrate ?? 128));
+        command.push('-map', '0:a:0', '-c:a', 'aac', '-b:a', `${audioBitrate}k`);
+      }
+
+      command.push(
+        '-f', 'dash',
+        '-seg_duration', segmentDuration.toString(),
+        // Explicit segment lists are easier to point at blob URLs than templates
+        '-use_template', '0',
+        '-use_timeline', '0',
+        '-init_seg_name', 'init-$RepresentationID$.m4s',
+        '-media_seg_name', 'chunk-$RepresentationID$-$Number%05d$.m4s',
+        '-adaptation_sets', includeAudio ? 'id=0,streams=v id=1,streams=a' : 'id=0,streams=v'
+      );
+
+      if (options.encryption) {
+        // Passed through to the MP4 muxer that writes each representation
+        const { keyId, key } = options.encryption;
+        command.push(
+          '-format_options',
+          `encryption_scheme=cenc-aes-ctr:encryption_key=${key.toLowerCase()}:encryption_kid=${keyId.toLowerCase()}`
+        );
+      }
+
+      command.push(`${PACKAGE_DIR}/manifest.mpd`);
+
+      return { command, manifestPath: 'manifest.mpd' };
+    }
+
+    if (includeAudio) {
+      ladder.forEach((rendition, i) => {
+        command.push('-map', '0:a:0', `-c:a:${i}`, 'aac', `-b:a:${i}`, `${rendition.audioBitrate ?? 128}k`);
+      });
+    }
+
+    const fmp4 = options.segmentFormat === 'fmp4';
+    command.push(
+      '-f', 'hls',
+      '-hls_time', segmentDuration.toString(),
+      '-hls_playlist_type', 'vod',
+      '-hls_flags', 'independent_segments',
+      '-hls_segment_type', fmp4 ? 'fmp4' : 'mpegts'
+    );
+    if (fmp4) {
+      command.push('-hls_fmp4_init_filename', 'v%v_init.mp4');
+    }
+    command.push(
+      '-hls_segment_filename', `${PACKAGE_DIR}/v%v_%05d.${fmp4 ? 'm4s' : 'ts'}`,
+      '-master_pl_name', 'master.m3u8',
+      '-var_stream_map', ladder.map((_, i) => includeAudio ? `v:${i},a:${i}` : `v:${i}`).join(' '),
+      `${PACKAGE_DIR}/v%v.m3u8`
+    );
+
+    return { command, manifestPath: 'master.m3u8' };
+  }
+
+  private async readPackageDir(): Promise<AdaptiveBundleFile[]> {
+    const entries = await this.ffmpeg.listDir(PACKAGE_DIR);
+    const files: AdaptiveBundleFile[] = [];
+
+    for (const entry of entries) {
+      if (entry.isDir) continue;
+
+      const data = await this.ffmpeg.readFile(`${PACKAGE_DIR}/${entry.name}`);
+      files.push({
+        path: entry.name,
+        data: data instanceof Uint8Array ? data : new TextEncoder().encode(data),
+        mimeType: BUNDLE_MIME_TYPES[this.getFileExtension(entry.name)] || 'application/octet-stream',
+      });
+    }
+
+    return files;
+  }
+
+  private async clearPackageDir(): Promise<void> {
+    try {
+      const entries = await this.ffmpeg.listDir(PACKAGE_DIR);
+      for (const entry of entries) {
+        if (!entry.isDir) {
+          await this.ffmpeg.deleteFile(`${PACKAGE_DIR}/${entry.name}`);
+        }
+      }
+      await this.ffmpeg.deleteDir(PACKAGE_DIR);
+    } catch {
+      // Nothing left over from a previous run
+    }
+  }
+
   private getFileExtension(filename: string): string {
     return filename.split('.').pop()?.toLowerCase() || 'mp4';
   }
 
+  /**
+   * Abort whatever is running. ffmpeg.wasm cannot interrupt exec, so the worker
+   * is dropped and the next call reloads it; the pending call fails.
+   */
+  cancel(): void {
+    if (this.isLoaded) {
+      this.ffmpeg.terminate();
+      this.isLoaded = false;
+    }
+  }
+
   async terminate(): Promise<void> {
     if (this.isLoaded) {
       this.ffmpeg.terminate();
@@ -262,8 +770,28 @@ export class FFmpegProcessor {
 }
 
 // Utility functions for common operations
-export const createFFmpegProcessor = (): FFmpegProcessor => {
-  return new FFmpegProcessor();
+export const createFFmpegProcessor = (coreOptions?: FFmpegCoreOptions): FFmpegProcessor => {
+  return new FFmpegProcessor(coreOptions);
+};
+
+/**
+ * Sort cut ranges, clamp them to the media duration and merge any overlaps.
+ */
+export const normalizeTrimRanges = (ranges: TrimRange[], duration: number = Infinity): TrimRange[] => {
+  const sorted = ranges
+    .map(range => ({ start: Math.max(0, range.start), end: Math.min(duration, range.end) }))
+    .filter(range => Number.isFinite(range.start) && range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+
+  return sorted.reduce<TrimRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
 };
 
 export const getSupportedFormats = (): string[] => {
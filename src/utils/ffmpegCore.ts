@@ -0,0 +1,137 @@
+import { FFmpegCoreOptions, FFmpegLoadProgress } from '../types/player';
+
+// Served by src/app/api/ffmpeg-core from the @ffmpeg/core package, so no CDN is needed
+export const DEFAULT_FFMPEG_CORE_BASE_URL = process.env.NEXT_PUBLIC_FFMPEG_CORE_URL || '/api/ffmpeg-core';
+
+// Versioned so upgrading @ffmpeg/core never reuses stale cached assets
+export const FFMPEG_CORE_CACHE_NAME = 'ffmpeg-core-0.12.6';
+
+export interface FFmpegCoreURLs {
+  coreURL: string;
+  wasmURL: string;
+  workerURL?: string;
+}
+
+interface CoreAsset {
+  url: string;
+  mimeType: string;
+}
+
+/**
+ * Work out the core, wasm and worker URLs for the given options.
+ */
+export const resolveFFmpegCoreURLs = (options: FFmpegCoreOptions = {}): FFmpegCoreURLs => {
+  const baseURL = (options.baseURL || DEFAULT_FFMPEG_CORE_BASE_URL).replace(/\/$/, '');
+
+  return {
+    coreURL: options.coreURL || `${baseURL}/ffmpeg-core.js`,
+    wasmURL: options.wasmURL || `${baseURL}/ffmpeg-core.wasm`,
+    workerURL: options.workerURL,
+  };
+};
+
+const openCache = async (cacheName: string | false | undefined): Promise<Cache | null> => {
+  if (cacheName === false || typeof caches === 'undefined') return null;
+
+  try {
+    return await caches.open(cacheName || FFMPEG_CORE_CACHE_NAME);
+  } catch {
+    // Cache Storage is unavailable on insecure origins and in some private modes
+    return null;
+  }
+};
+
+const readResponse = async (response: Response, onBytes: (loaded: number, total: number) => void): Promise<Uint8Array> => {
+  const total = Number(response.headers.get('Content-Length')) || 0;
+
+  if (!response.body) {
+    const data = new Uint8Array(await response.arrayBuffer());
+    onBytes(data.length, total || data.length);
+    return data;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    chunks.push(value);
+    loaded += value.length;
+    onBytes(loaded, total);
+  }
+
+  const data = new Uint8Array(loaded);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  });
+  onBytes(loaded, total || loaded);
+
+  return data;
+};
+
+const fetchAsset = async (
+  asset: CoreAsset,
+  cache: Cache | null,
+  onBytes: (loaded: number, total: number) => void
+): Promise<string> => {
+  const cached = await cache?.match(asset.url);
+  const response = cached || await fetch(asset.url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${asset.url} (HTTP ${response.status})`);
+  }
+
+  // Read once, with progress, and cache what was read rather than a clone
+  const data = await readResponse(response, onBytes);
+  if (cache && !cached) {
+    const headers = { 'Content-Type': asset.mimeType, 'Content-Length': data.length.toString() };
+    await cache.put(asset.url, new Response(data as BlobPart, { headers })).catch(() => undefined);
+  }
+  return URL.createObjectURL(new Blob([data as BlobPart], { type: asset.mimeType }));
+};
+
+/**
+ * Fetch the core assets, through Cache Storage when available, and expose
+ * them as blob URLs for FFmpeg.load(). Progress covers all assets combined.
+ */
+export const fetchFFmpegCore = async (
+  options: FFmpegCoreOptions = {},
+  onProgress?: (progress: FFmpegLoadProgress) => void
+): Promise<FFmpegCoreURLs> => {
+  const urls = resolveFFmpegCoreURLs(options);
+  const assets: CoreAsset[] = [
+    { url: urls.coreURL, mimeType: 'text/javascript' },
+    { url: urls.wasmURL, mimeType: 'application/wasm' },
+  ];
+  if (urls.workerURL) {
+    assets.push({ url: urls.workerURL, mimeType: 'text/javascript' });
+  }
+
+  const cache = await openCache(options.cacheName);
+  const loaded = assets.map(() => 0);
+  const totals = assets.map(() => 0);
+
+  const blobURLs = await Promise.all(assets.map((asset, i) => fetchAsset(asset, cache, (bytes, total) => {
+    loaded[i] = bytes;
+    totals[i] = total;
+
+    const loadedSum = loaded.reduce((sum, value) => sum + value, 0);
+    const totalSum = totals.reduce((sum, value) => sum + value, 0);
+    onProgress?.({
+      file: asset.url.split('/').pop() || asset.url,
+      loaded: loadedSum,
+      total: totalSum,
+      percent: totalSum ? Math.min(100, Math.round((loadedSum / totalSum) * 100)) : 0,
+    });
+  })));
+
+  return {
+    coreURL: blobURLs[0],
+    wasmURL: blobURLs[1],
+    workerURL: blobURLs[2],
+  };
+};
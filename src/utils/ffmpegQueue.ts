@@ -0,0 +1,193 @@
+import { FFmpegProcessor } from './ffmpeg';
+import { FFmpegJob, FFmpegJobType, FFmpegProgress, FFmpegResult } from '../types/player';
+
+export type FFmpegJobRunner = (
+  processor: FFmpegProcessor,
+  onProgress: (progress: FFmpegProgress) => void,
+  onLog: (message: string) => void
+) => Promise<FFmpegResult>;
+
+export interface QueuedFFmpegJob {
+  id: string;
+  result: Promise<FFmpegResult>;
+}
+
+export const JOB_CANCELLED_ERROR = 'Job cancelled';
+
+const MAX_JOB_LOGS = 500;
+
+interface PendingJob {
+  runner: FFmpegJobRunner;
+  resolve: (result: FFmpegResult) => void;
+}
+
+const isFinished = (job: FFmpegJob): boolean => {
+  return job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+};
+
+/**
+ * Runs FFmpeg jobs one at a time against a shared processor. Each job keeps
+ * its own status, progress, logs and result, and can be cancelled on its own.
+ */
+export class FFmpegJobQueue {
+  private processor: FFmpegProcessor;
+  private jobs: FFmpegJob[] = [];
+  private pending: Map<string, PendingJob> = new Map();
+  private listeners: Set<(jobs: FFmpegJob[]) => void> = new Set();
+  private runningId: string | null = null;
+  private cancelRequested: boolean = false;
+  private nextId: number = 1;
+
+  constructor(processor: FFmpegProcessor) {
+    this.processor = processor;
+  }
+
+  add(type: FFmpegJobType, fileName: string, runner: FFmpegJobRunner, options: { hidden?: boolean } = {}): QueuedFFmpegJob {
+    const id = `job-${this.nextId++}`;
+
+    const result = new Promise<FFmpegResult>(resolve => {
+      this.pending.set(id, { runner, resolve });
+    });
+
+    this.jobs = [...this.jobs, {
+      id,
+      type,
+      fileName,
+      status: 'queued',
+      progress: null,
+      logs: [],
+      result: null,
+      createdAt: Date.now(),
+      ...(options.hidden && { hidden: true })
+    }];
+    this.notify();
+    void this.runNext();
+
+    return { id, result };
+  }
+
+  /**
+   * Cancel a queued or running job. Returns false if the job already finished.
+   */
+  cancel(id: string): boolean {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    if (!job) return false;
+
+    if (job.status === 'queued') {
+      const pending = this.pending.get(id);
+      this.pending.delete(id);
+
+      const result: FFmpegResult = { success: false, error: JOB_CANCELLED_ERROR };
+      this.update(id, { status: 'cancelled', result, finishedAt: Date.now() });
+      pending?.resolve(result);
+      return true;
+    }
+
+    if (job.status === 'running' && !this.cancelRequested) {
+      // The processor drops its worker; the runner settles and is marked cancelled
+      this.cancelRequested = true;
+      this.processor.cancel();
+      return true;
+    }
+
+    return false;
+  }
+
+  cancelAll(): void {
+    this.jobs
+      .filter(job => job.status === 'queued')
+      .forEach(job => this.cancel(job.id));
+
+    if (this.runningId) {
+      this.cancel(this.runningId);
+    }
+  }
+
+  clearFinished(): void {
+    this.jobs = this.jobs.filter(job => !isFinished(job));
+    this.notify();
+  }
+
+  getJobs(): FFmpegJob[] {
+    return [...this.jobs];
+  }
+
+  subscribe(listener: (jobs: FFmpegJob[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getJobs());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async runNext(): Promise<void> {
+    if (this.runningId) return;
+
+    const job = this.jobs.find(candidate => candidate.status === 'queued');
+    const pending = job && this.pending.get(job.id);
+    if (!job || !pending) return;
+
+    const { id } = job;
+    this.pending.delete(id);
+    this.runningId = id;
+    this.cancelRequested = false;
+    this.update(id, { status: 'running', startedAt: Date.now() });
+
+    let result: FFmpegResult;
+    try {
+      result = await pending.runner(
+        this.processor,
+        progress => {
+          if (!this.cancelRequested) this.update(id, { progress });
+        },
+        message => this.appendLog(id, message)
+      );
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Job failed'
+      };
+    }
+
+    const cancelled = this.cancelRequested;
+    if (cancelled) {
+      result = { success: false, error: JOB_CANCELLED_ERROR };
+    }
+
+    this.update(id, {
+      status: cancelled ? 'cancelled' : result.success ? 'done' : 'failed',
+      result,
+      finishedAt: Date.now()
+    });
+    this.runningId = null;
+    this.cancelRequested = false;
+    pending.resolve(result);
+
+    void this.runNext();
+  }
+
+  private appendLog(id: string, message: string): void {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    if (!job) return;
+
+    this.update(id, { logs: [...job.logs, message].slice(-MAX_JOB_LOGS) });
+  }
+
+  private update(id: string, changes: Partial<FFmpegJob>): void {
+    this.jobs = this.jobs
+      .map(job => (job.id === id ? { ...job, ...changes } : job))
+      // Nobody is shown hidden jobs, so nobody clears them
+      .filter(job => !(job.hidden && isFinished(job)));
+    this.notify();
+  }
+
+  private notify(): void {
+    const jobs = this.getJobs();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+}
+
+export const createFFmpegJobQueue = (processor: FFmpegProcessor): FFmpegJobQueue => {
+  return new FFmpegJobQueue(processor);
+};
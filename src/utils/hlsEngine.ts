@@ -0,0 +1,267 @@
+import Hls from 'hls.js';
+import { AudioTrack, LiveStreamType, PlaybackEngine, PlaybackMetrics, TextTrackInfo, VideoQuality } from '../types/player';
+import { BasePlaybackEngine, PlaybackEngineOptions } from './playbackEngine';
+import { NativePlaybackEngine } from './nativeEngine';
+import { DEFAULT_LOW_LATENCY_CONFIG } from './lowLatencyOptimizer';
+
+// hls.js flags the native tracks it creates for CEA-608/708 channels 1-4
+const CAPTION_CHANNELS = [1, 2, 3, 4];
+
+// HLS CHARACTERISTICS value of audio description renditions
+const DESCRIBES_VIDEO = 'public.accessibility.describes-video';
+
+const captionChannel = (track: TextTrack): number | null => {
+  const flags = track as unknown as Record<string, unknown>;
+  return CAPTION_CHANNELS.find(channel => flags[`textTrack${channel}`]) ?? null;
+};
+
+/**
+ * HLS playback through hls.js
+ */
+export class HLSPlaybackEngine extends BasePlaybackEngine {
+  readonly type = 'hls';
+  private hls: Hls | null = null;
+  private qualities: VideoQuality[] = [];
+  private liveType: LiveStreamType | null = null;
+
+  async load(videoElement: HTMLVideoElement, url: string): Promise<void> {
+    this.destroyHls();
+    this.videoElement = videoElement;
+
+    // hls.js' own EME controller stays off; DRMManager owns the MediaKeys.
+    // Nothing is attached if the engine was destroyed during the license request.
+    if (!await this.attachDRM(videoElement)) return;
+
+    const lowLatency = this.options.lowLatency && { ...DEFAULT_LOW_LATENCY_CONFIG, ...this.options.lowLatency };
+    const hls = new Hls({
+      enableWorker: true,
+      // Parts, blocking playlist reload and preload hints
+      lowLatencyMode: lowLatency ? lowLatency.partialSegments : true,
+      backBufferLength: 90,
+      maxBufferLength: 30,
+      maxMaxBufferLength: 600,
+      // hls.js rejects mixing segment counts with durations
+      ...(lowLatency
+        ? { liveSyncDuration: lowLatency.targetLatency, liveMaxLatencyDuration: lowLatency.maxLatency }
+        : { liveSyncDurationCount: 3, liveMaxLatencyDurationCount: 5 }),
+    });
+    this.hls = hls;
+    // Cues go to hidden native tracks; the player renders them itself
+    hls.subtitleDisplay = false;
+
+    hls.on(Hls.Events.MANIFEST_PARSED, () => {
+      console.log('HLS manifest parsed successfully');
+      this.qualities = hls.levels.map((level, index) => ({
+        level: index,
+        width: level.width,
+        height: level.height,
+        bitrate: level.bitrate,
+        codecs: level.codecs || '',
+        label: `${level.height}p`
+      }));
+      this.emit('loaded', { qualities: this.qualities });
+    });
+
+    // Live until the playlist gets an EXT-X-ENDLIST; EVENT playlists only grow
+    hls.on(Hls.Events.LEVEL_LOADED, (event, data) => {
+      const { details } = data;
+      this.liveType = details.live ? (details.type === 'EVENT' ? 'event' : 'live') : null;
+    });
+
+    hls.on(Hls.Events.LEVEL_SWITCHED, (event, data) => {
+      this.emit('qualityChanged', { quality: this.qualities[data.level] || null });
+    });
+
+    hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, () => {
+      this.emit('audioTracksChanged', { tracks: this.getAudioTracks() });
+    });
+
+    hls.on(Hls.Events.AUDIO_TRACK_SWITCHED, () => {
+      this.emit('audioTrackChanged', { track: this.getCurrentAudioTrack() });
+    });
+
+    hls.on(Hls.Events.SUBTITLE_TRACKS_UPDATED, () => {
+      this.emit('textTracksChanged', { tracks: this.getTextTracks() });
+    });
+
+    hls.on(Hls.Events.ERROR, (event, data) => {
+      console.error('HLS Error:', data);
+      this.emit('error', { message: data.details, fatal: data.fatal });
+    });
+
+    // Embedded 608/708 caption tracks appear once their first cues are parsed
+    this.watchTextTracks(videoElement);
+
+    hls.loadSource(url);
+    hls.attachMedia(videoElement);
+  }
+
+  getQualities(): VideoQuality[] {
+    return this.qualities;
+  }
+
+  getCurrentQuality(): VideoQuality | null {
+    if (!this.hls) return null;
+    return this.qualities[this.hls.currentLevel] || null;
+  }
+
+  setQuality(level: number): void {
+    if (this.hls) {
+      this.hls.currentLevel = level;
+    }
+  }
+
+  getAudioTracks(): AudioTrack[] {
+    if (!this.hls) return [];
+
+    return this.hls.audioTracks.map((track, index) => {
+      const descriptive = !!track.characteristics?.includes(DESCRIBES_VIDEO);
+      return {
+        id: `audio-${index}`,
+        label: track.name || track.lang || `Audio ${index + 1}`,
+        language: track.lang || '',
+        roles: [descriptive ? 'description' : track.default ? 'main' : 'alternate'],
+        descriptive,
+        channels: track.channels,
+        codecs: track.audioCodec
+      };
+    });
+  }
+
+  getCurrentAudioTrack(): AudioTrack | null {
+    if (!this.hls) return null;
+    return this.getAudioTracks()[this.hls.audioTrack] || null;
+  }
+
+  setAudioTrack(id: string): void {
+    const match = /^audio-(\d+)$/.exec(id);
+    if (this.hls && match) {
+      this.hls.audioTrack = Number(match[1]);
+    }
+  }
+
+  getTextTracks(): TextTrackInfo[] {
+    if (!this.hls) return [];
+
+    const subtitles: TextTrackInfo[] = this.hls.subtitleTracks.map((track, index) => ({
+      id: `subtitle-${index}`,
+      label: track.name || track.lang || `Subtitles ${index + 1}`,
+      language: track.lang || '',
+      kind: track.characteristics?.includes('public.accessibility.describes-music-and-sound') ? 'captions' : 'subtitles',
+      source: 'manifest'
+    }));
+
+    const captions: TextTrackInfo[] = this.getCaptionTracks().map(({ channel, track }) => ({
+      id: `cc${channel}`,
+      label: track.label || `CC${channel}`,
+      language: track.language,
+      kind: 'captions',
+      source: 'embedded'
+    }));
+
+    return [...subtitles, ...captions];
+  }
+
+  setTextTrack(id: string | null): void {
+    if (!this.hls) return;
+    // Embedded captions are always parsed, so only subtitle renditions need loading
+    const match = id ? /^subtitle-(\d+)$/.exec(id) : null;
+    this.hls.subtitleTrack = match ? Number(match[1]) : -1;
+  }
+
+  getNativeTextTrack(id: string): TextTrack | null {
+    const caption = /^cc(\d)$/.exec(id);
+    if (caption) {
+      return this.getCaptionTracks().find(({ channel }) => channel === Number(caption[1]))?.track || null;
+    }
+
+    const subtitle = /^subtitle-(\d+)$/.exec(id);
+    const track = subtitle && this.hls?.subtitleTracks[Number(subtitle[1])];
+    const nativeTracks = this.videoElement?.textTracks;
+    if (!track || !nativeTracks) return null;
+
+    // hls.js creates one native track per subtitle rendition, labelled with its name
+    for (let i = 0; i < nativeTracks.length; i++) {
+      const native = nativeTracks[i];
+      if (captionChannel(native) === null && native.label === track.name && native.language === (track.lang || '')) {
+        return native;
+      }
+    }
+    return null;
+  }
+
+  private getCaptionTracks(): { channel: number; track: TextTrack }[] {
+    const nativeTracks = this.videoElement?.textTracks;
+    const result: { channel: number; track: TextTrack }[] = [];
+    if (!nativeTracks) return result;
+
+    for (let i = 0; i < nativeTracks.length; i++) {
+      const channel = captionChannel(nativeTracks[i]);
+      if (channel !== null) {
+        result.push({ channel, track: nativeTracks[i] });
+      }
+    }
+    return result.sort((a, b) => a.channel - b.channel);
+  }
+
+  seekToLiveEdge(): void {
+    const liveSyncPosition = this.hls?.liveSyncPosition;
+    if (this.liveType && liveSyncPosition != null) {
+      this.seek(liveSyncPosition);
+    } else {
+      super.seekToLiveEdge();
+    }
+  }
+
+  // EXT-X-PROGRAM-DATE-TIME maps the playhead onto the wall clock
+  getWallClockLatency(): number | null {
+    const playingDate = this.hls?.playingDate;
+    return playingDate ? Math.max(0, (Date.now() - playingDate.getTime()) / 1000) : null;
+  }
+
+  protected getLiveType(): LiveStreamType | null {
+    return this.liveType;
+  }
+
+  protected getLiveLatency(liveEdge: number): number {
+    const latency = this.hls?.latency;
+    return latency && Number.isFinite(latency) ? latency : super.getLiveLatency(liveEdge);
+  }
+
+  protected getTargetLatency(): number {
+    return this.hls?.targetLatency ?? 0;
+  }
+
+  getMetrics(): PlaybackMetrics {
+    const metrics = super.getMetrics();
+    if (this.hls) {
+      metrics.bandwidth = this.hls.bandwidthEstimate || 0;
+    }
+    return metrics;
+  }
+
+  private destroyHls(): void {
+    if (this.hls) {
+      this.hls.destroy();
+      this.hls = null;
+    }
+    this.qualities = [];
+    this.liveType = null;
+  }
+
+  destroy(): void {
+    this.destroyHls();
+    super.destroy();
+  }
+}
+
+/**
+ * Use hls.js where Media Source Extensions are available and fall back to
+ * the browser's native HLS support otherwise
+ */
+export const createHLSPlaybackEngine = (options: PlaybackEngineOptions): PlaybackEngine => {
+  if (Hls.isSupported()) {
+    return new HLSPlaybackEngine(options);
+  }
+  return new NativePlaybackEngine(options, 'hls');
+};
@@ -1,4 +1,17 @@
 import { AdaptiveStreamingConfig, QualityLevel } from './adaptiveStreaming';
+import { PlaybackEngine } from '../types/player';
+import { SegmentLoader, SegmentLoaderConfig, createSegmentLoader } from './segmentLoader';
+import { SegmentCache, SegmentCacheConfig, createSegmentCache } from './segmentCache';
+
+// Latency this close to the target is left alone so the rate doesn't hunt
+const LATENCY_DEAD_BAND = 0.25;
+// Playback rate change per second of drift from the target
+const CATCH_UP_GAIN = 0.05;
+// Smaller rate changes than this aren't worth an action
+const MIN_RATE_CHANGE = 0.01;
+// Speeding up drains the buffer, so keep this much media ahead
+const MIN_BUFFER_TO_SPEED_UP = 1;
+const NETWORK_SAMPLE_SIZE = 20;
 
 export interface LowLatencyConfig {
   // Segment optimization
@@ -14,7 +27,8 @@ export interface LowLatencyConfig {
   // Network optimization
   parallelDownloads: number;
   prefetchSegments: number;
-  connectionPooling: boolean;
+  // LL-HLS parts with blocking playlist reload and preload hints, through hls.js
+  partialSegments: boolean;
   
   // Codec optimization
   useLowLatencyCodecs: boolean;
@@ -24,8 +38,38 @@ export interface LowLatencyConfig {
   // Quality adaptation
   aggressiveQualitySwitching: boolean;
   qualitySwitchLatency: number;
+
+  // Live latency catch-up (targetLatency and maxLatency are in seconds)
+  minPlaybackRate: number;
+  maxPlaybackRate: number;
+  catchUpInterval: number;
+
+  // Timeouts, retries and CDN failover for whole-segment requests
+  segmentLoader?: Partial<SegmentLoaderConfig>;
+  // Memory budget, eviction and persistence for prefetched segments
+  segmentCache?: Partial<SegmentCacheConfig>;
 }
 
+export const DEFAULT_LOW_LATENCY_CONFIG: LowLatencyConfig = {
+  segmentDuration: 2,
+  maxSegmentSize: 2 * 1024 * 1024,
+  minSegmentSize: 32 * 1024,
+  targetLatency: 3,
+  maxLatency: 8,
+  bufferFlushThreshold: 10,
+  parallelDownloads: 2,
+  prefetchSegments: 2,
+  partialSegments: true,
+  useLowLatencyCodecs: false,
+  keyframeInterval: 2,
+  bFrameCount: 0,
+  aggressiveQualitySwitching: false,
+  qualitySwitchLatency: 500,
+  minPlaybackRate: 0.95,
+  maxPlaybackRate: 1.05,
+  catchUpInterval: 500
+};
+
 export interface LatencyMetrics {
   endToEndLatency: number;
   segmentLatency: number;
@@ -34,6 +78,20 @@ export interface LatencyMetrics {
   networkLatency: number;
   bufferLatency: number;
   totalLatency: number;
+  // Seconds behind real time, as last measured on a live stream
+  liveLatency: number;
+}
+
+export type LatencyAction = 'speed-up' | 'slow-down' | 'resume-rate' | 'seek-live';
+
+export interface LatencyAdjustment {
+  action: LatencyAction;
+  timestamp: number;
+  latencyBefore: number;
+  // Measured on the next check after the action; null until then
+  latencyAfter: number | null;
+  playbackRateBefore: number;
+  playbackRateAfter: number;
 }
 
 export interface OptimizationResult {
@@ -42,20 +100,33 @@ export interface OptimizationResult {
   bufferEfficiency: number;
   networkEfficiency: number;
   overallScore: number;
+  // Set on entries logged by the latency catch-up controller
+  adjustment?: LatencyAdjustment;
 }
 
 export class LowLatencyOptimizer {
   private config: LowLatencyConfig;
   private metrics: LatencyMetrics;
   private optimizationHistory: OptimizationResult[] = [];
-  private segmentCache: Map<string, ArrayBuffer> = new Map();
-  private connectionPool: Map<string, WebSocket> = new Map();
-  private prefetchQueue: string[] = [];
+  private segmentCache: SegmentCache;
   private isOptimizing: boolean = false;
+  private downloadTimes: number[] = [];
+  private segmentLoader: SegmentLoader;
+
+  // Latency catch-up state
+  private engine: PlaybackEngine | null = null;
+  private video: HTMLVideoElement | null = null;
+  private catchUpTimer: ReturnType<typeof setInterval> | null = null;
+  private appliedRate = 1;
+  private followingLive = true;
+  private seekingToLive = false;
+  private pendingAdjustment: OptimizationResult | null = null;
 
   constructor(config: LowLatencyConfig) {
     this.config = config;
     this.metrics = this.initializeLatencyMetrics();
+    this.segmentLoader = createSegmentLoader(config.segmentLoader);
+    this.segmentCache = createSegmentCache(config.segmentCache);
   }
 
   private initializeLatencyMetrics(): LatencyMetrics {
@@ -66,7 +137,8 @@ export class LowLatencyOptimizer {
       renderLatency: 0,
       networkLatency: 0,
       bufferLatency: 0,
-      totalLatency: 0
+      totalLatency: 0,
+      liveLatency: 0
     };
   }
 
@@ -186,9 +258,11 @@ export class LowLatencyOptimizer {
     if (!this.config.prefetchSegments) return;
 
     const segmentsToPrefetch = segmentUrls.slice(0, this.config.prefetchSegments);
+    this.segmentCache.setPlayhead(currentTime);
     
-    // Prefetch segments in parallel
-    const prefetchPromises = segmentsToPrefetch.map(url => this.prefetchSegment(url));
+    // Prefetch segments in parallel; the URLs are the segments after the playhead
+    const prefetchPromises = segmentsToPrefetch.map((url, index) =>
+      this.prefetchSegment(url, currentTime + index * this.config.segmentDuration));
     
     try {
       await Promise.all(prefetchPromises);
@@ -200,70 +274,50 @@ export class LowLatencyOptimizer {
   /**
    * Prefetch a single segment
    */
-  private async prefetchSegment(url: string): Promise<void> {
+  private async prefetchSegment(url: string, time: number): Promise<void> {
     if (this.segmentCache.has(url)) return;
 
     try {
-      const response = await fetch(url);
-      const segment = await response.arrayBuffer();
-      this.segmentCache.set(url, segment);
+      this.segmentCache.set(url, await this.segmentLoader.load({ url }), time);
     } catch (error) {
       console.error(`Failed to prefetch segment ${url}:`, error);
     }
   }
 
-  /**
-   * Get cached segment
-   */
-  getCachedSegment(url: string): ArrayBuffer | null {
-    return this.segmentCache.get(url) || null;
+  getSegmentLoader(): SegmentLoader {
+    return this.segmentLoader;
   }
 
   /**
-   * Optimize network connections
+   * Get cached segment, from memory or persistent storage
    */
-  async optimizeNetworkConnections(baseUrl: string): Promise<void> {
-    if (!this.config.connectionPooling) return;
+  getCachedSegment(url: string): Promise<ArrayBuffer | null> {
+    return this.segmentCache.get(url);
+  }
 
-    // Create connection pool for parallel downloads
-    const connections: WebSocket[] = [];
-    
-    for (let i = 0; i < this.config.parallelDownloads; i++) {
-      try {
-        const ws = new WebSocket(baseUrl);
-        this.connectionPool.set(`connection_${i}`, ws);
-        connections.push(ws);
-      } catch (error) {
-        console.error(`Failed to create connection ${i}:`, error);
-      }
-    }
+  getSegmentCache(): SegmentCache {
+    return this.segmentCache;
   }
 
   /**
-   * Download segment with optimized connection
+   * Download segment, from the cache or through the segment loader
    */
   async downloadSegmentOptimized(url: string): Promise<ArrayBuffer> {
     const startTime = performance.now();
     
     try {
       // Try to use cached segment first
-      const cached = this.getCachedSegment(url);
+      const cached = await this.getCachedSegment(url);
       if (cached) {
-        this.metrics.networkLatency = 0; // Cached, no network latency
+        this.recordDownload(0); // Cached, no network latency
         return cached;
       }
 
-      // Use connection pooling if available
-      if (this.connectionPool.size > 0) {
-        return await this.downloadWithConnectionPool(url);
-      }
-
-      // Fallback to regular fetch
-      const response = await fetch(url);
-      const segment = await response.arrayBuffer();
+      const segment = await this.segmentLoader.load({ url });
+      this.segmentCache.set(url, segment);
       
       const endTime = performance.now();
-      this.metrics.networkLatency = endTime - startTime;
+      this.recordDownload(endTime - startTime);
       
       return segment;
       
@@ -273,14 +327,12 @@ export class LowLatencyOptimizer {
     }
   }
 
-  /**
-   * Download using connection pool
-   */
-  private async downloadWithConnectionPool(url: string): Promise<ArrayBuffer> {
-    // This would use WebSocket connections for faster downloads
-    // For now, fallback to regular fetch
-    const response = await fetch(url);
-    return await response.arrayBuffer();
+  private recordDownload(time: number): void {
+    this.metrics.networkLatency = time;
+    this.downloadTimes.push(time);
+    if (this.downloadTimes.length > NETWORK_SAMPLE_SIZE) {
+      this.downloadTimes.shift();
+    }
   }
 
   /**
@@ -377,20 +429,16 @@ export class LowLatencyOptimizer {
       // Calculate current metrics
       const currentLatency = this.calculateEndToEndLatency();
       
-      // Apply optimizations
-      await this.optimizeNetworkConnections('');
-      
       // Calculate improvement
       const endTime = performance.now();
       const optimizationTime = endTime - startTime;
       
-      const result: OptimizationResult = {
+      const result = this.scoreResult({
         latencyReduction: Math.max(0, currentLatency - this.metrics.endToEndLatency),
         qualityImprovement: 0, // Would be calculated based on quality metrics
         bufferEfficiency: this.calculateBufferEfficiency(),
-        networkEfficiency: this.calculateNetworkEfficiency(),
-        overallScore: this.calculateOverallScore()
-      };
+        networkEfficiency: this.calculateNetworkEfficiency()
+      });
       
       this.optimizationHistory.push(result);
       
@@ -402,36 +450,187 @@ export class LowLatencyOptimizer {
   }
 
   /**
-   * Calculate buffer efficiency
+   * Calculate buffer efficiency: 100 when the media buffered ahead matches
+   * targetLatency, lower as it runs dry or holds playback further back
    */
   private calculateBufferEfficiency(): number {
-    // This would calculate how efficiently the buffer is being used
-    return 85; // Placeholder
+    const ahead = this.getBufferAhead();
+    const target = this.config.targetLatency;
+    if (ahead <= 0 || target <= 0) return 0;
+
+    return Math.round((100 * Math.min(ahead, target)) / Math.max(ahead, target));
   }
 
   /**
-   * Calculate network efficiency
+   * Calculate network efficiency: the share of a segment's playback time left
+   * after downloading it, averaged over recent downloads
    */
   private calculateNetworkEfficiency(): number {
-    // This would calculate network utilization efficiency
-    return 90; // Placeholder
+    const segmentTime = this.config.segmentDuration * 1000;
+    if (!this.downloadTimes.length || segmentTime <= 0) return 0;
+
+    const average = this.downloadTimes.reduce((sum, time) => sum + time, 0) / this.downloadTimes.length;
+    return Math.round(100 * Math.max(0, 1 - average / segmentTime));
   }
 
   /**
    * Calculate overall optimization score
    */
-  private calculateOverallScore(): number {
-    const { latencyReduction, qualityImprovement, bufferEfficiency, networkEfficiency } = 
-      this.optimizationHistory[this.optimizationHistory.length - 1] || {
-        latencyReduction: 0,
-        qualityImprovement: 0,
-        bufferEfficiency: 0,
-        networkEfficiency: 0
-      };
+  private scoreResult(result: Omit<OptimizationResult, 'overallScore'>): OptimizationResult {
+    const { latencyReduction, qualityImprovement, bufferEfficiency, networkEfficiency } = result;
+    return {
+      ...result,
+      overallScore: (latencyReduction + qualityImprovement + bufferEfficiency + networkEfficiency) / 4
+    };
+  }
+
+  // Seconds of media buffered ahead of the playhead
+  private getBufferAhead(): number {
+    if (!this.video) return 0;
+
+    const { buffered, currentTime } = this.video;
+    for (let i = 0; i < buffered.length; i++) {
+      if (buffered.start(i) <= currentTime && currentTime <= buffered.end(i)) {
+        return buffered.end(i) - currentTime;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Keep a live stream near targetLatency: nudge playbackRate within
+   * minPlaybackRate..maxPlaybackRate, and jump to the live edge once latency
+   * passes maxLatency. Does nothing while the engine reports no live window.
+   */
+  startCatchUp(engine: PlaybackEngine, video: HTMLVideoElement): void {
+    this.stopCatchUp();
+    this.engine = engine;
+    this.video = video;
+    this.appliedRate = 1;
+    this.followingLive = true;
+    video.addEventListener('seeking', this.handleSeeking);
+    video.addEventListener('pause', this.handlePause);
+    this.catchUpTimer = setInterval(() => this.updateCatchUp(), this.config.catchUpInterval);
+  }
+
+  stopCatchUp(): void {
+    if (this.catchUpTimer) {
+      clearInterval(this.catchUpTimer);
+      this.catchUpTimer = null;
+    }
+    if (this.video) {
+      this.video.removeEventListener('seeking', this.handleSeeking);
+      this.video.removeEventListener('pause', this.handlePause);
+      // Leave the element at normal speed unless the viewer chose another
+      if (this.video.playbackRate === this.appliedRate) {
+        this.video.playbackRate = 1;
+      }
+    }
+    this.engine = null;
+    this.video = null;
+    this.pendingAdjustment = null;
+  }
+
+  /**
+   * Measure live latency and act on it. Runs every catchUpInterval; returns
+   * the history entry of the action taken, if any.
+   */
+  updateCatchUp(): OptimizationResult | null {
+    const { engine, video } = this;
+    this.seekingToLive = false;
+    const window = engine?.getLiveWindow();
+    if (!engine || !video || !window || video.seeking) return null;
+    this.segmentCache.setPlayhead(video.currentTime);
+
+    // Program-date-time or the availability timeline when the stream has one
+    const latency = engine.getWallClockLatency() ?? window.latency;
+    this.metrics.liveLatency = latency;
+    this.completeAdjustment(latency);
+
+    // Viewers who paused or scrubbed back stay put until they return to live
+    if (video.paused) return null;
+    if (!this.followingLive) {
+      if (!window.atLiveEdge) return null;
+      this.followingLive = true;
+    }
+
+    // A rate the viewer picked overrides catch-up; normal speed hands it back
+    if (video.playbackRate !== this.appliedRate) {
+      if (video.playbackRate !== 1) return null;
+      this.appliedRate = 1;
+    }
+
+    if (latency > this.config.maxLatency) {
+      return this.applyAdjustment('seek-live', latency, 1);
+    }
+
+    const rate = this.getCatchUpRate(latency);
+    if (rate === video.playbackRate || (rate !== 1 && Math.abs(rate - video.playbackRate) < MIN_RATE_CHANGE)) {
+      return null;
+    }
+    return this.applyAdjustment(rate > 1 ? 'speed-up' : rate < 1 ? 'slow-down' : 'resume-rate', latency, rate);
+  }
+
+  // Proportional to the drift from the target, within the configured rates
+  private getCatchUpRate(latency: number): number {
+    const drift = latency - this.config.targetLatency;
+    if (Math.abs(drift) <= LATENCY_DEAD_BAND) return 1;
+    if (drift > 0 && this.getBufferAhead() < MIN_BUFFER_TO_SPEED_UP) return 1;
 
-    return (latencyReduction + qualityImprovement + bufferEfficiency + networkEfficiency) / 4;
+    const rate = 1 + drift * CATCH_UP_GAIN;
+    return Math.min(this.config.maxPlaybackRate, Math.max(this.config.minPlaybackRate, Math.round(rate * 1000) / 1000));
   }
 
+  private applyAdjustment(action: LatencyAction, latencyBefore: number, rate: number): OptimizationResult {
+    const video = this.video as HTMLVideoElement;
+    const playbackRateBefore = video.playbackRate;
+
+    video.playbackRate = rate;
+    this.appliedRate = rate;
+    if (action === 'seek-live') {
+      this.seekingToLive = true;
+      this.engine?.seekToLiveEdge();
+    }
+
+    const entry = this.scoreResult({
+      latencyReduction: 0,
+      qualityImprovement: 0,
+      bufferEfficiency: this.calculateBufferEfficiency(),
+      networkEfficiency: this.calculateNetworkEfficiency(),
+      adjustment: {
+        action,
+        timestamp: Date.now(),
+        latencyBefore,
+        latencyAfter: null,
+        playbackRateBefore,
+        playbackRateAfter: rate
+      }
+    });
+    this.optimizationHistory.push(entry);
+    this.pendingAdjustment = entry;
+    return entry;
+  }
+
+  // An action's effect shows up in the measurement that follows it
+  private completeAdjustment(latency: number): void {
+    const entry = this.pendingAdjustment;
+    if (!entry?.adjustment) return;
+
+    entry.adjustment.latencyAfter = latency;
+    Object.assign(entry, this.scoreResult({ ...entry, latencyReduction: entry.adjustment.latencyBefore - latency }));
+    this.pendingAdjustment = null;
+  }
+
+  private handleSeeking = (): void => {
+    if (!this.seekingToLive) {
+      this.followingLive = false;
+    }
+  };
+
+  private handlePause = (): void => {
+    this.followingLive = false;
+  };
+
   /**
    * Get current latency metrics
    */
@@ -451,8 +650,6 @@ export class LowLatencyOptimizer {
    */
   clearCache(): void {
     this.segmentCache.clear();
-    this.connectionPool.clear();
-    this.prefetchQueue = [];
   }
 
   /**
@@ -466,15 +663,11 @@ export class LowLatencyOptimizer {
    * Cleanup resources
    */
   destroy(): void {
+    this.stopCatchUp();
     this.clearCache();
-    
-    // Close all connections
-    for (const [key, connection] of this.connectionPool) {
-      if (connection.readyState === WebSocket.OPEN) {
-        connection.close();
-      }
-    }
-    
-    this.connectionPool.clear();
   }
 }
+
+export const createLowLatencyOptimizer = (config: Partial<LowLatencyConfig> = {}): LowLatencyOptimizer => {
+  return new LowLatencyOptimizer({ ...DEFAULT_LOW_LATENCY_CONFIG, ...config });
+};
@@ -0,0 +1,350 @@
+import {
+  HLSByteRange,
+  HLSKey,
+  HLSInitSegment,
+  HLSMasterPlaylist,
+  HLSMediaPlaylist,
+  HLSPartialSegment,
+  HLSPlaylist,
+  HLSPreloadHint,
+  HLSRendition,
+  HLSVariant
+} from '../types/player';
+import { resolveUrl } from './url';
+
+export interface M3U8ParseOptions {
+  // URL the playlist was fetched from, used to resolve relative URIs
+  baseUrl?: string;
+}
+
+interface Tag {
+  name: string;
+  value: string;
+}
+
+const ATTRIBUTE_PATTERN = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+const MASTER_TAG_PATTERN = /^#EXT-X-(STREAM-INF|I-FRAME-STREAM-INF|MEDIA):/m;
+
+/**
+ * Parse an HLS attribute list (KEY=VALUE,KEY="quoted, value") into a record.
+ */
+export const parseAttributeList = (value: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+
+  for (const match of value.matchAll(ATTRIBUTE_PATTERN)) {
+    const raw = match[2];
+    attributes[match[1]] = raw.startsWith('"') ? raw.slice(1, -1) : raw;
+  }
+
+  return attributes;
+};
+
+const parseTag = (line: string): Tag => {
+  const separator = line.indexOf(':');
+  return separator === -1
+    ? { name: line.slice(1), value: '' }
+    : { name: line.slice(1, separator), value: line.slice(separator + 1) };
+};
+
+const optionalNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// "length[@offset]"; a missing offset continues from the previous range
+const parseByteRange = (value: string | undefined, previousEnd?: number): HLSByteRange | undefined => {
+  if (!value) return undefined;
+
+  const [length, offset] = value.split('@').map(Number);
+  return { length, offset: offset ?? previousEnd };
+};
+
+const readLines = (text: string): string[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines[0] !== '#EXTM3U') {
+    throw new Error('Invalid M3U8: missing #EXTM3U header');
+  }
+  return lines.slice(1);
+};
+
+const parseVariant = (attributes: Record<string, string>, uri: string, baseUrl?: string): HLSVariant => {
+  const resolution = attributes['RESOLUTION']?.split('x').map(Number);
+
+  return {
+    uri: resolveUrl(uri, baseUrl),
+    bandwidth: Number(attributes['BANDWIDTH']) || 0,
+    averageBandwidth: optionalNumber(attributes['AVERAGE-BANDWIDTH']),
+    codecs: attributes['CODECS'],
+    resolution: resolution?.length === 2 ? { width: resolution[0], height: resolution[1] } : undefined,
+    frameRate: optionalNumber(attributes['FRAME-RATE']),
+    hdcpLevel: attributes['HDCP-LEVEL'],
+    audio: attributes['AUDIO'],
+    video: attributes['VIDEO'],
+    subtitles: attributes['SUBTITLES'],
+    closedCaptions: attributes['CLOSED-CAPTIONS']
+  };
+};
+
+const parseRendition = (attributes: Record<string, string>, baseUrl?: string): HLSRendition => ({
+  type: attributes['TYPE'] as HLSRendition['type'],
+  groupId: attributes['GROUP-ID'] || '',
+  name: attributes['NAME'] || '',
+  uri: attributes['URI'] ? resolveUrl(attributes['URI'], baseUrl) : undefined,
+  language: attributes['LANGUAGE'],
+  assocLanguage: attributes['ASSOC-LANGUAGE'],
+  default: attributes['DEFAULT'] === 'YES',
+  autoselect: attributes['AUTOSELECT'] === 'YES',
+  forced: attributes['FORCED'] === 'YES',
+  instreamId: attributes['INSTREAM-ID'],
+  characteristics: attributes['CHARACTERISTICS'],
+  channels: attributes['CHANNELS']
+});
+
+const parseMaster = (lines: string[], baseUrl?: string): HLSMasterPlaylist => {
+  const playlist: HLSMasterPlaylist = {
+    type: 'master',
+    version: 1,
+    independentSegments: false,
+    variants: [],
+    iFrameVariants: [],
+    renditions: []
+  };
+  let pendingVariant: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    if (!line.startsWith('#')) {
+      if (pendingVariant) {
+        playlist.variants.push(parseVariant(pendingVariant, line, baseUrl));
+        pendingVariant = null;
+      }
+      return;
+    }
+
+    const { name, value } = parseTag(line);
+    switch (name) {
+      case 'EXT-X-VERSION':
+        playlist.version = Number(value) || 1;
+        break;
+      case 'EXT-X-INDEPENDENT-SEGMENTS':
+        playlist.independentSegments = true;
+        break;
+      case 'EXT-X-STREAM-INF':
+        pendingVariant = parseAttributeList(value);
+        break;
+      case 'EXT-X-I-FRAME-STREAM-INF': {
+        const attributes = parseAttributeList(value);
+        playlist.iFrameVariants.push(parseVariant(attributes, attributes['URI'] || '', baseUrl));
+        break;
+      }
+      case 'EXT-X-MEDIA':
+        playlist.renditions.push(parseRendition(parseAttributeList(value), baseUrl));
+        break;
+    }
+  });
+
+  return playlist;
+};
+
+const parseKey = (value: string, baseUrl?: string): HLSKey | undefined => {
+  const attributes = parseAttributeList(value);
+  if (!attributes['METHOD'] || attributes['METHOD'] === 'NONE') return undefined;
+
+  return {
+    method: attributes['METHOD'],
+    uri: attributes['URI'] ? resolveUrl(attributes['URI'], baseUrl) : undefined,
+    iv: attributes['IV'],
+    keyFormat: attributes['KEYFORMAT'],
+    keyFormatVersions: attributes['KEYFORMATVERSIONS']
+  };
+};
+
+const parseMedia = (lines: string[], baseUrl?: string): HLSMediaPlaylist => {
+  const playlist: HLSMediaPlaylist = {
+    type: 'media',
+    version: 1,
+    independentSegments: false,
+    targetDuration: 0,
+    mediaSequence: 0,
+    discontinuitySequence: 0,
+    iFramesOnly: false,
+    endList: false,
+    isLive: true,
+    duration: 0,
+    segments: [],
+    trailingParts: [],
+    preloadHints: []
+  };
+
+  // Tags that apply to the next URI line
+  let duration = 0;
+  let title: string | undefined;
+  let discontinuity = false;
+  let gap = false;
+  let programDateTime: number | undefined;
+  let byteRange: HLSByteRange | undefined;
+  let parts: HLSPartialSegment[] = [];
+
+  // Tags that apply to every following segment
+  let key: HLSKey | undefined;
+  let map: HLSInitSegment | undefined;
+  let discontinuitySequence = 0;
+  let previousRangeEnd: number | undefined;
+  // A part's BYTERANGE without an offset continues the previous part of the same URI
+  let previousPart: { uri: string; rangeEnd?: number } | undefined;
+
+  lines.forEach(line => {
+    if (!line.startsWith('#')) {
+      const previous = playlist.segments[playlist.segments.length - 1];
+      if (discontinuity) discontinuitySequence++;
+
+      // Extrapolate wall-clock time from the last EXT-X-PROGRAM-DATE-TIME
+      const segmentDateTime = programDateTime
+        ?? (previous?.programDateTime !== undefined && !discontinuity
+          ? previous.programDateTime + previous.duration * 1000
+          : undefined);
+
+      playlist.segments.push({
+        uri: resolveUrl(line, baseUrl),
+        duration,
+        title,
+        sequenceNumber: playlist.mediaSequence + playlist.segments.length,
+        discontinuitySequence: playlist.discontinuitySequence + discontinuitySequence,
+        discontinuity,
+        gap,
+        programDateTime: segmentDateTime,
+        byteRange,
+        key,
+        map,
+        parts: parts.length > 0 ? parts : undefined
+      });
+      playlist.duration += duration;
+
+      previousRangeEnd = byteRange ? (byteRange.offset || 0) + byteRange.length : undefined;
+      duration = 0;
+      title = undefined;
+      discontinuity = false;
+      gap = false;
+      programDateTime = undefined;
+      byteRange = undefined;
+      parts = [];
+      return;
+    }
+
+    const { name, value } = parseTag(line);
+    switch (name) {
+      case 'EXT-X-VERSION':
+        playlist.version = Number(value) || 1;
+        break;
+      case 'EXT-X-INDEPENDENT-SEGMENTS':
+        playlist.independentSegments = true;
+        break;
+      case 'EXT-X-TARGETDURATION':
+        playlist.targetDuration = Number(value) || 0;
+        break;
+      case 'EXT-X-MEDIA-SEQUENCE':
+        playlist.mediaSequence = Number(value) || 0;
+        break;
+      case 'EXT-X-DISCONTINUITY-SEQUENCE':
+        playlist.discontinuitySequence = Number(value) || 0;
+        break;
+      case 'EXT-X-PLAYLIST-TYPE':
+        playlist.playlistType = value === 'VOD' || value === 'EVENT' ? value : undefined;
+        break;
+      case 'EXT-X-I-FRAMES-ONLY':
+        playlist.iFramesOnly = true;
+        break;
+      case 'EXT-X-ENDLIST':
+        playlist.endList = true;
+        break;
+      case 'EXTINF': {
+        const separator = value.indexOf(',');
+        duration = parseFloat(separator === -1 ? value : value.slice(0, separator)) || 0;
+        title = separator === -1 ? undefined : value.slice(separator + 1) || undefined;
+        break;
+      }
+      case 'EXT-X-BYTERANGE':
+        byteRange = parseByteRange(value, previousRangeEnd);
+        break;
+      case 'EXT-X-DISCONTINUITY':
+        discontinuity = true;
+        break;
+      case 'EXT-X-GAP':
+        gap = true;
+        break;
+      case 'EXT-X-PROGRAM-DATE-TIME':
+        programDateTime = Date.parse(value) || undefined;
+        break;
+      case 'EXT-X-KEY':
+        key = parseKey(value, baseUrl);
+        break;
+      case 'EXT-X-MAP': {
+        const attributes = parseAttributeList(value);
+        map = {
+          uri: resolveUrl(attributes['URI'] || '', baseUrl),
+          byteRange: parseByteRange(attributes['BYTERANGE'])
+        };
+        break;
+      }
+      case 'EXT-X-PART-INF':
+        playlist.partTargetDuration = optionalNumber(parseAttributeList(value)['PART-TARGET']);
+        break;
+      case 'EXT-X-PART': {
+        const attributes = parseAttributeList(value);
+        const uri = resolveUrl(attributes['URI'] || '', baseUrl);
+        const partRange = parseByteRange(
+          attributes['BYTERANGE'],
+          previousPart?.uri === uri ? previousPart.rangeEnd ?? 0 : 0
+        );
+        parts.push({
+          uri,
+          duration: Number(attributes['DURATION']) || 0,
+          independent: attributes['INDEPENDENT'] === 'YES',
+          gap: attributes['GAP'] === 'YES',
+          byteRange: partRange
+        });
+        previousPart = { uri, rangeEnd: partRange ? (partRange.offset || 0) + partRange.length : undefined };
+        break;
+      }
+      case 'EXT-X-PRELOAD-HINT': {
+        const attributes = parseAttributeList(value);
+        const hint: HLSPreloadHint = {
+          type: attributes['TYPE'] === 'MAP' ? 'MAP' : 'PART',
+          uri: resolveUrl(attributes['URI'] || '', baseUrl),
+          byteRangeStart: optionalNumber(attributes['BYTERANGE-START']),
+          byteRangeLength: optionalNumber(attributes['BYTERANGE-LENGTH'])
+        };
+        playlist.preloadHints.push(hint);
+        break;
+      }
+      case 'EXT-X-SERVER-CONTROL': {
+        const attributes = parseAttributeList(value);
+        playlist.serverControl = {
+          canBlockReload: attributes['CAN-BLOCK-RELOAD'] === 'YES',
+          canSkipUntil: optionalNumber(attributes['CAN-SKIP-UNTIL']),
+          canSkipDateRanges: attributes['CAN-SKIP-DATERANGES'] === 'YES',
+          holdBack: optionalNumber(attributes['HOLD-BACK']),
+          partHoldBack: optionalNumber(attributes['PART-HOLD-BACK'])
+        };
+        break;
+      }
+    }
+  });
+
+  playlist.trailingParts = parts;
+  playlist.isLive = !playlist.endList && playlist.playlistType !== 'VOD';
+
+  return playlist;
+};
+
+/**
+ * Parse an M3U8 document into a master or media playlist.
+ */
+export const parseM3U8 = (text: string, options: M3U8ParseOptions = {}): HLSPlaylist => {
+  const lines = readLines(text);
+
+  return MASTER_TAG_PATTERN.test(text)
+    ? parseMaster(lines, options.baseUrl)
+    : parseMedia(lines, options.baseUrl);
+};
@@ -0,0 +1,310 @@
+import {
+  MediaInfo,
+  MediaStreamInfo,
+  VideoStreamInfo,
+  AudioStreamInfo,
+  SubtitleStreamInfo,
+  MediaChapter
+} from '../types/player';
+
+// Subset of `ffprobe -print_format json -show_format -show_streams -show_chapters`
+export interface FFprobeOutput {
+  format?: {
+    format_name?: string;
+    duration?: string;
+    bit_rate?: string;
+    size?: string;
+  };
+  streams?: Array<{
+    index: number;
+    codec_type?: string;
+    codec_name?: string;
+    profile?: string;
+    level?: number;
+    width?: number;
+    height?: number;
+    r_frame_rate?: string;
+    avg_frame_rate?: string;
+    pix_fmt?: string;
+    sample_rate?: string;
+    channels?: number;
+    channel_layout?: string;
+    bit_rate?: string;
+    disposition?: { default?: number };
+    tags?: Record<string, string>;
+    side_data_list?: Array<{ side_data_type?: string; rotation?: number }>;
+  }>;
+  chapters?: Array<{
+    id: number;
+    start_time?: string;
+    end_time?: string;
+    tags?: Record<string, string>;
+  }>;
+}
+
+const CHANNEL_LAYOUTS: Record<string, number> = {
+  mono: 1,
+  stereo: 2,
+  '2.1': 3,
+  quad: 4,
+  '5.0': 5,
+  '5.1': 6,
+  '6.1': 7,
+  '7.1': 8
+};
+
+const normalizeRotation = (degrees: number): number => ((Math.round(degrees) % 360) + 360) % 360;
+
+const parseRate = (value: string | undefined): number => {
+  if (!value) return 0;
+
+  const [numerator, denominator] = value.split('/').map(Number);
+  const rate = denominator ? numerator / denominator : numerator;
+  return Number.isFinite(rate) ? Math.round(rate * 1000) / 1000 : 0;
+};
+
+const channelsFromLayout = (layout: string | undefined): number => {
+  if (!layout) return 0;
+
+  const explicit = /^(\d+) channels/.exec(layout);
+  if (explicit) return Number(explicit[1]);
+
+  return CHANNEL_LAYOUTS[layout.replace(/\(.*\)$/, '')] || 0;
+};
+
+const cleanLanguage = (language: string | undefined): string | undefined => {
+  return language && language !== 'und' ? language : undefined;
+};
+
+const buildMediaInfo = (
+  container: string,
+  duration: number,
+  bitrate: number,
+  streams: MediaStreamInfo[],
+  chapters: MediaChapter[]
+): MediaInfo => {
+  const videoStreams = streams.filter((stream): stream is VideoStreamInfo => stream.type === 'video');
+
+  return {
+    container,
+    duration,
+    bitrate,
+    videoStreams,
+    audioStreams: streams.filter((stream): stream is AudioStreamInfo => stream.type === 'audio'),
+    subtitleStreams: streams.filter((stream): stream is SubtitleStreamInfo => stream.type === 'subtitle'),
+    chapters,
+    rotation: videoStreams[0]?.rotation ?? 0
+  };
+};
+
+/**
+ * Convert ffprobe's JSON report into MediaInfo.
+ */
+export const parseFFprobeOutput = (output: FFprobeOutput): MediaInfo => {
+  const streams: MediaStreamInfo[] = [];
+
+  (output.streams || []).forEach(stream => {
+    const base = {
+      index: stream.index,
+      codec: stream.codec_name || 'unknown',
+      profile: stream.profile,
+      language: cleanLanguage(stream.tags?.language),
+      title: stream.tags?.title,
+      bitrate: stream.bit_rate ? Number(stream.bit_rate) : undefined,
+      isDefault: stream.disposition?.default === 1
+    };
+
+    switch (stream.codec_type) {
+      case 'video': {
+        // Display matrix rotation is counter-clockwise, the legacy rotate tag clockwise
+        const displayMatrix = stream.side_data_list?.find(data => data.rotation !== undefined);
+        const rotation = displayMatrix
+          ? -(displayMatrix.rotation || 0)
+          : Number(stream.tags?.rotate || 0);
+
+        streams.push({
+          ...base,
+          type: 'video',
+          width: stream.width || 0,
+          height: stream.height || 0,
+          frameRate: parseRate(stream.avg_frame_rate) || parseRate(stream.r_frame_rate),
+          pixelFormat: stream.pix_fmt,
+          level: stream.level,
+          rotation: normalizeRotation(rotation)
+        });
+        break;
+      }
+      case 'audio':
+        streams.push({
+          ...base,
+          type: 'audio',
+          sampleRate: Number(stream.sample_rate) || 0,
+          channels: stream.channels || channelsFromLayout(stream.channel_layout),
+          channelLayout: stream.channel_layout
+        });
+        break;
+      case 'subtitle':
+        streams.push({ ...base, type: 'subtitle' });
+        break;
+    }
+  });
+
+  const chapters = (output.chapters || []).map(chapter => ({
+    id: chapter.id,
+    start: Number(chapter.start_time) || 0,
+    end: Number(chapter.end_time) || 0,
+    title: chapter.tags?.title
+  }));
+
+  const info = buildMediaInfo(
+    output.format?.format_name || 'unknown',
+    Number(output.format?.duration) || 0,
+    Number(output.format?.bit_rate) || 0,
+    streams,
+    chapters
+  );
+  if (output.format?.size) {
+    info.size = Number(output.format.size);
+  }
+  return info;
+};
+
+// Split on commas that are not inside (...) or [...]
+const splitTopLevel = (value: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts;
+};
+
+const parseTimestamp = (value: string): number => {
+  const match = /^(\d+):(\d+):(\d+(?:\.\d+)?)$/.exec(value);
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : 0;
+};
+
+const parseKbps = (parts: string[]): number | undefined => {
+  const part = parts.find(candidate => /^\d+ kb\/s/.test(candidate));
+  return part ? parseInt(part, 10) * 1000 : undefined;
+};
+
+const parseLogStream = (index: number, kind: string, language: string | undefined, description: string): MediaStreamInfo | null => {
+  const parts = splitTopLevel(description);
+  const [codecPart = ''] = parts;
+  const profile = /\(([^)/]+)\)/.exec(codecPart)?.[1];
+  const base = {
+    index,
+    codec: codecPart.split(' ')[0] || 'unknown',
+    profile,
+    language: cleanLanguage(language),
+    bitrate: parseKbps(parts),
+    isDefault: /\(default\)/.test(description)
+  };
+
+  switch (kind) {
+    case 'Video': {
+      const resolution = parts.map(part => /^(\d+)x(\d+)/.exec(part)).find(Boolean);
+      const pixelFormatPart = parts.slice(1).find(part => /^[a-z][a-z0-9_]*(\(|$)/.test(part));
+      const fps = parts.find(part => / fps$/.test(part)) || parts.find(part => / tbr$/.test(part));
+
+      return {
+        ...base,
+        type: 'video',
+        width: resolution ? Number(resolution[1]) : 0,
+        height: resolution ? Number(resolution[2]) : 0,
+        frameRate: fps ? parseRate(fps.split(' ')[0].replace(/k$/, '000')) : 0,
+        pixelFormat: pixelFormatPart?.split('(')[0],
+        rotation: 0
+      };
+    }
+    case 'Audio': {
+      const sampleRate = parts.find(part => / Hz$/.test(part));
+      const channelLayout = sampleRate ? parts[parts.indexOf(sampleRate) + 1] : undefined;
+
+      return {
+        ...base,
+        type: 'audio',
+        sampleRate: sampleRate ? parseInt(sampleRate, 10) : 0,
+        channels: channelsFromLayout(channelLayout),
+        channelLayout
+      };
+    }
+    case 'Subtitle':
+      return { ...base, type: 'subtitle' };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Recover MediaInfo from the banner ffmpeg prints for `-i <input>`, for
+ * ffmpeg.wasm cores that ship without ffprobe.
+ */
+export const parseFFmpegLog = (log: string[]): MediaInfo | null => {
+  const inputLine = log.find(line => /^Input #0, /.test(line.trim()));
+  if (!inputLine) return null;
+
+  const container = /^Input #0, (.+?), from /.exec(inputLine.trim())?.[1] || 'unknown';
+  let duration = 0;
+  let bitrate = 0;
+  const streams: MediaStreamInfo[] = [];
+  const chapters: MediaChapter[] = [];
+  // Metadata lines belong to the last chapter or stream header seen
+  let current: MediaStreamInfo | MediaChapter | null = null;
+
+  log.forEach(rawLine => {
+    const line = rawLine.trim();
+
+    const durationMatch = /^Duration: ([\d:.]+|N\/A)(?:, start: [-\d.]+)?, bitrate: (\d+|N\/A)/.exec(line);
+    if (durationMatch) {
+      duration = parseTimestamp(durationMatch[1]);
+      bitrate = Number(durationMatch[2]) * 1000 || 0;
+      return;
+    }
+
+    const chapterMatch = /^Chapter #\d+:(\d+): start ([-\d.]+), end ([-\d.]+)/.exec(line);
+    if (chapterMatch) {
+      current = { id: Number(chapterMatch[1]), start: Number(chapterMatch[2]), end: Number(chapterMatch[3]) };
+      chapters.push(current);
+      return;
+    }
+
+    const streamMatch = /^Stream #\d+:(\d+)(?:\[0x[0-9a-f]+\])?(?:\((\w+)\))?: (\w+): (.*)$/.exec(line);
+    if (streamMatch) {
+      current = parseLogStream(Number(streamMatch[1]), streamMatch[3], streamMatch[2], streamMatch[4]);
+      if (current) streams.push(current);
+      return;
+    }
+
+    const target = current as MediaStreamInfo | MediaChapter | null;
+    if (!target) return;
+
+    const title = /^title\s*: (.*)$/.exec(line);
+    if (title) {
+      target.title = title[1];
+      return;
+    }
+
+    if ('type' in target && target.type === 'video') {
+      const displayMatrix = /rotation of ([-\d.]+) degrees/.exec(line);
+      const rotateTag = /^rotate\s*: ([-\d.]+)$/.exec(line);
+      if (displayMatrix) target.rotation = normalizeRotation(-Number(displayMatrix[1]));
+      else if (rotateTag) target.rotation = normalizeRotation(Number(rotateTag[1]));
+    }
+  });
+
+  return buildMediaInfo(container, duration, bitrate, streams, chapters);
+};
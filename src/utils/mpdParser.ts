@@ -0,0 +1,465 @@
+import {
+  DASHManifest,
+  DASHPeriod,
+  DASHAdaptationSet,
+  DASHRepresentation,
+  DASHSegment,
+  DASHSegmentIndex
+} from '../types/player';
+import { resolveUrl } from './url';
+
+export interface MPDParseOptions {
+  // URL the MPD was fetched from, used to resolve relative BaseURLs
+  baseUrl?: string;
+  // Wall clock (ms) used to work out the available segments of a dynamic MPD
+  now?: number;
+}
+
+interface SegmentContext {
+  representationId: string;
+  bandwidth: number;
+  baseUrl: string;
+  periodStart: number;
+  periodDuration: number;
+  // Seconds elapsed since the period started, for dynamic MPDs
+  liveEdge?: number;
+  timeShiftBufferDepth: number;
+  // Seconds behind the live edge that implicit segment runs are expanded for
+  liveWindow: number;
+}
+
+interface TimelineEntry {
+  index: number;
+  time: number;
+  duration: number;
+}
+
+// Live window when the MPD has no timeShiftBufferDepth, in seconds
+const DEFAULT_LIVE_WINDOW = 30;
+
+const TEMPLATE_PATTERN = /\$(RepresentationID|Number|Bandwidth|Time)?(?:%0(\d+)d)?\$/g;
+const DURATION_PATTERN = /^(-)?P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+/**
+ * Parse an ISO 8601 duration (e.g. PT1H2M3.5S) into seconds.
+ */
+export const parseISODuration = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, negative, years, months, days, hours, minutes, seconds] = match;
+  const total =
+    Number(years || 0) * 365 * 86400 +
+    Number(months || 0) * 30 * 86400 +
+    Number(days || 0) * 86400 +
+    Number(hours || 0) * 3600 +
+    Number(minutes || 0) * 60 +
+    Number(seconds || 0);
+
+  return negative ? -total : total;
+};
+
+/**
+ * Fill in the $Identifier$ placeholders of a SegmentTemplate URL.
+ */
+export const expandSegmentTemplate = (
+  template: string,
+  values: { RepresentationID: string; Bandwidth: number; Number?: number; Time?: number }
+): string => {
+  return template.replace(TEMPLATE_PATTERN, (match, name: keyof typeof values | undefined, width?: string) => {
+    if (!name) return '$';
+
+    const value = values[name];
+    if (value === undefined) return match;
+
+    const text = String(value);
+    return width ? text.padStart(Number(width), '0') : text;
+  });
+};
+
+const childElements = (parent: Element, name: string): Element[] => {
+  return Array.from(parent.children).filter(child => child.localName === name);
+};
+
+const childElement = (parent: Element | null | undefined, name: string): Element | undefined => {
+  return parent ? childElements(parent, name)[0] : undefined;
+};
+
+const numberAttr = (element: Element | null | undefined, name: string): number | undefined => {
+  const value = element?.getAttribute(name);
+  if (value === null || value === undefined || value === '') return undefined;
+
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const parseFrameRate = (value: string | null): number => {
+  if (!value) return 0;
+
+  const [numerator, denominator] = value.split('/').map(Number);
+  return denominator ? numerator / denominator : numerator || 0;
+};
+
+const resolveBaseUrl = (element: Element, base: string | undefined): string | undefined => {
+  const baseUrl = childElement(element, 'BaseURL')?.textContent?.trim();
+  return baseUrl ? resolveUrl(baseUrl, base) : base;
+};
+
+// Segment information is inherited Period -> AdaptationSet -> Representation,
+// with the most specific level winning per attribute or child element.
+const inheritedAttr = (levels: Element[], name: string): string | undefined => {
+  for (let i = levels.length - 1; i >= 0; i--) {
+    const value = levels[i].getAttribute(name);
+    if (value !== null) return value;
+  }
+  return undefined;
+};
+
+const inheritedNumber = (levels: Element[], name: string, fallback: number): number => {
+  for (let i = levels.length - 1; i >= 0; i--) {
+    const value = numberAttr(levels[i], name);
+    if (value !== undefined) return value;
+  }
+  return fallback;
+};
+
+const inheritedChildren = (levels: Element[], name: string): Element[] => {
+  for (let i = levels.length - 1; i >= 0; i--) {
+    const found = childElements(levels[i], name);
+    if (found.length > 0) return found;
+  }
+  return [];
+};
+
+const readTimeline = (timeline: Element, timescale: number, presentationTimeOffset: number, context: SegmentContext): TimelineEntry[] => {
+  const entries: TimelineEntry[] = [];
+  const points = childElements(timeline, 'S');
+  const endSeconds = context.periodDuration || context.liveEdge;
+  const endTime = endSeconds !== undefined ? endSeconds * timescale + presentationTimeOffset : undefined;
+  const windowStart = context.liveEdge !== undefined
+    ? (context.liveEdge - context.liveWindow) * timescale + presentationTimeOffset
+    : undefined;
+  let index = 0;
+  let time = 0;
+
+  points.forEach((point, i) => {
+    const duration = numberAttr(point, 'd') || 0;
+    time = numberAttr(point, 't') ?? time;
+    if (duration <= 0) return;
+
+    let repeat = numberAttr(point, 'r') || 0;
+    if (repeat < 0) {
+      // A negative repeat runs until the next S@t or the end of the period
+      const nextTime = numberAttr(points[i + 1], 't') ?? endTime;
+      repeat = nextTime !== undefined ? Math.ceil((nextTime - time) / duration) - 1 : 0;
+      // Live, skip the part of the run that's already behind the window
+      const skip = windowStart !== undefined ? Math.min(repeat, Math.floor((windowStart - time) / duration)) : 0;
+      if (skip > 0) {
+        index += skip;
+        time += skip * duration;
+        repeat -= skip;
+      }
+    }
+
+    for (let r = 0; r <= repeat; r++) {
+      entries.push({ index: index++, time, duration });
+      time += duration;
+    }
+  });
+
+  return entries;
+};
+
+const readFixedDuration = (duration: number, timescale: number, presentationTimeOffset: number, context: SegmentContext): TimelineEntry[] => {
+  const segmentDuration = duration / timescale;
+  if (segmentDuration <= 0) return [];
+
+  let first = 0;
+  let count = 0;
+  if (context.periodDuration > 0) {
+    count = Math.ceil(context.periodDuration / segmentDuration - 1e-9);
+  } else if (context.liveEdge !== undefined) {
+    count = Math.floor(context.liveEdge / segmentDuration);
+  }
+  if (context.liveEdge !== undefined) {
+    first = Math.max(0, Math.floor((context.liveEdge - context.liveWindow) / segmentDuration));
+  }
+
+  const entries: TimelineEntry[] = [];
+  for (let index = first; index < count; index++) {
+    entries.push({ index, time: index * duration + presentationTimeOffset, duration });
+  }
+  return entries;
+};
+
+const readEntries = (levels: Element[], timescale: number, presentationTimeOffset: number, context: SegmentContext): TimelineEntry[] => {
+  const timeline = inheritedChildren(levels, 'SegmentTimeline')[0];
+  if (timeline) {
+    return readTimeline(timeline, timescale, presentationTimeOffset, context);
+  }
+  return readFixedDuration(inheritedNumber(levels, 'duration', 0), timescale, presentationTimeOffset, context);
+};
+
+// Dynamic MPDs only expose complete segments inside the time shift buffer
+const withinLiveWindow = (segments: DASHSegment[], context: SegmentContext): DASHSegment[] => {
+  const { liveEdge, timeShiftBufferDepth, periodStart } = context;
+  if (liveEdge === undefined) return segments;
+
+  return segments.filter(segment => {
+    const end = segment.start - periodStart + segment.duration;
+    return end <= liveEdge + 1e-6 && (timeShiftBufferDepth <= 0 || end > liveEdge - timeShiftBufferDepth);
+  });
+};
+
+const readInitialization = (levels: Element[], baseUrl: string): DASHSegmentIndex['initialization'] => {
+  const initialization = inheritedChildren(levels, 'Initialization')[0];
+  if (!initialization) return undefined;
+
+  const sourceUrl = initialization.getAttribute('sourceURL');
+  return {
+    url: sourceUrl ? resolveUrl(sourceUrl, baseUrl) : baseUrl,
+    byteRange: initialization.getAttribute('range') || undefined
+  };
+};
+
+const buildTemplateIndex = (levels: Element[], context: SegmentContext): DASHSegmentIndex => {
+  const timescale = inheritedNumber(levels, 'timescale', 1);
+  const presentationTimeOffset = inheritedNumber(levels, 'presentationTimeOffset', 0);
+  const startNumber = inheritedNumber(levels, 'startNumber', 1);
+  const media = inheritedAttr(levels, 'media') || '';
+  const values = { RepresentationID: context.representationId, Bandwidth: context.bandwidth };
+
+  const initializationTemplate = inheritedAttr(levels, 'initialization');
+  const initialization = initializationTemplate
+    ? { url: resolveUrl(expandSegmentTemplate(initializationTemplate, values), context.baseUrl) }
+    : readInitialization(levels, context.baseUrl);
+
+  const segments = readEntries(levels, timescale, presentationTimeOffset, context).map(entry => {
+    const number = startNumber + entry.index;
+    return {
+      url: resolveUrl(expandSegmentTemplate(media, { ...values, Number: number, Time: entry.time }), context.baseUrl),
+      start: context.periodStart + (entry.time - presentationTimeOffset) / timescale,
+      duration: entry.duration / timescale,
+      number,
+      time: entry.time
+    };
+  });
+
+  return { type: 'template', timescale, initialization, segments: withinLiveWindow(segments, context) };
+};
+
+const buildListIndex = (levels: Element[], context: SegmentContext): DASHSegmentIndex => {
+  const timescale = inheritedNumber(levels, 'timescale', 1);
+  const presentationTimeOffset = inheritedNumber(levels, 'presentationTimeOffset', 0);
+  const startNumber = inheritedNumber(levels, 'startNumber', 1);
+  const segmentUrls = inheritedChildren(levels, 'SegmentURL');
+  const duration = inheritedNumber(levels, 'duration', 0);
+
+  // Every SegmentURL is listed, so the list length bounds the timeline
+  const entries = inheritedChildren(levels, 'SegmentTimeline').length > 0
+    ? readEntries(levels, timescale, presentationTimeOffset, context)
+    : segmentUrls.map((_, index) => ({ index, time: index * duration + presentationTimeOffset, duration }));
+
+  const segments = segmentUrls.slice(0, entries.length).map((segmentUrl, i) => {
+    const entry = entries[i];
+    const media = segmentUrl.getAttribute('media');
+    return {
+      url: media ? resolveUrl(media, context.baseUrl) : context.baseUrl,
+      start: context.periodStart + (entry.time - presentationTimeOffset) / timescale,
+      duration: entry.duration / timescale,
+      number: startNumber + entry.index,
+      time: entry.time,
+      byteRange: segmentUrl.getAttribute('mediaRange') || undefined
+    };
+  });
+
+  return {
+    type: 'list',
+    timescale,
+    initialization: readInitialization(levels, context.baseUrl),
+    segments: withinLiveWindow(segments, context)
+  };
+};
+
+// SegmentBase media is a single file; its sidx lives at indexRange
+const buildBaseIndex = (levels: Element[], context: SegmentContext): DASHSegmentIndex => {
+  return {
+    type: 'base',
+    timescale: inheritedNumber(levels, 'timescale', 1),
+    initialization: readInitialization(levels, context.baseUrl),
+    indexRange: inheritedAttr(levels, 'indexRange'),
+    segments: [{
+      url: context.baseUrl,
+      start: context.periodStart,
+      duration: context.periodDuration
+    }]
+  };
+};
+
+const buildSegmentIndex = (scopes: Element[], context: SegmentContext): DASHSegmentIndex => {
+  const levelsOf = (name: string) => scopes
+    .map(scope => childElement(scope, name))
+    .filter((element): element is Element => element !== undefined);
+
+  const templates = levelsOf('SegmentTemplate');
+  if (templates.length > 0) return buildTemplateIndex(templates, context);
+
+  const lists = levelsOf('SegmentList');
+  if (lists.length > 0) return buildListIndex(lists, context);
+
+  return buildBaseIndex(levelsOf('SegmentBase'), context);
+};
+
+const detectAdaptationType = (adaptationSet: Element): DASHAdaptationSet['type'] | 'image' | null => {
+  const firstRepresentation = childElement(adaptationSet, 'Representation');
+  const contentType = adaptationSet.getAttribute('contentType')
+    || childElement(adaptationSet, 'ContentComponent')?.getAttribute('contentType');
+  const mimeType = adaptationSet.getAttribute('mimeType') || firstRepresentation?.getAttribute('mimeType') || '';
+  const codecs = adaptationSet.getAttribute('codecs') || firstRepresentation?.getAttribute('codecs') || '';
+
+  const type = contentType || mimeType.split('/')[0];
+  if (type === 'video' || type === 'audio' || type === 'text' || type === 'image') return type;
+  if (/ttml|vtt/.test(mimeType) || /^(stpp|wvtt)/.test(codecs)) return 'text';
+
+  return null;
+};
+
+const parseRepresentation = (
+  representation: Element,
+  adaptationSet: Element,
+  period: Element,
+  baseUrl: string | undefined,
+  timing: Omit<SegmentContext, 'representationId' | 'bandwidth' | 'baseUrl'>
+): DASHRepresentation => {
+  const attr = (name: string) => representation.getAttribute(name) ?? adaptationSet.getAttribute(name);
+  const id = representation.getAttribute('id') || '';
+  const bandwidth = numberAttr(representation, 'bandwidth') || 0;
+  const representationBaseUrl = resolveBaseUrl(representation, baseUrl) || '';
+
+  return {
+    id,
+    bandwidth,
+    width: Number(attr('width')) || 0,
+    height: Number(attr('height')) || 0,
+    codecs: attr('codecs') || '',
+    mimeType: attr('mimeType') || '',
+    frameRate: parseFrameRate(attr('frameRate')),
+    qualityRanking: Number(attr('qualityRanking')) || 0,
+    baseUrl: representationBaseUrl || undefined,
+    segmentIndex: buildSegmentIndex([period, adaptationSet, representation], {
+      ...timing,
+      representationId: id,
+      bandwidth,
+      baseUrl: representationBaseUrl
+    })
+  };
+};
+
+const parseAdaptationSets = (
+  period: Element,
+  baseUrl: string | undefined,
+  timing: Omit<SegmentContext, 'representationId' | 'bandwidth' | 'baseUrl'>
+): DASHAdaptationSet[] => {
+  const adaptationSets: DASHAdaptationSet[] = [];
+
+  childElements(period, 'AdaptationSet').forEach((adaptationSet, index) => {
+    const type = detectAdaptationType(adaptationSet);
+    // Trick-play thumbnails are not playable renditions
+    if (type === 'image') return;
+
+    const adaptationBaseUrl = resolveBaseUrl(adaptationSet, baseUrl);
+    const roles = childElements(adaptationSet, 'Role')
+      .map(role => role.getAttribute('value'))
+      .filter((value): value is string => Boolean(value));
+
+    adaptationSets.push({
+      id: adaptationSet.getAttribute('id') || String(index),
+      type: type || 'video',
+      representations: childElements(adaptationSet, 'Representation').map(representation =>
+        parseRepresentation(representation, adaptationSet, period, adaptationBaseUrl, timing)
+      ),
+      lang: adaptationSet.getAttribute('lang') || undefined,
+      roles: roles.length > 0 ? roles : undefined
+    });
+  });
+
+  return adaptationSets;
+};
+
+/**
+ * Parse an MPD document into a DASHManifest, expanding every representation's
+ * segment addressing into concrete segment URLs.
+ */
+export const parseMPD = (xml: string, options: MPDParseOptions = {}): DASHManifest => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid MPD: document is not well-formed XML');
+  }
+
+  const mpd = document.documentElement;
+  if (!mpd || mpd.localName !== 'MPD') {
+    throw new Error('Invalid MPD: missing MPD root element');
+  }
+
+  const isLive = mpd.getAttribute('type') === 'dynamic';
+  const mediaPresentationDuration = parseISODuration(mpd.getAttribute('mediaPresentationDuration'));
+  const availabilityStartTime = Date.parse(mpd.getAttribute('availabilityStartTime') || '') || 0;
+  const availabilityEndTime = Date.parse(mpd.getAttribute('availabilityEndTime') || '') || undefined;
+  const timeShiftBufferDepth = parseISODuration(mpd.getAttribute('timeShiftBufferDepth')) || 0;
+  const suggestedPresentationDelay = parseISODuration(mpd.getAttribute('suggestedPresentationDelay')) || 0;
+  const minimumUpdatePeriod = parseISODuration(mpd.getAttribute('minimumUpdatePeriod'));
+  if (isLive && !availabilityStartTime) {
+    throw new Error('Invalid MPD: dynamic MPD without availabilityStartTime');
+  }
+  // Without a time shift buffer depth, expand a few refreshes' worth behind the edge
+  const liveWindow = timeShiftBufferDepth > 0
+    ? timeShiftBufferDepth
+    : Math.max(DEFAULT_LIVE_WINDOW, 3 * (minimumUpdatePeriod || 0), 3 * suggestedPresentationDelay);
+  const now = options.now ?? Date.now();
+  const mpdBaseUrl = resolveBaseUrl(mpd, options.baseUrl);
+
+  const periodElements = childElements(mpd, 'Period');
+  const periods: DASHPeriod[] = [];
+
+  periodElements.forEach((period, index) => {
+    const previous = periods[index - 1];
+    const start = parseISODuration(period.getAttribute('start'))
+      ?? (previous ? previous.start + previous.duration : 0);
+
+    // Without an explicit duration a period runs until the next one starts
+    const nextStart = parseISODuration(periodElements[index + 1]?.getAttribute('start'));
+    const duration = parseISODuration(period.getAttribute('duration'))
+      ?? (nextStart !== undefined ? nextStart - start : undefined)
+      ?? (mediaPresentationDuration !== undefined ? mediaPresentationDuration - start : 0);
+
+    const timing = {
+      periodStart: start,
+      periodDuration: duration,
+      liveEdge: isLive ? (now - availabilityStartTime) / 1000 - start : undefined,
+      timeShiftBufferDepth,
+      liveWindow
+    };
+
+    periods.push({
+      id: period.getAttribute('id') || String(index),
+      start,
+      duration,
+      adaptationSets: parseAdaptationSets(period, resolveBaseUrl(period, mpdBaseUrl), timing)
+    });
+  });
+
+  const lastPeriod = periods[periods.length - 1];
+
+  return {
+    periods,
+    duration: mediaPresentationDuration ?? (lastPeriod ? lastPeriod.start + lastPeriod.duration : 0),
+    isLive,
+    availabilityStartTime,
+    availabilityEndTime,
+    suggestedPresentationDelay,
+    timeShiftBufferDepth,
+    minimumUpdatePeriod
+  };
+};
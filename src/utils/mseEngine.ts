@@ -0,0 +1,115 @@
+import { PlaybackMetrics, SegmentLoadEvent, VideoQuality } from '../types/player';
+import { AdaptiveStreamingEngine, QualityLevel } from './adaptiveStreaming';
+import { BasePlaybackEngine, PlaybackEngineOptions } from './playbackEngine';
+
+const qualityLevelToQuality = (quality: QualityLevel, index: number): VideoQuality => ({
+  level: index,
+  width: quality.resolution.width,
+  height: quality.resolution.height,
+  bitrate: quality.bitrate,
+  codecs: quality.codec,
+  label: quality.id
+});
+
+/**
+ * Media Source Extensions playback through our own AdaptiveStreamingEngine.
+ * The URL is an HLS master playlist or MPD that supplies the rendition
+ * ladder; the `adaptive` engine options tune buffering and adaptation.
+ */
+export class MSEPlaybackEngine extends BasePlaybackEngine {
+  readonly type = 'mse';
+  private engine: AdaptiveStreamingEngine | null = null;
+  private lastQualityId: string = '';
+
+  async load(videoElement: HTMLVideoElement, url: string): Promise<void> {
+    const config = this.options.adaptive;
+    if (!config) {
+      throw new Error(`MSE playback of ${url} requires an adaptive streaming config`);
+    }
+
+    this.destroyEngine();
+    this.videoElement = videoElement;
+
+    const engine = new AdaptiveStreamingEngine(config);
+    this.engine = engine;
+    videoElement.addEventListener('timeupdate', this.handleTimeUpdate);
+    engine.getSegmentLoader().on('load', this.handleSegmentLoad);
+
+    try {
+      await engine.initialize(videoElement, url);
+    } catch (error) {
+      if (this.engine !== engine) return;
+      const message = error instanceof Error ? error.message : 'MediaSource initialization failed';
+      this.emit('error', { message, fatal: true });
+      throw error;
+    }
+    // Destroyed or reloaded while the MediaSource was opening
+    if (this.engine !== engine) return;
+
+    this.lastQualityId = engine.getMetrics().currentQuality;
+    this.emit('loaded', { qualities: this.getQualities() });
+  }
+
+  // The engine adapts on its own timers, so surface its switches on timeupdate
+  private handleTimeUpdate = (): void => {
+    if (!this.engine) return;
+
+    const { currentQuality } = this.engine.getMetrics();
+    if (currentQuality !== this.lastQualityId) {
+      this.lastQualityId = currentQuality;
+      this.emit('qualityChanged', { quality: this.getCurrentQuality() });
+    }
+  };
+
+  private handleSegmentLoad = (event: SegmentLoadEvent): void => {
+    if (event.kind === 'segment') this.emit('segmentLoaded', event);
+  };
+
+  getQualities(): VideoQuality[] {
+    const qualities = this.engine ? this.engine.getQualities() : this.options.adaptive?.qualities || [];
+    return qualities.map(qualityLevelToQuality);
+  }
+
+  getCurrentQuality(): VideoQuality | null {
+    if (!this.engine) return null;
+
+    const { currentQuality } = this.engine.getMetrics();
+    return this.getQualities().find(quality => quality.label === currentQuality) || null;
+  }
+
+  setQuality(level: number): void {
+    if (!this.engine) return;
+
+    const quality = this.engine.getQualities()[level];
+    this.engine.setQuality(level < 0 || !quality ? null : quality.id);
+  }
+
+  getMetrics(): PlaybackMetrics {
+    const metrics = super.getMetrics();
+    if (this.engine) {
+      metrics.bandwidth = this.engine.getNetworkMetrics().bandwidth;
+    }
+    return metrics;
+  }
+
+  private destroyEngine(): void {
+    if (this.videoElement) {
+      this.videoElement.removeEventListener('timeupdate', this.handleTimeUpdate);
+    }
+    if (this.engine) {
+      this.engine.getSegmentLoader().off('load', this.handleSegmentLoad);
+      this.engine.destroy();
+      this.engine = null;
+    }
+    this.lastQualityId = '';
+  }
+
+  destroy(): void {
+    this.destroyEngine();
+    super.destroy();
+  }
+}
+
+export const createMSEPlaybackEngine = (options: PlaybackEngineOptions): MSEPlaybackEngine => {
+  return new MSEPlaybackEngine(options);
+};
@@ -0,0 +1,39 @@
+import { PlaybackEngineType } from '../types/player';
+import { BasePlaybackEngine, PlaybackEngineOptions } from './playbackEngine';
+
+const NATIVE_HLS_MIME_TYPE = 'application/vnd.apple.mpegurl';
+
+/**
+ * Plays sources the browser handles by itself: progressive files, and HLS on
+ * browsers with native support (Safari, iOS) when hls.js is unavailable.
+ */
+export class NativePlaybackEngine extends BasePlaybackEngine {
+  readonly type: PlaybackEngineType;
+
+  constructor(options: PlaybackEngineOptions, type: PlaybackEngineType = 'progressive') {
+    super(options);
+    this.type = type;
+  }
+
+  async load(videoElement: HTMLVideoElement, url: string): Promise<void> {
+    if (this.type === 'hls' && !videoElement.canPlayType(NATIVE_HLS_MIME_TYPE)) {
+      throw new Error('HLS not supported');
+    }
+
+    this.videoElement = videoElement;
+    this.watchTextTracks(videoElement);
+    videoElement.src = url;
+    this.emit('loaded', { qualities: [] });
+  }
+
+  destroy(): void {
+    if (this.videoElement) {
+      this.videoElement.removeAttribute('src');
+    }
+    super.destroy();
+  }
+}
+
+export const createNativePlaybackEngine = (options: PlaybackEngineOptions): NativePlaybackEngine => {
+  return new NativePlaybackEngine(options);
+};
@@ -0,0 +1,300 @@
+export interface NetworkConditions {
+  // bps; 0 drops every request
+  bandwidth: number;
+  // Milliseconds to the response headers
+  latency: number;
+  // Share of requests that fail, 0-1
+  loss: number;
+}
+
+export interface NetworkProfileStep extends NetworkConditions {
+  // Seconds the conditions hold
+  duration: number;
+}
+
+export interface NetworkProfile {
+  name: string;
+  steps: NetworkProfileStep[];
+  // Start over after the last step rather than holding it
+  loop: boolean;
+}
+
+export type NetworkProfileName = '3g' | 'congested-wifi' | 'step-down' | 'outage';
+
+export const NETWORK_PROFILES: Record<NetworkProfileName, NetworkProfile> = {
+  '3g': {
+    name: '3G',
+    loop: false,
+    steps: [{ duration: 60, bandwidth: 1500000, latency: 150, loss: 0.01 }]
+  },
+  'congested-wifi': {
+    name: 'Congested Wi-Fi',
+    loop: true,
+    steps: [
+      { duration: 10, bandwidth: 8000000, latency: 40, loss: 0.01 },
+      { duration: 5, bandwidth: 2000000, latency: 120, loss: 0.03 },
+      { duration: 8, bandwidth: 5000000, latency: 60, loss: 0.01 },
+      { duration: 4, bandwidth: 1000000, latency: 200, loss: 0.05 }
+    ]
+  },
+  'step-down': {
+    name: 'Step-down',
+    loop: false,
+    steps: [
+      { duration: 30, bandwidth: 8000000, latency: 20, loss: 0 },
+      { duration: 30, bandwidth: 4000000, latency: 40, loss: 0 },
+      { duration: 60, bandwidth: 1000000, latency: 80, loss: 0 }
+    ]
+  },
+  'outage': {
+    name: 'Outage',
+    loop: false,
+    steps: [
+      { duration: 20, bandwidth: 5000000, latency: 30, loss: 0 },
+      { duration: 8, bandwidth: 0, latency: 30, loss: 1 },
+      { duration: 60, bandwidth: 5000000, latency: 30, loss: 0 }
+    ]
+  }
+};
+
+/**
+ * Parse a recorded network trace: one step per line as
+ * `<seconds> <bandwidth kbps> [latency ms] [loss 0-1]`. Blank lines and
+ * lines starting with # are skipped.
+ */
+export const parseNetworkTrace = (text: string, name = 'Recorded trace'): NetworkProfile => {
+  const steps: NetworkProfileStep[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const [duration, bandwidth, latency = 0, loss = 0] = line.split(/[\s,]+/).map(Number);
+    if ([duration, bandwidth, latency, loss].some(Number.isNaN) || duration <= 0 || bandwidth < 0) {
+      throw new Error(`Invalid network trace line ${lineIndex + 1}: "${line}"`);
+    }
+    steps.push({ duration, bandwidth: bandwidth * 1000, latency, loss });
+  });
+
+  if (steps.length === 0) {
+    throw new Error('Network trace has no steps');
+  }
+  return { name, steps, loop: false };
+};
+
+/**
+ * The step in force `elapsed` seconds into a profile, and when it ends
+ * (Infinity for the held last step of a non-looping profile)
+ */
+export const getProfileStepAt = (
+  profile: NetworkProfile,
+  elapsed: number
+): { step: NetworkProfileStep; endsAt: number } | null => {
+  if (profile.steps.length === 0) return null;
+
+  const total = profile.steps.reduce((sum, step) => sum + step.duration, 0);
+  const cycle = profile.loop ? Math.floor(elapsed / total) : 0;
+  let stepStart = cycle * total;
+
+  for (let i = 0; i < profile.steps.length; i++) {
+    const step = profile.steps[i];
+    const last = i === profile.steps.length - 1;
+    const endsAt = last && !profile.loop ? Infinity : stepStart + step.duration;
+    if (elapsed < endsAt) return { step, endsAt };
+    stepStart += step.duration;
+  }
+  return null;
+};
+
+/**
+ * Seconds to move `bytes` starting `from` seconds into a profile, through
+ * any step changes on the way; Infinity when the profile never carries them
+ */
+export const getTransferTime = (profile: NetworkProfile, bytes: number, from: number): number => {
+  let remaining = bytes * 8;
+  let time = from;
+
+  while (remaining > 0) {
+    const current = getProfileStepAt(profile, time);
+    if (!current) return 0;
+
+    const { step, endsAt } = current;
+    if (step.bandwidth > 0) {
+      const needed = remaining / step.bandwidth;
+      if (time + needed <= endsAt) return time + needed - from;
+      remaining -= step.bandwidth * (endsAt - time);
+    }
+    if (endsAt === Infinity) return Infinity;
+    time = endsAt;
+  }
+  return time - from;
+};
+
+export interface NetworkEmulatorConfig {
+  // Null passes requests through unshaped
+  profile: NetworkProfile | null;
+  // Seed for the loss draws, so a run replays the same way
+  seed: number;
+  // Where responses come from: the global fetch, a local segment server
+  // behind it, or createFixtureFetch()
+  upstream?: typeof fetch;
+}
+
+export const DEFAULT_NETWORK_EMULATOR_CONFIG: NetworkEmulatorConfig = {
+  profile: null,
+  seed: 1
+};
+
+/**
+ * In-memory response body; a number stands for a body of that many bytes
+ */
+export type FixtureBody = ArrayBuffer | string | number;
+
+// mulberry32: small, fast and the same sequence for the same seed everywhere
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const getRequestUrl = (input: RequestInfo | URL): string => {
+  if (typeof input === 'string') return input;
+  return input instanceof URL ? input.href : input.url;
+};
+
+const createAbortError = (): Error => new DOMException('The operation was aborted.', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal | null): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    }, { once: true });
+  });
+};
+
+// Just enough of Response for segment and manifest loading
+const createResponse = (
+  status: number,
+  arrayBuffer: () => Promise<ArrayBuffer>,
+  source?: Response
+): Response => {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: source?.statusText ?? '',
+    headers: source?.headers,
+    url: source?.url ?? '',
+    arrayBuffer,
+    text: async () => new TextDecoder().decode(await arrayBuffer()),
+    json: async () => JSON.parse(new TextDecoder().decode(await arrayBuffer()))
+  } as unknown as Response;
+};
+
+/**
+ * fetch over in-memory fixtures keyed by absolute URL or by path. Unknown
+ * URLs get a 404.
+ */
+export const createFixtureFetch = (fixtures: Record<string, FixtureBody>): typeof fetch => {
+  return (async (input: RequestInfo | URL) => {
+    const url = getRequestUrl(input);
+    const path = /^[a-z][a-z\d+.-]*:/i.test(url) ? new URL(url).pathname : url;
+    const body = fixtures[url] ?? fixtures[path];
+    if (body === undefined) {
+      return createResponse(404, async () => new ArrayBuffer(0));
+    }
+
+    const data = typeof body === 'number'
+      ? new ArrayBuffer(body)
+      : typeof body === 'string' ? new TextEncoder().encode(body).buffer as ArrayBuffer : body;
+    return createResponse(200, async () => data.slice(0));
+  }) as typeof fetch;
+};
+
+/**
+ * Shapes requests to replay a network profile: each request waits out the
+ * profile's latency for its headers, then its body arrives at the profile's
+ * bandwidth, following the profile through any step changes on the way.
+ * Requests fail at the profile's loss rate, drawn from a seeded sequence,
+ * and whenever bandwidth is 0. Timing runs on setTimeout and
+ * performance.now, so fake timers replay it exactly.
+ *
+ * Pass `emulator.fetch` as the segment loader's fetch.
+ */
+export class NetworkEmulator {
+  private config: NetworkEmulatorConfig;
+  private startTime: number = performance.now();
+  private random: () => number;
+
+  constructor(config: NetworkEmulatorConfig) {
+    this.config = config;
+    this.random = createRandom(config.seed);
+  }
+
+  /**
+   * Replay a profile from its start; null stops shaping
+   */
+  setProfile(profile: NetworkProfile | null): void {
+    this.config = { ...this.config, profile };
+    this.startTime = performance.now();
+    this.random = createRandom(this.config.seed);
+  }
+
+  getProfile(): NetworkProfile | null {
+    return this.config.profile;
+  }
+
+  /**
+   * Conditions at this moment of the profile; null when not shaping
+   */
+  getConditions(): NetworkConditions | null {
+    const { profile } = this.config;
+    const current = profile && getProfileStepAt(profile, this.getElapsed());
+    return current ? { bandwidth: current.step.bandwidth, latency: current.step.latency, loss: current.step.loss } : null;
+  }
+
+  fetch = (async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const upstream = this.config.upstream ?? fetch;
+    const conditions = this.getConditions();
+    if (!conditions) return upstream(input, init);
+
+    const dropped = conditions.bandwidth <= 0 || this.random() < conditions.loss;
+    await wait(conditions.latency, init?.signal);
+    if (dropped) {
+      throw new TypeError(`Failed to fetch ${getRequestUrl(input)} (emulated network loss)`);
+    }
+
+    const response = await upstream(input, init);
+    const data = await response.arrayBuffer();
+    const transferTime = this.config.profile
+      ? getTransferTime(this.config.profile, data.byteLength, this.getElapsed()) * 1000
+      : 0;
+    if (transferTime === Infinity) {
+      throw new TypeError(`Failed to fetch ${getRequestUrl(input)} (emulated network outage)`);
+    }
+
+    return createResponse(response.status, async () => {
+      await wait(transferTime, init?.signal);
+      return data;
+    }, response);
+  }) as typeof fetch;
+
+  // Seconds into the profile
+  private getElapsed(): number {
+    return (performance.now() - this.startTime) / 1000;
+  }
+}
+
+export const createNetworkEmulator = (config: Partial<NetworkEmulatorConfig> = {}): NetworkEmulator => {
+  return new NetworkEmulator({ ...DEFAULT_NETWORK_EMULATOR_CONFIG, ...config });
+};
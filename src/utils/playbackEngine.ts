@@ -0,0 +1,301 @@
+import {
+  AudioTrack,
+  DASHConfig,
+  EMEConfig,
+  EMEMetrics,
+  LiveStreamType,
+  LiveWindow,
+  PlaybackEngine,
+  PlaybackEngineEventMap,
+  PlaybackEngineListener,
+  PlaybackEngineType,
+  PlaybackMetrics,
+  StreamingConfig,
+  TextTrackInfo,
+  VideoQuality
+} from '../types/player';
+import { AdaptiveStreamingConfig } from './adaptiveStreaming';
+import { LowLatencyConfig } from './lowLatencyOptimizer';
+import { DRMManager, createDRMManager } from './drm';
+
+export interface PlaybackEngineOptions {
+  streaming: StreamingConfig;
+  dash?: Partial<DASHConfig>;
+  adaptive?: AdaptiveStreamingConfig;
+  drm?: EMEConfig;
+  // Live latency target and LL-HLS/LL-DASH delivery; also turns on catch-up
+  lowLatency?: Partial<LowLatencyConfig>;
+}
+
+// Playing this close to the engine's target latency still counts as live
+const LIVE_EDGE_TOLERANCE = 3;
+
+type PlaybackEngineListeners = {
+  [K in keyof PlaybackEngineEventMap]?: PlaybackEngineListener<K>[];
+};
+
+/**
+ * Shared plumbing for playback engines: the event emitter and the controls
+ * that act directly on the media element. Adapters override what their
+ * underlying library handles differently.
+ */
+export abstract class BasePlaybackEngine implements PlaybackEngine {
+  abstract readonly type: PlaybackEngineType;
+  protected videoElement: HTMLVideoElement | null = null;
+  protected options: PlaybackEngineOptions;
+  protected drm: DRMManager | null = null;
+  private listeners: PlaybackEngineListeners = {};
+  private watchedTextTracks: TextTrackList | null = null;
+
+  constructor(options: PlaybackEngineOptions) {
+    this.options = options;
+  }
+
+  abstract load(videoElement: HTMLVideoElement, url: string): Promise<void>;
+
+  async play(): Promise<void> {
+    if (this.videoElement) {
+      await this.videoElement.play();
+    }
+  }
+
+  pause(): void {
+    if (this.videoElement) {
+      this.videoElement.pause();
+    }
+  }
+
+  seek(time: number): void {
+    if (this.videoElement) {
+      this.videoElement.currentTime = time;
+    }
+  }
+
+  getQualities(): VideoQuality[] {
+    return [];
+  }
+
+  getCurrentQuality(): VideoQuality | null {
+    return null;
+  }
+
+  setQuality(_level: number): void {
+    // Single-rendition engines have nothing to switch
+  }
+
+  /**
+   * Subtitle and caption tracks of the media element itself, e.g. in-band
+   * text in progressive files or natively played HLS
+   */
+  getTextTracks(): TextTrackInfo[] {
+    const tracks = this.videoElement?.textTracks;
+    if (!tracks) return [];
+
+    const result: TextTrackInfo[] = [];
+    for (let i = 0; i < tracks.length; i++) {
+      const track = tracks[i];
+      if (track.kind === 'subtitles' || track.kind === 'captions') {
+        result.push({
+          id: `text-${i}`,
+          label: track.label || track.language || `Track ${i + 1}`,
+          language: track.language,
+          kind: track.kind,
+          source: this.type === 'progressive' ? 'embedded' : 'manifest'
+        });
+      }
+    }
+    return result;
+  }
+
+  setTextTrack(_id: string | null): void {
+    // The element loads cues of native tracks as soon as their mode leaves 'disabled'
+  }
+
+  getNativeTextTrack(id: string): TextTrack | null {
+    const match = /^text-(\d+)$/.exec(id);
+    const tracks = this.videoElement?.textTracks;
+    if (!match || !tracks) return null;
+    return tracks[Number(match[1])] || null;
+  }
+
+  /**
+   * The seekable window of a live stream, read from the media element so
+   * every engine reports it on the same timeline
+   */
+  getLiveWindow(): LiveWindow | null {
+    const video = this.videoElement;
+    const type = this.getLiveType();
+    if (!video || !type) return null;
+
+    const { seekable, currentTime } = video;
+    const start = seekable.length ? seekable.start(0) : currentTime;
+    const end = seekable.length ? seekable.end(seekable.length - 1) : currentTime;
+    const latency = this.getLiveLatency(end);
+    const targetLatency = this.getTargetLatency();
+
+    return {
+      type,
+      start,
+      end,
+      latency,
+      targetLatency,
+      atLiveEdge: latency <= targetLatency + LIVE_EDGE_TOLERANCE
+    };
+  }
+
+  // Natively played HLS exposes its program-date-time through getStartDate()
+  getWallClockLatency(): number | null {
+    const video = this.videoElement as (HTMLVideoElement & { getStartDate?: () => Date }) | null;
+    const start = video?.getStartDate?.().getTime();
+    if (!video || start == null || !Number.isFinite(start)) return null;
+    return Math.max(0, (Date.now() - start) / 1000 - video.currentTime);
+  }
+
+  seekToLiveEdge(): void {
+    const window = this.getLiveWindow();
+    if (window) {
+      this.seek(Math.max(window.start, window.end - window.targetLatency));
+    }
+  }
+
+  // Browsers report an unbounded duration for live sources they play natively
+  protected getLiveType(): LiveStreamType | null {
+    return this.videoElement?.duration === Infinity ? 'live' : null;
+  }
+
+  protected getLiveLatency(liveEdge: number): number {
+    return Math.max(0, liveEdge - (this.videoElement?.currentTime || 0));
+  }
+
+  protected getTargetLatency(): number {
+    return 0;
+  }
+
+  getAudioTracks(): AudioTrack[] {
+    return [];
+  }
+
+  getCurrentAudioTrack(): AudioTrack | null {
+    return null;
+  }
+
+  setAudioTrack(_id: string): void {
+    // Media element audio tracks are only exposed by some browsers; nothing to switch
+  }
+
+  /**
+   * Report text tracks the element adds or removes while loading
+   */
+  protected watchTextTracks(videoElement: HTMLVideoElement): void {
+    this.unwatchTextTracks();
+    const tracks = videoElement.textTracks;
+    if (!tracks || typeof tracks.addEventListener !== 'function') return;
+
+    tracks.addEventListener('addtrack', this.handleTextTracksChange);
+    tracks.addEventListener('removetrack', this.handleTextTracksChange);
+    this.watchedTextTracks = tracks;
+  }
+
+  private unwatchTextTracks(): void {
+    if (this.watchedTextTracks) {
+      this.watchedTextTracks.removeEventListener('addtrack', this.handleTextTracksChange);
+      this.watchedTextTracks.removeEventListener('removetrack', this.handleTextTracksChange);
+      this.watchedTextTracks = null;
+    }
+  }
+
+  private handleTextTracksChange = (): void => {
+    this.emit('textTracksChanged', { tracks: this.getTextTracks() });
+  };
+
+  getMetrics(): PlaybackMetrics {
+    const metrics: PlaybackMetrics = {
+      bandwidth: 0,
+      currentBitrate: this.getCurrentQuality()?.bitrate || 0,
+      bufferLength: 0,
+      droppedFrames: 0,
+      totalFrames: 0
+    };
+
+    const video = this.videoElement;
+    if (!video) return metrics;
+
+    const { buffered, currentTime } = video;
+    for (let i = 0; i < buffered.length; i++) {
+      if (buffered.start(i) <= currentTime && currentTime <= buffered.end(i)) {
+        metrics.bufferLength = buffered.end(i) - currentTime;
+        break;
+      }
+    }
+
+    if (typeof video.getVideoPlaybackQuality === 'function') {
+      const quality = video.getVideoPlaybackQuality();
+      metrics.droppedFrames = quality.droppedVideoFrames;
+      metrics.totalFrames = quality.totalVideoFrames;
+    }
+
+    return metrics;
+  }
+
+  getDRMMetrics(): EMEMetrics | null {
+    return this.drm ? this.drm.getMetrics() : null;
+  }
+
+  /**
+   * Set up EME on the element when the options carry a DRM config. Returns
+   * false when that failed (the error has already been emitted), or when the
+   * engine was destroyed or reloaded while the license was on its way.
+   */
+  protected async attachDRM(videoElement: HTMLVideoElement): Promise<boolean> {
+    this.destroyDRM();
+    if (!this.options.drm) return true;
+
+    const drm = createDRMManager(this.options.drm);
+    this.drm = drm;
+    drm.on('error', error => this.emit('error', error));
+
+    try {
+      await drm.attach(videoElement);
+    } catch {
+      return false;
+    }
+    return this.drm === drm && this.videoElement === videoElement;
+  }
+
+  private destroyDRM(): void {
+    if (this.drm) {
+      this.drm.destroy();
+      this.drm = null;
+    }
+  }
+
+  on<K extends keyof PlaybackEngineEventMap>(event: K, listener: PlaybackEngineListener<K>): void {
+    const listeners = (this.listeners[event] || []) as PlaybackEngineListener<K>[];
+    listeners.push(listener);
+    (this.listeners as Record<K, PlaybackEngineListener<K>[]>)[event] = listeners;
+  }
+
+  off<K extends keyof PlaybackEngineEventMap>(event: K, listener: PlaybackEngineListener<K>): void {
+    const listeners = this.listeners[event] as PlaybackEngineListener<K>[] | undefined;
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  protected emit<K extends keyof PlaybackEngineEventMap>(event: K, data: PlaybackEngineEventMap[K]): void {
+    const listeners = this.listeners[event] as PlaybackEngineListener<K>[] | undefined;
+    if (listeners) {
+      listeners.forEach(listener => listener(data));
+    }
+  }
+
+  destroy(): void {
+    this.destroyDRM();
+    this.unwatchTextTracks();
+    this.listeners = {};
+    this.videoElement = null;
+  }
+}
@@ -0,0 +1,210 @@
+export type QoERating = 'excellent' | 'good' | 'fair' | 'poor';
+
+export interface QoEModelConfig {
+  // Points each factor can take off a perfect 100
+  bitrateWeight: number;
+  startupWeight: number;
+  rebufferWeight: number;
+  switchWeight: number;
+  droppedFramesWeight: number;
+  // Where each penalty reaches its full weight
+  maxStartupDelay: number; // seconds
+  maxRebufferRatio: number;
+  maxSwitchRate: number; // switches per minute
+  maxDroppedFrameRatio: number;
+  // Points each stall costs on top of the time stalled, within rebufferWeight
+  stallPenalty: number;
+}
+
+export const DEFAULT_QOE_MODEL_CONFIG: QoEModelConfig = {
+  bitrateWeight: 35,
+  startupWeight: 10,
+  rebufferWeight: 35,
+  switchWeight: 10,
+  droppedFramesWeight: 10,
+  maxStartupDelay: 10,
+  maxRebufferRatio: 0.1,
+  maxSwitchRate: 4,
+  maxDroppedFrameRatio: 0.1,
+  stallPenalty: 5
+};
+
+/**
+ * What a viewing session looked like so far
+ */
+export interface QoESession {
+  // Seconds from the play request to the first frame
+  startupDelay: number;
+  // Seconds spent playing and stalled after the first frame
+  playTime: number;
+  rebufferTime: number;
+  rebufferCount: number;
+  // bps averaged over play time, and the top of the ladder
+  averageBitrate: number;
+  topBitrate: number;
+  switches: number;
+  droppedFrames: number;
+  totalFrames: number;
+}
+
+export interface QoEScore {
+  // 0-100
+  score: number;
+  rating: QoERating;
+}
+
+// Lowest score for each rating, best first
+const RATING_THRESHOLDS: [number, QoERating][] = [
+  [80, 'excellent'],
+  [60, 'good'],
+  [40, 'fair']
+];
+
+export const getQoERating = (score: number): QoERating => {
+  return RATING_THRESHOLDS.find(([threshold]) => score >= threshold)?.[1] ?? 'poor';
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Weighted linear QoE score after ITU-T P.1203: a session starts at 100
+ * and each factor takes off up to its weight. Bitrate counts on a log
+ * curve, so the top rungs of the ladder add less than the bottom ones;
+ * stalls count both by share of time and by number.
+ */
+export class QoEModel {
+  private config: QoEModelConfig;
+
+  constructor(config: QoEModelConfig) {
+    this.config = config;
+  }
+
+  score(session: QoESession): QoEScore {
+    const { config } = this;
+    const watched = session.playTime + session.rebufferTime;
+
+    // Nothing to judge the bitrate by until a rendition is chosen
+    const bitrateShare = session.averageBitrate > 0 && session.topBitrate > 0
+      ? clamp01(session.averageBitrate / session.topBitrate)
+      : 1;
+    const quality = Math.log2(1 + 4 * bitrateShare) / Math.log2(5);
+    const rebufferRatio = watched > 0 ? session.rebufferTime / watched : 0;
+    // Judged per minute once there's a minute to judge, so an early switch isn't the whole penalty
+    const switchRate = session.switches / Math.max(1, session.playTime / 60);
+    const droppedRatio = session.totalFrames > 0 ? session.droppedFrames / session.totalFrames : 0;
+
+    const penalty =
+      config.bitrateWeight * (1 - quality) +
+      config.startupWeight * clamp01(session.startupDelay / config.maxStartupDelay) +
+      Math.min(
+        config.rebufferWeight,
+        config.rebufferWeight * (rebufferRatio / config.maxRebufferRatio) + config.stallPenalty * session.rebufferCount
+      ) +
+      config.switchWeight * clamp01(switchRate / config.maxSwitchRate) +
+      config.droppedFramesWeight * clamp01(droppedRatio / config.maxDroppedFrameRatio);
+
+    const score = Math.round(Math.max(0, 100 - penalty));
+    return { score, rating: getQoERating(score) };
+  }
+}
+
+export const createQoEModel = (config: Partial<QoEModelConfig> = {}): QoEModel => {
+  return new QoEModel({ ...DEFAULT_QOE_MODEL_CONFIG, ...config });
+};
+
+/**
+ * The session so far as timed from playback events; the caller adds the
+ * ladder top and frame counts
+ */
+export type QoEPlayback = Omit<QoESession, 'topBitrate' | 'droppedFrames' | 'totalFrames'>;
+
+type PlaybackState = 'idle' | 'starting' | 'playing' | 'stalled' | 'paused';
+
+/**
+ * Times a session from media element events for the QoE model. Startup
+ * runs from the first play to the first frame; a stall from waiting to
+ * playing again. Bitrate is averaged over time spent playing.
+ */
+export class QoETracker {
+  private state: PlaybackState = 'idle';
+  // When the current state began, ms
+  private since = 0;
+  private startupDelay = 0;
+  private playTime = 0;
+  private rebufferTime = 0;
+  private rebufferCount = 0;
+  private bitrate = 0;
+  // Sum of bitrate × ms played
+  private bitrateTime = 0;
+  private switches = 0;
+
+  play(): void {
+    if (this.state !== 'idle') return;
+    this.state = 'starting';
+    this.since = performance.now();
+  }
+
+  playing(): void {
+    if (this.state === 'idle' || this.state === 'playing') return;
+    this.accrue();
+    if (this.state === 'starting') {
+      this.startupDelay = performance.now() - this.since;
+    }
+    this.setState('playing');
+  }
+
+  stall(): void {
+    if (this.state !== 'playing') return;
+    this.accrue();
+    this.rebufferCount++;
+    this.setState('stalled');
+  }
+
+  pause(): void {
+    // Pausing before the first frame leaves startup running until it arrives
+    if (this.state !== 'playing' && this.state !== 'stalled') return;
+    this.accrue();
+    this.setState('paused');
+  }
+
+  /**
+   * Rendition being played, in bps; a change after the first one is a switch
+   */
+  setBitrate(bitrate: number): void {
+    if (bitrate === this.bitrate) return;
+    this.accrue();
+    if (this.bitrate > 0) this.switches++;
+    this.bitrate = bitrate;
+  }
+
+  getPlayback(): QoEPlayback {
+    this.accrue();
+    return {
+      startupDelay: (this.state === 'starting' ? performance.now() - this.since : this.startupDelay) / 1000,
+      playTime: this.playTime / 1000,
+      rebufferTime: this.rebufferTime / 1000,
+      rebufferCount: this.rebufferCount,
+      averageBitrate: this.playTime > 0 ? this.bitrateTime / this.playTime : this.bitrate,
+      switches: this.switches
+    };
+  }
+
+  // Book the time since the last update to the current state
+  private accrue(): void {
+    if (this.state !== 'playing' && this.state !== 'stalled') return;
+    const now = performance.now();
+    const elapsed = now - this.since;
+    if (this.state === 'playing') {
+      this.playTime += elapsed;
+      this.bitrateTime += this.bitrate * elapsed;
+    } else {
+      this.rebufferTime += elapsed;
+    }
+    this.since = now;
+  }
+
+  private setState(state: PlaybackState): void {
+    this.state = state;
+    this.since = performance.now();
+  }
+}
@@ -0,0 +1,385 @@
+import { SegmentCachePersistence, SegmentCacheStats } from '../types/player';
+
+export interface SegmentCacheConfig {
+  // Memory budget for segment data, in bytes
+  maxBytes: number;
+  // Segments within this many seconds of the playhead are evicted last
+  playheadWindow: number;
+  // Keep segments beyond memory eviction and across sessions
+  persistence: SegmentCachePersistence;
+  // IndexedDB database or Cache Storage cache to persist into
+  storageName: string;
+  // Byte budget for persisted segments, across sessions
+  maxPersistentBytes: number;
+}
+
+export const DEFAULT_SEGMENT_CACHE_CONFIG: SegmentCacheConfig = {
+  maxBytes: 64 * 1024 * 1024,
+  playheadWindow: 30,
+  persistence: 'none',
+  storageName: 'web-tv-player-segments',
+  maxPersistentBytes: 256 * 1024 * 1024
+};
+
+export interface PersistedSegmentInfo {
+  url: string;
+  bytes: number;
+  // When the segment was written, in ms since the epoch
+  storedAt: number;
+}
+
+export interface PersistentSegmentStore {
+  get(url: string): Promise<ArrayBuffer | null>;
+  put(url: string, data: ArrayBuffer): Promise<void>;
+  delete(url: string): Promise<void>;
+  // Sizes of everything persisted, without reading the segment data
+  list(): Promise<PersistedSegmentInfo[]>;
+  clear(): Promise<void>;
+}
+
+interface CacheEntry {
+  data: ArrayBuffer;
+  // Media time the segment starts at, when the caller knows it
+  time?: number;
+}
+
+const SEGMENT_STORE_NAME = 'segments';
+const INFO_STORE_NAME = 'segmentInfo';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createIndexedDBStore = (name: string): PersistentSegmentStore => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const getTransaction = async (mode: IDBTransactionMode): Promise<IDBTransaction> => {
+    if (!database) {
+      const request = indexedDB.open(name, 2);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Version 1 kept no sizes to budget by, so its segments are dropped
+        Array.from(db.objectStoreNames).forEach(store => db.deleteObjectStore(store));
+        db.createObjectStore(SEGMENT_STORE_NAME);
+        db.createObjectStore(INFO_STORE_NAME);
+      };
+      database = requestToPromise(request);
+    }
+    return (await database).transaction([SEGMENT_STORE_NAME, INFO_STORE_NAME], mode);
+  };
+
+  return {
+    get: async url => {
+      const transaction = await getTransaction('readonly');
+      const data = await requestToPromise(transaction.objectStore(SEGMENT_STORE_NAME).get(url));
+      return data instanceof ArrayBuffer ? data : null;
+    },
+    put: async (url, data) => {
+      const transaction = await getTransaction('readwrite');
+      const info: PersistedSegmentInfo = { url, bytes: data.byteLength, storedAt: Date.now() };
+      await Promise.all([
+        requestToPromise(transaction.objectStore(SEGMENT_STORE_NAME).put(data, url)),
+        requestToPromise(transaction.objectStore(INFO_STORE_NAME).put(info, url))
+      ]);
+    },
+    delete: async url => {
+      const transaction = await getTransaction('readwrite');
+      await Promise.all([
+        requestToPromise(transaction.objectStore(SEGMENT_STORE_NAME).delete(url)),
+        requestToPromise(transaction.objectStore(INFO_STORE_NAME).delete(url))
+      ]);
+    },
+    list: async () => {
+      const transaction = await getTransaction('readonly');
+      return requestToPromise(transaction.objectStore(INFO_STORE_NAME).getAll());
+    },
+    clear: async () => {
+      const transaction = await getTransaction('readwrite');
+      await Promise.all([
+        requestToPromise(transaction.objectStore(SEGMENT_STORE_NAME).clear()),
+        requestToPromise(transaction.objectStore(INFO_STORE_NAME).clear())
+      ]);
+    }
+  };
+};
+
+export const createCacheStorageStore = (name: string): PersistentSegmentStore => ({
+  get: async url => {
+    const response = await (await caches.open(name)).match(url);
+    return response ? response.arrayBuffer() : null;
+  },
+  put: async (url, data) => {
+    const headers = { 'X-Segment-Bytes': String(data.byteLength), 'X-Stored-At': String(Date.now()) };
+    await (await caches.open(name)).put(url, new Response(data, { headers }));
+  },
+  delete: async url => {
+    await (await caches.open(name)).delete(url);
+  },
+  list: async () => {
+    const cache = await caches.open(name);
+    const requests = await cache.keys();
+    const responses = await Promise.all(requests.map(request => cache.match(request)));
+    return requests.map((request, index) => ({
+      url: request.url,
+      bytes: Number(responses[index]?.headers.get('X-Segment-Bytes')) || 0,
+      storedAt: Number(responses[index]?.headers.get('X-Stored-At')) || 0
+    }));
+  },
+  clear: async () => {
+    await caches.delete(name);
+  }
+});
+
+const createPersistentStore = (config: SegmentCacheConfig): PersistentSegmentStore | null => {
+  if (config.persistence === 'indexeddb' && typeof indexedDB !== 'undefined') {
+    return createIndexedDBStore(config.storageName);
+  }
+  if (config.persistence === 'cache-storage' && typeof caches !== 'undefined') {
+    return createCacheStorageStore(config.storageName);
+  }
+  if (config.persistence !== 'none') {
+    console.warn(`Segment cache persistence "${config.persistence}" is not available here`);
+  }
+  return null;
+};
+
+/**
+ * In-memory segment cache with a byte budget. Eviction is least recently
+ * used first, except that segments near the playhead go last so a seek
+ * back or a replay of what was just watched doesn't refetch. With
+ * persistence on, every cached segment is also written to IndexedDB or
+ * Cache Storage and read back from there once memory has let it go. The
+ * persistent store has its own budget: past it, the least recently used
+ * persisted segments are deleted, with earlier sessions' segments ordered
+ * by when they were written.
+ */
+export class SegmentCache {
+  private config: SegmentCacheConfig;
+  // Map order is recency order, least recently used first
+  private entries: Map<string, CacheEntry> = new Map();
+  private bytes = 0;
+  private playhead: number | null = null;
+  private hits = 0;
+  private persistentHits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private store: PersistentSegmentStore | null;
+  private pending: Map<string, Promise<ArrayBuffer>> = new Map();
+  // Persisted segment sizes in recency order, listed from the store on first write
+  private persisted: Promise<Map<string, number>> | null = null;
+  private persistedBytes = 0;
+
+  constructor(config: SegmentCacheConfig) {
+    this.config = config;
+    this.store = createPersistentStore(config);
+  }
+
+  /**
+   * Whether the segment is in memory; doesn't count as a hit or miss
+   */
+  has(url: string): boolean {
+    return this.entries.has(url);
+  }
+
+  async get(url: string): Promise<ArrayBuffer | null> {
+    const entry = this.entries.get(url);
+    if (entry) {
+      this.hits++;
+      this.entries.delete(url);
+      this.entries.set(url, entry);
+      return entry.data;
+    }
+
+    const persisted = await this.readPersisted(url);
+    if (persisted) {
+      this.hits++;
+      this.persistentHits++;
+      this.insert(url, { data: persisted });
+      this.touchPersisted(url);
+      return persisted;
+    }
+
+    this.misses++;
+    return null;
+  }
+
+  set(url: string, data: ArrayBuffer, time?: number): void {
+    this.insert(url, { data, time });
+    this.writePersisted(url, data);
+  }
+
+  /**
+   * The cached segment, or the result of load() cached on the way out.
+   * Concurrent calls for the same URL share one load.
+   */
+  async getOrLoad(url: string, load: () => Promise<ArrayBuffer>, time?: number): Promise<ArrayBuffer> {
+    const inFlight = this.pending.get(url);
+    if (inFlight) return inFlight;
+
+    const request = (async () => {
+      const cached = await this.get(url);
+      if (cached) return cached;
+
+      const data = await load();
+      this.set(url, data, time);
+      return data;
+    })();
+
+    this.pending.set(url, request);
+    try {
+      return await request;
+    } finally {
+      this.pending.delete(url);
+    }
+  }
+
+  /**
+   * Current media time, for keeping nearby segments through eviction
+   */
+  setPlayhead(time: number): void {
+    this.playhead = time;
+  }
+
+  delete(url: string): void {
+    const entry = this.entries.get(url);
+    if (entry) {
+      this.entries.delete(url);
+      this.bytes -= entry.data.byteLength;
+    }
+  }
+
+  /**
+   * Empty memory; persisted segments stay for the next session
+   */
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  async clearPersisted(): Promise<void> {
+    this.persisted = Promise.resolve(new Map());
+    this.persistedBytes = 0;
+    try {
+      await this.store?.clear();
+    } catch (error) {
+      console.warn('Failed to clear persisted segments:', error);
+    }
+  }
+
+  getStats(): SegmentCacheStats {
+    return {
+      hits: this.hits,
+      persistentHits: this.persistentHits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.config.maxBytes
+    };
+  }
+
+  private insert(url: string, entry: CacheEntry): void {
+    this.delete(url);
+    // Caching it would evict everything else and still not fit
+    if (entry.data.byteLength > this.config.maxBytes) return;
+
+    this.entries.set(url, entry);
+    this.bytes += entry.data.byteLength;
+
+    while (this.bytes > this.config.maxBytes) {
+      const victim = this.pickVictim(url);
+      if (!victim) break;
+      this.delete(victim);
+      this.evictions++;
+    }
+  }
+
+  // The least recently used segment away from the playhead, or failing
+  // that the least recently used of all; never the one just inserted
+  private pickVictim(inserted: string): string | null {
+    let oldest: string | null = null;
+    for (const [url, entry] of this.entries) {
+      if (url === inserted) continue;
+      if (!this.isNearPlayhead(entry)) return url;
+      oldest = oldest ?? url;
+    }
+    return oldest;
+  }
+
+  private isNearPlayhead(entry: CacheEntry): boolean {
+    return entry.time !== undefined && this.playhead !== null &&
+      Math.abs(entry.time - this.playhead) <= this.config.playheadWindow;
+  }
+
+  private async readPersisted(url: string): Promise<ArrayBuffer | null> {
+    if (!this.store) return null;
+    try {
+      return await this.store.get(url);
+    } catch (error) {
+      console.warn('Failed to read persisted segment:', error);
+      return null;
+    }
+  }
+
+  private writePersisted(url: string, data: ArrayBuffer): void {
+    const store = this.store;
+    if (!store || data.byteLength > this.config.maxPersistentBytes) return;
+
+    (async () => {
+      await store.put(url, data);
+      const victims = this.trackPersisted(await this.loadPersisted(store), url, data.byteLength);
+      await Promise.all(victims.map(victim => store.delete(victim)));
+    })().catch(error => {
+      console.warn('Failed to persist segment:', error);
+    });
+  }
+
+  private loadPersisted(store: PersistentSegmentStore): Promise<Map<string, number>> {
+    this.persisted ??= store.list().then(segments => {
+      const persisted = new Map<string, number>();
+      segments
+        .sort((a, b) => a.storedAt - b.storedAt)
+        .forEach(segment => persisted.set(segment.url, segment.bytes));
+      this.persistedBytes = segments.reduce((total, segment) => total + segment.bytes, 0);
+      return persisted;
+    }, error => {
+      // List again on the next write
+      this.persisted = null;
+      throw error;
+    });
+    return this.persisted;
+  }
+
+  // Records a write and returns the URLs to delete to get back under budget
+  private trackPersisted(persisted: Map<string, number>, url: string, bytes: number): string[] {
+    this.persistedBytes += bytes - (persisted.get(url) ?? 0);
+    persisted.delete(url);
+    persisted.set(url, bytes);
+
+    const victims: string[] = [];
+    for (const [victim, victimBytes] of persisted) {
+      if (this.persistedBytes <= this.config.maxPersistentBytes) break;
+      if (victim === url) continue;
+      persisted.delete(victim);
+      this.persistedBytes -= victimBytes;
+      victims.push(victim);
+    }
+    return victims;
+  }
+
+  private touchPersisted(url: string): void {
+    void this.persisted?.then(persisted => {
+      const bytes = persisted.get(url);
+      if (bytes === undefined) return;
+      persisted.delete(url);
+      persisted.set(url, bytes);
+    });
+  }
+}
+
+export const createSegmentCache = (config: Partial<SegmentCacheConfig> = {}): SegmentCache => {
+  return new SegmentCache({ ...DEFAULT_SEGMENT_CACHE_CONFIG, ...config });
+};
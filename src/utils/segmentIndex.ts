@@ -0,0 +1,151 @@
+import {
+  DASHManifest,
+  HLSByteRange,
+  HLSMediaPlaylist,
+  IndexedSegment,
+  RenditionSegmentIndex,
+  SegmentByteRange,
+  SegmentRef
+} from '../types/player';
+
+// Rounding in summed durations must not send the pipeline back a segment
+const TIME_TOLERANCE = 0.01;
+
+const fromHLSByteRange = (range?: HLSByteRange): SegmentByteRange | undefined => {
+  if (!range) return undefined;
+  const start = range.offset ?? 0;
+  return { start, end: start + range.length - 1 };
+};
+
+// DASH ranges are "first-last", both inclusive
+const fromDASHByteRange = (range?: string): SegmentByteRange | undefined => {
+  const match = range ? /^(\d+)-(\d*)$/.exec(range) : null;
+  if (!match) return undefined;
+  return { start: Number(match[1]), end: match[2] ? Number(match[2]) : undefined };
+};
+
+/**
+ * Segment timeline of an HLS media playlist. The timeline starts at 0 and
+ * GAP segments leave a hole in it rather than being fetched.
+ */
+export const createHLSSegmentIndex = (playlist: HLSMediaPlaylist): RenditionSegmentIndex => {
+  const segments: IndexedSegment[] = [];
+  let start = 0;
+
+  playlist.segments.forEach(segment => {
+    if (!segment.gap) {
+      segments.push({
+        url: segment.uri,
+        byteRange: fromHLSByteRange(segment.byteRange),
+        start,
+        duration: segment.duration,
+        init: segment.map && { url: segment.map.uri, byteRange: fromHLSByteRange(segment.map.byteRange) },
+        sequenceNumber: segment.sequenceNumber
+      });
+    }
+    start += segment.duration;
+  });
+
+  return { segments, duration: start, isLive: playlist.isLive };
+};
+
+/**
+ * Segment timeline of one DASH representation, across every period that
+ * carries it
+ */
+export const createDASHSegmentIndex = (manifest: DASHManifest, representationId: string): RenditionSegmentIndex => {
+  const segments: IndexedSegment[] = [];
+
+  manifest.periods.forEach(period => {
+    period.adaptationSets.forEach(adaptationSet => {
+      const representation = adaptationSet.representations.find(({ id }) => id === representationId);
+      const segmentIndex = representation?.segmentIndex;
+      if (!segmentIndex) return;
+
+      const { initialization } = segmentIndex;
+      const init = initialization && { url: initialization.url, byteRange: fromDASHByteRange(initialization.byteRange) };
+      segmentIndex.segments.forEach(segment => {
+        segments.push({
+          url: segment.url,
+          byteRange: fromDASHByteRange(segment.byteRange),
+          start: segment.start,
+          duration: segment.duration,
+          init
+        });
+      });
+    });
+  });
+
+  const last = segments[segments.length - 1];
+  return {
+    segments,
+    duration: manifest.duration || (last ? last.start + last.duration : 0),
+    isLive: manifest.isLive
+  };
+};
+
+/**
+ * Position of the first segment that ends after `time`: the one playing at
+ * that time, or the next one after a gap. -1 past the end of the index.
+ */
+export const findSegmentAt = (index: RenditionSegmentIndex, time: number): number => {
+  const { segments } = index;
+  let low = 0;
+  let high = segments.length;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    const segment = segments[middle];
+    if (segment.start + segment.duration <= time + TIME_TOLERANCE) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low < segments.length ? low : -1;
+};
+
+/**
+ * Put a reloaded live index on the timeline of one already in use. Every
+ * HLS playlist load starts its timeline at 0, so segments are lined up by
+ * media sequence number (shared by all renditions); DASH timelines are
+ * absolute already and come back unchanged.
+ */
+export const alignSegmentIndex = (
+  current: RenditionSegmentIndex,
+  next: RenditionSegmentIndex
+): RenditionSegmentIndex => {
+  const last = current.segments[current.segments.length - 1];
+  const lastSequence = last?.sequenceNumber;
+  if (lastSequence === undefined) return next;
+
+  let offset: number | undefined;
+  for (const segment of next.segments) {
+    const match = current.segments.find(({ sequenceNumber }) => sequenceNumber === segment.sequenceNumber);
+    if (match) {
+      offset = match.start - segment.start;
+      break;
+    }
+  }
+  if (offset === undefined) {
+    // Nothing in common: the new playlist carries on where the old one ended
+    const following = next.segments.find(({ sequenceNumber }) => (sequenceNumber ?? -Infinity) > lastSequence);
+    if (!following) return next;
+    offset = last.start + last.duration - following.start;
+  }
+
+  const shift = offset;
+  return {
+    ...next,
+    segments: next.segments.map(segment => ({ ...segment, start: segment.start + shift })),
+    duration: next.duration + shift
+  };
+};
+
+/**
+ * Identity of a segment request; byte ranges of one file are distinct segments
+ */
+export const getSegmentKey = ({ url, byteRange }: SegmentRef): string => {
+  return byteRange ? `${url}|bytes=${byteRange.start}-${byteRange.end ?? ''}` : url;
+};
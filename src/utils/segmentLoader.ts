@@ -0,0 +1,238 @@
+import {
+  SegmentByteRange,
+  SegmentLoadEvent,
+  SegmentLoaderEventMap,
+  SegmentLoaderListener,
+  SegmentRequestKind
+} from '../types/player';
+import { resolveUrl } from './url';
+
+type SegmentLoaderListeners = {
+  [K in keyof SegmentLoaderEventMap]?: SegmentLoaderListener<K>[];
+};
+
+export interface SegmentLoaderConfig {
+  // Base URLs of CDNs serving the same paths, in order of preference
+  baseUrls: string[];
+  // Milliseconds an attempt may take, body included
+  timeout: number;
+  maxRetries: number;
+  // Retry n waits about retryDelay * 2^(n-1) ms, capped at maxRetryDelay
+  retryDelay: number;
+  maxRetryDelay: number;
+  // Transport; the global fetch unless set, e.g. to a NetworkEmulator's fetch
+  fetch?: typeof fetch;
+}
+
+export const DEFAULT_SEGMENT_LOADER_CONFIG: SegmentLoaderConfig = {
+  baseUrls: [],
+  timeout: 10000,
+  maxRetries: 3,
+  retryDelay: 250,
+  maxRetryDelay: 4000
+};
+
+export interface SegmentRequest {
+  url: string;
+  byteRange?: SegmentByteRange;
+  signal?: AbortSignal;
+  // 'segment' unless set
+  kind?: SegmentRequestKind;
+}
+
+type AttemptResult =
+  | { event: SegmentLoadEvent; data: ArrayBuffer }
+  | { event: SegmentLoadEvent; data?: undefined; message: string; retryable: boolean };
+
+// Weight of the latest outcome in a host's health score
+const HEALTH_WEIGHT = 0.3;
+// A host nobody has asked lately drifts back to full health over this long (ms)
+const HEALTH_RECOVERY_TIME = 30000;
+// Client errors that can clear up on their own; other 4xx won't
+const RETRYABLE_STATUSES = [408, 429];
+
+const ABSOLUTE_URL_PATTERN = /^[a-z][a-z\d+.-]*:/i;
+
+/**
+ * Fetches segments with per-attempt timeouts, exponential backoff with
+ * jitter and failover across CDNs. Each base URL keeps a health score
+ * (1 = every recent request succeeded) and requests go to the healthiest.
+ */
+export class SegmentLoader {
+  private config: SegmentLoaderConfig;
+  private health: Map<string, { score: number; updatedAt: number }> = new Map();
+  private listeners: SegmentLoaderListeners = {};
+
+  constructor(config: SegmentLoaderConfig) {
+    this.config = config;
+    config.baseUrls.forEach(baseUrl => this.health.set(baseUrl, { score: 1, updatedAt: 0 }));
+  }
+
+  async load(request: SegmentRequest): Promise<ArrayBuffer> {
+    const attempts = this.config.maxRetries + 1;
+    let lastMessage = '';
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      if (request.signal?.aborted) break;
+
+      const { url, host } = this.pickCandidate(request.url);
+      const result = await this.attempt(url, host, attempt, request);
+      this.recordHealth(host, !!result.data);
+
+      if (result.data) {
+        this.emit('load', result.event);
+        return result.data;
+      }
+
+      const willRetry = result.retryable && attempt < attempts && !request.signal?.aborted;
+      this.emit('error', { ...result.event, message: result.message, willRetry });
+      lastMessage = result.message;
+      if (!willRetry) break;
+
+      await this.backoff(attempt, request.signal);
+    }
+
+    if (request.signal?.aborted) {
+      throw new Error(`Segment request aborted: ${request.url}`);
+    }
+    throw new Error(`Failed to load segment ${request.url}: ${lastMessage}`);
+  }
+
+  /**
+   * Health score per base URL, from 0 (failing) to 1 (healthy)
+   */
+  getHostHealth(): Record<string, number> {
+    const health: Record<string, number> = {};
+    this.health.forEach((_, host) => {
+      health[host] = this.getScore(host);
+    });
+    return health;
+  }
+
+  private getScore(host: string): number {
+    const entry = this.health.get(host);
+    if (!entry) return 0;
+
+    const recovered = Math.min(1, (Date.now() - entry.updatedAt) / HEALTH_RECOVERY_TIME);
+    return entry.score + (1 - entry.score) * recovered;
+  }
+
+  // The same path on the healthiest CDN; URLs outside the base URLs load as given
+  private pickCandidate(url: string): { url: string; host: string } {
+    const origin = this.config.baseUrls.find(baseUrl => url.startsWith(baseUrl));
+    if (!this.health.size || (!origin && ABSOLUTE_URL_PATTERN.test(url))) {
+      return { url, host: origin || '' };
+    }
+
+    const host = this.getHealthiestHost();
+    return { url: origin ? host + url.slice(origin.length) : resolveUrl(url, host), host };
+  }
+
+  // Ties go to the earlier base URL
+  private getHealthiestHost(): string {
+    let best = '';
+    let bestScore = -1;
+    this.health.forEach((_, host) => {
+      const score = this.getScore(host);
+      if (score > bestScore) {
+        best = host;
+        bestScore = score;
+      }
+    });
+    return best;
+  }
+
+  private recordHealth(host: string, ok: boolean): void {
+    if (this.health.has(host)) {
+      const score = this.getScore(host);
+      this.health.set(host, { score: score + HEALTH_WEIGHT * ((ok ? 1 : 0) - score), updatedAt: Date.now() });
+    }
+  }
+
+  private async attempt(url: string, host: string, attempt: number, request: SegmentRequest): Promise<AttemptResult> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    request.signal?.addEventListener('abort', abort);
+    const timer = setTimeout(abort, this.config.timeout);
+
+    const { byteRange } = request;
+    const headers = byteRange ? { Range: `bytes=${byteRange.start}-${byteRange.end ?? ''}` } : undefined;
+    const event: SegmentLoadEvent = {
+      url, kind: request.kind ?? 'segment', host, bytes: 0, ttfb: 0, duration: 0, status: 0, attempt
+    };
+    const startTime = performance.now();
+
+    try {
+      const transport = this.config.fetch ?? fetch;
+      const response = await transport(url, { signal: controller.signal, headers });
+      event.ttfb = performance.now() - startTime;
+      event.status = response.status;
+      if (!response.ok) {
+        const retryable = response.status >= 500 || RETRYABLE_STATUSES.includes(response.status);
+        event.duration = event.ttfb;
+        return { event, message: `HTTP ${response.status}`, retryable };
+      }
+
+      let data = await response.arrayBuffer();
+      event.bytes = data.byteLength;
+      event.duration = performance.now() - startTime;
+      // A server that ignores Range sends the whole file
+      if (byteRange && response.status === 200) {
+        data = data.slice(byteRange.start, byteRange.end !== undefined ? byteRange.end + 1 : undefined);
+      }
+      return { event, data };
+    } catch (error) {
+      event.duration = performance.now() - startTime;
+      const cancelled = !!request.signal?.aborted;
+      const message = controller.signal.aborted && !cancelled
+        ? `timed out after ${this.config.timeout}ms`
+        : error instanceof Error ? error.message : 'network error';
+      return { event, message, retryable: !cancelled };
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  // Equal jitter: half the delay is fixed, half random, so players that
+  // failed together don't retry together
+  private backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+    const delay = Math.min(this.config.maxRetryDelay, this.config.retryDelay * 2 ** (attempt - 1));
+    const jittered = delay / 2 + Math.random() * (delay / 2);
+
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, jittered);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+  }
+
+  on<K extends keyof SegmentLoaderEventMap>(event: K, listener: SegmentLoaderListener<K>): void {
+    const listeners = (this.listeners[event] || []) as SegmentLoaderListener<K>[];
+    listeners.push(listener);
+    (this.listeners as Record<K, SegmentLoaderListener<K>[]>)[event] = listeners;
+  }
+
+  off<K extends keyof SegmentLoaderEventMap>(event: K, listener: SegmentLoaderListener<K>): void {
+    const listeners = this.listeners[event] as SegmentLoaderListener<K>[] | undefined;
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  private emit<K extends keyof SegmentLoaderEventMap>(event: K, data: SegmentLoaderEventMap[K]): void {
+    const listeners = this.listeners[event] as SegmentLoaderListener<K>[] | undefined;
+    if (listeners) {
+      listeners.forEach(listener => listener(data));
+    }
+  }
+}
+
+export const createSegmentLoader = (config: Partial<SegmentLoaderConfig> = {}): SegmentLoader => {
+  return new SegmentLoader({ ...DEFAULT_SEGMENT_LOADER_CONFIG, ...config });
+};
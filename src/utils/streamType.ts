@@ -0,0 +1,43 @@
+export type StreamType = 'hls' | 'dash' | 'progressive';
+
+const HLS_CONTENT_TYPES = ['application/vnd.apple.mpegurl', 'application/x-mpegurl', 'audio/mpegurl'];
+const DASH_CONTENT_TYPES = ['application/dash+xml'];
+const PROGRESSIVE_EXTENSIONS = ['mp4', 'm4v', 'webm', 'ogv', 'mov'];
+
+/**
+ * Detect the streaming protocol of a source from its URL or content-type.
+ * Returns null when neither gives a conclusive answer.
+ */
+export const detectStreamType = (url: string, contentType?: string | null): StreamType | null => {
+  if (contentType) {
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    if (DASH_CONTENT_TYPES.includes(mimeType)) return 'dash';
+    if (HLS_CONTENT_TYPES.includes(mimeType)) return 'hls';
+    if (mimeType.startsWith('video/') || mimeType.startsWith('audio/')) return 'progressive';
+  }
+
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  const extension = path.split('.').pop() || '';
+
+  if (extension === 'mpd') return 'dash';
+  if (extension === 'm3u8') return 'hls';
+  if (PROGRESSIVE_EXTENSIONS.includes(extension)) return 'progressive';
+
+  return null;
+};
+
+/**
+ * Resolve the stream type for a player source. An explicit DASH flag always
+ * wins, then URL/content-type sniffing, then the HLS flag.
+ */
+export const resolveStreamType = (
+  url: string,
+  options: { isHLS?: boolean; isDASH?: boolean; contentType?: string | null } = {}
+): StreamType => {
+  if (options.isDASH) return 'dash';
+
+  const detected = detectStreamType(url, options.contentType);
+  if (detected) return detected;
+
+  return options.isHLS ? 'hls' : 'progressive';
+};
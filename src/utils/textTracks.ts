@@ -0,0 +1,291 @@
+import {
+  CaptionCue,
+  PlaybackEngine,
+  PlaybackEngineEventMap,
+  SidecarTextTrack,
+  TextTrackEventMap,
+  TextTrackInfo,
+  TextTrackListener
+} from '../types/player';
+import { detectTextTrackFormat, getActiveCues, parseCaptions, stripMarkup } from './captions';
+
+interface SidecarEntry {
+  info: TextTrackInfo;
+  cues: CaptionCue[];
+}
+
+type TextTrackListeners = {
+  [K in keyof TextTrackEventMap]?: TextTrackListener<K>[];
+};
+
+const sameCues = (a: CaptionCue[], b: CaptionCue[]): boolean => {
+  return a.length === b.length && a.every((cue, i) => (
+    cue.start === b[i].start && cue.end === b[i].end && cue.text === b[i].text
+  ));
+};
+
+const toCaptionCues = (cues: TextTrackCueList | null): CaptionCue[] => {
+  return Array.from(cues || [], cue => ({
+    start: cue.startTime,
+    end: cue.endTime,
+    text: stripMarkup((cue as TextTrackCue & { text?: string }).text || '')
+  }));
+};
+
+/**
+ * Single list of text tracks across the playback engine (manifest and
+ * embedded tracks) and sidecar files, and the source of the cues to render
+ * for the selected one. Native tracks are kept 'hidden' so the browser's
+ * own caption display never doubles the player's.
+ */
+export class TextTrackManager {
+  private videoElement: HTMLVideoElement | null = null;
+  private engine: PlaybackEngine | null = null;
+  private engineTracks: TextTrackInfo[] = [];
+  private sidecars: SidecarEntry[] = [];
+  private sidecarCount = 0;
+  // Bumped whenever the sidecar list is replaced, to drop stale loads
+  private sidecarGeneration = 0;
+  private selected: TextTrackInfo | null = null;
+  private nativeTrack: TextTrack | null = null;
+  private cues: CaptionCue[] = [];
+  private listeners: TextTrackListeners = {};
+
+  attach(videoElement: HTMLVideoElement): void {
+    this.videoElement = videoElement;
+    videoElement.addEventListener('timeupdate', this.updateCues);
+    videoElement.addEventListener('seeked', this.updateCues);
+
+    const nativeTracks = videoElement.textTracks;
+    if (nativeTracks && typeof nativeTracks.addEventListener === 'function') {
+      nativeTracks.addEventListener('addtrack', this.syncNativeTracks);
+      nativeTracks.addEventListener('change', this.syncNativeTracks);
+    }
+  }
+
+  /**
+   * Follow the tracks of a newly loaded engine, or none. A selected engine
+   * track is dropped since it belonged to the previous source.
+   */
+  setEngine(engine: PlaybackEngine | null): void {
+    if (this.engine) {
+      this.engine.off('textTracksChanged', this.handleEngineTracks);
+    }
+
+    this.engine = engine;
+    this.engineTracks = engine ? engine.getTextTracks() : [];
+    if (engine) {
+      engine.on('textTracksChanged', this.handleEngineTracks);
+    }
+
+    if (this.selected && this.selected.source !== 'sidecar') {
+      this.select(null);
+    }
+    this.emitTracks();
+  }
+
+  /**
+   * Replace the sidecar tracks. Files that fail to load or parse are
+   * skipped with a warning.
+   */
+  async setSidecarTracks(tracks: SidecarTextTrack[]): Promise<void> {
+    const generation = ++this.sidecarGeneration;
+
+    if (this.selected?.source === 'sidecar') {
+      this.select(null);
+    }
+    if (this.sidecars.length) {
+      this.sidecars = [];
+      this.emitTracks();
+    }
+
+    const loaded = await Promise.all(tracks.map(track => this.loadSidecar(track)));
+    if (generation !== this.sidecarGeneration) return;
+
+    this.sidecars = loaded.filter((entry): entry is SidecarEntry => entry !== null);
+    this.emitTracks();
+
+    const defaultIndex = tracks.findIndex(track => track.default);
+    const defaultEntry = loaded[defaultIndex];
+    if (defaultEntry && !this.selected) {
+      this.select(defaultEntry.info.id);
+    }
+  }
+
+  private async loadSidecar(track: SidecarTextTrack): Promise<SidecarEntry | null> {
+    try {
+      const response = await fetch(track.src);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const text = await response.text();
+      const format = track.format || detectTextTrackFormat(track.src, response.headers.get('Content-Type') || '', text);
+      const cues = parseCaptions(text, format);
+      const index = ++this.sidecarCount;
+
+      return {
+        info: {
+          id: `sidecar-${index}`,
+          label: track.label || track.language || `Track ${index}`,
+          language: track.language || '',
+          kind: track.kind || 'subtitles',
+          source: 'sidecar'
+        },
+        cues
+      };
+    } catch (error) {
+      console.warn('Failed to load text track:', track.src, error);
+      return null;
+    }
+  }
+
+  getTracks(): TextTrackInfo[] {
+    return [...this.engineTracks, ...this.sidecars.map(entry => entry.info)];
+  }
+
+  getCurrentTrack(): TextTrackInfo | null {
+    return this.selected;
+  }
+
+  getCues(): CaptionCue[] {
+    return this.cues;
+  }
+
+  /**
+   * Show a track by id, or turn text off with null. Unknown ids are ignored.
+   */
+  select(id: string | null): void {
+    const track = id ? this.getTracks().find(candidate => candidate.id === id) : null;
+    if (id && !track) return;
+
+    this.releaseNativeTrack();
+    this.selected = track || null;
+
+    if (this.engine) {
+      this.engine.setTextTrack(track && track.source !== 'sidecar' ? track.id : null);
+    }
+    this.syncNativeTracks();
+
+    this.emit('trackChanged', { track: this.selected });
+    this.updateCues();
+  }
+
+  private handleEngineTracks = ({ tracks }: PlaybackEngineEventMap['textTracksChanged']): void => {
+    this.engineTracks = tracks;
+
+    if (this.selected && this.selected.source !== 'sidecar' && !tracks.some(track => track.id === this.selected?.id)) {
+      this.select(null);
+    }
+    this.syncNativeTracks();
+    this.emitTracks();
+  };
+
+  /**
+   * Bind the native track of the selected engine track once it exists and
+   * keep every native track out of the browser's caption display. Engines
+   * switch tracks to 'showing' when selecting them.
+   */
+  private syncNativeTracks = (): void => {
+    const nativeTracks = this.videoElement?.textTracks;
+    if (!nativeTracks) return;
+
+    if (this.selected && this.selected.source !== 'sidecar' && !this.nativeTrack && this.engine) {
+      const nativeTrack = this.engine.getNativeTextTrack(this.selected.id);
+      if (nativeTrack) {
+        this.nativeTrack = nativeTrack;
+        nativeTrack.addEventListener('cuechange', this.updateCues);
+      }
+    }
+
+    for (let i = 0; i < nativeTracks.length; i++) {
+      const nativeTrack = nativeTracks[i];
+      if (nativeTrack === this.nativeTrack) {
+        if (nativeTrack.mode !== 'hidden') nativeTrack.mode = 'hidden';
+      } else if (nativeTrack.mode === 'showing') {
+        nativeTrack.mode = 'disabled';
+      }
+    }
+  };
+
+  private releaseNativeTrack(): void {
+    if (this.nativeTrack) {
+      this.nativeTrack.removeEventListener('cuechange', this.updateCues);
+      this.nativeTrack.mode = 'disabled';
+      this.nativeTrack = null;
+    }
+  }
+
+  private updateCues = (): void => {
+    let cues: CaptionCue[] = [];
+
+    if (this.selected?.source === 'sidecar') {
+      const entry = this.sidecars.find(sidecar => sidecar.info.id === this.selected?.id);
+      cues = entry && this.videoElement ? getActiveCues(entry.cues, this.videoElement.currentTime) : [];
+    } else if (this.nativeTrack) {
+      cues = toCaptionCues(this.nativeTrack.activeCues);
+    }
+
+    if (!sameCues(cues, this.cues)) {
+      this.cues = cues;
+      this.emit('cuesChanged', { cues });
+    }
+  };
+
+  private emitTracks(): void {
+    this.emit('tracksChanged', { tracks: this.getTracks() });
+  }
+
+  on<K extends keyof TextTrackEventMap>(event: K, listener: TextTrackListener<K>): void {
+    const listeners = (this.listeners[event] || []) as TextTrackListener<K>[];
+    listeners.push(listener);
+    (this.listeners as Record<K, TextTrackListener<K>[]>)[event] = listeners;
+  }
+
+  off<K extends keyof TextTrackEventMap>(event: K, listener: TextTrackListener<K>): void {
+    const listeners = this.listeners[event] as TextTrackListener<K>[] | undefined;
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  private emit<K extends keyof TextTrackEventMap>(event: K, data: TextTrackEventMap[K]): void {
+    const listeners = this.listeners[event] as TextTrackListener<K>[] | undefined;
+    if (listeners) {
+      listeners.forEach(listener => listener(data));
+    }
+  }
+
+  destroy(): void {
+    this.releaseNativeTrack();
+    if (this.engine) {
+      this.engine.off('textTracksChanged', this.handleEngineTracks);
+      this.engine = null;
+    }
+
+    if (this.videoElement) {
+      this.videoElement.removeEventListener('timeupdate', this.updateCues);
+      this.videoElement.removeEventListener('seeked', this.updateCues);
+      const nativeTracks = this.videoElement.textTracks;
+      if (nativeTracks && typeof nativeTracks.removeEventListener === 'function') {
+        nativeTracks.removeEventListener('addtrack', this.syncNativeTracks);
+        nativeTracks.removeEventListener('change', this.syncNativeTracks);
+      }
+      this.videoElement = null;
+    }
+
+    this.sidecarGeneration++;
+    this.engineTracks = [];
+    this.sidecars = [];
+    this.selected = null;
+    this.cues = [];
+    this.listeners = {};
+  }
+}
+
+export const createTextTrackManager = (): TextTrackManager => {
+  return new TextTrackManager();
+};
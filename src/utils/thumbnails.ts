@@ -0,0 +1,105 @@
+import { ThumbnailCue, ThumbnailSprite, ThumbnailSpriteLayout } from '../types/player';
+import { resolveUrl } from './url';
+
+export interface ThumbnailTrackSource {
+  url: string;
+  revoke: () => void;
+}
+
+const formatVTTTime = (seconds: number): string => {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:` +
+    `${secs.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
+};
+
+// Accepts both hh:mm:ss.ttt and mm:ss.ttt
+const parseVTTTime = (value: string): number => {
+  const parts = value.trim().split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+/**
+ * Build a WebVTT thumbnails track with one #xywh= cue per sprite tile.
+ */
+export const buildThumbnailVTT = (layout: ThumbnailSpriteLayout, imageUrl: string): string => {
+  const cues: string[] = ['WEBVTT', ''];
+
+  for (let i = 0; i < layout.count; i++) {
+    const start = i * layout.interval;
+    const end = Math.min((i + 1) * layout.interval, layout.duration);
+    const x = (i % layout.columns) * layout.tileWidth;
+    const y = Math.floor(i / layout.columns) * layout.tileHeight;
+
+    cues.push(
+      `${formatVTTTime(start)} --> ${formatVTTTime(end)}`,
+      `${imageUrl}#xywh=${x},${y},${layout.tileWidth},${layout.tileHeight}`,
+      ''
+    );
+  }
+
+  return cues.join('\n');
+};
+
+/**
+ * Parse a WebVTT thumbnails track. Image URLs are resolved against the
+ * track's own URL.
+ */
+export const parseThumbnailVTT = (text: string, baseUrl?: string): ThumbnailCue[] => {
+  const cues: ThumbnailCue[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  lines.forEach((line, i) => {
+    const timing = /^\s*([\d:.]+)\s+-->\s+([\d:.]+)/.exec(line);
+    const payload = lines[i + 1]?.trim();
+    if (!timing || !payload) return;
+
+    const [reference, fragment] = payload.split('#xywh=');
+    const cue: ThumbnailCue = {
+      start: parseVTTTime(timing[1]),
+      end: parseVTTTime(timing[2]),
+      url: resolveUrl(reference, baseUrl),
+    };
+
+    const region = fragment?.split(',').map(Number);
+    if (region?.length === 4 && region.every(Number.isFinite)) {
+      cue.region = { x: region[0], y: region[1], width: region[2], height: region[3] };
+    }
+
+    cues.push(cue);
+  });
+
+  return cues;
+};
+
+/**
+ * Find the cue for a playback position; positions past the last cue keep its frame.
+ */
+export const findThumbnailCue = (cues: ThumbnailCue[], time: number): ThumbnailCue | null => {
+  const cue = cues.find(candidate => time >= candidate.start && time < candidate.end);
+  if (cue) return cue;
+
+  const last = cues[cues.length - 1];
+  return last && time >= last.end ? last : null;
+};
+
+/**
+ * Expose an in-memory sprite (e.g. from FFmpegProcessor.generateThumbnailSprite)
+ * as a thumbnails track URL the player can load.
+ */
+export const createThumbnailTrackSource = (sprite: ThumbnailSprite): ThumbnailTrackSource => {
+  const imageUrl = URL.createObjectURL(new Blob([sprite.image as BlobPart], { type: sprite.mimeType }));
+  const url = URL.createObjectURL(new Blob([buildThumbnailVTT(sprite, imageUrl)], { type: 'text/vtt' }));
+
+  return {
+    url,
+    revoke: () => {
+      URL.revokeObjectURL(url);
+      URL.revokeObjectURL(imageUrl);
+    },
+  };
+};
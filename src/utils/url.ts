@@ -0,0 +1,13 @@
+/**
+ * Resolve a manifest-relative URL against its base.
+ */
+export const resolveUrl = (url: string, base?: string): string => {
+  if (!base || /^[a-z][a-z\d+.-]*:/i.test(url)) return url;
+
+  try {
+    return new URL(url, base).href;
+  } catch {
+    // Relative base with no manifest URL to anchor it
+    return base.substring(0, base.lastIndexOf('/') + 1) + url;
+  }
+};